@@ -25,7 +25,8 @@ HX711 scale;
 // Configuration
 const float CALIBRATION_FACTOR = -7050.0; // Adjust this value for your load cell
 const String SENSOR_ID = "ESP32_SCALE_001";
-const String USER_ID = "your-user-id"; // Replace with actual user ID
+const String DEVICE_ID = "your-device-id"; // Device ID from Device Management
+const String DEVICE_TOKEN = "your-device-token"; // Token shown once when the device is added
 const unsigned long SEND_INTERVAL = 5000; // Send data every 5 seconds
 const float WEIGHT_THRESHOLD = 5.0; // Minimum weight change to trigger send (grams)
 
@@ -33,6 +34,8 @@ const float WEIGHT_THRESHOLD = 5.0; // Minimum weight change to trigger send (gr
 float lastWeight = 0.0;
 unsigned long lastSendTime = 0;
 String currentBarcode = "";
+String sessionToken = ""; // Short-lived session from esp32-device-auth
+unsigned long sessionExpiresAt = 0;
 
 void setup() {
   Serial.begin(115200);
@@ -183,11 +186,69 @@ bool shouldSendData(float currentWeight) {
   return false;
 }
 
+// Gets a short-lived session from esp32-device-auth, refreshing the current
+// one when possible and otherwise authenticating with the device token.
+// Readings carry the session instead of the device token.
+bool ensureDeviceSession() {
+  if (sessionToken.length() > 0 && (long)(sessionExpiresAt - millis()) > 0) {
+    return true;
+  }
+
+  if (sessionToken.length() > 0) {
+    DynamicJsonDocument refresh(1024);
+    refresh["session_token"] = sessionToken;
+    if (requestDeviceSession(refresh)) {
+      return true;
+    }
+  }
+
+  DynamicJsonDocument credentials(512);
+  credentials["device_id"] = DEVICE_ID;
+  credentials["device_token"] = DEVICE_TOKEN;
+  sessionToken = "";
+  return requestDeviceSession(credentials);
+}
+
+bool requestDeviceSession(DynamicJsonDocument& request) {
+  String body;
+  serializeJson(request, body);
+
+  HTTPClient http;
+  http.begin(String(supabaseUrl) + "/functions/v1/esp32-device-auth");
+  http.addHeader("Content-Type", "application/json");
+  http.addHeader("apikey", supabaseAnonKey);
+
+  int httpResponseCode = http.POST(body);
+  String response = http.getString();
+  http.end();
+
+  if (httpResponseCode != 200) {
+    Serial.println("Device auth failed (" + String(httpResponseCode) + "): " + response);
+    return false;
+  }
+
+  DynamicJsonDocument session(1024);
+  if (deserializeJson(session, response)) {
+    return false;
+  }
+
+  sessionToken = session["session_token"].as<String>();
+  // Renew a minute before the session expires
+  unsigned long expiresIn = session["expires_in"] | 900;
+  sessionExpiresAt = millis() + (expiresIn > 120 ? expiresIn - 60 : expiresIn / 2) * 1000UL;
+  return sessionToken.length() > 0;
+}
+
 void sendWeightToSupabase(float weightGrams) {
   if (WiFi.status() != WL_CONNECTED) {
     Serial.println("WiFi not connected");
     return;
   }
+
+  if (!ensureDeviceSession()) {
+    Serial.println("Cannot send data - device not authenticated");
+    return;
+  }
   
   HTTPClient http;
   http.begin("https://yzcpouogmvmfycnrauqr.supabase.co/functions/v1/esp32-weight-receiver");
@@ -196,13 +257,13 @@ void sendWeightToSupabase(float weightGrams) {
   http.addHeader("Content-Type", "application/json");
   http.addHeader("Authorization", "Bearer " + String(supabaseAnonKey));
   http.addHeader("apikey", supabaseAnonKey);
+  http.addHeader("X-Device-Session", sessionToken);
   
   // Create JSON payload
   StaticJsonDocument<300> doc;
   doc["barcode"] = currentBarcode.length() > 0 ? currentBarcode : "DEMO123";
   doc["weight_value"] = weightGrams;
   doc["sensor_id"] = SENSOR_ID;
-  doc["user_id"] = USER_ID;
   doc["weight_unit"] = "grams";
   
   // Add sensor data (optional)
@@ -221,6 +282,9 @@ void sendWeightToSupabase(float weightGrams) {
     String response = http.getString();
     Serial.println("HTTP Response: " + String(httpResponseCode));
     Serial.println("Response: " + response);
+    if (httpResponseCode == 401) {
+      sessionExpiresAt = millis(); // Refresh or re-authenticate before the next send
+    }
     
     // Show success on LCD briefly
     lcd.clear();
@@ -5,6 +5,7 @@
 #include <WiFi.h>
 #include <HTTPClient.h>
 #include <ArduinoJson.h>
+#include <Preferences.h>
 
 // WiFi credentials
 const char* ssid = "Aashrith";
@@ -27,7 +28,10 @@ HX711 scale;
 // Configuration
 float calibration_factor = 2280.0;
 String sensorId = "ESP32_SCALE_001";
-String userId = "3424388f-d99f-4e58-b319-bfaefabbe350"; // Replace with actual user ID
+String deviceId = "YOUR_DEVICE_ID"; // Device ID from Device Management
+String deviceToken = "YOUR_DEVICE_TOKEN"; // Token shown once when the device is added
+String sessionToken = ""; // Short-lived session from esp32-device-auth
+unsigned long sessionExpiresAt = 0;
 String currentBarcode = "";
 String currentProductName = "";
 bool calibrationMode = false;
@@ -38,6 +42,31 @@ const unsigned long SEND_INTERVAL = 2000; // Send data every 2 seconds
 float lastSentWeight = 0;
 const float WEIGHT_THRESHOLD = 5; // Send if weight changes by more than 5g
 
+// Readings waiting to be sent. They stay here while WiFi or the server is
+// down and are sent in batches once it is back.
+struct BufferedReading {
+  uint32_t sequence;
+  float weight;
+  String barcode;
+  unsigned long takenAt;
+};
+
+const int BUFFER_CAPACITY = 64; // Oldest readings are dropped beyond this
+const int BATCH_SIZE = 20;
+const unsigned long FLUSH_RETRY_INTERVAL = 10000; // Wait 10 seconds after a failed send
+const uint32_t SEQUENCE_BLOCK = 100;
+BufferedReading readingBuffer[BUFFER_CAPACITY];
+int bufferStart = 0;
+int bufferCount = 0;
+unsigned long nextFlushAt = 0;
+
+// Sequence numbers identify each reading to the server so a resent batch is
+// not stored twice. They are reserved in flash in blocks so they keep
+// increasing across restarts without a flash write per reading.
+Preferences preferences;
+uint32_t nextSequence = 0;
+uint32_t reservedSequence = 0;
+
 void setup() {
   Serial.begin(115200);
   Serial.println("Smart Scale with Serial Barcode Input v2.0");
@@ -51,6 +80,11 @@ void setup() {
   lcd.setCursor(0, 1);
   lcd.print("Initializing...");
   
+  // Continue sequence numbers after the last reserved block
+  preferences.begin("smart_scale", false);
+  nextSequence = preferences.getUInt("next_seq", 0);
+  reservedSequence = nextSequence;
+
   // Initialize WiFi
   connectToWiFi();
   
@@ -73,12 +107,15 @@ void loop() {
     // Display weight and product info
     displayWeightAndProduct(currentWeight);
     
-    // Send data to Supabase if conditions are met and we have a barcode
+    // Buffer a reading if conditions are met and we have a barcode
     if (shouldSendData(currentWeight) && currentBarcode != "") {
-      sendWeightToSupabase(currentWeight);
+      bufferReading(currentWeight);
       lastSentWeight = currentWeight;
       lastWeightSend = millis();
     }
+
+    // Send buffered readings, including any taken while offline
+    flushReadings();
   }
 
   delay(500);
@@ -277,50 +314,140 @@ bool shouldSendData(float currentWeight) {
          (abs(currentWeight - lastSentWeight) > WEIGHT_THRESHOLD || lastWeightSend == 0);
 }
 
-void sendWeightToSupabase(float weightGrams) {
-  if (WiFi.status() != WL_CONNECTED || currentBarcode == "") {
-    Serial.println("Cannot send data - WiFi disconnected or no barcode");
+// Gets a short-lived session from esp32-device-auth, refreshing the current
+// one when possible and otherwise authenticating with the device token.
+// Readings carry the session instead of the device token.
+bool ensureDeviceSession() {
+  if (sessionToken.length() > 0 && (long)(sessionExpiresAt - millis()) > 0) {
+    return true;
+  }
+
+  if (sessionToken.length() > 0) {
+    DynamicJsonDocument refresh(1024);
+    refresh["session_token"] = sessionToken;
+    if (requestDeviceSession(refresh)) {
+      return true;
+    }
+  }
+
+  DynamicJsonDocument credentials(512);
+  credentials["device_id"] = deviceId;
+  credentials["device_token"] = deviceToken;
+  sessionToken = "";
+  return requestDeviceSession(credentials);
+}
+
+bool requestDeviceSession(DynamicJsonDocument& request) {
+  String body;
+  serializeJson(request, body);
+
+  HTTPClient http;
+  http.begin(String(supabaseUrl) + "/functions/v1/esp32-device-auth");
+  http.addHeader("Content-Type", "application/json");
+  http.addHeader("apikey", supabaseKey);
+
+  int httpResponseCode = http.POST(body);
+  String response = http.getString();
+  http.end();
+
+  if (httpResponseCode != 200) {
+    Serial.println("Device auth failed (" + String(httpResponseCode) + "): " + response);
+    return false;
+  }
+
+  DynamicJsonDocument session(1024);
+  if (deserializeJson(session, response)) {
+    return false;
+  }
+
+  sessionToken = session["session_token"].as<String>();
+  // Renew a minute before the session expires
+  unsigned long expiresIn = session["expires_in"] | 900;
+  sessionExpiresAt = millis() + (expiresIn > 120 ? expiresIn - 60 : expiresIn / 2) * 1000UL;
+  return sessionToken.length() > 0;
+}
+
+uint32_t takeSequence() {
+  if (nextSequence >= reservedSequence) {
+    reservedSequence = nextSequence + SEQUENCE_BLOCK;
+    preferences.putUInt("next_seq", reservedSequence);
+  }
+  return nextSequence++;
+}
+
+void bufferReading(float weightGrams) {
+  if (bufferCount == BUFFER_CAPACITY) {
+    bufferStart = (bufferStart + 1) % BUFFER_CAPACITY;
+    bufferCount--;
+    Serial.println("Reading buffer full - dropped oldest reading");
+  }
+
+  BufferedReading& reading = readingBuffer[(bufferStart + bufferCount) % BUFFER_CAPACITY];
+  reading.sequence = takeSequence();
+  reading.weight = weightGrams;
+  reading.barcode = currentBarcode;
+  reading.takenAt = millis();
+  bufferCount++;
+
+  Serial.println("Buffered weight: " + String(weightGrams) + "g for barcode: " + currentBarcode);
+}
+
+// Sends the oldest buffered readings as one batch. Each reading's age lets
+// the server work out when it was taken without a clock on the scale.
+void flushReadings() {
+  if (bufferCount == 0 || (long)(nextFlushAt - millis()) > 0) {
     return;
   }
 
+  if (WiFi.status() != WL_CONNECTED || !ensureDeviceSession()) {
+    nextFlushAt = millis() + FLUSH_RETRY_INTERVAL;
+    return;
+  }
+
+  int batchCount = min(bufferCount, BATCH_SIZE);
+
   HTTPClient http;
   http.begin(String(supabaseUrl) + "/functions/v1/esp32-weight-receiver");
   http.addHeader("Content-Type", "application/json");
   http.addHeader("apikey", supabaseKey);
   http.addHeader("Authorization", "Bearer " + String(supabaseKey));
+  http.addHeader("X-Device-Session", sessionToken);
 
   // Create JSON payload
-  DynamicJsonDocument doc(1024);
-  doc["sensor_id"] = sensorId;
-  doc["user_id"] = userId;
-  doc["weight_value"] = weightGrams;
-  doc["barcode"] = currentBarcode;
-  doc["weight_unit"] = "grams";
-  doc["signal_strength"] = WiFi.RSSI();
-  doc["battery_level"] = 85; // Static for now
-  doc["temperature"] = 22.5; // Static for now
-  
+  DynamicJsonDocument doc(4096);
+  JsonArray readings = doc.createNestedArray("readings");
+  unsigned long now = millis();
+  for (int i = 0; i < batchCount; i++) {
+    BufferedReading& reading = readingBuffer[(bufferStart + i) % BUFFER_CAPACITY];
+    JsonObject item = readings.createNestedObject();
+    item["sequence"] = reading.sequence;
+    item["barcode"] = reading.barcode;
+    item["weight_value"] = reading.weight;
+    item["age_ms"] = now - reading.takenAt;
+  }
+
   String jsonString;
   serializeJson(doc, jsonString);
 
-  Serial.println("Sending weight data: " + String(weightGrams) + "g for barcode: " + currentBarcode);
-
   int httpResponseCode = http.POST(jsonString);
-  
-  if (httpResponseCode > 0) {
-    String response = http.getString();
-    if (httpResponseCode == 200) {
-      Serial.println("Data sent successfully!");
-      lcd.setCursor(15, 1);
-      lcd.print("✓");
-    } else {
-      Serial.println("Error response (" + String(httpResponseCode) + "): " + response);
-    }
+  String response = http.getString();
+  http.end();
+
+  if (httpResponseCode == 200) {
+    // The server stored, already had, or rejected as invalid every reading
+    // in the batch, so none of them are resent
+    bufferStart = (bufferStart + batchCount) % BUFFER_CAPACITY;
+    bufferCount -= batchCount;
+    Serial.println("Sent " + String(batchCount) + " readings: " + response);
+    lcd.setCursor(15, 1);
+    lcd.print("✓");
   } else {
-    Serial.println("HTTP Error: " + String(httpResponseCode));
+    Serial.println("Error response (" + String(httpResponseCode) + "): " + response);
+    if (httpResponseCode == 401) {
+      sessionExpiresAt = millis(); // Refresh or re-authenticate before the next send
+    }
+    nextFlushAt = millis() + FLUSH_RETRY_INTERVAL;
   }
-  
-  http.end();
 }
 
 void enterCalibrationMode() {
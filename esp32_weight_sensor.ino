@@ -26,7 +26,10 @@ HX711 scale;
 // Configuration
 float calibration_factor = 2280.0; // Common starting value - adjust as needed
 String sensorId = "ESP32_SCALE_001"; // Unique sensor ID
-String userId = "YOUR_USER_ID"; // Replace with actual user ID
+String deviceId = "YOUR_DEVICE_ID"; // Device ID from Device Management
+String deviceToken = "YOUR_DEVICE_TOKEN"; // Token shown once when the device is added
+String sessionToken = ""; // Short-lived session from esp32-device-auth
+unsigned long sessionExpiresAt = 0;
 String productId = ""; // Will be set when product is detected
 String currentBarcode = ""; // Current product barcode
 bool calibrationMode = false;
@@ -228,22 +231,80 @@ bool shouldSendData(float currentWeight) {
          (abs(currentWeight - lastSentWeight) > WEIGHT_THRESHOLD || lastWeightSend == 0);
 }
 
+// Gets a short-lived session from esp32-device-auth, refreshing the current
+// one when possible and otherwise authenticating with the device token.
+// Readings carry the session instead of the device token.
+bool ensureDeviceSession() {
+  if (sessionToken.length() > 0 && (long)(sessionExpiresAt - millis()) > 0) {
+    return true;
+  }
+
+  if (sessionToken.length() > 0) {
+    DynamicJsonDocument refresh(1024);
+    refresh["session_token"] = sessionToken;
+    if (requestDeviceSession(refresh)) {
+      return true;
+    }
+  }
+
+  DynamicJsonDocument credentials(512);
+  credentials["device_id"] = deviceId;
+  credentials["device_token"] = deviceToken;
+  sessionToken = "";
+  return requestDeviceSession(credentials);
+}
+
+bool requestDeviceSession(DynamicJsonDocument& request) {
+  String body;
+  serializeJson(request, body);
+
+  HTTPClient http;
+  http.begin(String(supabaseUrl) + "/functions/v1/esp32-device-auth");
+  http.addHeader("Content-Type", "application/json");
+  http.addHeader("apikey", supabaseKey);
+
+  int httpResponseCode = http.POST(body);
+  String response = http.getString();
+  http.end();
+
+  if (httpResponseCode != 200) {
+    Serial.println("Device auth failed (" + String(httpResponseCode) + "): " + response);
+    return false;
+  }
+
+  DynamicJsonDocument session(1024);
+  if (deserializeJson(session, response)) {
+    return false;
+  }
+
+  sessionToken = session["session_token"].as<String>();
+  // Renew a minute before the session expires
+  unsigned long expiresIn = session["expires_in"] | 900;
+  sessionExpiresAt = millis() + (expiresIn > 120 ? expiresIn - 60 : expiresIn / 2) * 1000UL;
+  return sessionToken.length() > 0;
+}
+
 void sendWeightToSupabase(float weightGrams) {
   if (WiFi.status() != WL_CONNECTED) {
     Serial.println("WiFi not connected");
     return;
   }
 
+  if (!ensureDeviceSession()) {
+    Serial.println("Cannot send data - device not authenticated");
+    return;
+  }
+
   HTTPClient http;
   // Use the ESP32 weight receiver edge function
   http.begin(String(supabaseUrl) + "/functions/v1/esp32-weight-receiver");
   http.addHeader("Content-Type", "application/json");
   http.addHeader("apikey", supabaseKey);
+  http.addHeader("X-Device-Session", sessionToken);
 
   // Create JSON payload for the edge function
   DynamicJsonDocument doc(1024);
   doc["sensor_id"] = sensorId;
-  doc["user_id"] = userId;
   doc["weight_value"] = weightGrams;
   
   // Use a demo barcode if no specific product is set
@@ -273,6 +334,9 @@ void sendWeightToSupabase(float weightGrams) {
       lcd.print("✓");
     } else {
       Serial.println("Error response: " + response);
+      if (httpResponseCode == 401) {
+        sessionExpiresAt = millis(); // Refresh or re-authenticate before the next send
+      }
     }
   } else {
     Serial.println("Error sending data: " + String(httpResponseCode));
@@ -5,6 +5,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
+import { HouseholdProvider } from "@/hooks/useHousehold";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 
@@ -16,12 +17,14 @@ function App() {
       <TooltipProvider>
         <BrowserRouter>
           <AuthProvider>
-            <Routes>
-              <Route path="/" element={<Index />} />
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-            <Toaster />
-            <Sonner />
+            <HouseholdProvider>
+              <Routes>
+                <Route path="/" element={<Index />} />
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+              <Toaster />
+              <Sonner />
+            </HouseholdProvider>
           </AuthProvider>
         </BrowserRouter>
       </TooltipProvider>
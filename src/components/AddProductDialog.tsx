@@ -8,6 +8,8 @@ import { Upload, Scan, Camera, Sparkles, Loader2, Wand2 } from "lucide-react";
 import { ProductCamera } from "@/components/ProductCamera";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { StorageLocation, getLocationExpiryDate } from "@/hooks/useStorageLocations";
+import { Gs1ElementString } from "@/utils/barcodeDecoder";
 
 interface Category {
   id: string;
@@ -19,6 +21,7 @@ interface AddProductDialogProps {
   onOpenChange: (open: boolean) => void;
   onAddProduct: (product: any) => void;
   categories: Category[];
+  locations?: StorageLocation[];
   initialBarcodeData?: any;
 }
 
@@ -43,7 +46,7 @@ const productImages = {
   "Pasta": "https://images.unsplash.com/photo-1621996346565-e3dbc6d2c5f7?w=400",
 };
 
-export function AddProductDialog({ open, onOpenChange, onAddProduct, categories, initialBarcodeData }: AddProductDialogProps) {
+export function AddProductDialog({ open, onOpenChange, onAddProduct, categories, locations = [], initialBarcodeData }: AddProductDialogProps) {
   const { toast } = useToast();
   const [formData, setFormData] = useState({
     name: "",
@@ -53,7 +56,10 @@ export function AddProductDialog({ open, onOpenChange, onAddProduct, categories,
     expiry_date: "",
     amount: "",
     image_url: "",
-    barcode: ""
+    barcode: "",
+    lot_code: "",
+    net_weight: "",
+    storage_location_id: ""
   });
   const [showCamera, setShowCamera] = useState(false);
   const [cameraMode, setCameraMode] = useState<'capture' | 'recognize'>('capture');
@@ -62,17 +68,24 @@ export function AddProductDialog({ open, onOpenChange, onAddProduct, categories,
 
   const quantityTypes = ["pieces", "kg", "grams", "litres", "ml", "packets", "boxes"];
 
+  // GS1 codes carry the date printed on the pack, which beats an estimate
+  // from the product's usual shelf life
+  const gs1: Gs1ElementString | null = initialBarcodeData?.gs1 ?? null;
+  const printedExpiry = gs1?.expiry || gs1?.bestBefore || null;
+
   // Populate form with barcode data when available
   useEffect(() => {
     if (initialBarcodeData && open) {
-      const expiryDate = new Date();
-      expiryDate.setDate(expiryDate.getDate() + (initialBarcodeData.default_expiry_days || 30));
-      
       setFormData(prev => ({
         ...prev,
         name: initialBarcodeData.product_name || "",
         barcode: initialBarcodeData.barcode || "",
-        expiry_date: expiryDate.toISOString().split('T')[0],
+        expiry_date: printedExpiry || getLocationExpiryDate(
+          initialBarcodeData.default_expiry_days || 30,
+          locations.find(location => location.id === prev.storage_location_id)
+        ),
+        lot_code: gs1?.lot || "",
+        net_weight: gs1?.netWeightGrams ? String(gs1.netWeightGrams) : "",
         // Try to match category by name
         category_id: categories.find(cat => 
           cat.name.toLowerCase() === initialBarcodeData.category?.toLowerCase()
@@ -89,7 +102,22 @@ export function AddProductDialog({ open, onOpenChange, onAddProduct, categories,
         setFormData(prev => ({ ...prev, image_url: matchedImage[1] }));
       }
     }
-  }, [initialBarcodeData, open, categories]);
+  }, [initialBarcodeData, open, categories, locations, gs1, printedExpiry]);
+
+  const handleLocationChange = (locationId: string) => {
+    setFormData(prev => ({
+      ...prev,
+      storage_location_id: locationId,
+      // Scanned products have a known shelf life, so re-apply it for the new
+      // location, unless the barcode gave the printed date
+      expiry_date: initialBarcodeData && !printedExpiry
+        ? getLocationExpiryDate(
+            initialBarcodeData.default_expiry_days || 30,
+            locations.find(location => location.id === locationId)
+          )
+        : prev.expiry_date,
+    }));
+  };
 
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -206,7 +234,10 @@ export function AddProductDialog({ open, onOpenChange, onAddProduct, categories,
       ...formData,
       quantity: parseInt(formData.quantity),
       amount: parseFloat(formData.amount) || 0,
-      image_url: formData.image_url || "/placeholder.svg"
+      image_url: formData.image_url || "/placeholder.svg",
+      storage_location_id: formData.storage_location_id || null,
+      // Weight per item, so the scale can count packs by weight
+      scale_unit_weight: formData.net_weight || null
     });
     setFormData({
       name: "",
@@ -216,7 +247,10 @@ export function AddProductDialog({ open, onOpenChange, onAddProduct, categories,
       expiry_date: "",
       amount: "",
       image_url: "",
-      barcode: ""
+      barcode: "",
+      lot_code: "",
+      net_weight: "",
+      storage_location_id: ""
     });
     onOpenChange(false);
   };
@@ -239,7 +273,9 @@ export function AddProductDialog({ open, onOpenChange, onAddProduct, categories,
                 Scanned Barcode: {initialBarcodeData.barcode}
               </div>
               <div className="text-xs text-green-600">
-                Product details have been pre-filled from our database
+                {gs1
+                  ? "Expiry date, lot and weight were read from the barcode"
+                  : "Product details have been pre-filled from our database"}
               </div>
             </div>
           )}
@@ -353,6 +389,32 @@ export function AddProductDialog({ open, onOpenChange, onAddProduct, categories,
             />
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="lotCode">Lot / Batch (Optional)</Label>
+              <Input
+                id="lotCode"
+                value={formData.lot_code}
+                onChange={(e) => setFormData({ ...formData, lot_code: e.target.value })}
+                placeholder="Printed next to the expiry date"
+                maxLength={20}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="netWeight">Net Weight per Item (g)</Label>
+              <Input
+                id="netWeight"
+                type="number"
+                step="any"
+                min="0"
+                value={formData.net_weight}
+                onChange={(e) => setFormData({ ...formData, net_weight: e.target.value })}
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+
           <div className="grid grid-cols-3 gap-4">
             <div className="space-y-2">
               <Label htmlFor="quantity">Quantity</Label>
@@ -400,15 +462,33 @@ export function AddProductDialog({ open, onOpenChange, onAddProduct, categories,
             </div>
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="expiryDate">Expiry Date</Label>
-            <Input
-              id="expiryDate"
-              type="date"
-              value={formData.expiry_date}
-              onChange={(e) => setFormData({ ...formData, expiry_date: e.target.value })}
-              required
-            />
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="location">Storage Location</Label>
+              <Select value={formData.storage_location_id} onValueChange={handleLocationChange}>
+                <SelectTrigger id="location">
+                  <SelectValue placeholder="Select location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="expiryDate">Expiry Date</Label>
+              <Input
+                id="expiryDate"
+                type="date"
+                value={formData.expiry_date}
+                onChange={(e) => setFormData({ ...formData, expiry_date: e.target.value })}
+                required
+              />
+            </div>
           </div>
 
           <div className="flex gap-3 pt-4">
@@ -0,0 +1,334 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Check, History, PencilLine, ThumbsDown, ThumbsUp, Undo2, X } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  useBarcodeCorrections,
+  BarcodeSuggestion,
+  CatalogField,
+  CatalogValues,
+  RevisionSource,
+  SuggestionStatus,
+} from "@/hooks/useBarcodeCorrections";
+
+interface CatalogProduct {
+  id: string;
+  name: string;
+  product_name: string | null;
+  brand: string | null;
+  category: string | null;
+  default_expiry_days: number | null;
+  unit: string | null;
+  image_url?: string | null;
+}
+
+interface BarcodeCorrectionsProps {
+  product: CatalogProduct;
+  // Called when an accepted suggestion changed the product
+  onProductChange: () => void;
+}
+
+const FIELD_LABELS: Record<CatalogField, string> = {
+  name: "Name",
+  brand: "Brand",
+  category: "Category",
+  default_expiry_days: "Shelf life (days)",
+  unit: "Unit",
+  image_url: "Image",
+};
+
+const EDITABLE_FIELDS: CatalogField[] = ["name", "brand", "category", "default_expiry_days", "unit", "image_url"];
+
+const STATUS_LABELS: Record<SuggestionStatus, string> = {
+  pending: "Open for votes",
+  accepted: "Accepted",
+  rejected: "Rejected",
+  superseded: "Replaced by a newer change",
+  withdrawn: "Withdrawn",
+};
+
+const STATUS_VARIANTS: Record<SuggestionStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'default',
+  accepted: 'secondary',
+  rejected: 'destructive',
+  superseded: 'outline',
+  withdrawn: 'outline',
+};
+
+const OUT_OF_DATE_DESCRIPTION = "The product changed since this was suggested, so it was not applied. Suggest it again if it is still needed.";
+
+const SOURCE_LABELS: Record<RevisionSource, string> = {
+  provider: "Product database",
+  correction: "Community correction",
+  manual: "Catalog entry",
+};
+
+const formatValue = (field: string, value: string | number | null | undefined) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (field === "image_url") return "image link";
+  return String(value);
+};
+
+// Suggested corrections to a shared barcode product, voting on them, and
+// the product's edit history
+export function BarcodeCorrections({ product, onProductChange }: BarcodeCorrectionsProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const {
+    suggestions,
+    revisions,
+    myVotes,
+    isModerator,
+    error,
+    suggestCorrection,
+    vote,
+    reviewSuggestion,
+    withdrawSuggestion,
+  } = useBarcodeCorrections(product.id);
+
+  const currentValues: Record<CatalogField, string> = {
+    name: product.name || product.product_name || "",
+    brand: product.brand || "",
+    category: product.category || "",
+    default_expiry_days: product.default_expiry_days?.toString() || "",
+    unit: product.unit || "",
+    image_url: product.image_url || "",
+  };
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(currentValues);
+  const [comment, setComment] = useState("");
+
+  const startEditing = () => {
+    setDraft(currentValues);
+    setComment("");
+    setIsEditing(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const changes: CatalogValues = {};
+    for (const field of EDITABLE_FIELDS) {
+      if (draft[field].trim() === currentValues[field]) continue;
+      changes[field] = field === "default_expiry_days"
+        ? (draft[field].trim() ? Number(draft[field]) : null)
+        : draft[field].trim() || null;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      toast({ title: "Nothing to change", description: "Edit at least one field to suggest a correction." });
+      return;
+    }
+
+    const submitted = await suggestCorrection(changes, comment.trim());
+    if (submitted) {
+      setIsEditing(false);
+      toast({
+        title: "Correction suggested",
+        description: "It will be applied once other users vote for it or a moderator accepts it.",
+      });
+    } else {
+      toast({
+        title: "Error",
+        description: "Failed to suggest the correction",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleVote = async (suggestion: BarcodeSuggestion, value: -1 | 1) => {
+    const status = await vote(suggestion.id, myVotes[suggestion.id] === value ? 0 : value);
+    if (status === 'accepted') {
+      toast({ title: "Correction accepted", description: "Your vote decided it; the product has been updated." });
+      onProductChange();
+    } else if (status === 'rejected') {
+      toast({ title: "Correction rejected", description: "Your vote decided it." });
+    } else if (status === 'superseded') {
+      toast({ title: "Correction out of date", description: OUT_OF_DATE_DESCRIPTION });
+    }
+  };
+
+  const handleReview = async (suggestion: BarcodeSuggestion, accept: boolean) => {
+    const status = await reviewSuggestion(suggestion.id, accept);
+    if (status === 'accepted') {
+      onProductChange();
+    } else if (status === 'superseded') {
+      toast({ title: "Correction out of date", description: OUT_OF_DATE_DESCRIPTION });
+    } else if (!status) {
+      toast({
+        title: "Error",
+        description: "Failed to review the suggestion",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderChanges = (changes: CatalogValues, previous?: CatalogValues) => (
+    <ul className="space-y-1 text-sm">
+      {Object.entries(changes).map(([field, value]) => (
+        <li key={field}>
+          <span className="font-medium">{FIELD_LABELS[field as CatalogField] || field}: </span>
+          {previous && (
+            <span className="text-muted-foreground line-through mr-1">
+              {formatValue(field, previous[field as CatalogField])}
+            </span>
+          )}
+          <span>{formatValue(field, value)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PencilLine className="w-5 h-5" />
+          Corrections
+        </CardTitle>
+        <CardDescription>
+          Product details are shared by everyone. Suggest a fix and it is applied once other users agree.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {isEditing ? (
+          <form onSubmit={handleSubmit} className="space-y-3 p-4 border rounded-lg">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {EDITABLE_FIELDS.map(field => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={`correction-${field}`}>{FIELD_LABELS[field]}</Label>
+                  <Input
+                    id={`correction-${field}`}
+                    type={field === "default_expiry_days" ? "number" : field === "image_url" ? "url" : "text"}
+                    min={field === "default_expiry_days" ? 1 : undefined}
+                    max={field === "default_expiry_days" ? 3650 : undefined}
+                    maxLength={field === "image_url" ? 2048 : 100}
+                    required={field === "name"}
+                    value={draft[field]}
+                    onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="correction-comment">Why? (Optional)</Label>
+              <Textarea
+                id="correction-comment"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                maxLength={500}
+                placeholder="e.g. The pack says 500 g, not 1 kg"
+              />
+            </div>
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="outline" onClick={() => setIsEditing(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">Suggest Correction</Button>
+            </div>
+          </form>
+        ) : (
+          <Button variant="outline" onClick={startEditing}>
+            <PencilLine className="w-4 h-4 mr-2" />
+            Suggest a Correction
+          </Button>
+        )}
+
+        {suggestions.length > 0 && (
+          <div className="space-y-3">
+            <h4 className="font-medium">Suggestions</h4>
+            {suggestions.map(suggestion => {
+              const isOwn = suggestion.suggested_by === user?.id;
+              const isPending = suggestion.status === 'pending';
+
+              return (
+                <div key={suggestion.id} className="p-3 border rounded-lg space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <Badge variant={STATUS_VARIANTS[suggestion.status]}>{STATUS_LABELS[suggestion.status]}</Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {isOwn ? "Your suggestion · " : ""}{new Date(suggestion.created_at).toLocaleString()}
+                    </span>
+                  </div>
+                  {renderChanges(suggestion.changes)}
+                  {suggestion.comment && (
+                    <p className="text-sm text-muted-foreground italic">"{suggestion.comment}"</p>
+                  )}
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium mr-1">Score {suggestion.score > 0 ? `+${suggestion.score}` : suggestion.score}</span>
+                    {isPending && !isOwn && (
+                      <>
+                        <Button
+                          size="sm"
+                          variant={myVotes[suggestion.id] === 1 ? "default" : "outline"}
+                          onClick={() => handleVote(suggestion, 1)}
+                        >
+                          <ThumbsUp className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant={myVotes[suggestion.id] === -1 ? "destructive" : "outline"}
+                          onClick={() => handleVote(suggestion, -1)}
+                        >
+                          <ThumbsDown className="w-4 h-4" />
+                        </Button>
+                      </>
+                    )}
+                    {isPending && isOwn && (
+                      <Button size="sm" variant="ghost" onClick={() => withdrawSuggestion(suggestion.id)}>
+                        <Undo2 className="w-4 h-4 mr-1" />
+                        Withdraw
+                      </Button>
+                    )}
+                    {isPending && isModerator && (
+                      <div className="ml-auto flex gap-2">
+                        <Button size="sm" onClick={() => handleReview(suggestion, true)}>
+                          <Check className="w-4 h-4 mr-1" />
+                          Accept
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => handleReview(suggestion, false)}>
+                          <X className="w-4 h-4 mr-1" />
+                          Reject
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {revisions.length > 0 && (
+          <div className="space-y-3">
+            <h4 className="font-medium flex items-center gap-2">
+              <History className="w-4 h-4" />
+              Edit History
+            </h4>
+            <div className="space-y-2 max-h-72 overflow-y-auto">
+              {revisions.map(revision => (
+                <div key={revision.id} className="p-3 bg-muted/50 rounded-lg space-y-1">
+                  <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                    <span>
+                      <span className="font-medium text-foreground">Version {revision.version}</span> · {SOURCE_LABELS[revision.source]}
+                    </span>
+                    <span>{new Date(revision.created_at).toLocaleString()}</span>
+                  </div>
+                  {renderChanges(revision.changes, revision.version > 1 ? revision.previous : undefined)}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,6 +6,7 @@ import { Badge } from "@/components/ui/badge";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { useWeightData } from "@/hooks/useWeightData";
+import { BarcodeCorrections } from "@/components/BarcodeCorrections";
 import { Loader2, Package, Search, Scale, Calendar as CalendarIcon, History } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
@@ -295,6 +296,10 @@ export function BarcodeProductDisplay() {
         </Card>
       )}
 
+      {productData && (
+        <BarcodeCorrections key={productData.id} product={productData} onProductChange={handleSearch} />
+      )}
+
       {!productData && barcode && !isLoading && !error && (
         <Card className="border-yellow-200 bg-yellow-50">
           <CardContent className="pt-6">
@@ -6,7 +6,9 @@ import { Label } from "@/components/ui/label";
 import { useState } from "react";
 import { ScanLine, Camera, Loader2, AlertCircle, CheckCircle, Globe, Database } from "lucide-react";
 import { useBarcodeScanner } from "@/hooks/useBarcodeScanner";
-import { useBarcodeData } from "@/hooks/useBarcodeData";
+import { Gs1ElementString, gtinToRetailBarcode, isValidGtinChecksum, parseGs1 } from "@/utils/barcodeDecoder";
+import { CameraScanPreview } from "@/components/CameraScanPreview";
+import { BARCODE_SOURCE_LABELS, useBarcodeData } from "@/hooks/useBarcodeData";
 import { useToast } from "@/hooks/use-toast";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
@@ -14,7 +16,9 @@ import { Card, CardContent } from "@/components/ui/card";
 interface BarcodeScannerProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onBarcodeScanned: (barcode: string, productData?: any) => void;
+  // A GS1 code is reported under its retail barcode, with the parsed
+  // element string for the expiry date, lot and net weight it carries
+  onBarcodeScanned: (barcode: string, productData?: any, gs1?: Gs1ElementString | null) => void;
 }
 
 export function BarcodeScanner({ open, onOpenChange, onBarcodeScanned }: BarcodeScannerProps) {
@@ -24,8 +28,11 @@ export function BarcodeScanner({ open, onOpenChange, onBarcodeScanned }: Barcode
   
   const { lookupBarcode, isLoading: isLookingUp } = useBarcodeData();
 
-  const handleBarcodeDetected = async (barcode: string) => {
-    console.log('Barcode detected:', barcode);
+  const handleBarcodeDetected = async (scanned: string) => {
+    console.log('Barcode detected:', scanned);
+
+    const gs1 = parseGs1(scanned);
+    const barcode = gs1?.gtin ? gtinToRetailBarcode(gs1.gtin) : scanned;
     
     // Look up product data
     const productData = await lookupBarcode(barcode);
@@ -45,15 +52,28 @@ export function BarcodeScanner({ open, onOpenChange, onBarcodeScanned }: Barcode
     }
     
     // Always call the callback with barcode and optional product data
-    onBarcodeScanned(barcode, productData);
+    onBarcodeScanned(barcode, productData, gs1);
   };
 
-  const { isScanning, startScanning, stopScanning, error } = useBarcodeScanner(handleBarcodeDetected);
+  const { isScanning, startScanning, stopScanning, error, videoRef } = useBarcodeScanner(handleBarcodeDetected);
+
+  const sourceLabel = scannedProduct ? BARCODE_SOURCE_LABELS[scannedProduct.source] ?? scannedProduct.source : null;
+  const isExternalSource = scannedProduct?.source !== 'local' && scannedProduct?.source !== 'community';
 
   const handleManualSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (manualBarcode.trim()) {
-      await handleBarcodeDetected(manualBarcode.trim());
+    const barcode = manualBarcode.trim();
+    // EAN-8, UPC-A and EAN-13 lengths; other lengths are store or internal codes
+    if ([8, 12, 13].includes(barcode.length) && !isValidGtinChecksum(barcode)) {
+      toast({
+        title: "Invalid Barcode",
+        description: "The last digit does not match the barcode's check digit. Please check the number.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (barcode) {
+      await handleBarcodeDetected(barcode);
       setManualBarcode("");
     }
   };
@@ -100,16 +120,17 @@ export function BarcodeScanner({ open, onOpenChange, onBarcodeScanned }: Barcode
                       <Badge 
                         variant="outline" 
                         className={`text-xs ${
-                          scannedProduct.source === 'openfoodfacts' 
+                          isExternalSource 
                             ? 'border-blue-300 text-blue-700 bg-blue-50' 
                             : 'border-green-300 text-green-700 bg-green-50'
                         }`}
                       >
-                        {scannedProduct.source === 'openfoodfacts' ? (
-                          <><Globe className="w-3 h-3 mr-1" /> Open Food Facts</>
+                        {isExternalSource ? (
+                          <Globe className="w-3 h-3 mr-1" />
                         ) : (
-                          <><Database className="w-3 h-3 mr-1" /> Local DB</>
+                          <Database className="w-3 h-3 mr-1" />
                         )}
+                        {sourceLabel}
                       </Badge>
                     </div>
                     {scannedProduct.brand && (
@@ -170,22 +191,15 @@ export function BarcodeScanner({ open, onOpenChange, onBarcodeScanned }: Barcode
           {/* Camera Scanner */}
           <div className="space-y-3">
             <Label>Camera Scanner</Label>
-            <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center bg-gray-50">
-              {isScanning ? (
-                <div className="space-y-3">
-                  <div className="animate-pulse">
-                    <Camera className="w-12 h-12 mx-auto text-blue-500" />
-                  </div>
-                  <p className="text-sm text-gray-600">Scanning for barcode...</p>
-                  <p className="text-xs text-gray-500">Point camera at barcode</p>
-                  <div className="w-full bg-gray-200 rounded-full h-2">
-                    <div className="bg-blue-500 h-2 rounded-full animate-pulse" style={{ width: "60%" }}></div>
-                  </div>
-                  <Button onClick={stopScanning} variant="outline" size="sm">
-                    Stop Scanning
-                  </Button>
-                </div>
-              ) : (
+            <div className={`border-2 border-dashed border-gray-300 rounded-lg text-center bg-gray-50 ${isScanning ? "p-3" : "p-8"}`}>
+              {/* Kept mounted so the camera can be attached before scanning starts */}
+              <div className={isScanning ? "space-y-3" : "hidden"}>
+                <CameraScanPreview videoRef={videoRef} />
+                <Button onClick={stopScanning} variant="outline" size="sm">
+                  Stop Scanning
+                </Button>
+              </div>
+              {!isScanning && (
                 <div className="space-y-3">
                   <ScanLine className="w-12 h-12 mx-auto text-gray-400" />
                   <p className="text-sm text-gray-600">Start camera to scan barcode</p>
@@ -207,8 +221,8 @@ export function BarcodeScanner({ open, onOpenChange, onBarcodeScanned }: Barcode
                 onChange={(e) => setManualBarcode(e.target.value)}
                 placeholder="Enter barcode number (e.g., 123456789012)"
                 disabled={isScanning || isLookingUp}
-                pattern="[0-9]{8,13}"
-                title="Enter 8-13 digit barcode"
+                pattern="[0-9]{8,13}|(\([0-9]{2,4}\)[^\(\)]+)+"
+                title="Enter an 8-13 digit barcode, or a GS1 code as printed, e.g. (01)…(17)…(10)…"
               />
               <Button 
                 type="submit" 
@@ -231,8 +245,8 @@ export function BarcodeScanner({ open, onOpenChange, onBarcodeScanned }: Barcode
             <p>📱 Camera access requires HTTPS and user permission.</p>
             <p>
               {scannedProduct 
-                ? `✅ Product found ${scannedProduct.source === 'openfoodfacts' ? 'via Open Food Facts global database!' : 'in local database!'}` 
-                : '🌐 Searches local DB + Open Food Facts global database with 2M+ products'}
+                ? `✅ Product found via ${sourceLabel}!` 
+                : '🌐 Searches local DB, Open Food, Beauty and Pet Food Facts, and products added by other users'}
             </p>
           </div>
         </div>
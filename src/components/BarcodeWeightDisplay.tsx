@@ -4,17 +4,25 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { useWeightData } from '@/hooks/useWeightData';
-import { Scale, Clock, Wifi } from 'lucide-react';
+import { useWeightData, WeightEvent, WeightEventType } from '@/hooks/useWeightData';
+import { Scale, Clock, Wifi, Activity } from 'lucide-react';
+
+const EVENT_LABELS: Record<WeightEventType, string> = {
+  item_removed: 'Lifted off',
+  item_returned: 'Put back',
+  portion_consumed: 'Portion used',
+  refilled: 'Refilled',
+};
 
 export function BarcodeWeightDisplay() {
   const [inputBarcode, setInputBarcode] = useState('');
   const [currentBarcode, setCurrentBarcode] = useState('');
   const [productData, setProductData] = useState<any>(null);
   const [weightHistory, setWeightHistory] = useState<any[]>([]);
+  const [weightEvents, setWeightEvents] = useState<WeightEvent[]>([]);
   const [loading, setLoading] = useState(false);
   
-  const { getProductWithWeight, getWeightHistory } = useWeightData();
+  const { getProductWithWeight, getWeightHistory, getWeightEvents } = useWeightData();
 
   const handleBarcodeSubmit = async () => {
     if (!inputBarcode.trim()) return;
@@ -30,6 +38,9 @@ export function BarcodeWeightDisplay() {
       // Get weight history
       const history = await getWeightHistory(inputBarcode.trim(), 10);
       setWeightHistory(history);
+
+      const events = await getWeightEvents(inputBarcode.trim(), 10);
+      setWeightEvents(events);
     } catch (error) {
       console.error('Error fetching barcode data:', error);
     } finally {
@@ -48,13 +59,16 @@ export function BarcodeWeightDisplay() {
         
         const history = await getWeightHistory(currentBarcode, 10);
         setWeightHistory(history);
+
+        const events = await getWeightEvents(currentBarcode, 10);
+        setWeightEvents(events);
       } catch (error) {
         console.error('Error updating weight data:', error);
       }
     }, 3000); // Update every 3 seconds
 
     return () => clearInterval(interval);
-  }, [currentBarcode, getProductWithWeight, getWeightHistory]);
+  }, [currentBarcode, getProductWithWeight, getWeightHistory, getWeightEvents]);
 
   const formatWeight = (weight: number, unit: string) => {
     if (weight < 1000) {
@@ -119,7 +133,7 @@ export function BarcodeWeightDisplay() {
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className="text-center p-4 bg-blue-50 rounded-lg">
                 <div className="text-2xl font-bold text-blue-600">
-                  {formatWeight(productData.current_weight || 0, productData.weight_unit || 'grams')}
+                  {formatWeight(productData.current_weight || 0, productData.unit || 'g')}
                 </div>
                 <div className="text-sm text-blue-600">Current Weight</div>
               </div>
@@ -133,8 +147,8 @@ export function BarcodeWeightDisplay() {
               
               <div className="text-center p-4 bg-purple-50 rounded-lg">
                 <div className="text-sm font-semibold text-purple-600">
-                  {productData.last_weight_update ? 
-                    formatTime(productData.last_weight_update) : 
+                  {productData.updated_at ? 
+                    formatTime(productData.updated_at) : 
                     'No data'
                   }
                 </div>
@@ -153,6 +167,39 @@ export function BarcodeWeightDisplay() {
         </Card>
       )}
 
+      {weightEvents.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Activity className="w-5 h-5" />
+              Scale Events
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {weightEvents.map(event => (
+                <div key={event.id} className="flex justify-between items-center p-3 rounded-lg border bg-gray-50">
+                  <div>
+                    <div className="font-semibold">{EVENT_LABELS[event.event_type]}</div>
+                    <div className="text-sm text-gray-500">
+                      {formatTime(event.occurred_at)}
+                    </div>
+                  </div>
+                  <div className="text-right text-sm">
+                    <div className={event.weight_delta < 0 ? 'text-red-600' : 'text-green-600'}>
+                      {event.weight_delta > 0 ? '+' : ''}{formatWeight(event.weight_delta, event.unit)}
+                    </div>
+                    <div className="text-gray-500">
+                      {formatWeight(event.weight_before, event.unit)} → {formatWeight(event.weight_after, event.unit)}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {weightHistory.length > 0 && (
         <Card>
           <CardHeader>
@@ -172,18 +219,17 @@ export function BarcodeWeightDisplay() {
                 >
                   <div>
                     <div className="font-semibold">
-                      {formatWeight(reading.weight_value, reading.weight_unit)}
+                      {formatWeight(reading.weight, reading.unit || 'g')}
                     </div>
                     <div className="text-sm text-gray-500">
-                      {formatTime(reading.timestamp)}
+                      {formatTime(reading.recorded_at)}
                     </div>
                   </div>
                   <div className="text-right text-sm text-gray-500">
                     <div className="flex items-center gap-1">
                       <Wifi className="w-3 h-3" />
-                      {reading.signal_strength ? `${reading.signal_strength} dBm` : 'N/A'}
+                      {reading.device_id || 'Unknown device'}
                     </div>
-                    <div>Sensor: {reading.sensor_id}</div>
                   </div>
                 </div>
               ))}
@@ -0,0 +1,30 @@
+import { RefObject } from "react";
+import { SCAN_REGION } from "@/utils/barcodeDecoder";
+
+interface CameraScanPreviewProps {
+  videoRef: RefObject<HTMLVideoElement>;
+  hint?: string;
+}
+
+// Live camera feed with the part of the frame that is decoded outlined
+export function CameraScanPreview({ videoRef, hint = "Fit the barcode or QR code inside the frame" }: CameraScanPreviewProps) {
+  return (
+    <div className="space-y-2">
+      <div className="relative overflow-hidden rounded-md bg-black">
+        <video ref={videoRef} className="block w-full" muted playsInline />
+        <div
+          className="absolute rounded-md border-2 border-green-400 shadow-[0_0_0_9999px_rgba(0,0,0,0.45)]"
+          style={{
+            left: `${SCAN_REGION.x * 100}%`,
+            top: `${SCAN_REGION.y * 100}%`,
+            width: `${SCAN_REGION.width * 100}%`,
+            height: `${SCAN_REGION.height * 100}%`,
+          }}
+        >
+          <div className="absolute left-2 right-2 top-1/2 h-0.5 bg-red-500/80 animate-pulse" />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">{hint}</p>
+    </div>
+  );
+}
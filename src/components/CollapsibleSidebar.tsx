@@ -1,6 +1,6 @@
 
 import { useState } from "react";
-import { Home, Package, BarChart3, Settings, User, Bell, Menu, X, LogOut, Scale, ChefHat, Apple, Trash2, Trophy, ShoppingCart } from "lucide-react";
+import { Home, Package, BarChart3, Settings, User, Bell, Menu, X, LogOut, Scale, ChefHat, Apple, Trash2, Trophy, ShoppingCart, ListChecks, CalendarDays } from "lucide-react";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/useAuth";
@@ -32,6 +32,11 @@ const menuItems = [
     url: "recipes",
     icon: ChefHat,
   },
+  {
+    title: "Meal Planner",
+    url: "meal-planner",
+    icon: CalendarDays,
+  },
   {
     title: "Nutritional Info",
     url: "nutrition",
@@ -47,6 +52,11 @@ const menuItems = [
     url: "gamification",
     icon: Trophy,
   },
+  {
+    title: "Shopping List",
+    url: "shopping-list",
+    icon: ListChecks,
+  },
   {
     title: "Online Shopping",
     url: "online-shopping",
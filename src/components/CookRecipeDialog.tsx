@@ -0,0 +1,153 @@
+import { useState, useEffect } from 'react';
+import { useRecipes, StructuredRecipe } from '@/hooks/useRecipes';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+
+interface PantryItem {
+  id: string;
+  name: string;
+  quantity: number;
+  quantity_type: string;
+}
+
+interface CookRecipeDialogProps {
+  recipe: StructuredRecipe | null;
+  products: PantryItem[];
+  onOpenChange: (open: boolean) => void;
+  onCooked?: () => void;
+}
+
+interface CookLine {
+  grocery_item_id: string;
+  name: string;
+  available: number;
+  unit: string;
+  quantity: number;
+  selected: boolean;
+}
+
+export function CookRecipeDialog({ recipe, products, onOpenChange, onCooked }: CookRecipeDialogProps) {
+  const { cookRecipe } = useRecipes();
+  const { toast } = useToast();
+  const [lines, setLines] = useState<CookLine[]>([]);
+  const [cooking, setCooking] = useState(false);
+
+  // Start from the recipe's amounts, capped to what is in stock
+  useEffect(() => {
+    if (!recipe) return;
+
+    setLines(recipe.ingredients.flatMap(ingredient => {
+      const product = products.find(p => p.id === ingredient.grocery_item_id);
+      if (!product) return [];
+
+      const quantity = Math.min(product.quantity, Math.max(1, Math.round(ingredient.quantity || 1)));
+      return [{
+        grocery_item_id: product.id,
+        name: product.name,
+        available: product.quantity,
+        unit: product.quantity_type || 'pieces',
+        quantity,
+        selected: !ingredient.optional && product.quantity > 0,
+      }];
+    }));
+  }, [recipe, products]);
+
+  const missing = recipe?.ingredients.filter(ingredient =>
+    !products.some(p => p.id === ingredient.grocery_item_id)
+  ) || [];
+
+  const selectedLines = lines.filter(line => line.selected);
+  const isValid = selectedLines.length > 0 &&
+    selectedLines.every(line => line.quantity >= 1 && line.quantity <= line.available);
+
+  const updateLine = (itemId: string, updates: Partial<CookLine>) => {
+    setLines(prev => prev.map(line => line.grocery_item_id === itemId ? { ...line, ...updates } : line));
+  };
+
+  const handleCook = async () => {
+    if (!recipe || !isValid) return;
+
+    setCooking(true);
+    try {
+      await cookRecipe(recipe.title, selectedLines.map(line => ({
+        grocery_item_id: line.grocery_item_id,
+        quantity: line.quantity,
+      })));
+
+      toast({
+        title: "Enjoy your meal!",
+        description: `Deducted ${selectedLines.length} ingredient${selectedLines.length === 1 ? '' : 's'} used for ${recipe.title}`,
+      });
+      onCooked?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error cooking recipe:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update your pantry",
+        variant: "destructive",
+      });
+    } finally {
+      setCooking(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!recipe} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Cook {recipe?.title}</DialogTitle>
+          <DialogDescription>
+            Check the amounts you used. They are taken out of your pantry together and logged as used.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {lines.map(line => (
+            <div key={line.grocery_item_id} className="flex items-center gap-3 p-2 rounded-lg bg-muted/50">
+              <Checkbox
+                checked={line.selected}
+                disabled={line.available < 1}
+                onCheckedChange={(checked) => updateLine(line.grocery_item_id, { selected: checked === true })}
+                aria-label={`Use ${line.name}`}
+              />
+              <span className="flex-1 min-w-0 text-sm font-medium truncate">{line.name}</span>
+              <Input
+                type="number"
+                min={1}
+                max={line.available}
+                value={line.quantity}
+                onChange={(e) => updateLine(line.grocery_item_id, { quantity: parseInt(e.target.value) || 0 })}
+                disabled={!line.selected}
+                className="w-20"
+              />
+              <span className="w-24 text-xs text-muted-foreground">
+                of {line.available} {line.unit}
+              </span>
+            </div>
+          ))}
+          {lines.length === 0 && (
+            <p className="text-sm text-muted-foreground">None of the ingredients are in your pantry</p>
+          )}
+          {missing.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Not in your pantry: {missing.map(ingredient => ingredient.name).join(', ')}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleCook} disabled={!isValid || cooking}>
+            {cooking ? "Updating pantry..." : "Cook this"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,8 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Package, AlertTriangle, DollarSign, Calendar } from "lucide-react";
+import { Package, AlertTriangle, DollarSign, Calendar, TrendingDown, PackageMinus } from "lucide-react";
+import { useRunOutForecast } from "@/hooks/useRunOutForecast";
+import { useStockLevels } from "@/hooks/useStockLevels";
 
 interface Product {
   id: number;
@@ -19,6 +21,9 @@ interface DashboardStatsProps {
 }
 
 export function DashboardStats({ products }: DashboardStatsProps) {
+  const { runningOut } = useRunOutForecast();
+  const { lowStock } = useStockLevels();
+
   // Filter out expired products
   const activeProducts = products.filter(product => {
     if (!product.expiryDate) return true;
@@ -69,6 +74,20 @@ export function DashboardStats({ products }: DashboardStatsProps) {
       color: "text-orange-600",
       bgColor: "bg-orange-100",
     },
+    {
+      title: "Low Stock",
+      value: lowStock.length,
+      icon: PackageMinus,
+      color: "text-amber-600",
+      bgColor: "bg-amber-100",
+    },
+    {
+      title: "Running Out Soon",
+      value: runningOut.length,
+      icon: TrendingDown,
+      color: "text-red-600",
+      bgColor: "bg-red-100",
+    },
     {
       title: "Total Value",
       value: `₹${totalValue.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`,
@@ -79,7 +98,7 @@ export function DashboardStats({ products }: DashboardStatsProps) {
   ];
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+    <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-6 gap-4">
       {stats.map((stat) => (
         <Card key={stat.title} className="border-0 shadow-md">
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
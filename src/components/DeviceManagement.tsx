@@ -1,46 +1,57 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useHousehold } from '@/hooks/useHousehold';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Trash2, Plus, Wifi, WifiOff } from 'lucide-react';
+import { Trash2, Plus, Wifi, WifiOff, RefreshCw, KeyRound } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 
 interface Device {
   id: string;
   device_id: string;
   device_name: string;
-  device_token: string | null;
-  api_key: string | null;
+  token_prefix: string | null;
+  token_rotated_at: string | null;
+  token_revoked_at: string | null;
   is_active: boolean;
   last_seen: string | null;
   created_at: string;
 }
 
+// A freshly issued token. Only its hash is stored, so it is shown once.
+interface IssuedToken {
+  deviceName: string;
+  deviceId: string;
+  token: string;
+}
+
 export function DeviceManagement() {
   const { user } = useAuth();
+  const { household } = useHousehold();
   const { toast } = useToast();
   const [devices, setDevices] = useState<Device[]>([]);
   const [loading, setLoading] = useState(true);
   const [newDeviceName, setNewDeviceName] = useState('');
   const [showAddForm, setShowAddForm] = useState(false);
+  const [issuedToken, setIssuedToken] = useState<IssuedToken | null>(null);
 
   useEffect(() => {
-    if (user) {
+    if (user && household) {
       fetchDevices();
     }
-  }, [user]);
+  }, [user, household]);
 
   const fetchDevices = async () => {
     try {
       const { data, error } = await supabase
         .from('device_registry')
         .select('*')
-        .eq('user_id', user?.id)
+        .eq('household_id', household?.id)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -56,22 +67,6 @@ export function DeviceManagement() {
     }
   };
 
-  const generateDeviceToken = (): string => {
-    // Use cryptographically secure random values
-    const array = new Uint8Array(32);
-    crypto.getRandomValues(array);
-    const hexString = Array.from(array, byte => byte.toString(16).padStart(2, '0')).join('');
-    return `device_${hexString}`;
-  };
-
-  const generateDeviceId = (): string => {
-    // Use cryptographically secure random values
-    const array = new Uint8Array(16);
-    crypto.getRandomValues(array);
-    const hexString = Array.from(array, byte => byte.toString(16).padStart(2, '0')).join('');
-    return `scale_${hexString}`;
-  };
-
   const addDevice = async () => {
     if (!newDeviceName.trim()) {
       toast({
@@ -83,21 +78,21 @@ export function DeviceManagement() {
     }
 
     try {
-      const deviceId = generateDeviceId();
-      const deviceToken = generateDeviceToken();
-
-      const { error } = await supabase
-        .from('device_registry')
-        .insert({
-          device_id: deviceId,
-          device_name: newDeviceName.trim(),
-          device_token: deviceToken,
-          user_id: user?.id,
-          is_active: true,
-        });
+      const { data, error } = await supabase.rpc('register_device', {
+        _device_name: newDeviceName.trim(),
+      });
 
       if (error) throw error;
 
+      const registered = data?.[0];
+      if (registered) {
+        setIssuedToken({
+          deviceName: newDeviceName.trim(),
+          deviceId: registered.device_id,
+          token: registered.device_token,
+        });
+      }
+
       setNewDeviceName('');
       setShowAddForm(false);
       fetchDevices();
@@ -138,6 +133,62 @@ export function DeviceManagement() {
     }
   };
 
+  const rotateToken = async (device: Device) => {
+    try {
+      const { data, error } = await supabase.rpc('rotate_device_token', {
+        _device_registry_id: device.id,
+      });
+
+      if (error) throw error;
+
+      setIssuedToken({ deviceName: device.device_name, deviceId: device.device_id, token: data });
+      fetchDevices();
+      toast({
+        title: "Success",
+        description: "New token issued. The previous token no longer works.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to rotate device token",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const revokeToken = async (device: Device) => {
+    try {
+      const { error } = await supabase.rpc('revoke_device_token', {
+        _device_registry_id: device.id,
+      });
+
+      if (error) throw error;
+
+      if (issuedToken?.deviceId === device.device_id) {
+        setIssuedToken(null);
+      }
+      fetchDevices();
+      toast({
+        title: "Success",
+        description: "Device token revoked. Issue a new token to reconnect the device.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revoke device token",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const copyToClipboard = (value: string, label: string) => {
+    navigator.clipboard.writeText(value);
+    toast({
+      title: "Copied",
+      description: `${label} copied to clipboard`,
+    });
+  };
+
   const toggleDeviceStatus = async (deviceId: string, currentStatus: boolean) => {
     try {
       const { error } = await supabase
@@ -224,6 +275,43 @@ export function DeviceManagement() {
         </Card>
       )}
 
+      {issuedToken && (
+        <Card className="border-primary">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              Credentials for {issuedToken.deviceName}
+            </CardTitle>
+            <CardDescription>
+              Copy the token into your ESP32 now. It is stored only as a hash and cannot be shown again.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label>Device ID</Label>
+              <div className="flex gap-2">
+                <Input value={issuedToken.deviceId} readOnly className="font-mono text-xs" />
+                <Button variant="outline" size="sm" onClick={() => copyToClipboard(issuedToken.deviceId, 'Device ID')}>
+                  Copy
+                </Button>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Device Token</Label>
+              <div className="flex gap-2">
+                <Input value={issuedToken.token} readOnly className="font-mono text-xs" />
+                <Button variant="outline" size="sm" onClick={() => copyToClipboard(issuedToken.token, 'Device token')}>
+                  Copy
+                </Button>
+              </div>
+            </div>
+            <Button variant="secondary" onClick={() => setIssuedToken(null)}>
+              I've saved the token
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       <div className="grid gap-4">
         {devices.length === 0 ? (
           <Card>
@@ -281,26 +369,18 @@ export function DeviceManagement() {
                 
                 <div className="space-y-2">
                   <Label>Device Token</Label>
-                  <div className="flex gap-2">
-                    <Input 
-                      value={device.device_token} 
-                      readOnly 
-                      className="font-mono text-xs"
-                    />
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => {
-                        navigator.clipboard.writeText(device.device_token);
-                        toast({
-                          title: "Copied",
-                          description: "Device token copied to clipboard",
-                        });
-                      }}
-                    >
-                      Copy
-                    </Button>
-                  </div>
+                  {device.token_prefix && !device.token_revoked_at ? (
+                    <p className="text-sm text-muted-foreground">
+                      <span className="font-mono">{device.token_prefix}…</span>
+                      {device.token_rotated_at && ` issued ${new Date(device.token_rotated_at).toLocaleDateString()}`}
+                    </p>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      {device.token_revoked_at
+                        ? `Revoked ${new Date(device.token_revoked_at).toLocaleDateString()}. The device cannot send readings.`
+                        : 'No token issued. The device cannot send readings.'}
+                    </p>
+                  )}
                 </div>
 
                 <div className="flex gap-2 pt-2">
@@ -311,6 +391,24 @@ export function DeviceManagement() {
                   >
                     {device.is_active ? "Deactivate" : "Activate"}
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => rotateToken(device)}
+                    className="flex items-center gap-1"
+                  >
+                    <RefreshCw className="h-3 w-3" />
+                    {device.token_prefix && !device.token_revoked_at ? "Rotate Token" : "Issue Token"}
+                  </Button>
+                  {device.token_prefix && !device.token_revoked_at && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => revokeToken(device)}
+                    >
+                      Revoke Token
+                    </Button>
+                  )}
                   <Button
                     variant="destructive"
                     size="sm"
@@ -329,8 +427,8 @@ export function DeviceManagement() {
 
       <Alert>
         <AlertDescription>
-          <strong>Security Note:</strong> Device tokens are used to authenticate your ESP32 devices. 
-          Keep them secure and regenerate if compromised. Only share these credentials with your own devices.
+          <strong>Security Note:</strong> Device tokens are used to authenticate your ESP32 devices and are shown only once. 
+          Rotate a token if it is lost, or revoke it if compromised. Only share these credentials with your own devices.
         </AlertDescription>
       </Alert>
     </div>
@@ -5,9 +5,14 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { Upload, ScanLine, Camera, Sparkles } from "lucide-react";
 import { BarcodeScanner } from "@/components/BarcodeScanner";
 import { ProductCamera } from "@/components/ProductCamera";
+import { StorageLocation, StorageLocationMove } from "@/hooks/useStorageLocations";
+import { InventoryMovement } from "@/hooks/useInventoryLedger";
+import { CategoryStockLevel } from "@/hooks/useStockLevels";
+import { Gs1ElementString } from "@/utils/barcodeDecoder";
 
 interface Category {
   id: string;
@@ -24,6 +29,18 @@ interface Product {
   amount: number;
   image_url: string;
   barcode: string;
+  lot_code?: string | null;
+  min_quantity?: number | null;
+  target_quantity?: number | null;
+  scale_tare_weight?: number;
+  scale_unit_weight?: number | null;
+  scale_auto_apply?: boolean;
+  grocery_item_lots?: {
+    id: string;
+    quantity: number;
+    purchase_date: string;
+    expiry_date: string | null;
+  }[];
 }
 
 interface EditProductDialogProps {
@@ -32,9 +49,22 @@ interface EditProductDialogProps {
   product: Product | null;
   onUpdateProduct: (product: any) => void;
   categories: Category[];
+  locations?: StorageLocation[];
+  moveHistory?: StorageLocationMove[];
+  movements?: InventoryMovement[];
+  onUndoMovement?: (movementId: string) => void;
+  categoryLevels?: CategoryStockLevel[];
 }
 
-export function EditProductDialog({ open, onOpenChange, product, onUpdateProduct, categories }: EditProductDialogProps) {
+const movementLabels: Record<InventoryMovement['movement_type'], string> = {
+  purchased: "Purchased",
+  consumed: "Used",
+  wasted: "Wasted",
+  adjusted: "Adjusted",
+  weight_delta: "Scale reading",
+};
+
+export function EditProductDialog({ open, onOpenChange, product, onUpdateProduct, categories, locations = [], moveHistory = [], movements = [], onUndoMovement, categoryLevels = [] }: EditProductDialogProps) {
   const [formData, setFormData] = useState({
     id: "",
     name: "",
@@ -44,7 +74,13 @@ export function EditProductDialog({ open, onOpenChange, product, onUpdateProduct
     expiry_date: "",
     amount: "",
     image_url: "",
-    barcode: ""
+    barcode: "",
+    lot_code: "",
+    min_quantity: "",
+    target_quantity: "",
+    scale_tare_weight: "",
+    scale_unit_weight: "",
+    scale_auto_apply: false
   });
   const [showBarcodeScanner, setShowBarcodeScanner] = useState(false);
   const [showCamera, setShowCamera] = useState(false);
@@ -52,6 +88,12 @@ export function EditProductDialog({ open, onOpenChange, product, onUpdateProduct
 
   const quantityTypes = ["pieces", "kg", "grams", "litres", "ml", "packets", "boxes"];
 
+  const categoryLevel = categoryLevels.find(level => level.category_id === formData.category_id);
+
+  const getLocationName = (locationId: string | null) => {
+    return locations.find(location => location.id === locationId)?.name || "No location";
+  };
+
   useEffect(() => {
     if (product) {
       setFormData({
@@ -63,7 +105,13 @@ export function EditProductDialog({ open, onOpenChange, product, onUpdateProduct
         expiry_date: product.expiry_date || "",
         amount: product.amount?.toString() || "",
         image_url: product.image_url || "",
-        barcode: product.barcode || ""
+        barcode: product.barcode || "",
+        lot_code: product.lot_code || "",
+        min_quantity: product.min_quantity?.toString() || "",
+        target_quantity: product.target_quantity?.toString() || "",
+        scale_tare_weight: product.scale_tare_weight ? product.scale_tare_weight.toString() : "",
+        scale_unit_weight: product.scale_unit_weight?.toString() || "",
+        scale_auto_apply: product.scale_auto_apply || false
       });
     }
   }, [product]);
@@ -79,8 +127,8 @@ export function EditProductDialog({ open, onOpenChange, product, onUpdateProduct
     }
   };
 
-  const handleBarcodeScanned = (barcode: string, productData?: any) => {
-    setFormData({ ...formData, barcode });
+  const handleBarcodeScanned = (barcode: string, productData?: any, gs1?: Gs1ElementString | null) => {
+    setFormData({ ...formData, barcode, lot_code: gs1?.lot || formData.lot_code });
     setShowBarcodeScanner(false);
     
     // If product data is available, optionally update other fields
@@ -137,6 +185,10 @@ export function EditProductDialog({ open, onOpenChange, product, onUpdateProduct
       ...formData,
       quantity: parseInt(formData.quantity),
       amount: parseFloat(formData.amount) || 0,
+      min_quantity: formData.min_quantity === "" ? null : parseInt(formData.min_quantity),
+      target_quantity: formData.target_quantity === "" ? null : parseInt(formData.target_quantity),
+      scale_tare_weight: parseFloat(formData.scale_tare_weight) || 0,
+      scale_unit_weight: formData.scale_unit_weight === "" ? null : parseFloat(formData.scale_unit_weight),
       image_url: formData.image_url || "/placeholder.svg"
     });
   };
@@ -244,6 +296,17 @@ export function EditProductDialog({ open, onOpenChange, product, onUpdateProduct
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="lotCode">Lot / Batch (Optional)</Label>
+              <Input
+                id="lotCode"
+                value={formData.lot_code}
+                onChange={(e) => setFormData({ ...formData, lot_code: e.target.value })}
+                placeholder="Printed next to the expiry date"
+                maxLength={20}
+              />
+            </div>
+
             <div className="grid grid-cols-3 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="quantity">Quantity</Label>
@@ -302,6 +365,159 @@ export function EditProductDialog({ open, onOpenChange, product, onUpdateProduct
               />
             </div>
 
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="minQuantity">Minimum Stock</Label>
+                <Input
+                  id="minQuantity"
+                  type="number"
+                  value={formData.min_quantity}
+                  onChange={(e) => setFormData({ ...formData, min_quantity: e.target.value })}
+                  placeholder={categoryLevel && categoryLevel.min_quantity !== null ? `Category: ${categoryLevel.min_quantity}` : "None"}
+                  min="0"
+                  max="9999"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="targetQuantity">Target Stock</Label>
+                <Input
+                  id="targetQuantity"
+                  type="number"
+                  value={formData.target_quantity}
+                  onChange={(e) => setFormData({ ...formData, target_quantity: e.target.value })}
+                  placeholder={categoryLevel && categoryLevel.target_quantity !== null ? `Category: ${categoryLevel.target_quantity}` : "None"}
+                  min="0"
+                  max="9999"
+                />
+              </div>
+              <div className="col-span-2 text-xs text-gray-500">
+                At or below the minimum the item counts as low stock and is added to the shopping list to bring it back up to the target. Leave empty to use the category default.
+              </div>
+            </div>
+
+            {/* How the scale's weight is turned into this item's quantity */}
+            {formData.barcode && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="scaleTareWeight">Container Weight (g)</Label>
+                  <Input
+                    id="scaleTareWeight"
+                    type="number"
+                    step="0.1"
+                    value={formData.scale_tare_weight}
+                    onChange={(e) => setFormData({ ...formData, scale_tare_weight: e.target.value })}
+                    placeholder="0"
+                    min="0"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="scaleUnitWeight">
+                    {formData.quantity_type === "ml" || formData.quantity_type === "litres" ? "Density (g per ml)" : "Weight per Unit (g)"}
+                  </Label>
+                  <Input
+                    id="scaleUnitWeight"
+                    type="number"
+                    step="0.01"
+                    value={formData.scale_unit_weight}
+                    onChange={(e) => setFormData({ ...formData, scale_unit_weight: e.target.value })}
+                    placeholder={formData.quantity_type === "ml" || formData.quantity_type === "litres" ? "1" : formData.quantity_type === "grams" || formData.quantity_type === "kg" ? "Not needed" : "Required"}
+                    disabled={formData.quantity_type === "grams" || formData.quantity_type === "kg"}
+                    min="0"
+                  />
+                </div>
+                <div className="col-span-2 flex items-center justify-between gap-4">
+                  <Label htmlFor="scaleAutoApply" className="text-sm font-normal">
+                    Update quantity from the scale without asking
+                  </Label>
+                  <Switch
+                    id="scaleAutoApply"
+                    checked={formData.scale_auto_apply}
+                    onCheckedChange={(checked) => setFormData({ ...formData, scale_auto_apply: checked })}
+                  />
+                </div>
+                <div className="col-span-2 text-xs text-gray-500">
+                  When this item settles on a scale, its weight less the container is converted into {formData.quantity_type}. Otherwise the change waits for approval under Weight Monitor → Adjustments.
+                </div>
+              </div>
+            )}
+
+            {(product?.grocery_item_lots?.length || 0) > 1 && (
+              <div className="space-y-2">
+                <Label>Lots</Label>
+                <div className="space-y-1 text-xs text-gray-600">
+                  {[...product.grocery_item_lots]
+                    .sort((a, b) => (a.expiry_date || '9999-12-31').localeCompare(b.expiry_date || '9999-12-31'))
+                    .map((lot) => (
+                      <div key={lot.id} className="flex justify-between gap-2">
+                        <span>{lot.quantity} {formData.quantity_type}</span>
+                        <span className="text-gray-500">
+                          bought {new Date(lot.purchase_date).toLocaleDateString()}
+                          {lot.expiry_date && ` · expires ${new Date(lot.expiry_date).toLocaleDateString()}`}
+                        </span>
+                      </div>
+                    ))}
+                </div>
+                <p className="text-xs text-gray-500">
+                  Lowering the quantity uses up the earliest-expiring lots first and raising it adds a new lot. Changing the expiry date shifts every lot by the same number of days.
+                </p>
+              </div>
+            )}
+
+            {/* Stock changes from the inventory ledger, newest first */}
+            {movements.length > 0 && (
+              <div className="space-y-2">
+                <Label>Recent Activity</Label>
+                <div className="space-y-1 text-xs text-gray-600">
+                  {movements.map((movement) => {
+                    const undone = movements.some(m => m.reverses_movement_id === movement.id);
+                    return (
+                      <div key={movement.id} className="flex items-center justify-between gap-2">
+                        <span className={undone ? "line-through text-gray-400" : ""}>
+                          {movement.reverses_movement_id ? "Undo" : movementLabels[movement.movement_type]}{" "}
+                          {movement.quantity_delta > 0 ? "+" : ""}{movement.quantity_delta} {formData.quantity_type}
+                          {movement.reason && movement.reason !== "Undo" && ` · ${movement.reason}`}
+                        </span>
+                        <span className="flex items-center gap-2 text-gray-500">
+                          {new Date(movement.created_at).toLocaleDateString()}
+                          {onUndoMovement && !undone && !movement.reverses_movement_id && (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 px-2 text-xs"
+                              onClick={() => onUndoMovement(movement.id)}
+                            >
+                              Undo
+                            </Button>
+                          )}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {/* Storage moves, newest first */}
+            {moveHistory.length > 0 && (
+              <div className="space-y-2">
+                <Label>Storage History</Label>
+                <div className="space-y-1 text-xs text-gray-600">
+                  {moveHistory.map((move) => (
+                    <div key={move.id} className="flex justify-between gap-2">
+                      <span>
+                        {getLocationName(move.from_location_id)} → {getLocationName(move.to_location_id)}
+                      </span>
+                      <span className="text-gray-500">
+                        {new Date(move.moved_at).toLocaleDateString()}
+                        {move.new_expiry_date && ` · expires ${new Date(move.new_expiry_date).toLocaleDateString()}`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div className="flex gap-3 pt-4">
               <Button type="button" variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
                 Cancel
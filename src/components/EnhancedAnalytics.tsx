@@ -1,7 +1,9 @@
-
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
 import { 
   BarChart, 
   Bar, 
@@ -22,20 +24,18 @@ import {
   Legend
 } from "recharts";
 import { Package, TrendingUp, AlertTriangle, DollarSign, Calendar, Users } from "lucide-react";
+import { format } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useHousehold } from "@/hooks/useHousehold";
+
+type Granularity = 'week' | 'month' | 'quarter' | 'year';
 
 interface ProductAnalytics {
   categoryData: Array<{
     name: string;
     count: number;
     totalValue: number;
-    items: Array<{
-      name: string;
-      quantity: number;
-      amount: number;
-      expiry_date: string;
-    }>;
   }>;
   expiryData: Array<{
     timeRange: string;
@@ -56,54 +56,135 @@ interface ProductAnalytics {
     expiringSoon: number;
     averageValue: number;
     totalCategories: number;
-    monthlyTrend: number;
+    periodTrend: number;
   };
-  monthlyData: Array<{
-    month: string;
-    items: number;
-    value: number;
+  trendData: Array<{
+    period: string;
+    purchased: number;
+    used: number;
+    wasted: number;
+    itemsPurchased: number;
+    itemsUsed: number;
+    itemsWasted: number;
   }>;
 }
 
+// Shape returned by the get_pantry_summary RPC
+interface PantrySummary {
+  total_items: number;
+  total_value: number;
+  expiring_soon: number;
+  average_value: number;
+  total_categories: number;
+  categories: Array<{ name: string; count: number; total_value: number }>;
+  expiry_buckets: Array<{ time_range: string; count: number; value: number }>;
+  top_products: Array<{ name: string; category: string; quantity: number; amount: number; image_url: string | null; frequency: number }>;
+}
+
 const COLORS = [
   '#8884d8', '#82ca9d', '#ffc658', '#ff7c7c', '#8dd1e1',
   '#d084d0', '#ffb347', '#87ceeb', '#dda0dd', '#98fb98'
 ];
 
+const PERIOD_FORMATS: Record<Granularity, string> = {
+  week: "'Wk of' MMM d",
+  month: 'MMM yyyy',
+  quarter: 'QQQ yyyy',
+  year: 'yyyy',
+};
+
 export function EnhancedAnalytics() {
   const [analytics, setAnalytics] = useState<ProductAnalytics | null>(null);
   const [loading, setLoading] = useState(true);
+  const [granularity, setGranularity] = useState<Granularity>('month');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const refreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const { user } = useAuth();
+  const { household } = useHousehold();
+
+  const fetchAnalytics = useCallback(async () => {
+    if (!household) return;
+
+    try {
+      // Empty dates let the server fall back to the last six periods
+      const [summaryResult, trendsResult] = await Promise.all([
+        supabase.rpc('get_pantry_summary'),
+        supabase.rpc('get_inventory_trends', {
+          _granularity: granularity,
+          _start_date: startDate || undefined,
+          _end_date: endDate || undefined,
+        }),
+      ]);
+
+      if (summaryResult.error) throw summaryResult.error;
+      if (trendsResult.error) throw trendsResult.error;
+
+      const summary = summaryResult.data as unknown as PantrySummary;
+      const trends = trendsResult.data || [];
+
+      // Compare the latest period's value used with the one before it
+      const latest = trends[trends.length - 1];
+      const previous = trends[trends.length - 2];
+      const periodTrend = latest && previous && Number(previous.value_used) > 0
+        ? Math.round(((Number(latest.value_used) - Number(previous.value_used)) / Number(previous.value_used)) * 1000) / 10
+        : 0;
+
+      setAnalytics({
+        categoryData: summary.categories.map(category => ({
+          name: category.name,
+          count: category.count,
+          totalValue: Number(category.total_value),
+        })),
+        expiryData: summary.expiry_buckets.map(bucket => ({
+          timeRange: bucket.time_range,
+          count: bucket.count,
+          value: Number(bucket.value),
+        })),
+        topProducts: summary.top_products.map(product => ({
+          name: product.name.length > 15 ? product.name.substring(0, 15) + '...' : product.name,
+          category: product.category,
+          quantity: product.quantity,
+          amount: Number(product.amount),
+          frequency: product.frequency,
+          image: product.image_url || undefined,
+        })),
+        totalStats: {
+          totalItems: summary.total_items,
+          totalValue: Number(summary.total_value),
+          expiringSoon: summary.expiring_soon,
+          averageValue: Number(summary.average_value),
+          totalCategories: summary.total_categories,
+          periodTrend,
+        },
+        trendData: trends.map(row => ({
+          period: format(new Date(`${row.period_start}T00:00:00`), PERIOD_FORMATS[granularity]),
+          purchased: Number(row.value_purchased),
+          used: Number(row.value_used),
+          wasted: Number(row.value_wasted),
+          itemsPurchased: row.items_purchased,
+          itemsUsed: row.items_used,
+          itemsWasted: row.items_wasted,
+        })),
+      });
+    } catch (error) {
+      console.error('Error fetching analytics:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [household, granularity, startDate, endDate]);
 
   useEffect(() => {
-    if (!user) return;
-
-    const fetchAnalytics = async () => {
-      setLoading(true);
-      
-      try {
-        const { data: products, error } = await supabase
-          .from('grocery_items')
-          .select(`
-            *,
-            categories (name)
-          `)
-          .eq('user_id', user.id);
+    if (!user || !household) return;
 
-        if (error) throw error;
+    fetchAnalytics();
 
-        const processedAnalytics = processAnalyticsData(products || []);
-        setAnalytics(processedAnalytics);
-      } catch (error) {
-        console.error('Error fetching analytics:', error);
-      } finally {
-        setLoading(false);
-      }
+    // Bursts of changes (e.g. a batch of scans) trigger a single refetch
+    const scheduleRefresh = () => {
+      if (refreshTimer.current) clearTimeout(refreshTimer.current);
+      refreshTimer.current = setTimeout(fetchAnalytics, 1000);
     };
 
-    fetchAnalytics();
-
-    // Set up real-time subscription for automatic updates
     const channel = supabase
       .channel('analytics_updates')
       .on(
@@ -112,137 +193,27 @@ export function EnhancedAnalytics() {
           event: '*',
           schema: 'public',
           table: 'grocery_items',
-          filter: `user_id=eq.${user.id}`,
+          filter: `household_id=eq.${household.id}`,
+        },
+        scheduleRefresh
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'waste_items',
+          filter: `household_id=eq.${household.id}`,
         },
-        () => {
-          console.log('Analytics data changed, refreshing...');
-          fetchAnalytics();
-        }
+        scheduleRefresh
       )
       .subscribe();
 
     return () => {
+      if (refreshTimer.current) clearTimeout(refreshTimer.current);
       supabase.removeChannel(channel);
     };
-  }, [user]);
-
-  const processAnalyticsData = (products: any[]): ProductAnalytics => {
-    // Filter out expired products
-    const activeProducts = products.filter(product => {
-      if (!product.expiry_date) return true;
-      
-      const expiryDate = new Date(product.expiry_date);
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      
-      return expiryDate >= today;
-    });
-
-    const categoryMap = new Map();
-    const today = new Date();
-    let expiringSoon = 0;
-
-    // Process by category
-    activeProducts.forEach(product => {
-      const categoryName = product.categories?.name || 'Uncategorized';
-      
-      if (!categoryMap.has(categoryName)) {
-        categoryMap.set(categoryName, {
-          name: categoryName,
-          count: 0,
-          totalValue: 0,
-          items: []
-        });
-      }
-
-      const category = categoryMap.get(categoryName);
-      category.count += 1;
-      category.totalValue += product.amount || 0;
-      category.items.push({
-        name: product.name,
-        quantity: product.quantity || 0,
-        amount: product.amount || 0,
-        expiry_date: product.expiry_date
-      });
-
-      if (product.expiry_date) {
-        const expiryDate = new Date(product.expiry_date);
-        const diffTime = expiryDate.getTime() - today.getTime();
-        const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-        if (diffDays <= 7 && diffDays >= 0) {
-          expiringSoon++;
-        }
-      }
-    });
-
-    const categoryData = Array.from(categoryMap.values());
-
-    // Create expiry timeline with better visualization
-    const expiryData = [
-      { timeRange: 'Expired', count: 0, value: 0 },
-      { timeRange: '1-3 Days', count: 0, value: 0 },
-      { timeRange: '4-7 Days', count: 0, value: 0 },
-      { timeRange: '1-2 Weeks', count: 0, value: 0 },
-      { timeRange: '2+ Weeks', count: 0, value: 0 }
-    ];
-
-    // Include all products for expiry analysis to show expired items in timeline
-    products.forEach(product => {
-      if (!product.expiry_date) return;
-      
-      const expiryDate = new Date(product.expiry_date);
-      const diffTime = expiryDate.getTime() - today.getTime();
-      const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-      
-      let rangeIndex = 4;
-      if (diffDays < 0) rangeIndex = 0;
-      else if (diffDays <= 3) rangeIndex = 1;
-      else if (diffDays <= 7) rangeIndex = 2;
-      else if (diffDays <= 14) rangeIndex = 3;
-
-      expiryData[rangeIndex].count += 1;
-      expiryData[rangeIndex].value += product.amount || 0;
-    });
-
-    // Enhanced top products with better data (only active products)
-    const topProducts = activeProducts
-      .sort((a, b) => (b.amount || 0) - (a.amount || 0))
-      .slice(0, 10)
-      .map(product => ({
-        name: product.name.length > 15 ? product.name.substring(0, 15) + '...' : product.name,
-        category: product.categories?.name || 'Uncategorized',
-        quantity: product.quantity || 0,
-        amount: product.amount || 0,
-        frequency: 1,
-        image: product.image_url
-      }));
-
-    // Monthly trend simulation (in real app, you'd have historical data)
-    const monthlyData = [
-      { month: 'Jan', items: Math.floor(activeProducts.length * 0.7), value: activeProducts.reduce((sum, p) => sum + (p.amount || 0), 0) * 0.7 },
-      { month: 'Feb', items: Math.floor(activeProducts.length * 0.8), value: activeProducts.reduce((sum, p) => sum + (p.amount || 0), 0) * 0.8 },
-      { month: 'Mar', items: Math.floor(activeProducts.length * 0.9), value: activeProducts.reduce((sum, p) => sum + (p.amount || 0), 0) * 0.9 },
-      { month: 'Apr', items: activeProducts.length, value: activeProducts.reduce((sum, p) => sum + (p.amount || 0), 0) }
-    ];
-
-    const totalStats = {
-      totalItems: activeProducts.length,
-      totalValue: activeProducts.reduce((sum, p) => sum + (p.amount || 0), 0),
-      expiringSoon,
-      averageValue: activeProducts.length > 0 ? 
-        activeProducts.reduce((sum, p) => sum + (p.amount || 0), 0) / activeProducts.length : 0,
-      totalCategories: categoryData.length,
-      monthlyTrend: 15.2 // Simulated trend percentage
-    };
-
-    return {
-      categoryData,
-      expiryData,
-      topProducts,
-      totalStats,
-      monthlyData
-    };
-  };
+  }, [user, household, fetchAnalytics]);
 
   if (loading) {
     return (
@@ -262,10 +233,47 @@ export function EnhancedAnalytics() {
     );
   }
 
-  const { categoryData, expiryData, topProducts, totalStats, monthlyData } = analytics;
+  const { categoryData, expiryData, topProducts, totalStats, trendData } = analytics;
 
   return (
     <div className="space-y-6">
+      {/* Trend range */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={granularity} onValueChange={(value) => setGranularity(value as Granularity)}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="week">Weekly</SelectItem>
+            <SelectItem value="month">Monthly</SelectItem>
+            <SelectItem value="quarter">Quarterly</SelectItem>
+            <SelectItem value="year">Yearly</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          type="date"
+          value={startDate}
+          max={endDate || undefined}
+          onChange={(e) => setStartDate(e.target.value)}
+          className="w-40"
+          aria-label="Start date"
+        />
+        <span className="text-sm text-gray-500">to</span>
+        <Input
+          type="date"
+          value={endDate}
+          min={startDate || undefined}
+          onChange={(e) => setEndDate(e.target.value)}
+          className="w-40"
+          aria-label="End date"
+        />
+        {(startDate || endDate) && (
+          <Button variant="ghost" size="sm" onClick={() => { setStartDate(''); setEndDate(''); }}>
+            Last 6 periods
+          </Button>
+        )}
+      </div>
+
       {/* Enhanced Summary Cards */}
       <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
         <Card>
@@ -337,12 +345,14 @@ export function EnhancedAnalytics() {
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium flex items-center gap-2">
               <Calendar className="w-4 h-4 text-pink-500" />
-              Growth
+              Usage Trend
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-pink-600">+{totalStats.monthlyTrend}%</div>
-            <p className="text-xs text-gray-500 mt-1">This month</p>
+            <div className="text-2xl font-bold text-pink-600">
+              {totalStats.periodTrend > 0 ? '+' : ''}{totalStats.periodTrend}%
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Value used vs previous {granularity}</p>
           </CardContent>
         </Card>
       </div>
@@ -528,18 +538,19 @@ export function EnhancedAnalytics() {
         <TabsContent value="trends">
           <Card>
             <CardHeader>
-              <CardTitle>Monthly Trends</CardTitle>
+              <CardTitle>Purchases, Usage and Waste</CardTitle>
             </CardHeader>
             <CardContent>
               <ResponsiveContainer width="100%" height={400}>
-                <LineChart data={monthlyData}>
+                <LineChart data={trendData}>
                   <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis dataKey="month" />
-                  <YAxis yAxisId="left" orientation="left" />
-                  <YAxis yAxisId="right" orientation="right" />
-                  <Tooltip />
-                  <Line yAxisId="left" type="monotone" dataKey="items" stroke="#8884d8" strokeWidth={3} dot={{ r: 6 }} />
-                  <Line yAxisId="right" type="monotone" dataKey="value" stroke="#82ca9d" strokeWidth={3} dot={{ r: 6 }} />
+                  <XAxis dataKey="period" />
+                  <YAxis />
+                  <Tooltip formatter={(value: number, name) => [`₹${value.toFixed(0)}`, name]} />
+                  <Legend />
+                  <Line type="monotone" dataKey="purchased" name="Purchased" stroke="#8884d8" strokeWidth={3} dot={{ r: 4 }} />
+                  <Line type="monotone" dataKey="used" name="Used" stroke="#82ca9d" strokeWidth={3} dot={{ r: 4 }} />
+                  <Line type="monotone" dataKey="wasted" name="Wasted" stroke="#ff7c7c" strokeWidth={3} dot={{ r: 4 }} />
                 </LineChart>
               </ResponsiveContainer>
             </CardContent>
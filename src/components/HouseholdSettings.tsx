@@ -0,0 +1,383 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useHousehold } from '@/hooks/useHousehold';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Home, Mail, UserPlus, LogOut, X, Check, Crown } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+
+interface Invitation {
+  id: string;
+  household_id: string;
+  email: string;
+  role: string;
+  status: string;
+  expires_at: string;
+  created_at: string;
+  households?: { name: string } | null;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function HouseholdSettings() {
+  const { user } = useAuth();
+  const { household, members, role, refreshHousehold } = useHousehold();
+  const { toast } = useToast();
+  const [householdName, setHouseholdName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [sentInvitations, setSentInvitations] = useState<Invitation[]>([]);
+  const [receivedInvitations, setReceivedInvitations] = useState<Invitation[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const isOwner = role === 'owner';
+
+  useEffect(() => {
+    setHouseholdName(household?.name || '');
+  }, [household]);
+
+  const householdId = household?.id;
+
+  const fetchInvitations = useCallback(async () => {
+    if (!user || !householdId) return;
+
+    const { data: sent, error: sentError } = await supabase
+      .from('household_invitations')
+      .select('*')
+      .eq('household_id', householdId)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: false });
+
+    if (sentError) {
+      console.error('Error fetching household invitations:', sentError);
+    } else {
+      setSentInvitations(sent || []);
+    }
+
+    const { data: received, error: receivedError } = await supabase
+      .from('household_invitations')
+      .select('*, households (name)')
+      .eq('email', (user.email || '').toLowerCase())
+      .eq('status', 'pending')
+      .gt('expires_at', new Date().toISOString());
+
+    if (receivedError) {
+      console.error('Error fetching received invitations:', receivedError);
+    } else {
+      setReceivedInvitations((received || []).filter(invitation => invitation.household_id !== householdId));
+    }
+  }, [user, householdId]);
+
+  useEffect(() => {
+    fetchInvitations();
+  }, [fetchInvitations]);
+
+  const renameHousehold = async () => {
+    if (!household || !householdName.trim()) return;
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('households')
+      .update({ name: householdName.trim() })
+      .eq('id', household.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      await refreshHousehold();
+      toast({
+        title: "Success",
+        description: "Household name updated",
+      });
+    }
+    setSaving(false);
+  };
+
+  const inviteMember = async () => {
+    const email = inviteEmail.trim().toLowerCase();
+    if (!household || !user) return;
+
+    if (!EMAIL_PATTERN.test(email)) {
+      toast({
+        title: "Error",
+        description: "Please enter a valid email address",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (members.some(member => member.email?.toLowerCase() === email)) {
+      toast({
+        title: "Error",
+        description: "This person is already a member of your household",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const { error } = await supabase
+      .from('household_invitations')
+      .insert({
+        household_id: household.id,
+        email,
+        invited_by: user.id,
+      });
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.code === '23505' ? "An invitation is already pending for this email" : error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setInviteEmail('');
+    fetchInvitations();
+    toast({
+      title: "Invitation sent",
+      description: `${email} will see the invitation in their Settings after signing in`,
+    });
+  };
+
+  const revokeInvitation = async (invitationId: string) => {
+    const { error } = await supabase
+      .from('household_invitations')
+      .update({ status: 'revoked' })
+      .eq('id', invitationId);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setSentInvitations(prev => prev.filter(invitation => invitation.id !== invitationId));
+    }
+  };
+
+  const acceptInvitation = async (invitation: Invitation) => {
+    const { error } = await supabase.rpc('accept_household_invitation', { _invitation_id: invitation.id });
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await refreshHousehold();
+    toast({
+      title: "Welcome!",
+      description: `You joined ${invitation.households?.name || 'the household'}`,
+    });
+  };
+
+  const declineInvitation = async (invitationId: string) => {
+    const { error } = await supabase.rpc('decline_household_invitation', { _invitation_id: invitationId });
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setReceivedInvitations(prev => prev.filter(invitation => invitation.id !== invitationId));
+    }
+  };
+
+  const removeMember = async (memberUserId: string) => {
+    const { error } = await supabase.rpc('remove_household_member', { _member_user_id: memberUserId });
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      await refreshHousehold();
+      toast({
+        title: "Success",
+        description: "Member removed from household",
+      });
+    }
+  };
+
+  const leaveHousehold = async () => {
+    const { error } = await supabase.rpc('leave_household');
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      await refreshHousehold();
+      toast({
+        title: "Success",
+        description: "You left the household and now have your own pantry",
+      });
+    }
+  };
+
+  const getInitials = (name: string) => {
+    return name?.split(' ').map(n => n[0]).join('').toUpperCase() || "U";
+  };
+
+  if (!household) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Home className="w-5 h-5 text-primary" />
+          Household
+        </CardTitle>
+        <CardDescription>
+          Everyone in your household shares the same pantry, waste log, devices and notifications
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {receivedInvitations.length > 0 && (
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Invitations for you</Label>
+            {receivedInvitations.map(invitation => (
+              <div key={invitation.id} className="flex items-center justify-between p-3 border rounded-lg bg-primary/5">
+                <div>
+                  <p className="font-medium">{invitation.households?.name || 'A household'}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Joining moves your pantry into this household if you are the only member of your current one
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => acceptInvitation(invitation)}>
+                    <Check className="w-4 h-4 mr-1" />
+                    Join
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => declineInvitation(invitation.id)}>
+                    Decline
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="householdName" className="text-sm font-medium">Household Name</Label>
+          <div className="flex gap-2">
+            <Input
+              id="householdName"
+              value={householdName}
+              onChange={(e) => setHouseholdName(e.target.value)}
+              disabled={!isOwner}
+              maxLength={100}
+              className="max-w-sm"
+            />
+            {isOwner && (
+              <Button
+                variant="outline"
+                onClick={renameHousehold}
+                disabled={saving || householdName.trim() === household.name}
+              >
+                {saving ? "Saving..." : "Save"}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Members</Label>
+          {members.map(member => (
+            <div key={member.id} className="flex items-center gap-3 p-2 rounded-lg bg-muted/50">
+              <Avatar className="w-8 h-8">
+                <AvatarFallback>{getInitials(member.full_name || member.email || '')}</AvatarFallback>
+              </Avatar>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {member.full_name || member.email || 'Member'}
+                  {member.user_id === user?.id && <span className="text-muted-foreground"> (you)</span>}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Joined {format(new Date(member.joined_at), 'PP')}
+                </p>
+              </div>
+              <Badge variant={member.role === 'owner' ? 'default' : 'secondary'} className="flex items-center gap-1">
+                {member.role === 'owner' && <Crown className="w-3 h-3" />}
+                {member.role === 'owner' ? 'Owner' : 'Member'}
+              </Badge>
+              {isOwner && member.user_id !== user?.id && (
+                <Button variant="ghost" size="sm" onClick={() => removeMember(member.user_id)} title="Remove member">
+                  <X className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {isOwner && (
+          <div className="space-y-2 pt-4 border-t">
+            <Label htmlFor="inviteEmail" className="text-sm font-medium">Invite someone</Label>
+            <div className="flex gap-2">
+              <Input
+                id="inviteEmail"
+                type="email"
+                placeholder="partner@example.com"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                className="max-w-sm"
+              />
+              <Button onClick={inviteMember}>
+                <UserPlus className="w-4 h-4 mr-2" />
+                Invite
+              </Button>
+            </div>
+            {sentInvitations.map(invitation => (
+              <div key={invitation.id} className="flex items-center justify-between p-2 text-sm">
+                <span className="flex items-center gap-2 text-muted-foreground">
+                  <Mail className="w-4 h-4" />
+                  {invitation.email} · expires {format(new Date(invitation.expires_at), 'PP')}
+                </span>
+                <Button variant="ghost" size="sm" onClick={() => revokeInvitation(invitation.id)}>
+                  Revoke
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {members.length > 1 && (
+          <div className="flex items-center justify-between p-4 border rounded-lg">
+            <div>
+              <h4 className="font-medium">Leave Household</h4>
+              <p className="text-sm text-muted-foreground">
+                The shared pantry stays with the remaining members and you start a new one
+              </p>
+            </div>
+            <Button variant="outline" onClick={leaveHousehold}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Leave
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,443 @@
+import { useState, useEffect, useMemo } from 'react';
+import { addDays, format, isToday, parseISO, startOfWeek } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useMealPlan, MealPlanEntry, MealType, MEAL_TYPES, scaleRecipe, toDateKey } from '@/hooks/useMealPlan';
+import { usePantryProducts, toRecipePantry } from '@/hooks/usePantryProducts';
+import { useSavedRecipes, SavedRecipe } from '@/hooks/useSavedRecipes';
+import { useStorageLocations } from '@/hooks/useStorageLocations';
+import { StructuredRecipe } from '@/hooks/useRecipes';
+import { CookRecipeDialog } from '@/components/CookRecipeDialog';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { CalendarDays, ChevronLeft, ChevronRight, CookingPot, GripVertical, ListChecks, Sparkles, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+const MEAL_LABELS: Record<MealType, string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  snack: 'Snack',
+  dinner: 'Dinner',
+};
+
+const DRAG_TYPE = 'application/x-meal-plan';
+const DEFAULT_SERVINGS = 2;
+
+// Recipes dragged in from the side panel, or meals moved within the week
+type DragPayload =
+  | { kind: 'recipe'; title: string; recipe: StructuredRecipe; saved_recipe_id: string | null }
+  | { kind: 'entry'; entryId: string };
+
+// Saved recipes without a structured copy can still be planned, they just
+// reserve nothing
+const toPlannableRecipe = (saved: SavedRecipe): StructuredRecipe => saved.recipe || {
+  title: saved.title,
+  servings: null,
+  prep_minutes: null,
+  cook_minutes: null,
+  difficulty: null,
+  ingredients: [],
+  steps: [],
+  at_risk_value: 0,
+  at_risk_items: [],
+};
+
+export function MealPlannerView() {
+  const { toast } = useToast();
+  const [weekStart, setWeekStart] = useState(() => toDateKey(startOfWeek(new Date(), { weekStartsOn: 1 })));
+  const { entries, reservations, addEntry, updateEntry, removeEntry, reconcile } = useMealPlan(weekStart);
+  const { products } = usePantryProducts('meal-plan-products');
+  const { recipes: savedRecipes } = useSavedRecipes();
+  const { locations } = useStorageLocations();
+  const [ideas, setIdeas] = useState<StructuredRecipe[]>([]);
+  const [ideaPrompt, setIdeaPrompt] = useState('');
+  const [loadingIdeas, setLoadingIdeas] = useState(false);
+  const [cookingEntry, setCookingEntry] = useState<MealPlanEntry | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const days = useMemo(() =>
+    Array.from({ length: 7 }, (_, index) => addDays(parseISO(weekStart), index)), [weekStart]
+  );
+
+  // Stock may have changed since the plan was last reconciled
+  useEffect(() => {
+    reconcile();
+  }, [reconcile]);
+
+  // What this week's meals still need, by item, with its category
+  const missingThisWeek = useMemo(() => {
+    const weekEntryIds = new Set(entries.map(entry => entry.id));
+    const missing = new Map<string, { name: string; unit: string | null; quantity: number; category: string }>();
+
+    for (const reservation of reservations) {
+      const shortfall = reservation.quantity_needed - reservation.quantity_reserved;
+      if (shortfall <= 0 || !weekEntryIds.has(reservation.entry_id)) continue;
+
+      const key = reservation.grocery_item_id || reservation.name.toLowerCase();
+      const product = products.find(p => p.id === reservation.grocery_item_id);
+      const existing = missing.get(key);
+      missing.set(key, {
+        name: product?.name || reservation.name,
+        unit: product?.quantity_type || reservation.unit,
+        quantity: (existing?.quantity || 0) + shortfall,
+        category: product?.categories?.name || (reservation.grocery_item_id ? 'Uncategorized' : 'Not in pantry'),
+      });
+    }
+
+    return [...missing.values()].sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name));
+  }, [reservations, entries, products]);
+
+  // Kept stable so the cook dialog does not reset while it is open
+  const cookingRecipe = useMemo(() =>
+    cookingEntry ? scaleRecipe(cookingEntry.recipe, cookingEntry.servings) : null, [cookingEntry]
+  );
+
+  const getCoverage = (entry: MealPlanEntry) => {
+    const needs = reservations.filter(reservation => reservation.entry_id === entry.id);
+    const missing = needs.filter(reservation => reservation.quantity_reserved < reservation.quantity_needed);
+    return { needs, missing };
+  };
+
+  const shiftWeek = (weeks: number) => {
+    setWeekStart(toDateKey(addDays(parseISO(weekStart), weeks * 7)));
+  };
+
+  const handleReconcile = async () => {
+    const added = await reconcile();
+    toast({
+      title: "Shopping list updated",
+      description: added > 0
+        ? `Added ${added} missing ingredient${added === 1 ? '' : 's'} to your shopping list`
+        : "Everything your upcoming meals need is in stock or already on the list",
+    });
+  };
+
+  const suggestIdeas = async () => {
+    setLoadingIdeas(true);
+    try {
+      const request = ideaPrompt.trim() || 'a varied mix of everyday meals';
+      const { data, error } = await supabase.functions.invoke('ai-recipe-chat', {
+        body: {
+          ingredients: products.map(p => p.name),
+          pantry: toRecipePantry(products, locations),
+          mode: 'chat',
+          userMessage: `Suggest 3 different recipes for my weekly meal plan: ${request}. Give each one in full with its own recipe-json block.`,
+        }
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Failed to get suggestions');
+
+      setIdeas(data.recipes || []);
+      if (!data.recipes?.length) {
+        toast({ title: "No recipes found", description: "Try asking for something different" });
+      }
+    } catch (error) {
+      console.error('Error getting meal ideas:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to get recipe ideas",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingIdeas(false);
+    }
+  };
+
+  const startDrag = (e: React.DragEvent, payload: DragPayload) => {
+    e.dataTransfer.setData(DRAG_TYPE, JSON.stringify(payload));
+    e.dataTransfer.effectAllowed = payload.kind === 'entry' ? 'move' : 'copy';
+  };
+
+  const handleDrop = async (e: React.DragEvent, day: Date, mealType: MealType) => {
+    e.preventDefault();
+    setDropTarget(null);
+
+    const data = e.dataTransfer.getData(DRAG_TYPE);
+    if (!data) return;
+
+    const payload: DragPayload = JSON.parse(data);
+    const plannedFor = toDateKey(day);
+
+    const success = payload.kind === 'entry'
+      ? await updateEntry(payload.entryId, { planned_for: plannedFor, meal_type: mealType })
+      : await addEntry({
+          planned_for: plannedFor,
+          meal_type: mealType,
+          title: payload.title.slice(0, 100),
+          recipe: payload.recipe,
+          saved_recipe_id: payload.saved_recipe_id,
+          servings: Math.min(50, Math.max(1, payload.recipe.servings || DEFAULT_SERVINGS)),
+        });
+
+    if (!success) {
+      toast({ title: "Error", description: "Failed to update your meal plan", variant: "destructive" });
+    }
+  };
+
+  const handleServingsChange = async (entry: MealPlanEntry, value: string) => {
+    const servings = parseInt(value);
+    if (isNaN(servings) || servings < 1 || servings > 50 || servings === entry.servings) return;
+
+    if (!await updateEntry(entry.id, { servings })) {
+      toast({ title: "Error", description: "Failed to update servings", variant: "destructive" });
+    }
+  };
+
+  const handleRemove = async (entry: MealPlanEntry) => {
+    if (!await removeEntry(entry.id)) {
+      toast({ title: "Error", description: "Failed to remove meal", variant: "destructive" });
+    }
+  };
+
+  const markCooked = async () => {
+    if (cookingEntry) {
+      await updateEntry(cookingEntry.id, { status: 'cooked' });
+    }
+  };
+
+  const renderRecipeCard = (key: string, title: string, recipe: StructuredRecipe, savedRecipeId: string | null) => (
+    <div
+      key={key}
+      draggable
+      onDragStart={(e) => startDrag(e, { kind: 'recipe', title, recipe, saved_recipe_id: savedRecipeId })}
+      className="flex items-center gap-2 p-2 rounded-lg bg-muted/50 hover:bg-muted cursor-grab transition-colors"
+    >
+      <GripVertical className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+      <div className="min-w-0">
+        <p className="text-sm font-medium truncate">{title}</p>
+        <p className="text-xs text-muted-foreground">
+          {recipe.ingredients.filter(ingredient => ingredient.grocery_item_id).length} of {recipe.ingredients.length} ingredients in pantry
+        </p>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground flex items-center gap-2">
+            <CalendarDays className="w-8 h-8 text-primary" />
+            Meal Planner
+          </h1>
+          <p className="text-muted-foreground">Drag recipes onto the week; ingredients are set aside from your pantry</p>
+        </div>
+        <Button onClick={handleReconcile}>
+          <ListChecks className="w-4 h-4 mr-2" />
+          Update Shopping List
+        </Button>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-4">
+        <Card className="lg:col-span-1">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">Recipes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue="saved">
+              <TabsList className="w-full">
+                <TabsTrigger value="saved" className="flex-1">Saved</TabsTrigger>
+                <TabsTrigger value="ideas" className="flex-1">AI Ideas</TabsTrigger>
+              </TabsList>
+              <TabsContent value="saved">
+                <ScrollArea className="h-[400px]">
+                  <div className="space-y-2">
+                    {savedRecipes.map(saved => renderRecipeCard(saved.id, saved.title, toPlannableRecipe(saved), saved.id))}
+                    {savedRecipes.length === 0 && (
+                      <p className="text-center py-8 text-sm text-muted-foreground">Save recipes from Recipe Suggestions to plan them here</p>
+                    )}
+                  </div>
+                </ScrollArea>
+              </TabsContent>
+              <TabsContent value="ideas" className="space-y-3">
+                <div className="flex gap-2">
+                  <Input
+                    value={ideaPrompt}
+                    onChange={(e) => setIdeaPrompt(e.target.value)}
+                    placeholder="e.g. light lunches"
+                  />
+                  <Button size="sm" onClick={suggestIdeas} disabled={loadingIdeas || products.length === 0} title="Suggest recipes">
+                    <Sparkles className="w-4 h-4" />
+                  </Button>
+                </div>
+                <ScrollArea className="h-[350px]">
+                  <div className="space-y-2">
+                    {ideas.map((recipe, index) => renderRecipeCard(`${recipe.title}-${index}`, recipe.title, recipe, null))}
+                    {ideas.length === 0 && (
+                      <p className="text-center py-8 text-sm text-muted-foreground">
+                        {loadingIdeas ? "Thinking up recipes..." : "Ask the AI Chef for recipes that use your pantry"}
+                      </p>
+                    )}
+                  </div>
+                </ScrollArea>
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+
+        <div className="lg:col-span-3 space-y-4">
+          <div className="flex items-center justify-between">
+            <Button variant="outline" size="sm" onClick={() => shiftWeek(-1)}>
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <div className="flex items-center gap-2">
+              <span className="font-medium">
+                {format(days[0], 'MMM d')} – {format(days[6], 'MMM d, yyyy')}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setWeekStart(toDateKey(startOfWeek(new Date(), { weekStartsOn: 1 })))}
+              >
+                This week
+              </Button>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => shiftWeek(1)}>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+
+          <div className="grid gap-3 md:grid-cols-2 xl:grid-cols-7">
+            {days.map(day => {
+              const dateKey = toDateKey(day);
+              return (
+                <Card key={dateKey} className={isToday(day) ? 'border-primary' : undefined}>
+                  <CardHeader className="p-3 pb-2">
+                    <CardTitle className="text-sm">{format(day, 'EEE d')}</CardTitle>
+                  </CardHeader>
+                  <CardContent className="p-3 pt-0 space-y-2">
+                    {MEAL_TYPES.map(mealType => {
+                      const slot = `${dateKey}:${mealType}`;
+                      const meals = entries.filter(entry => entry.planned_for === dateKey && entry.meal_type === mealType);
+
+                      return (
+                        <div
+                          key={slot}
+                          onDragOver={(e) => {
+                            e.preventDefault();
+                            setDropTarget(slot);
+                          }}
+                          onDragLeave={() => setDropTarget(prev => prev === slot ? null : prev)}
+                          onDrop={(e) => handleDrop(e, day, mealType)}
+                          className={`min-h-[48px] rounded-md border border-dashed p-1.5 space-y-1 transition-colors ${
+                            dropTarget === slot ? 'border-primary bg-primary/5' : 'border-border'
+                          }`}
+                        >
+                          <p className="text-[10px] font-semibold uppercase text-muted-foreground">{MEAL_LABELS[mealType]}</p>
+                          {meals.map(entry => {
+                            const { needs, missing } = getCoverage(entry);
+                            const isCooked = entry.status === 'cooked';
+
+                            return (
+                              <div
+                                key={entry.id}
+                                draggable={!isCooked}
+                                onDragStart={(e) => startDrag(e, { kind: 'entry', entryId: entry.id })}
+                                className="rounded bg-muted p-1.5 space-y-1"
+                              >
+                                <div className="flex items-start justify-between gap-1">
+                                  <p className={`text-xs font-medium leading-tight ${isCooked ? 'line-through text-muted-foreground' : ''}`}>
+                                    {entry.title}
+                                  </p>
+                                  <button
+                                    type="button"
+                                    onClick={() => handleRemove(entry)}
+                                    className="text-muted-foreground hover:text-destructive"
+                                    aria-label={`Remove ${entry.title}`}
+                                  >
+                                    <X className="w-3 h-3" />
+                                  </button>
+                                </div>
+                                <div className="flex items-center gap-1">
+                                  <Input
+                                    type="number"
+                                    min={1}
+                                    max={50}
+                                    defaultValue={entry.servings}
+                                    key={`${entry.id}-${entry.servings}`}
+                                    onBlur={(e) => handleServingsChange(entry, e.target.value)}
+                                    disabled={isCooked}
+                                    className="h-6 w-12 px-1 text-xs"
+                                    aria-label="Servings"
+                                  />
+                                  <span className="text-[10px] text-muted-foreground">servings</span>
+                                </div>
+                                <div className="flex items-center justify-between gap-1">
+                                  {isCooked ? (
+                                    <Badge variant="secondary" className="text-[10px]">Cooked</Badge>
+                                  ) : missing.length > 0 ? (
+                                    <Badge
+                                      variant="destructive"
+                                      className="text-[10px]"
+                                      title={`Missing: ${missing.map(reservation => reservation.name).join(', ')}`}
+                                    >
+                                      {missing.length} missing
+                                    </Badge>
+                                  ) : needs.length > 0 ? (
+                                    <Badge variant="secondary" className="text-[10px]">In stock</Badge>
+                                  ) : (
+                                    <span />
+                                  )}
+                                  {!isCooked && entry.recipe.ingredients.some(ingredient => ingredient.grocery_item_id) && (
+                                    <button
+                                      type="button"
+                                      onClick={() => setCookingEntry(entry)}
+                                      className="text-muted-foreground hover:text-primary"
+                                      title="Cook this"
+                                    >
+                                      <CookingPot className="w-3.5 h-3.5" />
+                                    </button>
+                                  )}
+                                </div>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      );
+                    })}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg">Still Needed This Week</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {missingThisWeek.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Your pantry covers every planned meal this week</p>
+              ) : (
+                <div className="grid gap-2 sm:grid-cols-2">
+                  {missingThisWeek.map(item => (
+                    <div key={`${item.category}-${item.name}`} className="flex items-center justify-between p-2 rounded-lg bg-muted/50">
+                      <div>
+                        <p className="text-sm font-medium">{item.name}</p>
+                        <p className="text-xs text-muted-foreground">{item.category}</p>
+                      </div>
+                      <Badge variant="outline" className="text-xs">
+                        {item.quantity} {item.unit || ''}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <CookRecipeDialog
+        recipe={cookingRecipe}
+        products={products}
+        onOpenChange={(open) => !open && setCookingEntry(null)}
+        onCooked={markCooked}
+      />
+    </div>
+  );
+}
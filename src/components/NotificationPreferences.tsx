@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
@@ -7,16 +7,35 @@ import { Input } from '@/components/ui/input';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
-import { Mail, Calendar, Bell, Phone, AlertTriangle } from 'lucide-react';
+import { Mail, Calendar, Bell, Phone, AlertTriangle, CheckCircle } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 
 interface NotificationPrefs {
   email_notifications: boolean;
   phone_notifications: boolean;
   phone_number: string;
+  phone_verified_at: string | null;
   expiry_reminder_days: number;
 }
 
+interface SmsDelivery {
+  id: string;
+  phone_number: string;
+  purpose: string;
+  status: string;
+  error: string | null;
+  created_at: string;
+}
+
+const SMS_STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  queued: 'outline',
+  sent: 'secondary',
+  delivered: 'default',
+  failed: 'destructive',
+  undelivered: 'destructive',
+  rate_limited: 'destructive',
+};
+
 export function NotificationPreferences() {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -25,8 +44,33 @@ export function NotificationPreferences() {
     email_notifications: true,
     phone_notifications: false,
     phone_number: '',
+    phone_verified_at: null,
     expiry_reminder_days: 3,
   });
+  const [newPhoneNumber, setNewPhoneNumber] = useState('');
+  const [changingNumber, setChangingNumber] = useState(false);
+  const [codeSent, setCodeSent] = useState(false);
+  const [verificationCode, setVerificationCode] = useState('');
+  const [verifying, setVerifying] = useState(false);
+  const [deliveries, setDeliveries] = useState<SmsDelivery[]>([]);
+
+  const fetchDeliveries = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('sms_deliveries')
+      .select('id, phone_number, purpose, status, error, created_at')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(5);
+
+    if (error) {
+      console.error('Error fetching SMS deliveries:', error);
+      return;
+    }
+
+    setDeliveries(data || []);
+  }, [user]);
 
   useEffect(() => {
     if (!user) return;
@@ -49,13 +93,17 @@ export function NotificationPreferences() {
           email_notifications: preference.email_notifications || false,
           phone_notifications: preference.phone_notifications || false,
           phone_number: preference.phone_number || '',
+          phone_verified_at: preference.phone_verified_at,
           expiry_reminder_days: preference.expiry_reminder_days || 3,
         });
       }
     };
 
     fetchPreferences();
-  }, [user]);
+    fetchDeliveries();
+  }, [user, fetchDeliveries]);
+
+  const isPhoneVerified = !!prefs.phone_verified_at && !!prefs.phone_number;
 
   const validatePhoneNumber = (phone: string): boolean => {
     // Validate phone number format: +country code followed by digits
@@ -63,11 +111,8 @@ export function NotificationPreferences() {
     return phoneRegex.test(phone.replace(/\s/g, ''));
   };
 
-  const handleSave = async () => {
-    if (!user) return;
-
-    // Validate phone number if SMS is enabled
-    if (prefs.phone_notifications && !validatePhoneNumber(prefs.phone_number)) {
+  const sendVerificationCode = async () => {
+    if (!validatePhoneNumber(newPhoneNumber)) {
       toast({
         title: 'Invalid Phone Number',
         description: 'Please enter a valid phone number with country code (e.g., +911234567890)',
@@ -76,6 +121,84 @@ export function NotificationPreferences() {
       return;
     }
 
+    setVerifying(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('verify-phone', {
+        body: { action: 'send', phone_number: newPhoneNumber.replace(/\s/g, '') }
+      });
+
+      if (error || !data?.success) {
+        toast({
+          title: 'Code Not Sent',
+          description: data?.error || 'Could not send a verification code. Please try again later.',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      setCodeSent(true);
+      setVerificationCode('');
+      toast({
+        title: 'Code Sent',
+        description: `Enter the 6-digit code sent to ${newPhoneNumber}`,
+      });
+    } catch (error) {
+      console.error('Error sending verification code:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not send a verification code',
+        variant: 'destructive',
+      });
+    } finally {
+      setVerifying(false);
+      fetchDeliveries();
+    }
+  };
+
+  const confirmVerificationCode = async () => {
+    setVerifying(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('verify-phone', {
+        body: { action: 'confirm', code: verificationCode }
+      });
+
+      if (error || !data?.success) {
+        toast({
+          title: 'Verification Failed',
+          description: data?.error || 'That code could not be verified',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      setPrefs({
+        ...prefs,
+        phone_number: data.phone_number,
+        phone_verified_at: data.phone_verified_at,
+      });
+      setCodeSent(false);
+      setChangingNumber(false);
+      setNewPhoneNumber('');
+      setVerificationCode('');
+      toast({
+        title: 'Phone Verified',
+        description: 'You can now turn on SMS alerts',
+      });
+    } catch (error) {
+      console.error('Error confirming verification code:', error);
+      toast({
+        title: 'Error',
+        description: 'That code could not be verified',
+        variant: 'destructive',
+      });
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
     setLoading(true);
 
     try {
@@ -85,12 +208,12 @@ export function NotificationPreferences() {
           {
             user_id: user.id,
             email_notifications: prefs.email_notifications,
-            phone_notifications: prefs.phone_notifications,
-            phone_number: prefs.phone_notifications ? prefs.phone_number.replace(/\s/g, '') : null,
+            // The number itself is only set by verify-phone
+            phone_notifications: isPhoneVerified && prefs.phone_notifications,
             expiry_reminder_days: prefs.expiry_reminder_days,
             updated_at: new Date().toISOString(),
           }
-        ]);
+        ], { onConflict: 'user_id' });
 
       if (error) throw error;
 
@@ -177,16 +300,16 @@ export function NotificationPreferences() {
       return;
     }
 
-    if (!validatePhoneNumber(prefs.phone_number)) {
+    if (!isPhoneVerified) {
       toast({
-        title: 'Invalid Phone Number',
-        description: 'Please enter a valid phone number first',
+        title: 'Phone Not Verified',
+        description: 'Please verify your phone number first',
         variant: 'destructive',
       });
       return;
     }
 
-    // Save preferences first to ensure phone number is stored
+    // Save preferences first so SMS alerts are switched on
     await handleSave();
 
     setLoading(true);
@@ -227,11 +350,12 @@ export function NotificationPreferences() {
         } else {
           toast({
             title: 'SMS Not Sent',
-            description: data?.sms_error || 'SMS could not be sent. Check Twilio configuration.',
+            description: data?.sms_error || 'SMS could not be sent. Please try again later.',
             variant: 'destructive',
           });
         }
       }
+      fetchDeliveries();
     } catch (error) {
       console.error('Error sending test SMS:', error);
       toast({
@@ -292,27 +416,87 @@ export function NotificationPreferences() {
               </div>
               <Switch
                 id="sms-notifications"
-                checked={prefs.phone_notifications}
+                checked={isPhoneVerified && prefs.phone_notifications}
+                disabled={!isPhoneVerified}
                 onCheckedChange={(checked) =>
                   setPrefs({ ...prefs, phone_notifications: checked })
                 }
               />
             </div>
 
-            {prefs.phone_notifications && (
-              <div className="space-y-2 pl-6 border-l-2 border-green-200">
-                <Label htmlFor="phone-number" className="text-sm font-medium">Phone Number</Label>
-                <Input
-                  id="phone-number"
-                  type="tel"
-                  placeholder="+911234567890"
-                  value={prefs.phone_number}
-                  onChange={(e) => setPrefs({ ...prefs, phone_number: e.target.value })}
-                  className="max-w-xs"
-                />
-                <p className="text-xs text-muted-foreground">
-                  Include country code (e.g., +91 for India, +1 for USA)
-                </p>
+            <div className="space-y-2 pl-6 border-l-2 border-green-200">
+              <Label htmlFor="phone-number" className="text-sm font-medium">Phone Number</Label>
+              {isPhoneVerified && !changingNumber ? (
+                <div className="flex items-center gap-2">
+                  <span className="text-sm">{prefs.phone_number}</span>
+                  <Badge variant="secondary" className="text-xs">
+                    <CheckCircle className="w-3 h-3 mr-1" />
+                    Verified
+                  </Badge>
+                  <Button variant="link" size="sm" onClick={() => setChangingNumber(true)}>
+                    Change
+                  </Button>
+                </div>
+              ) : (
+                <>
+                  <div className="flex flex-wrap gap-2">
+                    <Input
+                      id="phone-number"
+                      type="tel"
+                      placeholder="+911234567890"
+                      value={newPhoneNumber}
+                      onChange={(e) => {
+                        setNewPhoneNumber(e.target.value);
+                        setCodeSent(false);
+                      }}
+                      className="max-w-xs"
+                    />
+                    <Button variant="outline" onClick={sendVerificationCode} disabled={verifying || !newPhoneNumber.trim()}>
+                      {codeSent ? 'Resend Code' : 'Send Code'}
+                    </Button>
+                    {changingNumber && (
+                      <Button variant="ghost" onClick={() => setChangingNumber(false)}>
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                  {codeSent && (
+                    <div className="flex flex-wrap gap-2">
+                      <Input
+                        id="verification-code"
+                        inputMode="numeric"
+                        placeholder="6-digit code"
+                        value={verificationCode}
+                        onChange={(e) => setVerificationCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                        className="w-36"
+                      />
+                      <Button onClick={confirmVerificationCode} disabled={verifying || verificationCode.length !== 6}>
+                        Verify
+                      </Button>
+                    </div>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    Include country code (e.g., +91 for India, +1 for USA). We text you a code to confirm the number.
+                  </p>
+                </>
+              )}
+            </div>
+
+            {deliveries.length > 0 && (
+              <div className="space-y-2 pl-6">
+                <p className="text-xs font-medium text-muted-foreground">Recent text messages</p>
+                {deliveries.map(delivery => (
+                  <div key={delivery.id} className="flex items-center justify-between gap-2 text-xs">
+                    <span className="text-muted-foreground">
+                      {new Date(delivery.created_at).toLocaleString('en-IN', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                      {' · '}
+                      {delivery.purpose === 'verification' ? 'Verification code' : 'Alert'}
+                    </span>
+                    <Badge variant={SMS_STATUS_VARIANTS[delivery.status] || 'outline'} className="text-xs" title={delivery.error || undefined}>
+                      {delivery.status.replace('_', ' ')}
+                    </Badge>
+                  </div>
+                ))}
               </div>
             )}
           </div>
@@ -356,7 +540,7 @@ export function NotificationPreferences() {
           </Button>
           <Button 
             onClick={testSMSNotification} 
-            disabled={loading || !prefs.phone_notifications || !prefs.phone_number} 
+            disabled={loading || !prefs.phone_notifications || !isPhoneVerified} 
             variant="outline"
           >
             Test SMS
@@ -371,6 +555,7 @@ export function NotificationPreferences() {
           <ul className="space-y-1 text-muted-foreground text-xs">
             <li>• <strong>Email:</strong> Product added, removed, expiring soon, expired</li>
             <li>• <strong>SMS:</strong> Only urgent alerts (expires today/tomorrow, or already expired)</li>
+            <li>• At most 5 SMS alerts an hour and 20 a day are sent to your phone</li>
             <li>• Standard SMS rates may apply based on your carrier</li>
           </ul>
         </div>
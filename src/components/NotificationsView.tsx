@@ -3,7 +3,7 @@ import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Bell, Calendar, Package, Trash2, CheckCircle, AlertTriangle, TrashIcon } from "lucide-react";
+import { Bell, Calendar, Package, Trash2, CheckCircle, AlertTriangle, TrashIcon, TrendingDown, PackageMinus } from "lucide-react";
 import { 
   DropdownMenu, 
   DropdownMenuContent, 
@@ -13,13 +13,14 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useHousehold } from "@/hooks/useHousehold";
 import { useToast } from "@/hooks/use-toast";
 
 interface Notification {
   id: string;
   title: string;
   message: string;
-  type: 'expiry' | 'expired' | 'product_added' | 'product_removed';
+  type: 'expiring' | 'expired' | 'product_added' | 'product_removed' | 'running_out' | 'low_stock';
   is_read: boolean;
   created_at: string;
 }
@@ -35,10 +36,11 @@ export function NotificationsView() {
   const [expiringProducts, setExpiringProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
   const { user } = useAuth();
+  const { household } = useHousehold();
   const { toast } = useToast();
 
   useEffect(() => {
-    if (!user) return;
+    if (!user || !household) return;
     fetchNotifications();
 
     // Set up real-time subscription for notifications
@@ -50,7 +52,7 @@ export function NotificationsView() {
           event: '*',
           schema: 'public',
           table: 'notifications',
-          filter: `user_id=eq.${user.id}`,
+          filter: `household_id=eq.${household.id}`,
         },
         () => {
           fetchNotifications();
@@ -61,10 +63,10 @@ export function NotificationsView() {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [user]);
+  }, [user, household]);
 
   const fetchNotifications = async () => {
-    if (!user) return;
+    if (!user || !household) return;
     
     setLoading(true);
     
@@ -72,7 +74,7 @@ export function NotificationsView() {
     const { data: notificationsData, error: notificationsError } = await supabase
       .from('notifications')
       .select('*')
-      .eq('user_id', user.id)
+      .eq('household_id', household.id)
       .order('created_at', { ascending: false });
 
     if (notificationsError) {
@@ -80,7 +82,7 @@ export function NotificationsView() {
     } else {
       const typedNotifications = (notificationsData || []).map(notification => ({
         ...notification,
-        type: notification.type as 'expiry' | 'expired' | 'product_added' | 'product_removed'
+        type: notification.type as 'expiring' | 'expired' | 'product_added' | 'product_removed' | 'running_out' | 'low_stock'
       }));
       setNotifications(typedNotifications);
     }
@@ -93,7 +95,7 @@ export function NotificationsView() {
     const { data: productsData, error: productsError } = await supabase
       .from('grocery_items')
       .select('id, name, expiry_date')
-      .eq('user_id', user.id)
+      .eq('household_id', household.id)
       .gte('expiry_date', today.toISOString().split('T')[0])  // Only future dates
       .lte('expiry_date', threeDaysFromNow.toISOString().split('T')[0]);
 
@@ -111,7 +113,7 @@ export function NotificationsView() {
       .from('notifications')
       .update({ is_read: true })
       .eq('id', notificationId)
-      .eq('user_id', user?.id);
+      .eq('household_id', household?.id);
 
     if (error) {
       console.error('Error marking notification as read:', error);
@@ -133,7 +135,7 @@ export function NotificationsView() {
       .from('notifications')
       .delete()
       .eq('id', notificationId)
-      .eq('user_id', user?.id);
+      .eq('household_id', household?.id);
 
     if (error) {
       console.error('Error deleting notification:', error);
@@ -156,7 +158,7 @@ export function NotificationsView() {
     const { error } = await supabase
       .from('notifications')
       .update({ is_read: true })
-      .eq('user_id', user?.id)
+      .eq('household_id', household?.id)
       .eq('is_read', false);
 
     if (error) {
@@ -182,7 +184,7 @@ export function NotificationsView() {
     const { error } = await supabase
       .from('notifications')
       .delete()
-      .eq('user_id', user?.id);
+      .eq('household_id', household?.id);
 
     if (error) {
       console.error('Error deleting all notifications:', error);
@@ -204,7 +206,7 @@ export function NotificationsView() {
     const { error } = await supabase
       .from('notifications')
       .delete()
-      .eq('user_id', user?.id)
+      .eq('household_id', household?.id)
       .eq('is_read', true);
 
     if (error) {
@@ -225,7 +227,7 @@ export function NotificationsView() {
 
   const getNotificationIcon = (type: string) => {
     switch (type) {
-      case 'expiry':
+      case 'expiring':
         return <AlertTriangle className="w-5 h-5 text-orange-500" />;
       case 'expired':
         return <AlertTriangle className="w-5 h-5 text-red-500" />;
@@ -233,6 +235,10 @@ export function NotificationsView() {
         return <Package className="w-5 h-5 text-green-500" />;
       case 'product_removed':
         return <Trash2 className="w-5 h-5 text-red-500" />;
+      case 'running_out':
+        return <TrendingDown className="w-5 h-5 text-orange-500" />;
+      case 'low_stock':
+        return <PackageMinus className="w-5 h-5 text-amber-500" />;
       default:
         return <Bell className="w-5 h-5 text-blue-500" />;
     }
@@ -240,7 +246,7 @@ export function NotificationsView() {
 
   const getNotificationBadgeVariant = (type: string) => {
     switch (type) {
-      case 'expiry':
+      case 'expiring':
         return 'destructive';
       case 'expired':
         return 'destructive';
@@ -248,6 +254,9 @@ export function NotificationsView() {
         return 'default';
       case 'product_removed':
         return 'secondary';
+      case 'running_out':
+      case 'low_stock':
+        return 'secondary';
       default:
         return 'outline';
     }
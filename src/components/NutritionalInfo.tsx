@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/hooks/useAuth';
+import { useHousehold } from '@/hooks/useHousehold';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -144,6 +145,7 @@ const getNutritionData = async (productName: string): Promise<NutritionData | nu
 
 export function NutritionalInfo() {
   const { user } = useAuth();
+  const { household } = useHousehold();
   const [products, setProducts] = useState<ProductWithNutrition[]>([]);
   const [newProducts, setNewProducts] = useState<ProductWithNutrition[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
@@ -151,14 +153,14 @@ export function NutritionalInfo() {
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
 
   const removeUsedProduct = async (productId: string) => {
-    if (!user) return;
+    if (!user || !household) return;
     
     try {
       const { error } = await supabase
         .from('grocery_items')
         .update({ quantity: 0 })
         .eq('id', productId)
-        .eq('user_id', user.id);
+        .eq('household_id', household.id);
         
       if (error) throw error;
       setProducts(prev => prev.filter(p => p.id !== productId));
@@ -168,13 +170,13 @@ export function NutritionalInfo() {
   };
 
   const fetchAndProcessProducts = async () => {
-    if (!user) return;
+    if (!user || !household) return;
 
     try {
       const { data, error } = await supabase
         .from('grocery_items')
         .select(`*, categories (name)`)
-        .eq('user_id', user.id)
+        .eq('household_id', household.id)
         .gt('quantity', 0);
 
       if (error) throw error;
@@ -220,7 +222,8 @@ export function NutritionalInfo() {
       .on('postgres_changes', {
         event: '*',
         schema: 'public',
-        table: 'grocery_items'
+        table: 'grocery_items',
+        filter: household ? `household_id=eq.${household.id}` : undefined
       }, () => {
         fetchAndProcessProducts();
       })
@@ -229,7 +232,7 @@ export function NutritionalInfo() {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [user]);
+  }, [user, household]);
 
   const categories = ['all', ...new Set(products.map(p => p.categories?.name).filter(Boolean))];
 
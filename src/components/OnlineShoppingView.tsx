@@ -1,5 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/hooks/useAuth';
+import { useHousehold } from '@/hooks/useHousehold';
+import { useStockLevels } from '@/hooks/useStockLevels';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -33,10 +35,11 @@ interface LocationPricing {
 
 export function OnlineShoppingView() {
   const { user } = useAuth();
+  const { household } = useHousehold();
+  const { lowStock, getLevel } = useStockLevels();
   const [products, setProducts] = useState<Product[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [loading, setLoading] = useState(true);
-  const [lowStockItems, setLowStockItems] = useState<Product[]>([]);
   const [userLocation, setUserLocation] = useState<LocationPricing>({ region: 'India', currency: '₹', avgPriceMultiplier: 1 });
 
   // Location-based pricing configuration
@@ -111,7 +114,7 @@ export function OnlineShoppingView() {
 
   useEffect(() => {
     const fetchProducts = async () => {
-      if (!user) return;
+      if (!user || !household) return;
 
       try {
         const { data, error } = await supabase
@@ -120,17 +123,12 @@ export function OnlineShoppingView() {
             *,
             categories (name)
           `)
-          .eq('user_id', user.id)
+          .eq('household_id', household.id)
           .gt('quantity', 0);
 
         if (error) throw error;
         
-        const allProducts = data || [];
-        setProducts(allProducts);
-        
-        // Filter low stock items (quantity <= 2)
-        const lowStock = allProducts.filter(product => product.quantity <= 2);
-        setLowStockItems(lowStock);
+        setProducts(data || []);
       } catch (error) {
         console.error('Error fetching products:', error);
       } finally {
@@ -139,7 +137,7 @@ export function OnlineShoppingView() {
     };
 
     fetchProducts();
-  }, [user]);
+  }, [user, household]);
 
   const openStore = (store: Store, query?: string) => {
     if (query) {
@@ -150,6 +148,13 @@ export function OnlineShoppingView() {
     }
   };
 
+  // Items at or below their own or their category's minimum stock
+  const lowStockItems = products.filter(product =>
+    lowStock.some(level => level.grocery_item_id === product.id)
+  );
+
+  const getMinimum = (productId: string) => getLevel(productId)?.min_quantity ?? null;
+
   const filteredProducts = products.filter(product =>
     product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     product.categories?.name.toLowerCase().includes(searchTerm.toLowerCase())
@@ -238,6 +243,7 @@ export function OnlineShoppingView() {
                     <div className="font-medium">{product.name}</div>
                     <div className="text-sm text-muted-foreground">
                       Only {product.quantity} {product.quantity_type} left
+                      {getMinimum(product.id) !== null ? ` (minimum ${getMinimum(product.id)})` : ''}
                     </div>
                   </div>
                   <div className="flex gap-1">
@@ -2,8 +2,8 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Calendar, DollarSign, Package, MoreVertical, Edit, Trash2, Sparkles, Check, AlertTriangle } from "lucide-react";
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator } from "@/components/ui/dropdown-menu";
+import { Calendar, DollarSign, Package, MoreVertical, Edit, Trash2, Sparkles, Check, AlertTriangle, MapPin, ArrowRightLeft, Layers, TrendingDown } from "lucide-react";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator, DropdownMenuSub, DropdownMenuSubContent, DropdownMenuSubTrigger } from "@/components/ui/dropdown-menu";
 import { useState } from "react";
 import { useAutoImageAssignment } from "@/hooks/useAutoImageAssignment";
 
@@ -17,6 +17,37 @@ interface Product {
   amount: string;
   image: string;
   barcode: string;
+  locationId?: string | null;
+  location?: string | null;
+  lots?: ProductLot[];
+  runOut?: ProductRunOut | null;
+  stockLevel?: ProductStockLevel | null;
+}
+
+interface ProductLot {
+  id: string;
+  quantity: number;
+  price: string;
+  purchaseDate: string;
+  expiryDate: string | null;
+}
+
+interface ProductRunOut {
+  date: string;
+  days: number;
+  fromScale: boolean;
+  soon: boolean;
+}
+
+interface ProductStockLevel {
+  isLow: boolean;
+  minQuantity: number | null;
+  targetQuantity: number | null;
+}
+
+interface StorageLocation {
+  id: string;
+  name: string;
 }
 
 interface ProductCardProps {
@@ -25,9 +56,12 @@ interface ProductCardProps {
   onDelete?: (productId: string) => void;
   onImageUpdate?: (productId: string, imageUrl: string) => void;
   onMarkAsWaste?: (productId: string, reason: string) => void;
+  onMarkAsUsed?: (productId: string) => void;
+  locations?: StorageLocation[];
+  onMove?: (productId: string, locationId: string) => void;
 }
 
-export function ProductCard({ product, onEdit, onDelete, onImageUpdate, onMarkAsWaste }: ProductCardProps) {
+export function ProductCard({ product, onEdit, onDelete, onImageUpdate, onMarkAsWaste, onMarkAsUsed, locations = [], onMove }: ProductCardProps) {
   const { downloadAndAssignImage, downloading } = useAutoImageAssignment();
   const [currentImage, setCurrentImage] = useState(() => {
     // Use existing image or default fallback
@@ -65,6 +99,14 @@ export function ProductCard({ product, onEdit, onDelete, onImageUpdate, onMarkAs
     return new Date(dateString).toLocaleDateString();
   };
 
+  // Nearest-expiring lot first, lots without an expiry date last
+  const sortedLots = [...(product.lots || [])].sort((a, b) => {
+    if (!a.expiryDate) return 1;
+    if (!b.expiryDate) return -1;
+    return new Date(a.expiryDate).getTime() - new Date(b.expiryDate).getTime();
+  });
+  const nearestLot = sortedLots[0];
+
   const handleGenerateImage = async () => {
     console.log(`Generating AI image for product: ${product.name}, category: ${product.category}`);
     const imageUrl = await downloadAndAssignImage(product.id, product.name, product.category);
@@ -123,6 +165,25 @@ export function ProductCard({ product, onEdit, onDelete, onImageUpdate, onMarkAs
                   <Edit className="w-4 h-4 mr-2" />
                   Edit Product
                 </DropdownMenuItem>
+                {onMove && locations.length > 0 && (
+                  <DropdownMenuSub>
+                    <DropdownMenuSubTrigger>
+                      <ArrowRightLeft className="w-4 h-4 mr-2" />
+                      Move to
+                    </DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent>
+                      {locations.map((location) => (
+                        <DropdownMenuItem
+                          key={location.id}
+                          disabled={location.id === product.locationId}
+                          onClick={() => onMove(product.id, location.id)}
+                        >
+                          {location.name}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
+                )}
                 <DropdownMenuSeparator />
                 <DropdownMenuItem onClick={() => handleMarkAsWaste("expired")}>
                   <AlertTriangle className="w-4 h-4 mr-2" />
@@ -161,12 +222,28 @@ export function ProductCard({ product, onEdit, onDelete, onImageUpdate, onMarkAs
             <div className="flex items-center gap-2 text-sm text-gray-600">
               <Package className="w-4 h-4" />
               <span>Qty: {product.quantity} {product.quantityType || 'units'}</span>
+              {product.stockLevel?.isLow && (
+                <Badge
+                  variant="destructive"
+                  className="ml-auto text-xs"
+                  title={product.stockLevel.minQuantity !== null ? `Minimum ${product.stockLevel.minQuantity}` : `Target ${product.stockLevel.targetQuantity}`}
+                >
+                  Low stock
+                </Badge>
+              )}
             </div>
             
             <div className="flex items-center gap-2 text-sm text-gray-600">
               <DollarSign className="w-4 h-4" />
               <span>{product.amount}</span>
             </div>
+
+            {product.location && (
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <MapPin className="w-4 h-4" />
+                <span>{product.location}</span>
+              </div>
+            )}
             
             <div className="flex items-center gap-2 text-sm">
               <Calendar className="w-4 h-4" />
@@ -175,12 +252,45 @@ export function ProductCard({ product, onEdit, onDelete, onImageUpdate, onMarkAs
                 {isExpired() ? "Expired" : isExpiringSoon() ? "Soon" : "Fresh"}
               </Badge>
             </div>
+
+            {product.runOut && (
+              <div
+                className={`flex items-center gap-2 text-sm ${product.runOut.soon ? 'text-red-600' : 'text-gray-600'}`}
+                title={product.runOut.fromScale ? 'Forecast from scale readings' : 'Forecast from recent usage'}
+              >
+                <TrendingDown className="w-4 h-4" />
+                <span>
+                  {product.runOut.days === 0 ? 'Runs out today' : `Runs out ~${formatDate(product.runOut.date)}`}
+                </span>
+                {product.runOut.soon && (
+                  <Badge variant="destructive" className="ml-auto text-xs">Restock</Badge>
+                )}
+              </div>
+            )}
+
+            {sortedLots.length > 1 && (
+              <div className="rounded-md bg-gray-50 p-2 space-y-1">
+                <div className="flex items-center gap-2 text-xs font-medium text-gray-700">
+                  <Layers className="w-3 h-3" />
+                  <span>{sortedLots.length} lots · next: {nearestLot.quantity} {product.quantityType || 'units'}</span>
+                </div>
+                {sortedLots.map((lot) => (
+                  <div
+                    key={lot.id}
+                    className={`flex justify-between text-xs ${lot.id === nearestLot.id ? 'text-gray-900' : 'text-gray-500'}`}
+                  >
+                    <span>{lot.quantity} × {lot.expiryDate ? formatDate(lot.expiryDate) : 'No expiry'}</span>
+                    <span>{lot.price}</span>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
           
           {/* Mark as Used Button */}
           <div className="mt-3 pt-3 border-t border-gray-100">
             <Button 
-              onClick={() => onDelete?.(product.id)}
+              onClick={() => onMarkAsUsed ? onMarkAsUsed(product.id) : onDelete?.(product.id)}
               variant="outline"
               size="sm"
               className="w-full text-green-600 border-green-200 hover:bg-green-50 hover:text-green-700 hover:border-green-300"
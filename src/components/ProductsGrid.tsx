@@ -2,6 +2,8 @@
 import { Button } from "@/components/ui/button";
 import { ProductCard } from "@/components/ProductCard";
 import { supabase } from "@/integrations/supabase/client";
+import { RunOutForecast, RUN_OUT_WARNING_DAYS } from "@/hooks/useRunOutForecast";
+import { StockLevel } from "@/hooks/useStockLevels";
 
 interface Product {
   id: string;
@@ -16,7 +18,22 @@ interface Product {
   user_id: string;
   created_at: string;
   updated_at: string;
+  storage_location_id?: string | null;
   categories?: { name: string };
+  grocery_item_lots?: ProductLot[];
+}
+
+interface ProductLot {
+  id: string;
+  quantity: number;
+  unit_price: number;
+  purchase_date: string;
+  expiry_date: string | null;
+}
+
+interface StorageLocation {
+  id: string;
+  name: string;
 }
 
 interface ProductsGridProps {
@@ -24,10 +41,16 @@ interface ProductsGridProps {
   loading: boolean;
   searchTerm: string;
   selectedCategory: string;
+  selectedLocation?: string;
+  locations?: StorageLocation[];
+  forecasts?: RunOutForecast[];
+  stockLevels?: StockLevel[];
   getCategoryName: (categoryId: string) => string;
   onEditProduct: (product: Product) => void;
   onDeleteProduct: (productId: string) => void;
   onMarkAsWaste?: (productId: string, reason: string) => void;
+  onMarkAsUsed?: (productId: string) => void;
+  onMoveProduct?: (productId: string, locationId: string) => void;
   onAddProduct: () => void;
 }
 
@@ -36,10 +59,16 @@ export function ProductsGrid({
   loading, 
   searchTerm, 
   selectedCategory, 
+  selectedLocation = "all",
+  locations = [],
+  forecasts = [],
+  stockLevels = [],
   getCategoryName,
   onEditProduct,
   onDeleteProduct,
   onMarkAsWaste,
+  onMarkAsUsed,
+  onMoveProduct,
   onAddProduct
 }: ProductsGridProps) {
   const handleImageUpdate = async (productId: string, imageUrl: string) => {
@@ -77,7 +106,7 @@ export function ProductsGrid({
     return (
       <div className="text-center py-12">
         <p className="text-gray-500 text-lg">
-          {searchTerm || selectedCategory !== "all" 
+          {searchTerm || selectedCategory !== "all" || selectedLocation !== "all" 
             ? "No active products found matching your filters" 
             : "No active products found"}
         </p>
@@ -90,26 +119,53 @@ export function ProductsGrid({
 
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-      {activeProducts.map((product) => (
-        <ProductCard 
-          key={product.id} 
-          product={{
-            id: product.id,
-            name: product.name,
-            category: getCategoryName(product.category_id),
-            quantity: product.quantity,
-            quantityType: product.quantity_type,
-            expiryDate: product.expiry_date,
-            amount: `₹${product.amount}`,
-            image: product.image_url || "/placeholder.svg",
-            barcode: product.barcode || "",
-          }}
-          onEdit={() => onEditProduct(product)}
-          onDelete={() => onDeleteProduct(product.id)}
-          onMarkAsWaste={onMarkAsWaste}
-          onImageUpdate={handleImageUpdate}
-        />
-      ))}
+      {activeProducts.map((product) => {
+        const forecast = forecasts.find(f => f.grocery_item_id === product.id);
+        const stockLevel = stockLevels.find(level => level.grocery_item_id === product.id);
+        return (
+          <ProductCard 
+            key={product.id} 
+            product={{
+              id: product.id,
+              name: product.name,
+              category: getCategoryName(product.category_id),
+              quantity: product.quantity,
+              quantityType: product.quantity_type,
+              expiryDate: product.expiry_date,
+              amount: `₹${product.amount}`,
+              image: product.image_url || "/placeholder.svg",
+              barcode: product.barcode || "",
+              locationId: product.storage_location_id,
+              location: locations.find(location => location.id === product.storage_location_id)?.name,
+              lots: (product.grocery_item_lots || []).map(lot => ({
+                id: lot.id,
+                quantity: lot.quantity,
+                price: `₹${(lot.quantity * lot.unit_price).toFixed(2)}`,
+                purchaseDate: lot.purchase_date,
+                expiryDate: lot.expiry_date,
+              })),
+              runOut: forecast ? {
+                date: forecast.predicted_run_out_date,
+                days: forecast.days_until_run_out,
+                fromScale: forecast.source === 'weight',
+                soon: forecast.days_until_run_out <= RUN_OUT_WARNING_DAYS,
+              } : null,
+              stockLevel: stockLevel ? {
+                isLow: stockLevel.is_low,
+                minQuantity: stockLevel.min_quantity,
+                targetQuantity: stockLevel.target_quantity,
+              } : null,
+            }}
+            onEdit={() => onEditProduct(product)}
+            onDelete={() => onDeleteProduct(product.id)}
+            onMarkAsWaste={onMarkAsWaste}
+            onMarkAsUsed={onMarkAsUsed}
+            onImageUpdate={handleImageUpdate}
+            locations={locations}
+            onMove={onMoveProduct}
+          />
+        );
+      })}
     </div>
   );
 }
@@ -3,7 +3,7 @@ import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { NotificationPreferences } from "@/components/NotificationPreferences";
 import { useAutoImageAssignment } from "@/hooks/useAutoImageAssignment";
-import { Plus, ScanLine, Bell, Images } from "lucide-react";
+import { Plus, ScanLine, Bell, Images, PackagePlus } from "lucide-react";
 
 interface Product {
   id: string;
@@ -17,6 +17,7 @@ interface ProductsHeaderProps {
   showNotificationSettings: boolean;
   setShowNotificationSettings: (show: boolean) => void;
   setShowScanner: (show: boolean) => void;
+  setShowScanSession: (show: boolean) => void;
   onAddProduct: () => void;
   products?: Product[];
   getCategoryName?: (categoryId: string) => string;
@@ -26,6 +27,7 @@ export function ProductsHeader({
   showNotificationSettings, 
   setShowNotificationSettings, 
   setShowScanner, 
+  setShowScanSession,
   onAddProduct,
   products = [],
   getCategoryName = () => "Unknown"
@@ -80,6 +82,10 @@ export function ProductsHeader({
           <ScanLine className="w-4 h-4 mr-2" />
           Scan Barcode
         </Button>
+        <Button onClick={() => setShowScanSession(true)} variant="outline" size="lg" title="Scan several items in a row">
+          <PackagePlus className="w-4 h-4 mr-2" />
+          Unpack Groceries
+        </Button>
         <Button onClick={onAddProduct} size="lg">
           <Plus className="w-4 h-4 mr-2" />
           Add Product
@@ -1,17 +1,25 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { AddProductDialog } from "@/components/AddProductDialog";
 import { EditProductDialog } from "@/components/EditProductDialog";
 import { BarcodeScanner } from "@/components/BarcodeScanner";
+import { ScanSessionDialog } from "@/components/ScanSessionDialog";
 import { ValidationErrors } from "@/components/ValidationErrors";
 import { ProductsHeader } from "@/components/ProductsHeader";
 import { SearchAndFilters } from "@/components/SearchAndFilters";
 import { ProductsGrid } from "@/components/ProductsGrid";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useHousehold } from "@/hooks/useHousehold";
 import { useProductOperations } from "@/hooks/useProductOperations";
+import { useStorageLocations, StorageLocationMove } from "@/hooks/useStorageLocations";
+import { useToast } from "@/hooks/use-toast";
+import { useInventoryLedger, InventoryMovement } from "@/hooks/useInventoryLedger";
+import { useRunOutForecast } from "@/hooks/useRunOutForecast";
+import { useStockLevels } from "@/hooks/useStockLevels";
 import { sanitizeInput } from "@/utils/securityValidation";
 import { LogoGenerator } from "@/components/LogoGenerator";
 import { BarcodeProductDisplay } from "@/components/BarcodeProductDisplay";
+import { Gs1ElementString } from "@/utils/barcodeDecoder";
 
 interface Product {
   id: string;
@@ -24,9 +32,20 @@ interface Product {
   image_url: string;
   barcode: string;
   user_id: string;
+  household_id: string;
+  storage_location_id: string | null;
   created_at: string;
   updated_at: string;
   categories?: { name: string };
+  grocery_item_lots?: ProductLot[];
+}
+
+interface ProductLot {
+  id: string;
+  quantity: number;
+  unit_price: number;
+  purchase_date: string;
+  expiry_date: string | null;
 }
 
 interface Category {
@@ -39,17 +58,29 @@ export function ProductsView() {
   const [categories, setCategories] = useState<Category[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCategory, setSelectedCategory] = useState("all");
+  const [selectedLocation, setSelectedLocation] = useState("all");
   const [sortBy, setSortBy] = useState("name");
   const [showAddProduct, setShowAddProduct] = useState(false);
   const [showScanner, setShowScanner] = useState(false);
+  const [showScanSession, setShowScanSession] = useState(false);
   const [showEditProduct, setShowEditProduct] = useState(false);
   const [showNotificationSettings, setShowNotificationSettings] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [editingMoveHistory, setEditingMoveHistory] = useState<StorageLocationMove[]>([]);
+  const [editingMovements, setEditingMovements] = useState<InventoryMovement[]>([]);
+  // Product whose history was last requested, so late responses for another are dropped
+  const editingProductIdRef = useRef<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
   const [barcodeData, setBarcodeData] = useState<any>(null);
   const { user } = useAuth();
+  const { household } = useHousehold();
   const { addProduct, updateProduct, deleteProduct } = useProductOperations();
+  const { locations, moveItem, getMoveHistory, getLocationName } = useStorageLocations();
+  const { toast } = useToast();
+  const { recordMovement, undoMovement, getItemMovements } = useInventoryLedger();
+  const { forecasts } = useRunOutForecast();
+  const { levels: stockLevels, categoryLevels } = useStockLevels();
   
   // Add a state for showing logo generator  
   const [showLogoGenerator, setShowLogoGenerator] = useState(false);
@@ -74,7 +105,7 @@ export function ProductsView() {
 
   // Fetch products
   useEffect(() => {
-    if (!user) return;
+    if (!user || !household) return;
 
     const fetchProducts = async () => {
       setLoading(true);
@@ -82,9 +113,10 @@ export function ProductsView() {
         .from('grocery_items')
         .select(`
           *,
-          categories (name)
+          categories (name),
+          grocery_item_lots (id, quantity, unit_price, purchase_date, expiry_date)
         `)
-        .eq('user_id', user.id)
+        .eq('household_id', household.id)
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -105,7 +137,7 @@ export function ProductsView() {
           event: '*',
           schema: 'public',
           table: 'grocery_items',
-          filter: `user_id=eq.${user.id}`,
+          filter: `household_id=eq.${household.id}`,
         },
         () => {
           fetchProducts();
@@ -116,7 +148,7 @@ export function ProductsView() {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [user]);
+  }, [user, household]);
 
   const filteredProducts = products.filter(product => {
     const sanitizedSearchTerm = sanitizeInput(searchTerm.toLowerCase());
@@ -124,7 +156,9 @@ export function ProductsView() {
                          product.categories?.name.toLowerCase().includes(sanitizedSearchTerm) ||
                          (product.barcode && product.barcode.includes(sanitizedSearchTerm));
     const matchesCategory = selectedCategory === "all" || product.category_id === selectedCategory;
-    return matchesSearch && matchesCategory;
+    const matchesLocation = selectedLocation === "all" ||
+                           (selectedLocation === "unassigned" ? !product.storage_location_id : product.storage_location_id === selectedLocation);
+    return matchesSearch && matchesCategory && matchesLocation;
   }).sort((a, b) => {
     if (sortBy === "name") {
       return a.name.localeCompare(b.name);
@@ -132,6 +166,13 @@ export function ProductsView() {
       return (a.categories?.name || "").localeCompare(b.categories?.name || "");
     } else if (sortBy === "expiry") {
       return new Date(a.expiry_date).getTime() - new Date(b.expiry_date).getTime();
+    } else if (sortBy === "location") {
+      // Unassigned items sort last
+      const locationOrder = (product: Product) => {
+        const index = locations.findIndex(location => location.id === product.storage_location_id);
+        return index === -1 ? locations.length : index;
+      };
+      return locationOrder(a) - locationOrder(b);
     }
     return 0;
   });
@@ -155,17 +196,18 @@ export function ProductsView() {
       // Add to waste tracking
       const product = products.find(p => p.id === productId);
       if (product) {
-        const { error } = await (supabase as any)
+        if (product.quantity > 0) {
+          await recordMovement(productId, 'wasted', -product.quantity, { reason });
+        }
+
+        const { error } = await supabase
           .from('waste_items')
           .insert({
             user_id: user.id,
-            product_name: product.name,
-            category: product.categories?.name || 'Unknown',
+            household_id: household?.id,
+            item_name: product.name,
             quantity: product.quantity,
-            quantity_type: product.quantity_type,
-            amount: product.amount,
-            waste_reason: reason,
-            waste_date: new Date().toISOString().split('T')[0]
+            reason
           });
           
         if (error) throw error;
@@ -178,15 +220,96 @@ export function ProductsView() {
     }
   };
 
-  const handleEditProduct = (product: Product) => {
+  const handleMarkAsUsed = async (productId: string) => {
+    const product = products.find(p => p.id === productId);
+    if (!product) return;
+
+    try {
+      if (product.quantity > 0) {
+        await recordMovement(productId, 'consumed', -product.quantity);
+      }
+      await deleteProduct(productId);
+    } catch (error) {
+      console.error('Error marking product as used:', error);
+      toast({
+        title: "Error",
+        description: "Failed to mark product as used. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleUndoMovement = async (movementId: string) => {
+    try {
+      await undoMovement(movementId);
+      if (editingProduct) {
+        // Reload the item so the dialog shows the restored quantity instead of
+        // re-applying the old one on save
+        const { data } = await supabase
+          .from('grocery_items')
+          .select(`
+            *,
+            categories (name),
+            grocery_item_lots (id, quantity, unit_price, purchase_date, expiry_date)
+          `)
+          .eq('id', editingProduct.id)
+          .single();
+        if (data) setEditingProduct(data);
+        setEditingMovements(await getItemMovements(editingProduct.id));
+      }
+      toast({
+        title: "Change undone",
+        description: "The stock change was reversed",
+      });
+    } catch (error) {
+      console.error('Error undoing stock change:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to undo the change",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleMoveProduct = async (productId: string, locationId: string) => {
+    try {
+      const newExpiry = await moveItem(productId, locationId);
+      toast({
+        title: "Product moved",
+        description: newExpiry
+          ? `Moved to ${getLocationName(locationId)}. New expiry date: ${new Date(newExpiry).toLocaleDateString()}`
+          : `Moved to ${getLocationName(locationId)}`,
+      });
+    } catch (error) {
+      console.error('Error moving product:', error);
+      toast({
+        title: "Error",
+        description: "Failed to move product. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleEditProduct = async (product: Product) => {
     setEditingProduct(product);
     setShowEditProduct(true);
     setValidationErrors([]);
+    setEditingMoveHistory([]);
+    setEditingMovements([]);
+    editingProductIdRef.current = product.id;
+    const [moveHistory, movements] = await Promise.all([
+      getMoveHistory(product.id),
+      getItemMovements(product.id),
+    ]);
+    // Another product may have been opened while these were loading
+    if (editingProductIdRef.current !== product.id) return;
+    setEditingMoveHistory(moveHistory);
+    setEditingMovements(movements);
   };
 
-  const onBarcodeScanned = (barcode: string, productData?: any) => {
+  const onBarcodeScanned = (barcode: string, productData?: any, gs1?: Gs1ElementString | null) => {
     console.log("Scanned barcode:", barcode, "Product data:", productData);
-    setBarcodeData(productData);
+    setBarcodeData(productData || gs1 ? { ...productData, barcode, gs1 } : null);
     setShowScanner(false);
     setValidationErrors([]);
     setShowAddProduct(true);
@@ -211,6 +334,7 @@ export function ProductsView() {
         showNotificationSettings={showNotificationSettings}
         setShowNotificationSettings={setShowNotificationSettings}
         setShowScanner={setShowScanner}
+        setShowScanSession={setShowScanSession}
         onAddProduct={handleAddProductClick}
         products={filteredProducts}
         getCategoryName={getCategoryName}
@@ -223,9 +347,12 @@ export function ProductsView() {
         setSearchTerm={setSearchTerm}
         selectedCategory={selectedCategory}
         setSelectedCategory={setSelectedCategory}
+        selectedLocation={selectedLocation}
+        setSelectedLocation={setSelectedLocation}
         sortBy={sortBy}
         setSortBy={setSortBy}
         categories={categories}
+        locations={locations}
       />
 
       <ProductsGrid
@@ -233,10 +360,16 @@ export function ProductsView() {
         loading={loading}
         searchTerm={searchTerm}
         selectedCategory={selectedCategory}
+        selectedLocation={selectedLocation}
+        locations={locations}
+        forecasts={forecasts}
+        stockLevels={stockLevels}
         getCategoryName={getCategoryName}
         onEditProduct={handleEditProduct}
         onDeleteProduct={handleDeleteProduct}
         onMarkAsWaste={handleMarkAsWaste}
+        onMarkAsUsed={handleMarkAsUsed}
+        onMoveProduct={handleMoveProduct}
         onAddProduct={handleAddProductClick}
       />
 
@@ -245,6 +378,7 @@ export function ProductsView() {
         onOpenChange={setShowAddProduct}
         onAddProduct={handleAddProduct}
         categories={categories}
+        locations={locations}
         initialBarcodeData={barcodeData}
       />
       
@@ -254,6 +388,11 @@ export function ProductsView() {
         product={editingProduct}
         onUpdateProduct={handleUpdateProduct}
         categories={categories}
+        locations={locations}
+        moveHistory={editingMoveHistory}
+        movements={editingMovements}
+        onUndoMovement={handleUndoMovement}
+        categoryLevels={categoryLevels}
       />
       
       <BarcodeScanner
@@ -261,6 +400,12 @@ export function ProductsView() {
         onOpenChange={setShowScanner}
         onBarcodeScanned={onBarcodeScanned}
       />
+
+      <ScanSessionDialog
+        open={showScanSession}
+        onOpenChange={setShowScanSession}
+        categories={categories}
+      />
       
       {/* Logo Generator - Hidden by default, can be shown via developer tools */}
       {showLogoGenerator && (
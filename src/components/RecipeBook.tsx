@@ -0,0 +1,188 @@
+import { useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { SavedRecipe } from '@/hooks/useSavedRecipes';
+import { StructuredRecipe } from '@/hooks/useRecipes';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { RecipeRating } from '@/components/RecipeRating';
+import { BookOpen, ChevronDown, Clock, CookingPot, MessageSquare, Pencil, Search, Trash2, Users } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface RecipeBookProps {
+  recipes: SavedRecipe[];
+  tags: string[];
+  isLoading: boolean;
+  onCook: (recipe: StructuredRecipe) => void;
+  onEdit: (recipe: SavedRecipe) => void;
+  onRate: (recipeId: string, rating: number | null) => Promise<boolean>;
+  onDelete: (recipeId: string) => Promise<boolean>;
+  onOpenChat: (sessionId: string) => void;
+}
+
+export function RecipeBook({ recipes, tags, isLoading, onCook, onEdit, onRate, onDelete, onOpenChat }: RecipeBookProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+
+  const search = searchTerm.trim().toLowerCase();
+  const filteredRecipes = recipes.filter(recipe =>
+    (!selectedTag || recipe.tags.includes(selectedTag)) &&
+    (!search ||
+      recipe.title.toLowerCase().includes(search) ||
+      recipe.tags.some(tag => tag.includes(search)) ||
+      (recipe.notes || '').toLowerCase().includes(search))
+  );
+
+  const handleRate = async (recipe: SavedRecipe, rating: number | null) => {
+    if (!await onRate(recipe.id, rating)) {
+      toast({ title: "Error", description: "Failed to update rating", variant: "destructive" });
+    }
+  };
+
+  const handleDelete = async (recipe: SavedRecipe) => {
+    if (await onDelete(recipe.id)) {
+      toast({ title: "Recipe removed", description: `${recipe.title} was removed from your recipe book` });
+    } else {
+      toast({ title: "Error", description: "Failed to remove recipe", variant: "destructive" });
+    }
+  };
+
+  if (isLoading && recipes.length === 0) {
+    return <div className="p-6 text-foreground">Loading recipe book...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+          <Input
+            placeholder="Search saved recipes..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {tags.map(tag => (
+              <Badge
+                key={tag}
+                variant={selectedTag === tag ? 'default' : 'outline'}
+                className="cursor-pointer"
+                onClick={() => setSelectedTag(selectedTag === tag ? null : tag)}
+              >
+                {tag}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {filteredRecipes.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <BookOpen className="mx-auto w-12 h-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">
+              {recipes.length === 0 ? "Save recipes from the AI Chef to keep them here" : "No matching recipes"}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {filteredRecipes.map(saved => {
+            const recipe = saved.recipe;
+            const totalMinutes = recipe ? (recipe.prep_minutes || 0) + (recipe.cook_minutes || 0) : 0;
+
+            return (
+              <Card key={saved.id}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <CardTitle className="text-lg">{saved.title}</CardTitle>
+                    <RecipeRating rating={saved.rating} onChange={(rating) => handleRate(saved, rating)} />
+                  </div>
+                  <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+                    {totalMinutes > 0 && (
+                      <span className="flex items-center gap-1"><Clock className="w-3 h-3" />{totalMinutes} mins</span>
+                    )}
+                    {recipe?.servings && (
+                      <span className="flex items-center gap-1"><Users className="w-3 h-3" />{recipe.servings} servings</span>
+                    )}
+                    {recipe?.difficulty && <span className="capitalize">{recipe.difficulty}</span>}
+                  </div>
+                  {saved.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {saved.tags.map(tag => (
+                        <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                      ))}
+                    </div>
+                  )}
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {saved.notes && (
+                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">{saved.notes}</p>
+                  )}
+
+                  <Collapsible>
+                    <CollapsibleTrigger asChild>
+                      <Button variant="ghost" size="sm" className="px-0">
+                        <ChevronDown className="w-4 h-4 mr-1" />
+                        Show recipe
+                      </Button>
+                    </CollapsibleTrigger>
+                    <CollapsibleContent className="space-y-3 text-sm">
+                      {recipe && recipe.ingredients.length > 0 ? (
+                        <>
+                          <ul className="list-disc ml-5">
+                            {recipe.ingredients.map((ingredient, index) => (
+                              <li key={`${ingredient.name}-${index}`}>
+                                {[ingredient.quantity, ingredient.unit, ingredient.name].filter(Boolean).join(' ')}
+                                {ingredient.optional && <span className="text-muted-foreground"> (optional)</span>}
+                              </li>
+                            ))}
+                          </ul>
+                          <ol className="list-decimal ml-5 space-y-1">
+                            {recipe.steps.map((step, index) => <li key={index}>{step}</li>)}
+                          </ol>
+                        </>
+                      ) : (
+                        <p className="whitespace-pre-wrap">{saved.markdown}</p>
+                      )}
+                    </CollapsibleContent>
+                  </Collapsible>
+
+                  <div className="flex flex-wrap gap-2">
+                    {recipe?.ingredients.some(ingredient => ingredient.grocery_item_id) && (
+                      <Button size="sm" onClick={() => onCook(recipe)}>
+                        <CookingPot className="w-4 h-4 mr-1" />
+                        Cook this
+                      </Button>
+                    )}
+                    <Button size="sm" variant="outline" onClick={() => onEdit(saved)}>
+                      <Pencil className="w-4 h-4 mr-1" />
+                      Edit
+                    </Button>
+                    {/* Conversations are private, so only whoever saved the recipe can open its chat */}
+                    {saved.source_session_id && saved.created_by === user?.id && (
+                      <Button size="sm" variant="outline" onClick={() => onOpenChat(saved.source_session_id!)}>
+                        <MessageSquare className="w-4 h-4 mr-1" />
+                        Open chat
+                      </Button>
+                    )}
+                    <Button size="sm" variant="ghost" onClick={() => handleDelete(saved)} title="Remove from recipe book">
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
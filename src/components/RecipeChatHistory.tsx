@@ -0,0 +1,102 @@
+import { useState, useEffect } from 'react';
+import { useRecipeChats, RecipeChatSession } from '@/hooks/useRecipeChats';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { MessageSquare, Search, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface RecipeChatHistoryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  activeSessionId: string | null;
+  onResume: (session: RecipeChatSession) => void;
+  onDeleted: (sessionId: string) => void;
+}
+
+const SEARCH_DELAY_MS = 300;
+
+export function RecipeChatHistory({ open, onOpenChange, activeSessionId, onResume, onDeleted }: RecipeChatHistoryProps) {
+  const { sessions, isLoading, fetchSessions, deleteSession } = useRecipeChats();
+  const { toast } = useToast();
+  const [searchTerm, setSearchTerm] = useState('');
+
+  // Searches once typing pauses
+  useEffect(() => {
+    if (!open) return;
+
+    const timeout = setTimeout(() => fetchSessions(searchTerm), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [open, searchTerm, fetchSessions]);
+
+  const handleDelete = async (session: RecipeChatSession) => {
+    if (await deleteSession(session.id)) {
+      onDeleted(session.id);
+      toast({ title: "Chat deleted", description: session.title });
+    } else {
+      toast({ title: "Error", description: "Failed to delete chat", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Recipe Chats</SheetTitle>
+          <SheetDescription>Pick up an earlier conversation with the AI Chef</SheetDescription>
+        </SheetHeader>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+          <Input
+            placeholder="Search chats..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+
+        <ScrollArea className="flex-1 -mr-4 pr-4">
+          <div className="space-y-2">
+            {sessions.map(session => (
+              <div
+                key={session.id}
+                className={`flex items-center gap-2 p-2 rounded-lg transition-colors ${
+                  session.id === activeSessionId ? 'bg-primary/10' : 'bg-muted/50 hover:bg-muted'
+                }`}
+              >
+                <button
+                  type="button"
+                  className="flex-1 min-w-0 text-left"
+                  onClick={() => {
+                    onResume(session);
+                    onOpenChange(false);
+                  }}
+                >
+                  <p className="text-sm font-medium truncate">{session.title}</p>
+                  <p className="text-xs text-muted-foreground">{new Date(session.updated_at).toLocaleString()}</p>
+                </button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 w-7 p-0"
+                  onClick={() => handleDelete(session)}
+                  title="Delete chat"
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            ))}
+            {sessions.length === 0 && !isLoading && (
+              <div className="text-center py-8 text-muted-foreground">
+                <MessageSquare className="mx-auto w-8 h-8 mb-2" />
+                {searchTerm.trim() ? "No chats match your search" : "No saved chats yet"}
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,29 @@
+import { Star } from 'lucide-react';
+
+interface RecipeRatingProps {
+  rating: number | null;
+  // Leave out to show the rating read-only
+  onChange?: (rating: number | null) => void;
+}
+
+// One to five stars; choosing the current rating again clears it
+export function RecipeRating({ rating, onChange }: RecipeRatingProps) {
+  return (
+    <div className="flex items-center gap-0.5">
+      {[1, 2, 3, 4, 5].map(value => (
+        <button
+          key={value}
+          type="button"
+          disabled={!onChange}
+          onClick={() => onChange?.(rating === value ? null : value)}
+          className="p-0.5 disabled:cursor-default"
+          aria-label={`${value} star${value === 1 ? '' : 's'}`}
+        >
+          <Star
+            className={`w-4 h-4 ${rating && value <= rating ? 'fill-amber-400 text-amber-400' : 'text-muted-foreground'}`}
+          />
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -1,79 +1,156 @@
-import { useState, useEffect, useMemo, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { useAuth } from '@/hooks/useAuth';
-import { supabase } from '@/integrations/supabase/client';
+import { useStorageLocations } from '@/hooks/useStorageLocations';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { ChefHat, Clock, Users, Search, Play, Sparkles, Send, Bot, RefreshCw, Youtube } from 'lucide-react';
+import { ChefHat, Clock, Users, Search, Play, Sparkles, Send, Bot, RefreshCw, Youtube, CookingPot, Leaf, History, BookmarkPlus, BookOpen, Square } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
+import { useRecipes, StructuredRecipe, RecipeMode, stripRecipeBlocks } from '@/hooks/useRecipes';
+import { useRecipeChats } from '@/hooks/useRecipeChats';
+import { usePantryProducts, toRecipePantry, PantryProduct } from '@/hooks/usePantryProducts';
+import { useSavedRecipes, NewSavedRecipe, SavedRecipe, SavedRecipeDetails } from '@/hooks/useSavedRecipes';
+import { CookRecipeDialog } from '@/components/CookRecipeDialog';
+import { SavedRecipeDialog } from '@/components/SavedRecipeDialog';
+import { RecipeBook } from '@/components/RecipeBook';
+import { RecipeChatHistory } from '@/components/RecipeChatHistory';
 
-interface Product {
-  id: string;
-  name: string;
-  quantity: number;
-  quantity_type: string;
-  categories?: { name: string };
-}
+// Matches the at-risk window used by ai-recipe-chat
+const AT_RISK_DAYS = 3;
 
 interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
+  recipe?: StructuredRecipe | null;
+  recipes?: StructuredRecipe[];
+  mode?: RecipeMode;
+  // Set on a partial reply that was stopped or cut off; it is not saved
+  interruption?: string;
   timestamp: Date;
 }
 
+const renderMarkdown = (content: string) => content
+  .replace(/## (.*)/g, '<h3 class="text-lg font-bold mt-4 mb-2">$1</h3>')
+  .replace(/### (.*)/g, '<h4 class="font-semibold mt-3 mb-1">$1</h4>')
+  .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
+  .replace(/^\- (.*)/gm, '<li class="ml-4">$1</li>')
+  .replace(/^\d+\. (.*)/gm, '<li class="ml-4 list-decimal">$1</li>');
+
+// A recipe being saved to the book, or a saved one being edited
+interface RecipeDraft {
+  id: string | null;
+  details: SavedRecipeDetails;
+  source: Pick<NewSavedRecipe, 'recipe' | 'markdown' | 'source_session_id'>;
+}
+
+const activeSessionKey = (userId: string) => `recipe_chat_${userId}`;
+
 export function RecipeSuggestions() {
   const { user } = useAuth();
+  const { locations } = useStorageLocations();
   const { toast } = useToast();
-  const [products, setProducts] = useState<Product[]>([]);
+  const { products, loading } = usePantryProducts('recipe-products');
   const [searchTerm, setSearchTerm] = useState('');
-  const [loading, setLoading] = useState(true);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [userInput, setUserInput] = useState('');
   const [isTyping, setIsTyping] = useState(false);
+  // Reply text received so far while a reply streams in
+  const [streamingContent, setStreamingContent] = useState<string | null>(null);
+  const replyAbortRef = useRef<AbortController | null>(null);
+  const [cookingRecipe, setCookingRecipe] = useState<StructuredRecipe | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [activeTab, setActiveTab] = useState('chat');
+  const [recipeDraft, setRecipeDraft] = useState<RecipeDraft | null>(null);
+  const { getMessages } = useRecipeChats();
+  const { streamChat } = useRecipes();
+  const { recipes: savedRecipes, tags, isLoading: savedLoading, saveRecipe, updateRecipe, deleteRecipe } = useSavedRecipes();
   const chatEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
-    const fetchProducts = async () => {
-      if (!user) return;
-      try {
-        const { data, error } = await supabase
-          .from('grocery_items')
-          .select('*')
-          .eq('user_id', user.id)
-          .gt('quantity', 0);
-
-        if (error) throw error;
-        setProducts(data || []);
-      } catch (error) {
-        console.error('Error fetching products:', error);
-      } finally {
-        setLoading(false);
-      }
-    };
+    chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [chatMessages, streamingContent]);
 
-    fetchProducts();
+  // Abandons a reply that is still streaming without keeping what arrived
+  const discardReply = useCallback(() => {
+    const abort = replyAbortRef.current;
+    replyAbortRef.current = null;
+    abort?.abort();
+    setIsTyping(false);
+    setStreamingContent(null);
+  }, []);
 
-    const channel = supabase
-      .channel('recipe-products')
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'grocery_items' }, fetchProducts)
-      .subscribe();
+  useEffect(() => discardReply, [discardReply]);
 
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [user]);
+  // The open conversation is remembered so it survives navigating away
+  const userId = user?.id;
+  const setActiveSession = useCallback((id: string | null) => {
+    setSessionId(id);
+    if (!userId) return;
+    if (id) {
+      localStorage.setItem(activeSessionKey(userId), id);
+    } else {
+      localStorage.removeItem(activeSessionKey(userId));
+    }
+  }, [userId]);
+
+  const resumeSession = useCallback(async (id: string) => {
+    discardReply();
+
+    try {
+      const messages = await getMessages(id);
+      // Deleted elsewhere; start afresh rather than resume an empty chat
+      if (messages.length === 0) {
+        setChatMessages([]);
+        setActiveSession(null);
+        return;
+      }
+
+      setChatMessages(messages.map(message => ({
+        role: message.role,
+        content: message.content,
+        recipe: message.recipes[0] || null,
+        recipes: message.recipes,
+        mode: message.mode,
+        timestamp: new Date(message.created_at),
+      })));
+      setActiveSession(id);
+    } catch (error) {
+      console.error('Error loading recipe chat:', error);
+      setActiveSession(null);
+      toast({
+        title: "Error",
+        description: "Failed to load the conversation",
+        variant: "destructive",
+      });
+    }
+  }, [getMessages, setActiveSession, discardReply, toast]);
 
   useEffect(() => {
-    chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [chatMessages]);
+    if (!userId) return;
+
+    const savedSessionId = localStorage.getItem(activeSessionKey(userId));
+    if (savedSessionId) {
+      resumeSession(savedSessionId);
+    }
+  }, [userId, resumeSession]);
 
   const availableIngredients = useMemo(() => 
     products.map(p => p.name), [products]
   );
 
-  const sendMessage = async (message: string) => {
+  const isAtRisk = (product: PantryProduct) => {
+    if (!product.expiry_date) return false;
+    const daysLeft = Math.ceil((new Date(product.expiry_date).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+    return daysLeft >= 0 && daysLeft <= AT_RISK_DAYS;
+  };
+
+  const atRiskCount = products.filter(isAtRisk).length;
+
+  const sendMessage = async (message: string, mode: RecipeMode = 'chat') => {
     if (!message.trim() || !user) return;
 
     const userMessage: ChatMessage = {
@@ -85,40 +162,72 @@ export function RecipeSuggestions() {
     setChatMessages(prev => [...prev, userMessage]);
     setUserInput('');
     setIsTyping(true);
+    setStreamingContent('');
+
+    const abort = new AbortController();
+    replyAbortRef.current = abort;
+    let received = '';
 
     try {
-      const { data, error } = await supabase.functions.invoke('ai-recipe-chat', {
-        body: {
-          ingredients: availableIngredients,
-          userMessage: message,
-          conversationHistory: chatMessages.map(m => ({ role: m.role, content: m.content }))
-        }
-      });
+      const reply = await streamChat({
+        ingredients: availableIngredients,
+        pantry: toRecipePantry(products, locations),
+        mode,
+        userMessage: message,
+        sessionId
+      }, (delta) => {
+        received += delta;
+        setStreamingContent(received);
+      }, abort.signal);
+
+      const assistantMessage: ChatMessage = {
+        role: 'assistant',
+        content: reply.response,
+        recipe: reply.recipe,
+        recipes: reply.recipes,
+        mode,
+        timestamp: new Date()
+      };
+      setChatMessages(prev => [...prev, assistantMessage]);
+      if (reply.sessionId) setActiveSession(reply.sessionId);
+    } catch (error) {
+      if (replyAbortRef.current !== abort) return;
 
-      if (error) throw error;
+      const stopped = abort.signal.aborted;
+      const partial = stripRecipeBlocks(received);
 
-      if (data?.success) {
-        const assistantMessage: ChatMessage = {
+      // Whatever arrived before a stop or failure stays readable
+      if (partial) {
+        setChatMessages(prev => [...prev, {
           role: 'assistant',
-          content: data.response,
+          content: partial,
+          mode,
+          interruption: stopped ? 'Stopped' : 'Reply cut off',
           timestamp: new Date()
-        };
-        setChatMessages(prev => [...prev, assistantMessage]);
-      } else {
-        throw new Error(data?.error || 'Failed to get response');
+        }]);
+      }
+
+      if (!stopped) {
+        console.error('Error getting AI response:', error);
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to get recipe suggestions. Please try again.",
+          variant: "destructive",
+        });
       }
-    } catch (error: any) {
-      console.error('Error getting AI response:', error);
-      toast({
-        title: "Error",
-        description: "Failed to get recipe suggestions. Please try again.",
-        variant: "destructive",
-      });
     } finally {
-      setIsTyping(false);
+      if (replyAbortRef.current === abort) {
+        replyAbortRef.current = null;
+        setIsTyping(false);
+        setStreamingContent(null);
+      }
     }
   };
 
+  const stopReply = () => {
+    replyAbortRef.current?.abort();
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     sendMessage(userInput);
@@ -162,7 +271,43 @@ export function RecipeSuggestions() {
   );
 
   const clearChat = () => {
+    discardReply();
     setChatMessages([]);
+    setActiveSession(null);
+  };
+
+  const openSavedChat = async (id: string) => {
+    await resumeSession(id);
+    setActiveTab('chat');
+  };
+
+  const startSaving = (message: ChatMessage, recipe: StructuredRecipe | null) => {
+    const heading = message.content.match(/## 🍳?\s*(.*)/);
+    setRecipeDraft({
+      id: null,
+      details: {
+        title: (recipe?.title || heading?.[1] || 'Saved recipe').replace(/\*\*/g, '').trim().slice(0, 100),
+        tags: message.mode === 'use_it_up' ? ['use it up'] : [],
+        rating: null,
+        notes: null,
+      },
+      source: { recipe, markdown: message.content, source_session_id: sessionId },
+    });
+  };
+
+  const startEditing = (saved: SavedRecipe) => {
+    setRecipeDraft({
+      id: saved.id,
+      details: { title: saved.title, tags: saved.tags, rating: saved.rating, notes: saved.notes },
+      source: { recipe: saved.recipe, markdown: saved.markdown, source_session_id: saved.source_session_id },
+    });
+  };
+
+  const handleSaveDraft = (details: SavedRecipeDetails) => {
+    if (!recipeDraft) return Promise.resolve(false);
+    return recipeDraft.id
+      ? updateRecipe(recipeDraft.id, details)
+      : saveRecipe({ ...recipeDraft.source, ...details });
   };
 
   if (loading) {
@@ -181,207 +326,350 @@ export function RecipeSuggestions() {
         </div>
       </div>
 
-      <div className="grid gap-6 lg:grid-cols-3">
-        {/* Ingredients Panel */}
-        <Card className="lg:col-span-1">
-          <CardHeader className="pb-3">
-            <CardTitle className="text-lg flex items-center justify-between">
-              <span>Your Ingredients</span>
-              <Badge variant="secondary" className="bg-primary/10">
-                {products.length}
-              </Badge>
-            </CardTitle>
-            <div className="relative">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
-              <Input
-                placeholder="Search ingredients..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="pl-10"
-              />
-            </div>
-          </CardHeader>
-          <CardContent>
-            <ScrollArea className="h-[300px]">
-              <div className="space-y-2">
-                {filteredProducts.map((product) => (
-                  <div 
-                    key={product.id} 
-                    className="flex items-center justify-between p-2 rounded-lg bg-muted/50 hover:bg-muted transition-colors"
-                  >
-                    <span className="font-medium text-sm">{product.name}</span>
-                    <div className="flex items-center gap-2">
-                      <Badge variant="outline" className="text-xs">
-                        {product.quantity} {product.quantity_type}
-                      </Badge>
-                      <Button
-                        size="sm"
-                        variant="ghost"
-                        className="h-7 w-7 p-0"
-                        onClick={() => openYouTubeRecipe(product.name)}
-                        title="Find recipe on YouTube"
-                      >
-                        <Youtube className="h-4 w-4 text-red-500" />
-                      </Button>
-                    </div>
-                  </div>
-                ))}
-                {filteredProducts.length === 0 && (
-                  <div className="text-center py-8 text-muted-foreground">
-                    {products.length === 0 ? "Add products to your pantry" : "No matching ingredients"}
-                  </div>
-                )}
-              </div>
-            </ScrollArea>
-          </CardContent>
-        </Card>
-
-        {/* AI Chat Panel */}
-        <Card className="lg:col-span-2 flex flex-col h-[500px]">
-          <CardHeader className="pb-3 flex-shrink-0">
-            <div className="flex items-center justify-between">
-              <CardTitle className="text-lg flex items-center gap-2">
-                <Bot className="w-5 h-5 text-primary" />
-                Recipe AI Chef
-              </CardTitle>
-              <div className="flex gap-2">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={clearChat}
-                  disabled={chatMessages.length === 0}
-                >
-                  <RefreshCw className="w-4 h-4 mr-1" />
-                  New Chat
-                </Button>
-              </div>
-            </div>
-          </CardHeader>
-          <CardContent className="flex-1 flex flex-col overflow-hidden">
-            {/* Chat Messages */}
-            <ScrollArea className="flex-1 pr-4">
-              <div className="space-y-4">
-                {chatMessages.length === 0 ? (
-                  <div className="text-center py-12">
-                    <ChefHat className="mx-auto w-16 h-16 text-muted-foreground mb-4" />
-                    <h3 className="text-lg font-medium text-foreground mb-2">Ask me for recipes!</h3>
-                    <p className="text-muted-foreground mb-4">
-                      I'll suggest creative recipes using your {products.length} available ingredients.
-                    </p>
-                    <div className="flex flex-wrap justify-center gap-2">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => sendMessage("Suggest a quick and easy dinner recipe")}
-                        disabled={products.length === 0}
-                      >
-                        <Sparkles className="w-4 h-4 mr-1" />
-                        Quick Dinner
-                      </Button>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => sendMessage("What's a healthy meal I can prepare?")}
-                        disabled={products.length === 0}
-                      >
-                        <Sparkles className="w-4 h-4 mr-1" />
-                        Healthy Meal
-                      </Button>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => sendMessage("Suggest something unique and creative")}
-                        disabled={products.length === 0}
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="chat">
+            <Bot className="w-4 h-4 mr-1" />
+            AI Chef
+          </TabsTrigger>
+          <TabsTrigger value="book">
+            <BookOpen className="w-4 h-4 mr-1" />
+            Recipe Book ({savedRecipes.length})
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="chat">
+          <div className="grid gap-6 lg:grid-cols-3">
+            {/* Ingredients Panel */}
+            <Card className="lg:col-span-1">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg flex items-center justify-between">
+                  <span>Your Ingredients</span>
+                  <Badge variant="secondary" className="bg-primary/10">
+                    {products.length}
+                  </Badge>
+                </CardTitle>
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                  <Input
+                    placeholder="Search ingredients..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="pl-10"
+                  />
+                </div>
+              </CardHeader>
+              <CardContent>
+                <ScrollArea className="h-[300px]">
+                  <div className="space-y-2">
+                    {filteredProducts.map((product) => (
+                      <div 
+                        key={product.id} 
+                        className="flex items-center justify-between p-2 rounded-lg bg-muted/50 hover:bg-muted transition-colors"
                       >
-                        <Sparkles className="w-4 h-4 mr-1" />
-                        Creative Recipe
-                      </Button>
-                    </div>
+                        <span className="font-medium text-sm">{product.name}</span>
+                        <div className="flex items-center gap-2">
+                          {isAtRisk(product) && (
+                            <Badge variant="destructive" className="text-xs">Use soon</Badge>
+                          )}
+                          <Badge variant="outline" className="text-xs">
+                            {product.quantity} {product.quantity_type}
+                          </Badge>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-7 w-7 p-0"
+                            onClick={() => openYouTubeRecipe(product.name)}
+                            title="Find recipe on YouTube"
+                          >
+                            <Youtube className="h-4 w-4 text-red-500" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                    {filteredProducts.length === 0 && (
+                      <div className="text-center py-8 text-muted-foreground">
+                        {products.length === 0 ? "Add products to your pantry" : "No matching ingredients"}
+                      </div>
+                    )}
                   </div>
-                ) : (
-                  chatMessages.map((message, index) => (
-                    <div
-                      key={index}
-                      className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
+                </ScrollArea>
+              </CardContent>
+            </Card>
+
+            {/* AI Chat Panel */}
+            <Card className="lg:col-span-2 flex flex-col h-[500px]">
+              <CardHeader className="pb-3 flex-shrink-0">
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <Bot className="w-5 h-5 text-primary" />
+                    Recipe AI Chef
+                  </CardTitle>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => sendMessage("What can I cook to use up what's about to expire?", 'use_it_up')}
+                      disabled={isTyping || atRiskCount === 0}
+                      title={atRiskCount > 0 ? `${atRiskCount} item${atRiskCount === 1 ? '' : 's'} expire within ${AT_RISK_DAYS} days` : 'Nothing is about to expire'}
                     >
-                      <div
-                        className={`max-w-[85%] rounded-2xl px-4 py-3 ${
-                          message.role === 'user'
-                            ? 'bg-primary text-primary-foreground'
-                            : 'bg-muted'
-                        }`}
-                      >
-                        {message.role === 'assistant' ? (
+                      <Leaf className="w-4 h-4 mr-1" />
+                      Use It Up
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setHistoryOpen(true)}
+                    >
+                      <History className="w-4 h-4 mr-1" />
+                      History
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={clearChat}
+                      disabled={chatMessages.length === 0}
+                    >
+                      <RefreshCw className="w-4 h-4 mr-1" />
+                      New Chat
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="flex-1 flex flex-col overflow-hidden">
+                {/* Chat Messages */}
+                <ScrollArea className="flex-1 pr-4">
+                  <div className="space-y-4">
+                    {chatMessages.length === 0 ? (
+                      <div className="text-center py-12">
+                        <ChefHat className="mx-auto w-16 h-16 text-muted-foreground mb-4" />
+                        <h3 className="text-lg font-medium text-foreground mb-2">Ask me for recipes!</h3>
+                        <p className="text-muted-foreground mb-4">
+                          I'll suggest creative recipes using your {products.length} available ingredients.
+                        </p>
+                        <div className="flex flex-wrap justify-center gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => sendMessage("Suggest a quick and easy dinner recipe")}
+                            disabled={products.length === 0}
+                          >
+                            <Sparkles className="w-4 h-4 mr-1" />
+                            Quick Dinner
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => sendMessage("What's a healthy meal I can prepare?")}
+                            disabled={products.length === 0}
+                          >
+                            <Sparkles className="w-4 h-4 mr-1" />
+                            Healthy Meal
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => sendMessage("Suggest something unique and creative")}
+                            disabled={products.length === 0}
+                          >
+                            <Sparkles className="w-4 h-4 mr-1" />
+                            Creative Recipe
+                          </Button>
+                          {atRiskCount > 0 && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => sendMessage("What can I cook to use up what's about to expire?", 'use_it_up')}
+                            >
+                              <Leaf className="w-4 h-4 mr-1" />
+                              Use It Up
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    ) : (
+                      chatMessages.map((message, index) => (
+                        <div
+                          key={index}
+                          className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
+                        >
+                          <div
+                            className={`max-w-[85%] rounded-2xl px-4 py-3 ${
+                              message.role === 'user'
+                                ? 'bg-primary text-primary-foreground'
+                                : 'bg-muted'
+                            }`}
+                          >
+                            {message.role === 'assistant' ? (
+                              <div className="prose prose-sm dark:prose-invert max-w-none">
+                                <div 
+                                  className="text-sm whitespace-pre-wrap"
+                                  dangerouslySetInnerHTML={{ 
+                                    __html: renderMarkdown(message.content)
+                                  }}
+                                />
+                                {message.interruption && (
+                                  <p className="mt-2 text-xs italic text-muted-foreground">{message.interruption} — this reply was not saved</p>
+                                )}
+                                {message.mode === 'use_it_up' && message.recipes && message.recipes.length > 0 && (
+                                  <div className="mt-4 space-y-2 not-prose">
+                                    <p className="text-xs font-semibold uppercase text-muted-foreground">Ranked by what they save</p>
+                                    {message.recipes.map((recipe, rank) => (
+                                      <div key={`${recipe.title}-${rank}`} className="flex items-center gap-3 p-2 rounded-lg bg-background">
+                                        <span className="text-sm font-bold text-muted-foreground">{rank + 1}</span>
+                                        <div className="flex-1 min-w-0">
+                                          <p className="text-sm font-medium truncate">{recipe.title}</p>
+                                          <p className="text-xs text-muted-foreground truncate">
+                                            {recipe.at_risk_items.length > 0 ? `Uses up ${recipe.at_risk_items.join(', ')}` : 'Uses nothing that is about to expire'}
+                                          </p>
+                                        </div>
+                                        <Badge variant={recipe.at_risk_value > 0 ? 'default' : 'outline'} className="text-xs">
+                                          Saves ₹{recipe.at_risk_value.toLocaleString('en-IN', { maximumFractionDigits: 2 })}
+                                        </Badge>
+                                        {recipe.ingredients.some(ingredient => ingredient.grocery_item_id) && (
+                                          <Button size="sm" variant="outline" onClick={() => setCookingRecipe(recipe)} title="Cook this">
+                                            <CookingPot className="w-4 h-4" />
+                                          </Button>
+                                        )}
+                                        <Button size="sm" variant="outline" onClick={() => startSaving(message, recipe)} title="Save to recipe book">
+                                          <BookmarkPlus className="w-4 h-4" />
+                                        </Button>
+                                      </div>
+                                    ))}
+                                  </div>
+                                )}
+                                <div className="flex flex-wrap gap-2 mt-3">
+                                  {message.mode !== 'use_it_up' && message.recipe?.ingredients.some(ingredient => ingredient.grocery_item_id) && (
+                                    <Button
+                                      size="sm"
+                                      onClick={() => setCookingRecipe(message.recipe || null)}
+                                    >
+                                      <CookingPot className="w-4 h-4 mr-1" />
+                                      Cook this
+                                    </Button>
+                                  )}
+                                  {message.mode !== 'use_it_up' && (message.recipe || message.content.includes('##')) && (
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => startSaving(message, message.recipe || null)}
+                                    >
+                                      <BookmarkPlus className="w-4 h-4 mr-1" />
+                                      Save
+                                    </Button>
+                                  )}
+                                  {/* Extract recipe name and add YouTube button */}
+                                  {message.content.includes('##') && (
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => {
+                                        const match = message.content.match(/## 🍳?\s*(.*)/);
+                                        if (match) openYouTubeRecipe(match[1]);
+                                      }}
+                                    >
+                                      <Youtube className="w-4 h-4 mr-1 text-red-500" />
+                                      Watch on YouTube
+                                    </Button>
+                                  )}
+                                </div>
+                              </div>
+                            ) : (
+                              <p className="text-sm">{message.content}</p>
+                            )}
+                          </div>
+                        </div>
+                      ))
+                    )}
+                    {streamingContent && (
+                      <div className="flex justify-start">
+                        <div className="max-w-[85%] rounded-2xl px-4 py-3 bg-muted">
                           <div className="prose prose-sm dark:prose-invert max-w-none">
-                            <div 
+                            <div
                               className="text-sm whitespace-pre-wrap"
-                              dangerouslySetInnerHTML={{ 
-                                __html: message.content
-                                  .replace(/## (.*)/g, '<h3 class="text-lg font-bold mt-4 mb-2">$1</h3>')
-                                  .replace(/### (.*)/g, '<h4 class="font-semibold mt-3 mb-1">$1</h4>')
-                                  .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-                                  .replace(/^\- (.*)/gm, '<li class="ml-4">$1</li>')
-                                  .replace(/^\d+\. (.*)/gm, '<li class="ml-4 list-decimal">$1</li>')
-                              }}
+                              dangerouslySetInnerHTML={{ __html: renderMarkdown(stripRecipeBlocks(streamingContent)) }}
                             />
-                            {/* Extract recipe name and add YouTube button */}
-                            {message.content.includes('##') && (
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                className="mt-3"
-                                onClick={() => {
-                                  const match = message.content.match(/## 🍳?\s*(.*)/);
-                                  if (match) openYouTubeRecipe(match[1]);
-                                }}
-                              >
-                                <Youtube className="w-4 h-4 mr-1 text-red-500" />
-                                Watch on YouTube
-                              </Button>
-                            )}
                           </div>
-                        ) : (
-                          <p className="text-sm">{message.content}</p>
-                        )}
+                        </div>
                       </div>
-                    </div>
-                  ))
-                )}
-                {isTyping && (
-                  <div className="flex justify-start">
-                    <div className="bg-muted rounded-2xl px-4 py-3">
-                      <div className="flex gap-1">
-                        <span className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
-                        <span className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
-                        <span className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
+                    )}
+                    {isTyping && !streamingContent && (
+                      <div className="flex justify-start">
+                        <div className="bg-muted rounded-2xl px-4 py-3">
+                          <div className="flex gap-1">
+                            <span className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
+                            <span className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
+                            <span className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
+                          </div>
+                        </div>
                       </div>
-                    </div>
+                    )}
+                    <div ref={chatEndRef} />
                   </div>
-                )}
-                <div ref={chatEndRef} />
-              </div>
-            </ScrollArea>
-
-            {/* Input Area */}
-            <form onSubmit={handleSubmit} className="flex gap-2 mt-4 pt-4 border-t">
-              <Input
-                value={userInput}
-                onChange={(e) => setUserInput(e.target.value)}
-                placeholder={products.length === 0 ? "Add ingredients first..." : "Ask for a recipe..."}
-                disabled={isTyping || products.length === 0}
-                className="flex-1"
-              />
-              <Button 
-                type="submit" 
-                disabled={!userInput.trim() || isTyping || products.length === 0}
-                className="bg-gradient-primary"
-              >
-                <Send className="w-4 h-4" />
-              </Button>
-            </form>
-          </CardContent>
-        </Card>
-      </div>
+                </ScrollArea>
+
+                {/* Input Area */}
+                <form onSubmit={handleSubmit} className="flex gap-2 mt-4 pt-4 border-t">
+                  <Input
+                    value={userInput}
+                    onChange={(e) => setUserInput(e.target.value)}
+                    placeholder={products.length === 0 ? "Add ingredients first..." : "Ask for a recipe..."}
+                    disabled={isTyping || products.length === 0}
+                    className="flex-1"
+                  />
+                  {isTyping ? (
+                    <Button type="button" variant="outline" onClick={stopReply} title="Stop">
+                      <Square className="w-4 h-4" />
+                    </Button>
+                  ) : (
+                    <Button 
+                      type="submit" 
+                      disabled={!userInput.trim() || products.length === 0}
+                      className="bg-gradient-primary"
+                    >
+                      <Send className="w-4 h-4" />
+                    </Button>
+                  )}
+                </form>
+              </CardContent>
+            </Card>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="book">
+          <RecipeBook
+            recipes={savedRecipes}
+            tags={tags}
+            isLoading={savedLoading}
+            onCook={setCookingRecipe}
+            onEdit={startEditing}
+            onRate={(recipeId, rating) => updateRecipe(recipeId, { rating })}
+            onDelete={deleteRecipe}
+            onOpenChat={openSavedChat}
+          />
+        </TabsContent>
+      </Tabs>
+
+      <CookRecipeDialog
+        recipe={cookingRecipe}
+        products={products}
+        onOpenChange={(open) => !open && setCookingRecipe(null)}
+      />
+
+      <SavedRecipeDialog
+        details={recipeDraft?.details || null}
+        isNew={!recipeDraft?.id}
+        onSave={handleSaveDraft}
+        onOpenChange={(open) => !open && setRecipeDraft(null)}
+      />
+
+      <RecipeChatHistory
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        activeSessionId={sessionId}
+        onResume={(session) => resumeSession(session.id)}
+        onDeleted={(id) => id === sessionId && clearChat()}
+      />
     </div>
   );
 }
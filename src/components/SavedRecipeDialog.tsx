@@ -0,0 +1,125 @@
+import { useState, useEffect } from 'react';
+import { SavedRecipeDetails } from '@/hooks/useSavedRecipes';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { RecipeRating } from '@/components/RecipeRating';
+import { useToast } from '@/hooks/use-toast';
+
+interface SavedRecipeDialogProps {
+  // Details to start from, or null when closed
+  details: SavedRecipeDetails | null;
+  isNew: boolean;
+  onSave: (details: SavedRecipeDetails) => Promise<boolean>;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SavedRecipeDialog({ details, isNew, onSave, onOpenChange }: SavedRecipeDialogProps) {
+  const { toast } = useToast();
+  const [title, setTitle] = useState('');
+  const [tags, setTags] = useState('');
+  const [rating, setRating] = useState<number | null>(null);
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!details) return;
+
+    setTitle(details.title);
+    setTags(details.tags.join(', '));
+    setRating(details.rating);
+    setNotes(details.notes || '');
+  }, [details]);
+
+  const trimmedTitle = title.trim();
+  const isValid = trimmedTitle.length > 0 && trimmedTitle.length <= 100;
+
+  const handleSave = async () => {
+    if (!isValid) return;
+
+    setSaving(true);
+    const success = await onSave({
+      title: trimmedTitle,
+      tags: tags.split(','),
+      rating,
+      notes: notes.trim() || null,
+    });
+    setSaving(false);
+
+    if (success) {
+      toast({
+        title: isNew ? "Recipe saved" : "Recipe updated",
+        description: isNew ? `${trimmedTitle} is in your recipe book` : `Saved your changes to ${trimmedTitle}`,
+      });
+      onOpenChange(false);
+    } else {
+      toast({
+        title: "Error",
+        description: isNew ? "Failed to save recipe" : "Failed to update recipe",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!details} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{isNew ? "Save to Recipe Book" : "Edit Recipe"}</DialogTitle>
+          <DialogDescription>
+            Saved recipes are shared with everyone in your household.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="recipe-title">Title</Label>
+            <Input
+              id="recipe-title"
+              value={title}
+              maxLength={100}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="recipe-tags">Tags</Label>
+            <Input
+              id="recipe-tags"
+              value={tags}
+              placeholder="dinner, quick, vegetarian"
+              onChange={(e) => setTags(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Separate tags with commas</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Rating</Label>
+            <RecipeRating rating={rating} onChange={setRating} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="recipe-notes">Notes</Label>
+            <Textarea
+              id="recipe-notes"
+              value={notes}
+              placeholder="Less chilli next time..."
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!isValid || saving}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
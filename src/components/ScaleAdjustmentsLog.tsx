@@ -0,0 +1,114 @@
+import { useScaleAdjustments, ScaleAdjustment, ScaleAdjustmentStatus } from '@/hooks/useScaleAdjustments';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Check, Scale, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+const STATUS_LABELS: Record<ScaleAdjustmentStatus, string> = {
+  pending: 'Awaiting approval',
+  applied: 'Applied',
+  rejected: 'Rejected',
+  superseded: 'Replaced by a newer reading',
+};
+
+const STATUS_VARIANTS: Record<ScaleAdjustmentStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'default',
+  applied: 'secondary',
+  rejected: 'destructive',
+  superseded: 'outline',
+};
+
+export function ScaleAdjustmentsLog() {
+  const { adjustments, isLoading, approveAdjustment, rejectAdjustment } = useScaleAdjustments();
+  const { toast } = useToast();
+
+  const pendingCount = adjustments.filter(adjustment => adjustment.status === 'pending').length;
+
+  const handleApprove = async (adjustment: ScaleAdjustment) => {
+    const approved = await approveAdjustment(adjustment.id);
+    toast(approved ? {
+      title: "Quantity updated",
+      description: `${adjustment.item_name} set to ${adjustment.quantity_after} ${adjustment.quantity_type} from the scale`,
+    } : {
+      title: "Error",
+      description: "Failed to apply the scale adjustment",
+      variant: "destructive",
+    });
+  };
+
+  const handleReject = async (adjustment: ScaleAdjustment) => {
+    const rejected = await rejectAdjustment(adjustment.id);
+    if (!rejected) {
+      toast({
+        title: "Error",
+        description: "Failed to reject the scale adjustment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Applied adjustments report the quantity the item actually had when applied
+  const formatChange = (adjustment: ScaleAdjustment) => {
+    const delta = adjustment.quantity_after - adjustment.quantity_before;
+    return `${adjustment.quantity_before} → ${adjustment.quantity_after} ${adjustment.quantity_type} (${delta > 0 ? '+' : ''}${delta})`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="w-5 h-5" />
+          Scale Adjustments
+          {pendingCount > 0 && <Badge>{pendingCount} pending</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Quantities worked out from settled scale weights, less each item's container weight. Items set to update automatically are applied straight away; the rest wait here for approval.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {adjustments.length > 0 ? (
+          <div className="space-y-2 max-h-[400px] overflow-y-auto">
+            {adjustments.map(adjustment => (
+              <div
+                key={adjustment.id}
+                className="flex items-center justify-between gap-4 p-3 rounded-lg bg-muted/50"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium truncate">{adjustment.item_name}</p>
+                    <Badge variant={STATUS_VARIANTS[adjustment.status]}>{STATUS_LABELS[adjustment.status]}</Badge>
+                  </div>
+                  <p className="text-sm">{formatChange(adjustment)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {adjustment.net_weight.toFixed(1)} g net ({adjustment.gross_weight.toFixed(1)} g on scale − {adjustment.tare_weight.toFixed(1)} g container)
+                    {' · '}{new Date(adjustment.created_at).toLocaleString()}
+                    {adjustment.status === 'applied' && !adjustment.resolved_by && ' · automatic'}
+                  </p>
+                </div>
+                {adjustment.status === 'pending' && (
+                  <div className="flex gap-2 shrink-0">
+                    <Button size="sm" onClick={() => handleApprove(adjustment)} disabled={!adjustment.grocery_item_id}>
+                      <Check className="w-4 h-4 mr-1" />
+                      Approve
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleReject(adjustment)}>
+                      <X className="w-4 h-4 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <Scale className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p>{isLoading ? 'Loading adjustments...' : 'No scale adjustments yet'}</p>
+            <p className="text-sm mt-2">Products with a barcode follow the scale once weighed; counted items also need a weight per unit</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
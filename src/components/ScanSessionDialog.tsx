@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Camera, Loader2, Minus, PackagePlus, Pause, Plus, Trash2, X } from "lucide-react";
+import { CameraScanPreview } from "@/components/CameraScanPreview";
+import { ValidationErrors } from "@/components/ValidationErrors";
+import { useBarcodeScanner } from "@/hooks/useBarcodeScanner";
+import { useScanSession, ScanSessionEntry } from "@/hooks/useScanSession";
+import { useToast } from "@/hooks/use-toast";
+import { isValidGtinChecksum } from "@/utils/barcodeDecoder";
+import { validateProductData } from "@/utils/securityValidation";
+
+interface Category {
+  id: string;
+  name: string;
+}
+
+interface ScanSessionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  categories: Category[];
+}
+
+const quantityTypes = ["pieces", "kg", "grams", "litres", "ml", "packets", "boxes"];
+
+// Scans a whole grocery haul in one go: the camera stays live, each scan
+// lands in a running cart, and the reviewed cart is added to the pantry at
+// once. The cart is kept while the dialog is closed until it is added or
+// cleared.
+export function ScanSessionDialog({ open, onOpenChange, categories }: ScanSessionDialogProps) {
+  const { entries, isCommitting, addScan, updateEntry, removeEntry, clearSession, commitSession } = useScanSession(categories);
+  const { toast } = useToast();
+  const [manualBarcode, setManualBarcode] = useState("");
+  const [validationErrors, setValidationErrors] = useState<string[]>([]);
+
+  const handleScan = (barcode: string) => {
+    navigator.vibrate?.(50);
+    addScan(barcode);
+  };
+
+  const { isScanning, startScanning, stopScanning, error, videoRef } = useBarcodeScanner(handleScan, { continuous: true });
+
+  const totalItems = entries.reduce((total, entry) => total + entry.quantity, 0);
+  const lookingUp = entries.some(entry => entry.status === 'looking_up');
+
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const barcode = manualBarcode.trim();
+    if (!barcode) return;
+
+    if ([8, 12, 13].includes(barcode.length) && !isValidGtinChecksum(barcode)) {
+      toast({
+        title: "Invalid Barcode",
+        description: "The last digit does not match the barcode's check digit. Please check the number.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    addScan(barcode);
+    setManualBarcode("");
+  };
+
+  const changeQuantity = (entry: ScanSessionEntry, change: number) => {
+    if (entry.quantity + change < 1) {
+      removeEntry(entry.barcode);
+    } else {
+      updateEntry(entry.barcode, { quantity: Math.min(9999, entry.quantity + change) });
+    }
+  };
+
+  const handleCommit = async () => {
+    const errors = entries.flatMap(entry =>
+      validateProductData(entry).errors.map(message => `${entry.name || entry.barcode}: ${message}`)
+    );
+    setValidationErrors(errors);
+    if (errors.length > 0) return;
+
+    try {
+      stopScanning();
+      const { newItems, restockedItems } = await commitSession();
+      toast({
+        title: "Added to pantry",
+        description: [
+          newItems > 0 && `${newItems} new item${newItems === 1 ? '' : 's'}`,
+          restockedItems > 0 && `${restockedItems} restocked`,
+        ].filter(Boolean).join(', '),
+      });
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Error adding scanned items:', err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to add the scanned items. Nothing was added.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) stopScanning();
+    onOpenChange(nextOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <PackagePlus className="w-5 h-5" />
+            Unpack Groceries
+          </DialogTitle>
+          <DialogDescription>
+            Scan each item as you unpack. Scanning the same product again adds one more.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {/* Kept mounted so the camera can be attached before scanning starts */}
+          <div className={isScanning ? "" : "hidden"}>
+            <CameraScanPreview videoRef={videoRef} hint="Hold each barcode inside the frame until it is added" />
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant={isScanning ? "outline" : "default"}
+              onClick={isScanning ? stopScanning : startScanning}
+            >
+              {isScanning ? <Pause className="w-4 h-4 mr-2" /> : <Camera className="w-4 h-4 mr-2" />}
+              {isScanning ? "Pause Camera" : "Start Camera"}
+            </Button>
+            <form onSubmit={handleManualSubmit} className="flex flex-1 gap-2">
+              <Input
+                value={manualBarcode}
+                onChange={(e) => setManualBarcode(e.target.value)}
+                placeholder="Or type a barcode"
+                pattern="[0-9A-Za-z-]{1,50}"
+              />
+              <Button type="submit" variant="outline" disabled={!manualBarcode.trim()}>
+                <Plus className="w-4 h-4" />
+              </Button>
+            </form>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label>
+              Cart · {entries.length} product{entries.length === 1 ? '' : 's'}, {totalItems} item{totalItems === 1 ? '' : 's'}
+            </Label>
+            {entries.length > 0 && (
+              <Button type="button" variant="ghost" size="sm" onClick={clearSession}>
+                <Trash2 className="w-4 h-4 mr-1" />
+                Clear
+              </Button>
+            )}
+          </div>
+
+          {entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6 border border-dashed rounded-lg">
+              Scanned items will appear here
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {entries.map(entry => (
+                <div key={entry.barcode} className="p-3 border rounded-lg space-y-2">
+                  <div className="flex items-center gap-2">
+                    {entry.image_url && (
+                      <img src={entry.image_url} alt="" className="w-10 h-10 object-cover rounded" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <Input
+                        value={entry.name}
+                        onChange={(e) => updateEntry(entry.barcode, { name: e.target.value })}
+                        placeholder={entry.status === 'looking_up' ? "Looking up..." : "Product name"}
+                        className="h-8"
+                      />
+                      <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+                        <span className="font-mono">{entry.barcode}</span>
+                        {entry.brand && <span>{entry.brand}</span>}
+                        {entry.status === 'looking_up' && <Loader2 className="w-3 h-3 animate-spin" />}
+                        {entry.status === 'not_found' && <Badge variant="outline" className="text-xs">Not found</Badge>}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button type="button" variant="outline" size="icon" className="h-8 w-8" onClick={() => changeQuantity(entry, -1)}>
+                        <Minus className="w-3 h-3" />
+                      </Button>
+                      <span className="w-8 text-center font-medium">{entry.quantity}</span>
+                      <Button type="button" variant="outline" size="icon" className="h-8 w-8" onClick={() => changeQuantity(entry, 1)}>
+                        <Plus className="w-3 h-3" />
+                      </Button>
+                    </div>
+                    <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => removeEntry(entry.barcode)}>
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <div className="grid grid-cols-4 gap-2">
+                    <Select value={entry.category_id || ""} onValueChange={(value) => updateEntry(entry.barcode, { category_id: value })}>
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue placeholder="Category" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {categories.map(category => (
+                          <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={entry.quantity_type} onValueChange={(value) => updateEntry(entry.barcode, { quantity_type: value })}>
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {quantityTypes.map(type => (
+                          <SelectItem key={type} value={type}>{type}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="date"
+                      value={entry.expiry_date}
+                      onChange={(e) => updateEntry(entry.barcode, { expiry_date: e.target.value })}
+                      className="h-8 text-xs"
+                    />
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={entry.amount || ""}
+                      onChange={(e) => updateEntry(entry.barcode, { amount: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      placeholder="Price (₹)"
+                      className="h-8 text-xs"
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <ValidationErrors errors={validationErrors} />
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+            Close
+          </Button>
+          <Button type="button" onClick={handleCommit} disabled={entries.length === 0 || lookingUp || isCommitting}>
+            {isCommitting ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <PackagePlus className="w-4 h-4 mr-2" />
+            )}
+            {lookingUp ? "Looking up products..." : `Add ${totalItems} to Pantry`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
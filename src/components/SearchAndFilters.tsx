@@ -8,14 +8,22 @@ interface Category {
   name: string;
 }
 
+interface StorageLocation {
+  id: string;
+  name: string;
+}
+
 interface SearchAndFiltersProps {
   searchTerm: string;
   setSearchTerm: (term: string) => void;
   selectedCategory: string;
   setSelectedCategory: (category: string) => void;
+  selectedLocation: string;
+  setSelectedLocation: (location: string) => void;
   sortBy: string;
   setSortBy: (sort: string) => void;
   categories: Category[];
+  locations: StorageLocation[];
 }
 
 export function SearchAndFilters({
@@ -23,9 +31,12 @@ export function SearchAndFilters({
   setSearchTerm,
   selectedCategory,
   setSelectedCategory,
+  selectedLocation,
+  setSelectedLocation,
   sortBy,
   setSortBy,
-  categories
+  categories,
+  locations
 }: SearchAndFiltersProps) {
   return (
     <div className="flex flex-col sm:flex-row gap-4">
@@ -55,6 +66,21 @@ export function SearchAndFilters({
           </SelectContent>
         </Select>
 
+        <Select value={selectedLocation} onValueChange={setSelectedLocation}>
+          <SelectTrigger className="w-40">
+            <SelectValue placeholder="Filter by location" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Locations</SelectItem>
+            {locations.map((location) => (
+              <SelectItem key={location.id} value={location.id}>
+                {location.name}
+              </SelectItem>
+            ))}
+            <SelectItem value="unassigned">No Location</SelectItem>
+          </SelectContent>
+        </Select>
+
         <Select value={sortBy} onValueChange={setSortBy}>
           <SelectTrigger className="w-48">
             <SelectValue placeholder="Sort by" />
@@ -63,6 +89,7 @@ export function SearchAndFilters({
             <SelectItem value="name">Sort by Name</SelectItem>
             <SelectItem value="category">Sort by Category</SelectItem>
             <SelectItem value="expiry">Sort by Expiry Date</SelectItem>
+            <SelectItem value="location">Sort by Location</SelectItem>
           </SelectContent>
         </Select>
       </div>
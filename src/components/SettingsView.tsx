@@ -8,6 +8,9 @@ import { User, Mail, Calendar, Save, Edit, Shield, Camera, Clock, Hash, Check }
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import { HouseholdSettings } from "@/components/HouseholdSettings";
+import { StorageLocationSettings } from "@/components/StorageLocationSettings";
+import { StockLevelSettings } from "@/components/StockLevelSettings";
 import { format } from "date-fns";
 
 interface UserProfile {
@@ -321,6 +324,12 @@ export function SettingsView() {
         </CardContent>
       </Card>
 
+      <HouseholdSettings />
+
+      <StorageLocationSettings />
+
+      <StockLevelSettings />
+
       {/* Account Details */}
       <Card>
         <CardHeader>
@@ -0,0 +1,345 @@
+import { useState, useEffect } from 'react';
+import { useShoppingList, ShoppingListItem, ShoppingListSource, PantryDraft } from '@/hooks/useShoppingList';
+import { useProductOperations } from '@/hooks/useProductOperations';
+import { useInventoryLedger } from '@/hooks/useInventoryLedger';
+import { useHousehold } from '@/hooks/useHousehold';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ValidationErrors } from '@/components/ValidationErrors';
+import { ListChecks, Plus, RefreshCw, Trash2, X, PackagePlus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+const SOURCE_LABELS: Record<ShoppingListSource, string | null> = {
+  manual: null,
+  low_stock: 'Low stock',
+  forecast: 'Running out',
+  meal_plan: 'Meal plan',
+};
+
+export function ShoppingListView() {
+  const { household } = useHousehold();
+  const { items, isLoading, addItem, setChecked, removeItem, clearChecked, refreshSuggestions, getPantryDraft } = useShoppingList();
+  const { addProduct } = useProductOperations();
+  const { recordMovement } = useInventoryLedger();
+  const { toast } = useToast();
+  const [newName, setNewName] = useState('');
+  const [newQuantity, setNewQuantity] = useState('1');
+  const [refreshing, setRefreshing] = useState(false);
+  const [restockItem, setRestockItem] = useState<ShoppingListItem | null>(null);
+  const [restockDraft, setRestockDraft] = useState<PantryDraft | null>(null);
+  const [restockPrice, setRestockPrice] = useState('');
+  const [restocking, setRestocking] = useState(false);
+  const [validationErrors, setValidationErrors] = useState<string[]>([]);
+
+  const openItems = items.filter(item => item.status === 'open');
+  const checkedItems = items.filter(item => item.status === 'checked');
+
+  useEffect(() => {
+    if (household) refreshSuggestions();
+  }, [household, refreshSuggestions]);
+
+  const showError = (description: string) => {
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    const added = await refreshSuggestions();
+    setRefreshing(false);
+    toast({
+      title: "Shopping list updated",
+      description: added > 0 ? `Added ${added} item${added === 1 ? '' : 's'} that are low or running out` : "Nothing new is running low",
+    });
+  };
+
+  const handleAdd = async () => {
+    const name = newName.trim();
+    if (!name) return;
+
+    const added = await addItem({
+      name,
+      quantity: Math.max(1, Math.min(9999, parseInt(newQuantity) || 1)),
+    });
+
+    if (added) {
+      setNewName('');
+      setNewQuantity('1');
+    } else {
+      showError("Failed to add item to the shopping list");
+    }
+  };
+
+  const handleCheck = async (item: ShoppingListItem, checked: boolean) => {
+    const updated = await setChecked(item.id, checked);
+    if (!updated) {
+      showError("Failed to update the shopping list");
+      return;
+    }
+
+    if (checked) {
+      openRestock(item);
+    }
+  };
+
+  const handleRemove = async (item: ShoppingListItem) => {
+    const removed = await removeItem(item);
+    if (!removed) showError("Failed to remove item from the shopping list");
+  };
+
+  const handleClearChecked = async () => {
+    const cleared = await clearChecked();
+    if (!cleared) showError("Failed to clear checked items");
+  };
+
+  const openRestock = async (item: ShoppingListItem) => {
+    setValidationErrors([]);
+    setRestockPrice('');
+    setRestockItem(item);
+    setRestockDraft(await getPantryDraft(item));
+  };
+
+  const closeRestock = () => {
+    setRestockItem(null);
+    setRestockDraft(null);
+  };
+
+  // Items still in the pantry get a new lot; anything else becomes a new
+  // pantry item (which itself adds a lot if the barcode is already stocked)
+  const handleRestock = async () => {
+    if (!restockItem || !restockDraft) return;
+
+    setRestocking(true);
+    const amount = Math.max(0, parseFloat(restockPrice) || 0);
+    let restocked = false;
+
+    if (restockItem.grocery_item_id) {
+      try {
+        await recordMovement(restockItem.grocery_item_id, 'purchased', restockDraft.quantity, {
+          unitPrice: restockDraft.quantity > 0 ? amount / restockDraft.quantity : 0,
+          expiryDate: restockDraft.expiry_date,
+        });
+        toast({
+          title: "Success",
+          description: `Added ${restockDraft.quantity} ${restockDraft.quantity_type} of ${restockDraft.name} to your pantry`,
+        });
+        restocked = true;
+      } catch (err) {
+        console.error('Error restocking item:', err);
+        showError("Failed to add to pantry. Please try again.");
+      }
+    } else {
+      restocked = await addProduct({ ...restockDraft, amount }, setValidationErrors);
+    }
+
+    setRestocking(false);
+
+    if (restocked) {
+      await removeItem(restockItem);
+      closeRestock();
+    }
+  };
+
+  const renderItem = (item: ShoppingListItem) => {
+    const sourceLabel = SOURCE_LABELS[item.source];
+    const isChecked = item.status === 'checked';
+
+    return (
+      <div key={item.id} className="flex items-center gap-3 p-3 rounded-lg bg-muted/50">
+        <Checkbox
+          checked={isChecked}
+          onCheckedChange={(checked) => handleCheck(item, checked === true)}
+          aria-label={`Mark ${item.name} as bought`}
+        />
+        <div className="flex-1 min-w-0">
+          <p className={`text-sm font-medium truncate ${isChecked ? 'line-through text-muted-foreground' : ''}`}>
+            {item.name}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {item.quantity} {item.quantity_type || 'pieces'}
+            {item.notes ? ` · ${item.notes}` : ''}
+          </p>
+        </div>
+        {sourceLabel && !isChecked && (
+          <Badge variant={item.source === 'forecast' ? 'destructive' : 'secondary'} className="text-xs">
+            {sourceLabel}
+          </Badge>
+        )}
+        {isChecked && (
+          <Button variant="outline" size="sm" onClick={() => openRestock(item)}>
+            <PackagePlus className="w-4 h-4 mr-1" />
+            Add to pantry
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => handleRemove(item)}
+          title={item.source === 'manual' || isChecked ? 'Remove' : 'Dismiss until restocked'}
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground flex items-center gap-2">
+            <ListChecks className="w-8 h-8 text-primary" />
+            Shopping List
+          </h1>
+          <p className="text-muted-foreground">Shared with everyone in your household</p>
+        </div>
+        <Button variant="outline" onClick={handleRefresh} disabled={refreshing}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
+          Check Stock
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>To Buy</CardTitle>
+          <CardDescription>
+            Items at or below their minimum stock or forecast to run out within a week are added automatically
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            <Input
+              placeholder="Add an item, e.g. Bread"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleAdd();
+              }}
+              maxLength={100}
+              className="max-w-sm"
+            />
+            <Input
+              type="number"
+              value={newQuantity}
+              onChange={(e) => setNewQuantity(e.target.value)}
+              min={1}
+              max={9999}
+              className="w-20"
+              title="Quantity"
+            />
+            <Button onClick={handleAdd} disabled={!newName.trim()}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add
+            </Button>
+          </div>
+
+          {isLoading && items.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Loading shopping list...</p>
+          ) : openItems.length > 0 ? (
+            <div className="space-y-2">{openItems.map(renderItem)}</div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Nothing to buy right now</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {checkedItems.length > 0 && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle>In the Cart</CardTitle>
+              <CardDescription>Add bought items to your pantry, or clear them when you are done</CardDescription>
+            </div>
+            <Button variant="ghost" size="sm" onClick={handleClearChecked}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Clear
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {checkedItems.map(renderItem)}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!restockItem} onOpenChange={(open) => !open && closeRestock()}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Add to Pantry</DialogTitle>
+            <DialogDescription>
+              {restockItem?.grocery_item_id
+                ? `Adds a new lot to ${restockItem.name} in your pantry`
+                : 'Creates a pantry item from this entry'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {restockDraft ? (
+            <div className="space-y-4">
+              <ValidationErrors errors={validationErrors} />
+              <div className="space-y-2">
+                <Label htmlFor="restockName">Product Name</Label>
+                <Input
+                  id="restockName"
+                  value={restockDraft.name}
+                  onChange={(e) => setRestockDraft({ ...restockDraft, name: e.target.value })}
+                  disabled={!!restockItem?.grocery_item_id}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="restockQuantity">Quantity ({restockDraft.quantity_type})</Label>
+                  <Input
+                    id="restockQuantity"
+                    type="number"
+                    min={1}
+                    value={restockDraft.quantity}
+                    onChange={(e) => setRestockDraft({ ...restockDraft, quantity: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="restockPrice">Total Price (₹)</Label>
+                  <Input
+                    id="restockPrice"
+                    type="number"
+                    step="0.01"
+                    min={0}
+                    value={restockPrice}
+                    onChange={(e) => setRestockPrice(e.target.value)}
+                    placeholder="0"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="restockExpiry">Expiry Date</Label>
+                <Input
+                  id="restockExpiry"
+                  type="date"
+                  value={restockDraft.expiry_date}
+                  onChange={(e) => setRestockDraft({ ...restockDraft, expiry_date: e.target.value })}
+                />
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Looking up product details...</p>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeRestock}>
+              Not now
+            </Button>
+            <Button onClick={handleRestock} disabled={!restockDraft || restockDraft.quantity < 1 || restocking}>
+              {restocking ? "Adding..." : "Add to Pantry"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
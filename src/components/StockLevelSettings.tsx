@@ -0,0 +1,133 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useStockLevels, StockLevelValues } from '@/hooks/useStockLevels';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { PackageMinus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface Category {
+  id: string;
+  name: string;
+}
+
+const parseLevel = (value: string) => {
+  if (value.trim() === '') return null;
+  const level = parseInt(value);
+  return isNaN(level) ? null : level;
+};
+
+export function StockLevelSettings() {
+  const { getCategoryLevel, setCategoryLevel } = useStockLevels();
+  const { toast } = useToast();
+  const [categories, setCategories] = useState<Category[]>([]);
+
+  useEffect(() => {
+    const fetchCategories = async () => {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('id, name')
+        .order('name');
+
+      if (error) {
+        console.error('Error fetching categories:', error);
+      } else {
+        setCategories(data || []);
+      }
+    };
+
+    fetchCategories();
+  }, []);
+
+  const showError = (description: string) => {
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const handleChange = async (categoryId: string, field: keyof StockLevelValues, value: string) => {
+    const current = getCategoryLevel(categoryId);
+    const values: StockLevelValues = {
+      min_quantity: current?.min_quantity ?? null,
+      target_quantity: current?.target_quantity ?? null,
+      [field]: parseLevel(value),
+    };
+
+    if (values[field] === (current ? current[field] : null)) return;
+
+    if ((values.min_quantity !== null && (values.min_quantity < 0 || values.min_quantity > 9999)) ||
+        (values.target_quantity !== null && (values.target_quantity < 0 || values.target_quantity > 9999))) {
+      showError("Stock levels must be between 0 and 9999");
+      return;
+    }
+
+    if (values.min_quantity !== null && values.target_quantity !== null && values.target_quantity < values.min_quantity) {
+      showError("Target stock cannot be lower than the minimum");
+      return;
+    }
+
+    const saved = await setCategoryLevel(categoryId, values);
+    if (!saved) showError("Failed to save category stock level");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PackageMinus className="w-5 h-5 text-primary" />
+          Stock Levels
+        </CardTitle>
+        <CardDescription>
+          Default minimum and target stock for each category. Products with their own levels override these
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {categories.map(category => {
+          const level = getCategoryLevel(category.id);
+
+          return (
+            <div
+              key={`${category.id}-${level?.min_quantity ?? ''}-${level?.target_quantity ?? ''}`}
+              className="flex items-center gap-3 p-2 rounded-lg bg-muted/50"
+            >
+              <p className="flex-1 min-w-0 text-sm font-medium truncate">{category.name}</p>
+              <div className="flex items-center gap-2">
+                <Label htmlFor={`min-${category.id}`} className="text-xs text-muted-foreground">
+                  Minimum
+                </Label>
+                <Input
+                  id={`min-${category.id}`}
+                  type="number"
+                  defaultValue={level?.min_quantity ?? ''}
+                  onBlur={(e) => handleChange(category.id, 'min_quantity', e.target.value)}
+                  min={0}
+                  max={9999}
+                  placeholder="None"
+                  className="w-20"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Label htmlFor={`target-${category.id}`} className="text-xs text-muted-foreground">
+                  Target
+                </Label>
+                <Input
+                  id={`target-${category.id}`}
+                  type="number"
+                  defaultValue={level?.target_quantity ?? ''}
+                  onBlur={(e) => handleChange(category.id, 'target_quantity', e.target.value)}
+                  min={0}
+                  max={9999}
+                  placeholder="None"
+                  className="w-20"
+                />
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { useStorageLocations, StorageLocationType, STORAGE_LOCATION_TYPES } from '@/hooks/useStorageLocations';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MapPin, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+const LOCATION_TYPE_LABELS: Record<StorageLocationType, string> = {
+  fridge: 'Fridge',
+  freezer: 'Freezer',
+  pantry: 'Pantry',
+  shelf: 'Shelf',
+};
+
+export function StorageLocationSettings() {
+  const { locations, addLocation, updateLocation, deleteLocation } = useStorageLocations();
+  const { toast } = useToast();
+  const [newName, setNewName] = useState('');
+  const [newType, setNewType] = useState<StorageLocationType>('shelf');
+  const [newOffset, setNewOffset] = useState('0');
+
+  const showError = (description: string) => {
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const handleAdd = async () => {
+    const name = newName.trim();
+    if (!name) return;
+
+    if (locations.some(location => location.name.toLowerCase() === name.toLowerCase())) {
+      showError("A location with this name already exists");
+      return;
+    }
+
+    const added = await addLocation({
+      name,
+      location_type: newType,
+      expiry_offset_days: parseInt(newOffset) || 0,
+    });
+
+    if (added) {
+      setNewName('');
+      setNewOffset('0');
+    } else {
+      showError("Failed to add storage location");
+    }
+  };
+
+  const handleOffsetChange = async (locationId: string, value: string) => {
+    const updated = await updateLocation(locationId, { expiry_offset_days: parseInt(value) || 0 });
+    if (!updated) showError("Failed to update storage location");
+  };
+
+  const handleDelete = async (locationId: string) => {
+    const deleted = await deleteLocation(locationId);
+    if (deleted) {
+      toast({
+        title: "Success",
+        description: "Location removed. Items stored there are now unassigned",
+      });
+    } else {
+      showError("Failed to delete storage location");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MapPin className="w-5 h-5 text-primary" />
+          Storage Locations
+        </CardTitle>
+        <CardDescription>
+          The expiry offset is added to a product's usual shelf life when it is stored in that location
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {locations.map(location => (
+          <div key={location.id} className="flex items-center gap-3 p-2 rounded-lg bg-muted/50">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium truncate">{location.name}</p>
+              <p className="text-xs text-muted-foreground">{LOCATION_TYPE_LABELS[location.location_type]}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Label htmlFor={`offset-${location.id}`} className="text-xs text-muted-foreground">
+                Offset (days)
+              </Label>
+              <Input
+                id={`offset-${location.id}`}
+                type="number"
+                defaultValue={location.expiry_offset_days}
+                onBlur={(e) => {
+                  if (parseInt(e.target.value) !== location.expiry_offset_days) {
+                    handleOffsetChange(location.id, e.target.value);
+                  }
+                }}
+                min={-365}
+                max={730}
+                className="w-20"
+              />
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => handleDelete(location.id)} title="Delete location">
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+
+        <div className="space-y-2 pt-4 border-t">
+          <Label htmlFor="newLocationName" className="text-sm font-medium">Add a location</Label>
+          <div className="flex flex-wrap gap-2">
+            <Input
+              id="newLocationName"
+              placeholder="e.g. Garage freezer"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              maxLength={50}
+              className="max-w-xs"
+            />
+            <Select value={newType} onValueChange={(value) => setNewType(value as StorageLocationType)}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STORAGE_LOCATION_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>
+                    {LOCATION_TYPE_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              value={newOffset}
+              onChange={(e) => setNewOffset(e.target.value)}
+              min={-365}
+              max={730}
+              className="w-20"
+              title="Expiry offset in days"
+            />
+            <Button onClick={handleAdd} disabled={!newName.trim()}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/hooks/useAuth';
+import { useHousehold } from '@/hooks/useHousehold';
+import { useInventoryLedger } from '@/hooks/useInventoryLedger';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -45,6 +47,8 @@ const wasteReasons = [
 
 export function WasteTracking() {
   const { user } = useAuth();
+  const { household } = useHousehold();
+  const { recordMovement } = useInventoryLedger();
   const [products, setProducts] = useState<Product[]>([]);
   const [wasteEntries, setWasteEntries] = useState<WasteEntry[]>([]);
   const [selectedProduct, setSelectedProduct] = useState<string>('');
@@ -57,6 +61,8 @@ export function WasteTracking() {
   const [timeFilter, setTimeFilter] = useState<'week' | 'month' | 'quarter'>('month');
 
   useEffect(() => {
+    if (!household) return;
+
     fetchProducts();
     fetchWasteEntries();
     fetchExpiringItems();
@@ -69,7 +75,8 @@ export function WasteTracking() {
         {
           event: '*',
           schema: 'public',
-          table: 'grocery_items'
+          table: 'grocery_items',
+          filter: `household_id=eq.${household.id}`
         },
         (payload) => {
           console.log('Product change detected in waste tracking:', payload);
@@ -82,7 +89,8 @@ export function WasteTracking() {
         {
           event: '*',
           schema: 'public',
-          table: 'waste_items'
+          table: 'waste_items',
+          filter: `household_id=eq.${household.id}`
         },
         (payload) => {
           console.log('Waste item change detected:', payload);
@@ -94,10 +102,10 @@ export function WasteTracking() {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [user]);
+  }, [user, household]);
 
   const fetchExpiringItems = async () => {
-    if (!user) return;
+    if (!user || !household) return;
 
     try {
       const today = new Date();
@@ -110,7 +118,7 @@ export function WasteTracking() {
           *,
           categories (name)
         `)
-        .eq('user_id', user.id)
+        .eq('household_id', household.id)
         .gt('quantity', 0) // Only items in pantry
         .not('expiry_date', 'is', null) // Must have expiry date
         .gte('expiry_date', today.toISOString().split('T')[0])
@@ -144,7 +152,7 @@ export function WasteTracking() {
   };
 
   const fetchProducts = async () => {
-    if (!user) return;
+    if (!user || !household) return;
 
     try {
       const { data, error } = await supabase
@@ -153,7 +161,7 @@ export function WasteTracking() {
           *,
           categories (name)
         `)
-        .eq('user_id', user.id)
+        .eq('household_id', household.id)
         .gt('quantity', 0);
 
       if (error) throw error;
@@ -164,14 +172,14 @@ export function WasteTracking() {
   };
 
   const fetchWasteEntries = async () => {
-    if (!user) return;
+    if (!user || !household) return;
 
     try {
       // Fetch actual waste entries from Supabase waste_items table
       const { data, error } = await supabase
         .from('waste_items')
         .select('*')
-        .eq('user_id', user.id)
+        .eq('household_id', household.id)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -204,11 +212,17 @@ export function WasteTracking() {
     if (!product) return;
 
     try {
+      // Take the wasted quantity out of stock, earliest-expiring lots first
+      await recordMovement(product.id, 'wasted', -wasteQuantity, {
+        reason: wasteReason,
+      });
+
       // Insert waste entry into Supabase waste_items table
       const { error: wasteError } = await supabase
         .from('waste_items')
         .insert({
           user_id: user?.id,
+          household_id: household?.id,
           item_name: product.name,
           quantity: wasteQuantity,
           reason: wasteReason
@@ -216,15 +230,6 @@ export function WasteTracking() {
 
       if (wasteError) throw wasteError;
 
-      // Update product quantity in grocery_items
-      const newQuantity = Math.max(0, product.quantity - wasteQuantity);
-      const { error: updateError } = await supabase
-        .from('grocery_items')
-        .update({ quantity: newQuantity })
-        .eq('id', product.id);
-
-      if (updateError) throw updateError;
-
       // Reset form
       setSelectedProduct('');
       setWasteQuantity(1);
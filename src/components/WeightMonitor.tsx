@@ -4,10 +4,12 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { Scale, BarChart3, Smartphone, Play, Pause, RefreshCw, Zap, TrendingDown, TrendingUp } from "lucide-react";
+import { Scale, BarChart3, Smartphone, Play, Pause, RefreshCw, Zap, TrendingDown, TrendingUp, ClipboardCheck } from "lucide-react";
 import { BarcodeWeightDisplay } from "./BarcodeWeightDisplay";
+import { ScaleAdjustmentsLog } from "./ScaleAdjustmentsLog";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useHousehold } from "@/hooks/useHousehold";
 import { useToast } from "@/hooks/use-toast";
 
 interface SimulatedProduct {
@@ -22,6 +24,7 @@ interface SimulatedProduct {
 
 export function WeightMonitor() {
   const { user } = useAuth();
+  const { household } = useHousehold();
   const { toast } = useToast();
   const [isSimulating, setIsSimulating] = useState(false);
   const [simulatedProducts, setSimulatedProducts] = useState<SimulatedProduct[]>([]);
@@ -41,13 +44,13 @@ export function WeightMonitor() {
 
   // Generate simulated weight data
   const generateSimulatedProducts = useCallback(async () => {
-    if (!user) return;
+    if (!user || !household) return;
 
     try {
       const { data: products } = await supabase
         .from('grocery_items')
         .select('*')
-        .eq('user_id', user.id)
+        .eq('household_id', household.id)
         .gt('quantity', 0)
         .limit(5);
 
@@ -74,7 +77,7 @@ export function WeightMonitor() {
     } catch (error) {
       console.error('Error fetching products for simulation:', error);
     }
-  }, [user]);
+  }, [user, household]);
 
   useEffect(() => {
     generateSimulatedProducts();
@@ -184,7 +187,7 @@ export function WeightMonitor() {
       </div>
 
       <Tabs defaultValue="simulation" className="w-full">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="simulation" className="flex items-center gap-2">
             <Zap className="w-4 h-4" />
             Live Simulation
@@ -197,6 +200,10 @@ export function WeightMonitor() {
             <BarChart3 className="w-4 h-4" />
             Weight Logs
           </TabsTrigger>
+          <TabsTrigger value="adjustments" className="flex items-center gap-2">
+            <ClipboardCheck className="w-4 h-4" />
+            Adjustments
+          </TabsTrigger>
           <TabsTrigger value="device-status" className="flex items-center gap-2">
             <Smartphone className="w-4 h-4" />
             Device Status
@@ -304,6 +311,10 @@ export function WeightMonitor() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="adjustments" className="space-y-4">
+          <ScaleAdjustmentsLog />
+        </TabsContent>
+
         <TabsContent value="device-status" className="space-y-4">
           <Card>
             <CardHeader>
@@ -0,0 +1,194 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+// Catalog fields users can suggest corrections to
+export type CatalogField = 'name' | 'brand' | 'category' | 'default_expiry_days' | 'unit' | 'image_url';
+
+export type CatalogValues = Partial<Record<CatalogField, string | number | null>>;
+
+export type SuggestionStatus = 'pending' | 'accepted' | 'rejected' | 'superseded' | 'withdrawn';
+
+// A proposed edit to a barcode product. It is applied once enough users
+// vote for it or a catalog moderator accepts it.
+export interface BarcodeSuggestion {
+  id: string;
+  barcode_product_id: string;
+  base_version: number;
+  changes: CatalogValues;
+  comment: string | null;
+  suggested_by: string;
+  status: SuggestionStatus;
+  score: number;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+export type RevisionSource = 'provider' | 'correction' | 'manual';
+
+// One version of a barcode product: the fields it changed, and their
+// values before
+export interface BarcodeRevision {
+  id: string;
+  version: number;
+  source: RevisionSource;
+  changes: CatalogValues;
+  previous: CatalogValues;
+  suggestion_id: string | null;
+  changed_by: string | null;
+  created_at: string;
+}
+
+export function useBarcodeCorrections(barcodeProductId: string | null) {
+  const [suggestions, setSuggestions] = useState<BarcodeSuggestion[]>([]);
+  const [revisions, setRevisions] = useState<BarcodeRevision[]>([]);
+  // The current user's vote on each suggestion they voted on
+  const [myVotes, setMyVotes] = useState<Record<string, number>>({});
+  const [isModerator, setIsModerator] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+
+  const fetchCorrections = useCallback(async () => {
+    if (!barcodeProductId || !user) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const [suggestionsResult, revisionsResult] = await Promise.all([
+        supabase
+          .from('barcode_product_suggestions')
+          .select('*')
+          .eq('barcode_product_id', barcodeProductId)
+          .order('created_at', { ascending: false })
+          .limit(50),
+        supabase
+          .from('barcode_product_revisions')
+          .select('id, version, source, changes, previous, suggestion_id, changed_by, created_at')
+          .eq('barcode_product_id', barcodeProductId)
+          .order('version', { ascending: false }),
+      ]);
+
+      if (suggestionsResult.error) throw suggestionsResult.error;
+      if (revisionsResult.error) throw revisionsResult.error;
+
+      const fetchedSuggestions = (suggestionsResult.data || []) as BarcodeSuggestion[];
+      setSuggestions(fetchedSuggestions);
+      setRevisions((revisionsResult.data || []) as BarcodeRevision[]);
+
+      const pendingIds = fetchedSuggestions.filter(suggestion => suggestion.status === 'pending').map(suggestion => suggestion.id);
+      if (pendingIds.length > 0) {
+        const { data: votes, error: votesError } = await supabase
+          .from('barcode_suggestion_votes')
+          .select('suggestion_id, vote')
+          .eq('user_id', user.id)
+          .in('suggestion_id', pendingIds);
+
+        if (votesError) throw votesError;
+        setMyVotes(Object.fromEntries((votes || []).map(vote => [vote.suggestion_id, vote.vote])));
+      } else {
+        setMyVotes({});
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch suggested corrections');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [barcodeProductId, user]);
+
+  // Only values that differ from the current record are kept by the server
+  const suggestCorrection = async (changes: CatalogValues, comment?: string) => {
+    if (!barcodeProductId) return false;
+
+    try {
+      const { error } = await supabase.rpc('suggest_barcode_correction', {
+        _barcode_product_id: barcodeProductId,
+        _changes: changes,
+        _comment: comment || undefined,
+      });
+
+      if (error) throw error;
+      await fetchCorrections();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to suggest correction');
+      return false;
+    }
+  };
+
+  // vote is 1 for, -1 against or 0 to take a vote back. Returns the
+  // suggestion's status afterwards, which is no longer pending when this
+  // vote decided it.
+  const vote = async (suggestionId: string, value: -1 | 0 | 1): Promise<SuggestionStatus | null> => {
+    try {
+      const { data, error } = await supabase.rpc('vote_on_barcode_suggestion', {
+        _suggestion_id: suggestionId,
+        _vote: value,
+      });
+
+      if (error) throw error;
+      await fetchCorrections();
+      return data as SuggestionStatus;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record vote');
+      return null;
+    }
+  };
+
+  // Returns the suggestion's status afterwards. Accepting a suggestion whose
+  // fields have changed since it was made supersedes it instead.
+  const reviewSuggestion = async (suggestionId: string, accept: boolean): Promise<SuggestionStatus | null> => {
+    try {
+      const { data, error } = await supabase.rpc('review_barcode_suggestion', {
+        _suggestion_id: suggestionId,
+        _accept: accept,
+      });
+
+      if (error) throw error;
+      await fetchCorrections();
+      return data as SuggestionStatus;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to review suggestion');
+      return null;
+    }
+  };
+
+  const withdrawSuggestion = async (suggestionId: string) => {
+    try {
+      const { error } = await supabase.rpc('withdraw_barcode_suggestion', { _suggestion_id: suggestionId });
+
+      if (error) throw error;
+      await fetchCorrections();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to withdraw suggestion');
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetchCorrections();
+  }, [fetchCorrections]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    supabase.rpc('is_catalog_moderator').then(({ data }) => setIsModerator(data === true));
+  }, [user]);
+
+  return {
+    suggestions,
+    revisions,
+    myVotes,
+    isModerator,
+    isLoading,
+    error,
+    suggestCorrection,
+    vote,
+    reviewSuggestion,
+    withdrawSuggestion,
+    fetchCorrections,
+  };
+}
@@ -1,6 +1,19 @@
 import { useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+
+// Where a product, or one of its fields, came from: entered directly into
+// barcode_products, one of the open databases, or another user
+export type BarcodeProductSource = 'local' | 'openfoodfacts' | 'openbeautyfacts' | 'openpetfoodfacts' | 'community';
+
+export const BARCODE_SOURCE_LABELS: Record<BarcodeProductSource, string> = {
+  local: 'Local DB',
+  openfoodfacts: 'Open Food Facts',
+  openbeautyfacts: 'Open Beauty Facts',
+  openpetfoodfacts: 'Open Pet Food Facts',
+  community: 'Community',
+};
 
 interface BarcodeProduct {
   id: string;
@@ -14,72 +27,42 @@ interface BarcodeProduct {
   unit: string | null;
   nutrition_info: any;
   image_url?: string | null;
-  source?: 'local' | 'openfoodfacts';
+  source: BarcodeProductSource;
+  // Provider of each field that has a value
+  field_sources: Partial<Record<string, BarcodeProductSource>>;
+  // The providers could not be asked, so this may be out of date
+  stale: boolean;
 }
 
-interface OpenFoodFactsProduct {
-  product_name?: string;
-  brands?: string;
-  categories?: string;
-  image_url?: string;
-  nutriments?: {
-    energy_kcal_100g?: number;
-    proteins_100g?: number;
-    carbohydrates_100g?: number;
-    fat_100g?: number;
-    fiber_100g?: number;
-    sugars_100g?: number;
-    salt_100g?: number;
-  };
-  quantity?: string;
-}
+type ContributedProduct = Pick<BarcodeProduct, 'barcode' | 'name' | 'brand' | 'category' | 'default_expiry_days' | 'unit' | 'image_url'>;
 
 export function useBarcodeData() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { toast } = useToast();
+  const { user } = useAuth();
 
-  // Lookup from local database first, then Open Food Facts
+  // Looked up by the barcode-lookup edge function, which caches answers
+  // from the open product databases and user contributions
   const lookupBarcode = async (barcode: string): Promise<BarcodeProduct | null> => {
     setIsLoading(true);
     setError(null);
 
     try {
-      // First, check local database
-      const { data: localData, error: localError } = await supabase
-        .from('barcode_products')
-        .select('*')
-        .eq('barcode', barcode)
-        .maybeSingle();
-
-      if (localError) {
-        console.error('Local barcode lookup error:', localError);
-      }
-
-      if (localData) {
-        console.log('Product found in local database:', localData.name);
-        return {
-          ...localData,
-          product_name: localData.product_name || localData.name,
-          source: 'local'
-        };
-      }
+      const { data, error: invokeError } = await supabase.functions.invoke('barcode-lookup', {
+        body: { barcode },
+      });
 
-      // If not found locally, search Open Food Facts
-      console.log('Searching Open Food Facts for barcode:', barcode);
-      const openFoodFactsResult = await lookupOpenFoodFacts(barcode);
+      if (invokeError) throw invokeError;
+      if (!data?.success) throw new Error(data?.error || 'Failed to lookup barcode');
 
-      if (openFoodFactsResult) {
-        console.log('Product found on Open Food Facts:', openFoodFactsResult.product_name);
-        
-        // Save to local database for future lookups
-        await saveToLocalDatabase(barcode, openFoodFactsResult);
-        
-        return openFoodFactsResult;
+      if (!data.product) {
+        console.log('Product not found in any database');
+        return null;
       }
 
-      console.log('Product not found in any database');
-      return null;
+      console.log(`Product found via ${data.product.source}:`, data.product.product_name);
+      return data.product;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to lookup barcode';
       setError(errorMessage);
@@ -90,172 +73,32 @@ export function useBarcodeData() {
     }
   };
 
-  // Search Open Food Facts API
-  const lookupOpenFoodFacts = async (barcode: string): Promise<BarcodeProduct | null> => {
-    try {
-      const response = await fetch(
-        `https://world.openfoodfacts.org/api/v2/product/${barcode}.json`,
-        {
-          headers: {
-            'User-Agent': 'SmartPantry/1.0 (https://smart-grocer-scan-track.lovable.app)'
-          }
-        }
-      );
-
-      if (!response.ok) {
-        console.log('Open Food Facts API returned:', response.status);
-        return null;
-      }
-
-      const data = await response.json();
-
-      if (data.status !== 1 || !data.product) {
-        console.log('Product not found on Open Food Facts');
-        return null;
-      }
-
-      const product: OpenFoodFactsProduct = data.product;
-
-      // Map Open Food Facts category to our categories
-      const mappedCategory = mapOpenFoodFactsCategory(product.categories || '');
-
-      // Estimate default expiry days based on category
-      const defaultExpiryDays = estimateExpiryDays(mappedCategory);
-
-      // Build nutrition info
-      const nutritionInfo = product.nutriments ? {
-        energy_kcal: product.nutriments.energy_kcal_100g,
-        proteins: product.nutriments.proteins_100g,
-        carbohydrates: product.nutriments.carbohydrates_100g,
-        fat: product.nutriments.fat_100g,
-        fiber: product.nutriments.fiber_100g,
-        sugars: product.nutriments.sugars_100g,
-        salt: product.nutriments.salt_100g
-      } : null;
-
-      return {
-        id: crypto.randomUUID(),
-        barcode,
-        name: product.product_name || 'Unknown Product',
-        product_name: product.product_name || 'Unknown Product',
-        brand: product.brands || null,
-        category: mappedCategory,
-        default_expiry_days: defaultExpiryDays,
-        current_weight: null,
-        unit: product.quantity || null,
-        nutrition_info: nutritionInfo,
-        image_url: product.image_url || null,
-        source: 'openfoodfacts'
-      };
-    } catch (error) {
-      console.error('Open Food Facts API error:', error);
-      return null;
-    }
-  };
-
-  // Save product to local database
-  const saveToLocalDatabase = async (barcode: string, product: BarcodeProduct) => {
-    try {
-      const { error } = await supabase
-        .from('barcode_products')
-        .upsert({
-          barcode,
-          name: product.name,
-          product_name: product.product_name,
-          brand: product.brand,
-          category: product.category,
-          default_expiry_days: product.default_expiry_days,
-          unit: product.unit,
-          nutrition_info: product.nutrition_info,
-          image_url: product.image_url
-        }, {
-          onConflict: 'barcode'
-        });
-
-      if (error) {
-        console.error('Error saving to local database:', error);
-      } else {
-        console.log('Product saved to local database');
-      }
-    } catch (error) {
-      console.error('Error saving product locally:', error);
-    }
-  };
-
-  // Map Open Food Facts categories to our categories
-  const mapOpenFoodFactsCategory = (categories: string): string => {
-    const lowerCategories = categories.toLowerCase();
-    
-    if (lowerCategories.includes('dairy') || lowerCategories.includes('milk') || lowerCategories.includes('cheese') || lowerCategories.includes('yogurt')) {
-      return 'Dairy';
-    }
-    if (lowerCategories.includes('meat') || lowerCategories.includes('poultry') || lowerCategories.includes('chicken') || lowerCategories.includes('beef')) {
-      return 'Meat';
-    }
-    if (lowerCategories.includes('fruit') || lowerCategories.includes('vegetable') || lowerCategories.includes('produce')) {
-      return 'Produce';
-    }
-    if (lowerCategories.includes('bread') || lowerCategories.includes('bakery') || lowerCategories.includes('pastry')) {
-      return 'Bakery';
-    }
-    if (lowerCategories.includes('beverage') || lowerCategories.includes('drink') || lowerCategories.includes('juice') || lowerCategories.includes('soda')) {
-      return 'Beverages';
-    }
-    if (lowerCategories.includes('frozen')) {
-      return 'Frozen';
-    }
-    if (lowerCategories.includes('snack') || lowerCategories.includes('chip') || lowerCategories.includes('candy')) {
-      return 'Snacks';
-    }
-    if (lowerCategories.includes('canned') || lowerCategories.includes('preserved')) {
-      return 'Canned Goods';
-    }
-    if (lowerCategories.includes('grain') || lowerCategories.includes('rice') || lowerCategories.includes('pasta') || lowerCategories.includes('cereal')) {
-      return 'Grains';
-    }
-    if (lowerCategories.includes('condiment') || lowerCategories.includes('sauce') || lowerCategories.includes('spice')) {
-      return 'Condiments';
+  // Describes a product the databases do not know. Lookups fall back to
+  // the latest description anyone has given.
+  const addBarcodeProduct = async (product: ContributedProduct): Promise<boolean> => {
+    if (!user) {
+      toast({
+        title: 'Error',
+        description: 'You must be logged in to add products',
+        variant: 'destructive',
+      });
+      return false;
     }
-    
-    return 'Other';
-  };
-
-  // Estimate expiry days based on category
-  const estimateExpiryDays = (category: string): number => {
-    const expiryMap: Record<string, number> = {
-      'Dairy': 14,
-      'Meat': 5,
-      'Produce': 7,
-      'Bakery': 5,
-      'Beverages': 180,
-      'Frozen': 180,
-      'Snacks': 90,
-      'Canned Goods': 365,
-      'Grains': 180,
-      'Condiments': 365,
-      'Other': 30
-    };
-    return expiryMap[category] || 30;
-  };
 
-  // Add product to local database manually
-  const addBarcodeProduct = async (product: Omit<BarcodeProduct, 'id' | 'source'>): Promise<boolean> => {
     try {
       const { error } = await supabase
-        .from('barcode_products')
+        .from('barcode_contributions')
         .upsert({
           barcode: product.barcode,
+          contributed_by: user.id,
           name: product.name,
-          product_name: product.product_name,
           brand: product.brand,
           category: product.category,
           default_expiry_days: product.default_expiry_days,
-          current_weight: product.current_weight,
           unit: product.unit,
-          nutrition_info: product.nutrition_info,
           image_url: product.image_url
         }, {
-          onConflict: 'barcode'
+          onConflict: 'barcode,contributed_by'
         });
 
       if (error) {
@@ -278,11 +121,10 @@ export function useBarcodeData() {
     }
   };
 
-  return { 
-    lookupBarcode, 
-    lookupOpenFoodFacts,
+  return {
+    lookupBarcode,
     addBarcodeProduct,
-    isLoading, 
-    error 
+    isLoading,
+    error
   };
 }
@@ -1,19 +1,40 @@
-
-import { useEffect, useRef, useState } from 'react';
+import { RefObject, useEffect, useRef, useState } from 'react';
+import { DecodedBarcode, getBarcodeDecoder, SCAN_REGION } from '@/utils/barcodeDecoder';
 
 interface UseBarcodeScanner {
   isScanning: boolean;
   startScanning: () => Promise<void>;
   stopScanning: () => void;
   error: string | null;
+  // Attach to the <video> element that shows the camera feed
+  videoRef: RefObject<HTMLVideoElement>;
+}
+
+interface BarcodeScannerOptions {
+  // Keep the camera running after a code is read, for scanning several items
+  continuous?: boolean;
 }
 
-export function useBarcodeScanner(onBarcodeDetected: (barcode: string) => void): UseBarcodeScanner {
+// How often a frame is decoded, and how many frames in a row must read the
+// same code before it counts, so a partly visible code is not misread
+const SCAN_INTERVAL_MS = 150;
+const CONFIRMATIONS_REQUIRED = 2;
+
+// In continuous mode a code just read is ignored until it has been out of
+// view this long, so holding an item in front of the camera counts it once
+const REPEAT_COOLDOWN_MS = 1500;
+
+export function useBarcodeScanner(
+  onBarcodeDetected: (barcode: string, decoded: DecodedBarcode) => void,
+  { continuous = false }: BarcodeScannerOptions = {}
+): UseBarcodeScanner {
   const [isScanning, setIsScanning] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const onDetectedRef = useRef(onBarcodeDetected);
+  onDetectedRef.current = onBarcodeDetected;
 
   const startScanning = async () => {
     try {
@@ -25,63 +46,92 @@ export function useBarcodeScanner(onBarcodeDetected: (barcode: string) => void):
         throw new Error('Camera access is not supported in this browser');
       }
 
+      const video = videoRef.current;
+      if (!video) {
+        throw new Error('Camera preview is not available');
+      }
+
+      const decoder = await getBarcodeDecoder();
+
       // Request camera access
       const stream = await navigator.mediaDevices.getUserMedia({
-        video: { 
+        video: {
           facingMode: 'environment', // Use back camera if available
-          width: { ideal: 640 },
-          height: { ideal: 480 }
+          width: { ideal: 1280 },
+          height: { ideal: 720 }
         }
       });
 
       streamRef.current = stream;
+      video.srcObject = stream;
+      video.muted = true;
+      video.playsInline = true;
+      await video.play();
 
-      // Create video element if it doesn't exist
-      if (!videoRef.current) {
-        videoRef.current = document.createElement('video');
-        videoRef.current.autoplay = true;
-        videoRef.current.playsInline = true;
-      }
+      let lastValue: string | null = null;
+      let matches = 0;
+      let acceptedValue: string | null = null;
+      let acceptedSeenAt = 0;
+
+      const scanFrame = async () => {
+        if (streamRef.current !== stream) return;
 
-      videoRef.current.srcObject = stream;
-
-      // Simulate barcode detection (in production, use libraries like QuaggaJS or ZXing)
-      intervalRef.current = setInterval(() => {
-        // Simulate finding a barcode after a few seconds
-        const mockBarcodes = [
-          '123456789012', '234567890123', '345678901234', 
-          '456789012345', '567890123456'
-        ];
-        const randomBarcode = mockBarcodes[Math.floor(Math.random() * mockBarcodes.length)];
-        
-        // Simulate 30% chance of finding a barcode every 2 seconds
-        if (Math.random() > 0.7) {
-          onBarcodeDetected(randomBarcode);
-          stopScanning();
+        if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+          try {
+            const decoded = await decoder.decode(video, SCAN_REGION);
+
+            matches = decoded && decoded.rawValue === lastValue ? matches + 1 : decoded ? 1 : 0;
+            lastValue = decoded?.rawValue ?? null;
+
+            const now = Date.now();
+            const repeated = decoded?.rawValue === acceptedValue && now - acceptedSeenAt < REPEAT_COOLDOWN_MS;
+            if (decoded?.rawValue === acceptedValue) {
+              acceptedSeenAt = now;
+            }
+
+            if (decoded && !repeated && matches >= CONFIRMATIONS_REQUIRED && streamRef.current === stream) {
+              if (!continuous) {
+                stopScanning();
+                onDetectedRef.current(decoded.rawValue, decoded);
+                return;
+              }
+
+              acceptedValue = decoded.rawValue;
+              acceptedSeenAt = now;
+              onDetectedRef.current(decoded.rawValue, decoded);
+            }
+          } catch (err) {
+            console.error('Error decoding camera frame:', err);
+          }
+        }
+
+        if (streamRef.current === stream) {
+          timeoutRef.current = setTimeout(scanFrame, SCAN_INTERVAL_MS);
         }
-      }, 2000);
+      };
 
+      scanFrame();
     } catch (err) {
+      stopScanning();
       setError(err instanceof Error ? err.message : 'Failed to access camera');
-      setIsScanning(false);
     }
   };
 
   const stopScanning = () => {
     setIsScanning(false);
-    
+
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
       streamRef.current = null;
     }
-    
+
     if (videoRef.current) {
       videoRef.current.srcObject = null;
     }
-    
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
+
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+      timeoutRef.current = null;
     }
   };
 
@@ -92,5 +142,5 @@ export function useBarcodeScanner(onBarcodeDetected: (barcode: string) => void):
     };
   }, []);
 
-  return { isScanning, startScanning, stopScanning, error };
+  return { isScanning, startScanning, stopScanning, error, videoRef };
 }
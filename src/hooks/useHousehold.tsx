@@ -0,0 +1,153 @@
+import { useState, useEffect, useCallback, createContext, useContext } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+export type HouseholdRole = 'owner' | 'member';
+
+export interface Household {
+  id: string;
+  name: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface HouseholdMember {
+  id: string;
+  user_id: string;
+  role: HouseholdRole;
+  joined_at: string;
+  full_name: string | null;
+  email: string | null;
+}
+
+interface HouseholdContextType {
+  household: Household | null;
+  members: HouseholdMember[];
+  role: HouseholdRole | null;
+  loading: boolean;
+  refreshHousehold: () => Promise<void>;
+}
+
+const HouseholdContext = createContext<HouseholdContextType>({
+  household: null,
+  members: [],
+  role: null,
+  loading: true,
+  refreshHousehold: async () => {},
+});
+
+export const useHousehold = () => {
+  const context = useContext(HouseholdContext);
+  if (!context) {
+    throw new Error('useHousehold must be used within a HouseholdProvider');
+  }
+  return context;
+};
+
+export const HouseholdProvider = ({ children }: { children: React.ReactNode }) => {
+  const { user } = useAuth();
+  const [household, setHousehold] = useState<Household | null>(null);
+  const [members, setMembers] = useState<HouseholdMember[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refreshHousehold = useCallback(async () => {
+    if (!user) {
+      setHousehold(null);
+      setMembers([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data: membership, error: membershipError } = await supabase
+        .from('household_members')
+        .select('household_id, households (id, name, created_by, created_at)')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (membershipError) throw membershipError;
+      if (!membership?.households) {
+        setHousehold(null);
+        setMembers([]);
+        return;
+      }
+
+      // Keep the same object across member refreshes so consumers keyed on it don't refire
+      const next = membership.households;
+      setHousehold(prev =>
+        prev &&
+        prev.id === next.id &&
+        prev.name === next.name &&
+        prev.created_by === next.created_by &&
+        prev.created_at === next.created_at
+          ? prev
+          : next
+      );
+
+      const { data: memberRows, error: membersError } = await supabase
+        .from('household_members')
+        .select('*')
+        .eq('household_id', membership.household_id)
+        .order('joined_at');
+
+      if (membersError) throw membersError;
+
+      // Profiles have no FK to household_members, so join them client-side
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('user_id, full_name, email')
+        .in('user_id', (memberRows || []).map(member => member.user_id));
+
+      setMembers((memberRows || []).map(member => {
+        const profile = profiles?.find(p => p.user_id === member.user_id);
+        return {
+          id: member.id,
+          user_id: member.user_id,
+          role: member.role as HouseholdRole,
+          joined_at: member.joined_at,
+          full_name: profile?.full_name || null,
+          email: profile?.email || null,
+        };
+      }));
+    } catch (error) {
+      console.error('Error fetching household:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    setLoading(true);
+    refreshHousehold();
+
+    if (!user) return;
+
+    // Membership changes (joins, removals, role changes) affect what this user can see
+    const channel = supabase
+      .channel('household_members_changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'household_members',
+        },
+        () => {
+          refreshHousehold();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, refreshHousehold]);
+
+  const role = members.find(member => member.user_id === user?.id)?.role ?? null;
+
+  return (
+    <HouseholdContext.Provider value={{ household, members, role, loading, refreshHousehold }}>
+      {children}
+    </HouseholdContext.Provider>
+  );
+};
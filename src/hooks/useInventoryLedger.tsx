@@ -0,0 +1,71 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type MovementType = 'purchased' | 'consumed' | 'wasted' | 'adjusted' | 'weight_delta';
+
+export interface InventoryMovement {
+  id: string;
+  grocery_item_id: string | null;
+  item_name: string;
+  movement_type: MovementType;
+  quantity_delta: number;
+  value_delta: number;
+  reason: string | null;
+  reverses_movement_id: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+interface MovementOptions {
+  reason?: string;
+  unitPrice?: number;
+  expiryDate?: string | null;
+}
+
+export function useInventoryLedger() {
+  // quantityDelta is signed: positive adds stock, negative removes it.
+  // Returns the id of the recorded movement.
+  const recordMovement = async (
+    itemId: string,
+    movementType: MovementType,
+    quantityDelta: number,
+    options: MovementOptions = {}
+  ): Promise<string> => {
+    const { data, error } = await supabase.rpc('record_inventory_movement', {
+      _item_id: itemId,
+      _movement_type: movementType,
+      _quantity_delta: quantityDelta,
+      _reason: options.reason,
+      _unit_price: options.unitPrice,
+      _expiry_date: options.expiryDate || undefined,
+    });
+
+    if (error) throw error;
+    return data;
+  };
+
+  const undoMovement = async (movementId: string): Promise<string> => {
+    const { data, error } = await supabase.rpc('undo_inventory_movement', { _movement_id: movementId });
+
+    if (error) throw error;
+    return data;
+  };
+
+  const getItemMovements = async (itemId: string, limit = 20): Promise<InventoryMovement[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('inventory_movements')
+        .select('id, grocery_item_id, item_name, movement_type, quantity_delta, value_delta, reason, reverses_movement_id, created_by, created_at')
+        .eq('grocery_item_id', itemId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return (data || []) as InventoryMovement[];
+    } catch (err) {
+      console.error('Error fetching inventory movements:', err);
+      return [];
+    }
+  };
+
+  return { recordMovement, undoMovement, getItemMovements };
+}
@@ -0,0 +1,240 @@
+import { useState, useEffect, useCallback } from 'react';
+import { addDays, format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useHousehold } from '@/hooks/useHousehold';
+import { StructuredRecipe } from '@/hooks/useRecipes';
+
+export type MealType = 'breakfast' | 'lunch' | 'snack' | 'dinner';
+export type MealPlanStatus = 'planned' | 'cooked' | 'skipped';
+
+export const MEAL_TYPES: MealType[] = ['breakfast', 'lunch', 'snack', 'dinner'];
+
+export interface MealPlanEntry {
+  id: string;
+  household_id: string;
+  planned_for: string;
+  meal_type: MealType;
+  title: string;
+  recipe: StructuredRecipe;
+  saved_recipe_id: string | null;
+  servings: number;
+  status: MealPlanStatus;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// How much of an ingredient an upcoming meal needs and how much of it the
+// pantry covers once earlier meals have taken their share
+export interface MealPlanReservation {
+  id: string;
+  household_id: string;
+  entry_id: string;
+  grocery_item_id: string | null;
+  name: string;
+  unit: string | null;
+  quantity_needed: number;
+  quantity_reserved: number;
+  created_at: string;
+}
+
+export type NewMealPlanEntry = Pick<MealPlanEntry, 'planned_for' | 'meal_type' | 'title' | 'recipe' | 'servings'> &
+  Partial<Pick<MealPlanEntry, 'saved_recipe_id'>>;
+
+export type MealPlanEntryUpdates = Partial<Pick<MealPlanEntry, 'planned_for' | 'meal_type' | 'servings' | 'status'>>;
+
+const REFETCH_DELAY_MS = 300;
+
+export const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// The recipe with ingredient amounts scaled to the planned servings. Amounts
+// of pantry items stay whole numbers, rounded up like the reservations.
+export function scaleRecipe(recipe: StructuredRecipe, servings: number): StructuredRecipe {
+  if (!recipe.servings || recipe.servings === servings) return recipe;
+
+  const factor = servings / recipe.servings;
+  return {
+    ...recipe,
+    servings,
+    ingredients: recipe.ingredients.map(ingredient => ({
+      ...ingredient,
+      quantity: ingredient.quantity === null
+        ? null
+        : ingredient.grocery_item_id
+          ? Math.max(1, Math.ceil(ingredient.quantity * factor))
+          : Math.round(ingredient.quantity * factor * 100) / 100,
+    })),
+  };
+}
+
+// Meals planned for the seven days from weekStart (yyyy-MM-dd), and what
+// the household's upcoming meals need from the pantry
+export function useMealPlan(weekStart: string) {
+  const [entries, setEntries] = useState<MealPlanEntry[]>([]);
+  const [reservations, setReservations] = useState<MealPlanReservation[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { household } = useHousehold();
+
+  const fetchPlan = useCallback(async () => {
+    if (!household) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const weekEnd = toDateKey(addDays(parseISO(weekStart), 6));
+
+      const [entriesResult, reservationsResult] = await Promise.all([
+        supabase
+          .from('meal_plan_entries')
+          .select('*')
+          .eq('household_id', household.id)
+          .gte('planned_for', weekStart)
+          .lte('planned_for', weekEnd)
+          .order('planned_for')
+          .order('created_at'),
+        supabase
+          .from('meal_plan_reservations')
+          .select('*')
+          .eq('household_id', household.id),
+      ]);
+
+      if (entriesResult.error) throw entriesResult.error;
+      if (reservationsResult.error) throw reservationsResult.error;
+
+      setEntries((entriesResult.data || []) as unknown as MealPlanEntry[]);
+      setReservations(reservationsResult.data || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch meal plan');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [household, weekStart]);
+
+  // Re-reserves stock for every upcoming meal and adds what is missing to
+  // the shopping list. Returns how many shopping list entries were added.
+  const reconcile = useCallback(async () => {
+    try {
+      const { data, error } = await supabase.rpc('reconcile_meal_plan');
+
+      if (error) throw error;
+      await fetchPlan();
+      return data || 0;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reconcile meal plan');
+      return 0;
+    }
+  }, [fetchPlan]);
+
+  const addEntry = async (entry: NewMealPlanEntry) => {
+    if (!household || !user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('meal_plan_entries')
+        .insert({
+          ...entry,
+          recipe: entry.recipe as unknown as Json,
+          household_id: household.id,
+          created_by: user.id,
+        });
+
+      if (error) throw error;
+      await fetchPlan();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add meal');
+      return false;
+    }
+  };
+
+  const updateEntry = async (entryId: string, updates: MealPlanEntryUpdates) => {
+    try {
+      const { error } = await supabase
+        .from('meal_plan_entries')
+        .update(updates)
+        .eq('id', entryId);
+
+      if (error) throw error;
+      await fetchPlan();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update meal');
+      return false;
+    }
+  };
+
+  const removeEntry = async (entryId: string) => {
+    try {
+      const { error } = await supabase
+        .from('meal_plan_entries')
+        .delete()
+        .eq('id', entryId);
+
+      if (error) throw error;
+      await fetchPlan();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove meal');
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetchPlan();
+
+    if (!household) return;
+
+    // A reconciliation rewrites every reservation row, so bursts of changes
+    // are fetched once
+    let refetchTimer: ReturnType<typeof setTimeout> | undefined;
+    const scheduleFetch = () => {
+      clearTimeout(refetchTimer);
+      refetchTimer = setTimeout(fetchPlan, REFETCH_DELAY_MS);
+    };
+
+    const channel = supabase
+      .channel('meal_plan_changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'meal_plan_entries',
+          filter: `household_id=eq.${household.id}`,
+        },
+        scheduleFetch
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'meal_plan_reservations',
+          filter: `household_id=eq.${household.id}`,
+        },
+        scheduleFetch
+      )
+      .subscribe();
+
+    return () => {
+      clearTimeout(refetchTimer);
+      supabase.removeChannel(channel);
+    };
+  }, [household, fetchPlan]);
+
+  return {
+    entries,
+    reservations,
+    isLoading,
+    error,
+    addEntry,
+    updateEntry,
+    removeEntry,
+    reconcile,
+  };
+}
@@ -2,253 +2,72 @@
 import { useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useHousehold } from '@/hooks/useHousehold';
 import { useToast } from '@/hooks/use-toast';
 
-export function useNotificationSystem() {
-  const { user } = useAuth();
-  const { toast } = useToast();
-
-  useEffect(() => {
-    if (!user) return;
-
-    const checkExpiryNotifications = async () => {
-      try {
-        console.log('Checking for expiring products...');
-        
-        // Get user's notification preferences
-        const { data: preferences } = await supabase
-          .from('user_notification_preferences')
-          .select('*')
-          .eq('user_id', user.id)
-          .single();
-
-        if (!preferences?.email_notifications) {
-          console.log('Email notifications disabled for user');
-          return;
-        }
-
-        const reminderDays = preferences?.expiry_reminder_days || 3;
-        const today = new Date();
-        const todayString = today.toISOString().split('T')[0];
-        
-        // Check for expired products (expiry date is in the past)
-        const { data: expiredProducts, error: expiredError } = await supabase
-          .from('grocery_items')
-          .select('*')
-          .eq('user_id', user.id)
-          .lt('expiry_date', todayString);
-
-        if (!expiredError && expiredProducts?.length > 0) {
-          for (const product of expiredProducts) {
-            // Check if we already sent an expired notification for this product today
-            const { data: existingExpiredNotification } = await supabase
-              .from('notifications')
-              .select('id, created_at')
-              .eq('user_id', user.id)
-              .eq('item_id', product.id)
-              .eq('type', 'expired')
-              .gte('created_at', todayString)
-              .maybeSingle();
-
-            if (!existingExpiredNotification) {
-              // Send expired notification
-              await sendNotification({
-                user_id: user.id,
-                product: {
-                  id: product.id,
-                  name: product.name,
-                  category: product.category || 'Uncategorized',
-                  quantity: product.quantity || 0,
-                  quantity_type: product.quantity_type || 'pieces',
-                  amount: product.amount || 0,
-                  expiry_date: product.expiry_date
-                },
-                notification_type: 'expired'
-              });
-              console.log(`Expired notification sent for ${product.name}`);
-            }
-          }
-        }
-        
-        // Calculate date range for expiring products (within reminder days, including today)
-        const futureDate = new Date(today);
-        futureDate.setDate(today.getDate() + reminderDays);
+const SCHEDULED_NOTIFICATION_TYPES = ['expiring', 'expired', 'running_out', 'low_stock'];
 
-        // Fetch products expiring within the reminder period (including today, not expired)
-        const { data: expiringProducts, error } = await supabase
-          .from('grocery_items')
-          .select('*')
-          .eq('user_id', user.id)
-          .gte('expiry_date', todayString)
-          .lte('expiry_date', futureDate.toISOString().split('T')[0]);
+// Used by one-off events such as products being added or removed
+export const sendNotification = async (payload: any) => {
+  try {
+    console.log('Sending notification with payload:', payload);
 
-        if (error) {
-          console.error('Error fetching expiring products:', error);
-          return;
-        }
-
-        if (!expiringProducts?.length) {
-          console.log('No expiring products found');
-          return;
-        }
-
-        console.log(`Found ${expiringProducts.length} expiring products`);
-
-        // Process each expiring product
-        for (const product of expiringProducts) {
-          const expiryDate = new Date(product.expiry_date);
-          const diffTime = expiryDate.getTime() - today.getTime();
-          const daysUntilExpiry = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-          // Check if we already sent an expiry notification for this product today
-          const { data: existingNotification } = await supabase
-            .from('notifications')
-            .select('id, created_at')
-            .eq('user_id', user.id)
-            .eq('item_id', product.id)
-            .eq('type', 'expiry')
-            .gte('created_at', todayString)
-            .maybeSingle();
-
-          if (existingNotification) {
-            console.log(`Expiry notification already sent today for product ${product.name}`);
-            continue;
-          }
-
-          // Send daily notification for products expiring within reminder period
-          const result = await sendNotification({
-            user_id: user.id,
-            product: {
-              id: product.id,
-              name: product.name,
-              category: product.category || 'Uncategorized',
-              quantity: product.quantity || 0,
-              quantity_type: product.quantity_type || 'pieces',
-              amount: product.amount || 0,
-              expiry_date: product.expiry_date
-            },
-            notification_type: 'expiry',
-            days_until_expiry: daysUntilExpiry
-          });
-
-          if (result.success) {
-            console.log(`Daily expiry notification sent for ${product.name} (expires in ${daysUntilExpiry} days)`);
-          } else {
-            console.error(`Failed to send notification for ${product.name}:`, result.error);
-          }
-        }
+    const { data, error } = await supabase.functions.invoke('send-notifications', {
+      body: payload
+    });
 
-      } catch (error) {
-        console.error('Error in notification check:', error);
-      }
-    };
-
-    // Initial check
-    checkExpiryNotifications();
-
-    // Set up interval to check daily (24 hours)
-    const interval = setInterval(checkExpiryNotifications, 24 * 60 * 60 * 1000);
-
-    return () => clearInterval(interval);
-  }, [user, toast]);
-
-  const sendNotification = async (payload: any) => {
-    try {
-      console.log('Sending notification with payload:', payload);
-      
-      const { data, error } = await supabase.functions.invoke('send-notifications', {
-        body: payload
-      });
-
-      if (error) {
-        console.error('Error sending notification:', error);
-        return { success: false, error };
-      }
-
-      console.log('Email notification sent successfully:', data);
-      return { success: true, data };
-    } catch (error) {
-      console.error('Error invoking notification function:', error);
+    if (error) {
+      console.error('Error sending notification:', error);
       return { success: false, error };
     }
-  };
-
-  // Only check for expiry notifications when products are added
-  const checkNewProductExpiry = async (productId: string) => {
-    if (!user) return;
-
-    try {
-      // Get user's notification preferences
-      const { data: preferences } = await supabase
-        .from('user_notification_preferences')
-        .select('*')
-        .eq('user_id', user.id)
-        .maybeSingle();
-
-      if (!preferences?.email_notifications) {
-        console.log('Email notifications disabled for user');
-        return;
-      }
 
-      const reminderDays = preferences?.expiry_reminder_days || 3;
-      
-      // Fetch the product details
-      const { data: product, error } = await supabase
-        .from('grocery_items')
-        .select('*')
-        .eq('id', productId)
-        .eq('user_id', user.id)
-        .single();
+    console.log('Email notification sent successfully:', data);
+    return { success: true, data };
+  } catch (error) {
+    console.error('Error invoking notification function:', error);
+    return { success: false, error };
+  }
+};
 
-      if (error || !product || !product.expiry_date) {
-        return; // No expiry date, no notification needed
-      }
-
-      // Check if product is expiring within reminder period
-      const today = new Date();
-      const expiryDate = new Date(product.expiry_date);
-      const diffTime = expiryDate.getTime() - today.getTime();
-      const daysUntilExpiry = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-      if (daysUntilExpiry <= reminderDays && daysUntilExpiry >= 0) {
-        // Check if we already have a notification for this product
-        const { data: existingNotification } = await supabase
-          .from('notifications')
-          .select('id')
-          .eq('user_id', user.id)
-          .eq('item_id', product.id)
-          .eq('type', 'expiry')
-          .maybeSingle();
+export function useNotificationSystem() {
+  const { user } = useAuth();
+  const { household } = useHousehold();
+  const { toast } = useToast();
 
-        if (!existingNotification) {
-          // Send expiry notification
-          const result = await sendNotification({
-            user_id: user.id,
-            product: {
-              id: product.id,
-              name: product.name,
-              category: product.category || 'Uncategorized',
-              quantity: product.quantity || 0,
-              quantity_type: product.quantity_type || 'pieces',
-              amount: product.amount || 0,
-              expiry_date: product.expiry_date
-            },
-            notification_type: 'expiry',
-            days_until_expiry: daysUntilExpiry
+  // Reminders are created by the scheduled check-expiry-notifications job;
+  // surface the ones addressed to this user as they arrive
+  useEffect(() => {
+    if (!user || !household) return;
+
+    const channel = supabase
+      .channel('notification_system_changes')
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications',
+          filter: `household_id=eq.${household.id}`,
+        },
+        (payload) => {
+          const notification = payload.new as { user_id: string; title: string; message: string | null; type: string | null };
+          if (notification.user_id !== user.id || !SCHEDULED_NOTIFICATION_TYPES.includes(notification.type || '')) return;
+
+          toast({
+            title: notification.title,
+            description: notification.message || undefined,
+            variant: notification.type === 'expired' ? 'destructive' : 'default',
           });
-
-          if (result.success) {
-            console.log(`Expiry notification sent for newly added product ${product.name}`);
-          }
         }
-      }
-    } catch (error) {
-      console.error('Error checking new product expiry:', error);
-    }
-  };
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, household, toast]);
 
   return {
-    checkNewProductExpiry,
     sendNotification
   };
 }
@@ -0,0 +1,75 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useHousehold } from '@/hooks/useHousehold';
+import { StorageLocation } from '@/hooks/useStorageLocations';
+import { RecipePantryItem } from '@/hooks/useRecipes';
+
+// An in-stock pantry item with its category, as used for recipes and meal
+// planning
+export interface PantryProduct {
+  id: string;
+  name: string;
+  quantity: number;
+  quantity_type: string;
+  expiry_date: string | null;
+  amount: number | null;
+  storage_location_id: string | null;
+  category_id: string | null;
+  categories?: { name: string } | null;
+}
+
+// The pantry as ai-recipe-chat expects it, with where each item is kept
+export const toRecipePantry = (products: PantryProduct[], locations: StorageLocation[]): RecipePantryItem[] =>
+  products.map(p => {
+    const location = locations.find(l => l.id === p.storage_location_id);
+    return {
+      id: p.id,
+      name: p.name,
+      quantity: p.quantity,
+      quantity_type: p.quantity_type,
+      expiry_date: p.expiry_date,
+      amount: p.amount,
+      storage: location ? `${location.name} (${location.location_type})` : null,
+    };
+  });
+
+export function usePantryProducts(channelName: string) {
+  const { user } = useAuth();
+  const { household } = useHousehold();
+  const [products, setProducts] = useState<PantryProduct[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchProducts = async () => {
+      if (!user || !household) return;
+      try {
+        const { data, error } = await supabase
+          .from('grocery_items')
+          .select('*, categories(name)')
+          .eq('household_id', household.id)
+          .gt('quantity', 0);
+
+        if (error) throw error;
+        setProducts(data || []);
+      } catch (error) {
+        console.error('Error fetching products:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProducts();
+
+    const channel = supabase
+      .channel(channelName)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'grocery_items', filter: household ? `household_id=eq.${household.id}` : undefined }, fetchProducts)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, household, channelName]);
+
+  return { products, loading };
+}
@@ -1,16 +1,36 @@
 
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { useHousehold } from "@/hooks/useHousehold";
 import { supabase } from "@/integrations/supabase/client";
 import { validateProductData, sanitizeInput } from "@/utils/securityValidation";
-import { useNotificationSystem } from "@/hooks/useNotificationSystem";
+import { sendNotification } from "@/hooks/useNotificationSystem";
 import { useProductImages } from "@/hooks/useProductImages";
+import { useInventoryLedger } from "@/hooks/useInventoryLedger";
+
+// Stock levels are optional; an empty value falls back to the category default
+const toStockLevel = (value: string | number | null | undefined): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  return Math.max(0, Math.min(9999, parseInt(String(value)) || 0));
+};
+
+// Scale weights are in grams; an unset weight per unit leaves counted items
+// out of scale reconciliation
+const toScaleWeight = (value: string | number | null | undefined): number | null => {
+  const weight = parseFloat(String(value));
+  return isNaN(weight) || weight <= 0 ? null : Math.min(100000, weight);
+};
+
+// GS1 lot numbers are at most 20 characters
+const toLotCode = (value: string | null | undefined): string | null =>
+  sanitizeInput(value ?? '').substring(0, 20) || null;
 
 export function useProductOperations() {
   const { toast } = useToast();
   const { user } = useAuth();
-  const { checkNewProductExpiry, sendNotification } = useNotificationSystem();
+  const { household } = useHousehold();
   const { generateProductImage } = useProductImages();
+  const { recordMovement } = useInventoryLedger();
 
   const addProduct = async (newProduct: any, setValidationErrors: (errors: string[]) => void) => {
     if (!user) {
@@ -19,7 +39,7 @@ export function useProductOperations() {
         description: "You must be logged in to add products",
         variant: "destructive",
       });
-      return;
+      return false;
     }
 
     const validation = validateProductData(newProduct);
@@ -30,11 +50,51 @@ export function useProductOperations() {
         description: "Please fix the validation errors",
         variant: "destructive",
       });
-      return;
+      return false;
     }
 
     setValidationErrors([]);
 
+    // Buying more of something already in the pantry adds a lot to the existing item
+    if (newProduct.barcode && household) {
+      const { data: existingItem } = await supabase
+        .from('grocery_items')
+        .select('id, name')
+        .eq('household_id', household.id)
+        .eq('barcode', newProduct.barcode)
+        .limit(1)
+        .maybeSingle();
+
+      if (existingItem) {
+        const lotCode = toLotCode(newProduct.lot_code);
+        const quantity = Math.max(0, Math.min(9999, parseInt(newProduct.quantity) || 0));
+        const amount = Math.max(0, Math.min(999999, parseFloat(newProduct.amount) || 0));
+
+        try {
+          await recordMovement(existingItem.id, 'purchased', quantity, {
+            unitPrice: quantity > 0 ? amount / quantity : 0,
+            expiryDate: newProduct.expiry_date,
+          });
+          if (lotCode) {
+            await supabase.from('grocery_items').update({ lot_code: lotCode }).eq('id', existingItem.id);
+          }
+          toast({
+            title: "Success",
+            description: `Added a new lot to ${existingItem.name}`,
+          });
+          return true;
+        } catch (lotError) {
+          console.error('Error adding lot:', lotError);
+          toast({
+            title: "Error",
+            description: "Failed to add product. Please try again.",
+            variant: "destructive",
+          });
+          return false;
+        }
+      }
+    }
+
     // Generate AI image automatically
     let aiImageUrl = null;
     try {
@@ -55,7 +115,11 @@ export function useProductOperations() {
       amount: Math.max(0, Math.min(999999, parseFloat(newProduct.amount) || 0)),
       image_url: aiImageUrl || newProduct.image_url || null,
       barcode: newProduct.barcode || null,
+      lot_code: toLotCode(newProduct.lot_code),
+      scale_unit_weight: toScaleWeight(newProduct.scale_unit_weight),
+      storage_location_id: newProduct.storage_location_id || null,
       user_id: user.id,
+      household_id: household?.id,
     };
 
     const { data, error } = await supabase
@@ -71,6 +135,7 @@ export function useProductOperations() {
         description: "Failed to add product. Please try again.",
         variant: "destructive",
       });
+      return false;
     } else {
       toast({
         title: "Success",
@@ -102,11 +167,7 @@ export function useProductOperations() {
         console.error('Failed to send product notifications:', notificationError);
         // Don't fail the product addition if notification fails
       }
-      
-      // Check if the newly added product is expiring soon and needs notification
-      if (data?.id) {
-        await checkNewProductExpiry(data.id);
-      }
+      return true;
     }
   };
 
@@ -133,38 +194,48 @@ export function useProductOperations() {
 
     setValidationErrors([]);
 
+    // Quantity is derived from the inventory ledger, so the server records a
+    // change to it as an adjustment in the same transaction as the edit
+    const newQuantity = Math.max(0, Math.min(9999, parseInt(updatedProduct.quantity) || 0));
+
     const productData = {
       name: sanitizeInput(updatedProduct.name),
       category_id: updatedProduct.category_id,
-      quantity: Math.max(0, Math.min(9999, parseInt(updatedProduct.quantity) || 0)),
       quantity_type: sanitizeInput(updatedProduct.quantity_type || 'pieces'),
       expiry_date: updatedProduct.expiry_date,
       amount: Math.max(0, Math.min(999999, parseFloat(updatedProduct.amount) || 0)),
       image_url: updatedProduct.image_url || null,
       barcode: updatedProduct.barcode || null,
-      updated_at: new Date().toISOString(),
+      lot_code: toLotCode(updatedProduct.lot_code),
+      min_quantity: toStockLevel(updatedProduct.min_quantity),
+      target_quantity: toStockLevel(updatedProduct.target_quantity),
+      scale_tare_weight: toScaleWeight(updatedProduct.scale_tare_weight) ?? 0,
+      scale_unit_weight: toScaleWeight(updatedProduct.scale_unit_weight),
+      scale_auto_apply: updatedProduct.scale_auto_apply === true,
     };
 
-    const { error } = await supabase
-      .from('grocery_items')
-      .update(productData)
-      .eq('id', updatedProduct.id)
-      .eq('user_id', user.id);
-
-    if (error) {
-      console.error('Error updating product:', error);
-      toast({
-        title: "Error",
-        description: "Failed to update product. Please try again.",
-        variant: "destructive",
+    try {
+      const { error } = await supabase.rpc('update_grocery_item', {
+        _item_id: updatedProduct.id,
+        _quantity: newQuantity,
+        _changes: productData,
       });
-    } else {
+
+      if (error) throw error;
+
       toast({
         title: "Success",
         description: "Product updated successfully",
       });
       setShowEditProduct(false);
       setEditingProduct(null);
+    } catch (error) {
+      console.error('Error updating product:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update product. Please try again.",
+        variant: "destructive",
+      });
     }
   };
 
@@ -199,7 +270,7 @@ export function useProductOperations() {
           categories (name)
         `)
         .eq('id', productId)
-        .eq('user_id', user.id)
+        .eq('household_id', household?.id)
         .single();
 
       if (fetchError) {
@@ -219,7 +290,7 @@ export function useProductOperations() {
         .from('notifications')
         .delete()
         .eq('item_id', productId)
-        .eq('user_id', user.id);
+        .eq('household_id', household?.id);
 
       if (notificationDeleteError) {
         console.error('Error deleting related notifications:', notificationDeleteError);
@@ -233,7 +304,7 @@ export function useProductOperations() {
         .from('grocery_items')
         .delete()
         .eq('id', productId)
-        .eq('user_id', user.id);
+        .eq('household_id', household?.id);
 
       if (deleteError) {
         console.error('Error deleting product:', deleteError);
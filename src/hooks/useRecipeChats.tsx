@@ -0,0 +1,131 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { StructuredRecipe, RecipeMode } from '@/hooks/useRecipes';
+
+export interface RecipeChatSession {
+  id: string;
+  user_id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RecipeChatMessage {
+  id: string;
+  session_id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  recipes: StructuredRecipe[];
+  mode: RecipeMode;
+  created_at: string;
+}
+
+const SESSION_LIMIT = 50;
+
+// Escapes the wildcards ilike would otherwise treat specially
+const toLikePattern = (query: string) => `%${query.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+
+// The signed-in user's recipe conversations. They are written by
+// ai-recipe-chat; here they are only listed, searched, opened and deleted.
+export function useRecipeChats() {
+  const [sessions, setSessions] = useState<RecipeChatSession[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+
+  // Conversations newest first, limited to those whose title or messages
+  // contain the query when one is given
+  const fetchSessions = useCallback(async (query = '') => {
+    if (!user) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const request = supabase
+        .from('recipe_chat_sessions')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('updated_at', { ascending: false })
+        .limit(SESSION_LIMIT);
+
+      const search = query.trim();
+      if (search) {
+        const pattern = toLikePattern(search);
+        const { data: matches, error: matchError } = await supabase
+          .from('recipe_chat_messages')
+          .select('session_id')
+          .ilike('content', pattern)
+          .limit(500);
+
+        if (matchError) throw matchError;
+
+        const [byTitle, byMessage] = await Promise.all([
+          request.ilike('title', pattern),
+          supabase
+            .from('recipe_chat_sessions')
+            .select('*')
+            .in('id', [...new Set((matches || []).map(match => match.session_id))])
+            .order('updated_at', { ascending: false })
+            .limit(SESSION_LIMIT),
+        ]);
+
+        if (byTitle.error) throw byTitle.error;
+        if (byMessage.error) throw byMessage.error;
+
+        const merged = new Map([...(byTitle.data || []), ...(byMessage.data || [])].map(session => [session.id, session]));
+        setSessions([...merged.values()].sort((a, b) => b.updated_at.localeCompare(a.updated_at)));
+        return;
+      }
+
+      const { data, error } = await request;
+
+      if (error) throw error;
+      setSessions(data || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch recipe chats');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  const getMessages = useCallback(async (sessionId: string): Promise<RecipeChatMessage[]> => {
+    const { data, error } = await supabase
+      .from('recipe_chat_messages')
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('created_at');
+
+    if (error) throw error;
+    return (data || []).map(message => ({
+      ...message,
+      recipes: Array.isArray(message.recipes) ? message.recipes as unknown as StructuredRecipe[] : [],
+    })) as RecipeChatMessage[];
+  }, []);
+
+  const deleteSession = async (sessionId: string) => {
+    try {
+      const { error } = await supabase
+        .from('recipe_chat_sessions')
+        .delete()
+        .eq('id', sessionId);
+
+      if (error) throw error;
+      setSessions(prev => prev.filter(session => session.id !== sessionId));
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete recipe chat');
+      return false;
+    }
+  };
+
+  return {
+    sessions,
+    isLoading,
+    error,
+    fetchSessions,
+    getMessages,
+    deleteSession,
+  };
+}
@@ -0,0 +1,149 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type RecipeDifficulty = 'easy' | 'medium' | 'hard';
+export type RecipeMode = 'chat' | 'use_it_up';
+
+// Ingredients matched to a pantry item carry its id, with the quantity in
+// that item's unit
+export interface RecipeIngredient {
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+  grocery_item_id: string | null;
+  optional: boolean;
+}
+
+// Structured copy of a recipe returned by ai-recipe-chat next to its markdown
+export interface StructuredRecipe {
+  title: string;
+  servings: number | null;
+  prep_minutes: number | null;
+  cook_minutes: number | null;
+  difficulty: RecipeDifficulty | null;
+  ingredients: RecipeIngredient[];
+  steps: string[];
+  // Value of soon-to-expire stock the recipe uses up, and those items' names
+  at_risk_value: number;
+  at_risk_items: string[];
+}
+
+export type CookedIngredient = {
+  grocery_item_id: string;
+  quantity: number;
+};
+
+export interface RecipePantryItem {
+  id: string;
+  name: string;
+  quantity: number;
+  quantity_type: string;
+  expiry_date: string | null;
+  amount: number | null;
+  storage: string | null;
+}
+
+export interface RecipeChatRequest {
+  ingredients: string[];
+  pantry: RecipePantryItem[];
+  mode: RecipeMode;
+  userMessage: string;
+  sessionId: string | null;
+}
+
+export interface RecipeChatReply {
+  response: string;
+  recipe: StructuredRecipe | null;
+  recipes: StructuredRecipe[];
+  // Null when the exchange could not be stored
+  sessionId: string | null;
+}
+
+type RecipeStreamEvent =
+  | { type: 'delta'; content: string }
+  | ({ type: 'done' } & RecipeChatReply)
+  | { type: 'error'; status: number; error: string };
+
+const RECIPE_CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ai-recipe-chat`;
+
+// Hides recipe-json blocks, including one that is still arriving, from
+// reply text shown while it streams
+export const stripRecipeBlocks = (content: string) =>
+  content.replace(/```recipe-json[\s\S]*?(```|$)/g, '').trim();
+
+export function useRecipes() {
+  // Deducts every ingredient as consumption in a single transaction; nothing
+  // is deducted if any of them fails. Returns the number of movements.
+  const cookRecipe = async (title: string, ingredients: CookedIngredient[]): Promise<number> => {
+    const { data, error } = await supabase.rpc('cook_recipe', {
+      _recipe_title: title,
+      _ingredients: ingredients,
+    });
+
+    if (error) throw error;
+    return data;
+  };
+
+  // Asks ai-recipe-chat for a streamed reply, passing each piece of text to
+  // onDelta as it arrives. Aborting the signal stops the reply; the fetch
+  // then rejects with an AbortError.
+  const streamChat = async (
+    request: RecipeChatRequest,
+    onDelta: (content: string) => void,
+    signal?: AbortSignal
+  ): Promise<RecipeChatReply> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    const apiKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+    const response = await fetch(RECIPE_CHAT_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        apikey: apiKey,
+        Authorization: `Bearer ${session?.access_token || apiKey}`,
+      },
+      body: JSON.stringify({ ...request, stream: true }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error || 'Failed to get recipe suggestions');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const line = buffer.slice(0, boundary).trim();
+        buffer = buffer.slice(boundary + 2);
+        if (!line.startsWith('data:')) continue;
+
+        const event: RecipeStreamEvent = JSON.parse(line.slice(5));
+        if (event.type === 'delta') {
+          onDelta(event.content);
+        } else if (event.type === 'done') {
+          return {
+            response: event.response,
+            recipe: event.recipe,
+            recipes: event.recipes,
+            sessionId: event.sessionId,
+          };
+        } else {
+          throw new Error(event.error);
+        }
+      }
+    }
+
+    throw new Error('The reply was cut off. Please try again.');
+  };
+
+  return { cookRecipe, streamChat };
+}
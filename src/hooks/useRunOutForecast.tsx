@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useHousehold } from '@/hooks/useHousehold';
+
+export type ForecastSource = 'weight' | 'ledger';
+
+export interface RunOutForecast {
+  grocery_item_id: string;
+  source: ForecastSource;
+  daily_rate: number;
+  rate_unit: string;
+  sample_count: number;
+  days_until_run_out: number;
+  predicted_run_out_date: string;
+}
+
+// Items forecast to run out within this many days count as running out
+export const RUN_OUT_WARNING_DAYS = 7;
+
+export function useRunOutForecast() {
+  const [forecasts, setForecasts] = useState<RunOutForecast[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { household } = useHousehold();
+
+  const fetchForecasts = useCallback(async () => {
+    if (!household) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data, error } = await supabase.rpc('get_run_out_forecasts');
+
+      if (error) throw error;
+      setForecasts((data || []) as RunOutForecast[]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch run-out forecasts');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [household]);
+
+  const getForecast = (itemId: string) => {
+    return forecasts.find(forecast => forecast.grocery_item_id === itemId) || null;
+  };
+
+  const runningOut = forecasts.filter(forecast => forecast.days_until_run_out <= RUN_OUT_WARNING_DAYS);
+
+  useEffect(() => {
+    fetchForecasts();
+
+    if (!household) return;
+
+    // Every stock change goes through the ledger, so new movements are the
+    // signal to refit
+    const channel = supabase
+      .channel('run_out_forecast_changes')
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'inventory_movements',
+          filter: `household_id=eq.${household.id}`,
+        },
+        () => {
+          fetchForecasts();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [household, fetchForecasts]);
+
+  return {
+    forecasts,
+    runningOut,
+    isLoading,
+    error,
+    getForecast,
+    fetchForecasts
+  };
+}
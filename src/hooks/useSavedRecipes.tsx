@@ -0,0 +1,155 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useHousehold } from '@/hooks/useHousehold';
+import { StructuredRecipe } from '@/hooks/useRecipes';
+
+export interface SavedRecipe {
+  id: string;
+  household_id: string;
+  created_by: string | null;
+  title: string;
+  recipe: StructuredRecipe | null;
+  markdown: string;
+  tags: string[];
+  rating: number | null;
+  notes: string | null;
+  source_session_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SavedRecipeDetails = Pick<SavedRecipe, 'title' | 'tags' | 'rating' | 'notes'>;
+
+export type NewSavedRecipe = SavedRecipeDetails & Pick<SavedRecipe, 'recipe' | 'markdown' | 'source_session_id'>;
+
+// Tags are stored trimmed and lower case so filtering is not case sensitive
+export const normalizeTags = (tags: string[]) =>
+  [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+
+// The household's recipe book
+export function useSavedRecipes() {
+  const [recipes, setRecipes] = useState<SavedRecipe[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { household } = useHousehold();
+
+  const fetchRecipes = useCallback(async () => {
+    if (!household) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data, error } = await supabase
+        .from('saved_recipes')
+        .select('*')
+        .eq('household_id', household.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setRecipes((data || []) as unknown as SavedRecipe[]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch saved recipes');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [household]);
+
+  const saveRecipe = async (recipe: NewSavedRecipe) => {
+    if (!household || !user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('saved_recipes')
+        .insert({
+          ...recipe,
+          recipe: recipe.recipe as unknown as Json,
+          tags: normalizeTags(recipe.tags),
+          household_id: household.id,
+          created_by: user.id,
+        });
+
+      if (error) throw error;
+      await fetchRecipes();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save recipe');
+      return false;
+    }
+  };
+
+  const updateRecipe = async (recipeId: string, updates: Partial<SavedRecipeDetails>) => {
+    try {
+      const { error } = await supabase
+        .from('saved_recipes')
+        .update(updates.tags ? { ...updates, tags: normalizeTags(updates.tags) } : updates)
+        .eq('id', recipeId);
+
+      if (error) throw error;
+      await fetchRecipes();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update recipe');
+      return false;
+    }
+  };
+
+  const deleteRecipe = async (recipeId: string) => {
+    try {
+      const { error } = await supabase
+        .from('saved_recipes')
+        .delete()
+        .eq('id', recipeId);
+
+      if (error) throw error;
+      await fetchRecipes();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete recipe');
+      return false;
+    }
+  };
+
+  const tags = useMemo(() =>
+    [...new Set(recipes.flatMap(recipe => recipe.tags))].sort(), [recipes]
+  );
+
+  useEffect(() => {
+    fetchRecipes();
+
+    if (!household) return;
+
+    const channel = supabase
+      .channel('saved_recipes_changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'saved_recipes',
+          filter: `household_id=eq.${household.id}`,
+        },
+        () => {
+          fetchRecipes();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [household, fetchRecipes]);
+
+  return {
+    recipes,
+    tags,
+    isLoading,
+    error,
+    saveRecipe,
+    updateRecipe,
+    deleteRecipe,
+  };
+}
@@ -0,0 +1,116 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useHousehold } from '@/hooks/useHousehold';
+
+export type ScaleAdjustmentStatus = 'pending' | 'applied' | 'rejected' | 'superseded';
+
+// A scale weight converted into an item's quantity. Applied straight away
+// for items with scale_auto_apply set, otherwise pending until approved.
+export interface ScaleAdjustment {
+  id: string;
+  grocery_item_id: string | null;
+  item_name: string;
+  barcode: string;
+  gross_weight: number;
+  tare_weight: number;
+  net_weight: number;
+  quantity_type: string;
+  quantity_before: number;
+  quantity_after: number;
+  status: ScaleAdjustmentStatus;
+  inventory_movement_id: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+export function useScaleAdjustments(limit = 50) {
+  const [adjustments, setAdjustments] = useState<ScaleAdjustment[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { household } = useHousehold();
+
+  const fetchAdjustments = useCallback(async () => {
+    if (!household) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data, error } = await supabase
+        .from('scale_adjustments')
+        .select('*')
+        .eq('household_id', household.id)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      setAdjustments((data || []) as ScaleAdjustment[]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch scale adjustments');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [household, limit]);
+
+  const approveAdjustment = async (adjustmentId: string) => {
+    try {
+      const { error } = await supabase.rpc('approve_scale_adjustment', { _adjustment_id: adjustmentId });
+
+      if (error) throw error;
+      await fetchAdjustments();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to approve adjustment');
+      return false;
+    }
+  };
+
+  const rejectAdjustment = async (adjustmentId: string) => {
+    try {
+      const { error } = await supabase.rpc('reject_scale_adjustment', { _adjustment_id: adjustmentId });
+
+      if (error) throw error;
+      await fetchAdjustments();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reject adjustment');
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetchAdjustments();
+
+    if (!household) return;
+
+    const channel = supabase
+      .channel('scale_adjustments_changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'scale_adjustments',
+          filter: `household_id=eq.${household.id}`,
+        },
+        () => {
+          fetchAdjustments();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [household, fetchAdjustments]);
+
+  return {
+    adjustments,
+    isLoading,
+    error,
+    approveAdjustment,
+    rejectAdjustment,
+    fetchAdjustments
+  };
+}
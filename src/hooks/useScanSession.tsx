@@ -0,0 +1,166 @@
+import { useState, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useBarcodeData } from '@/hooks/useBarcodeData';
+import { getLocationExpiryDate } from '@/hooks/useStorageLocations';
+import { gtinToRetailBarcode, parseGs1 } from '@/utils/barcodeDecoder';
+
+export type ScanSessionEntryStatus = 'looking_up' | 'found' | 'not_found';
+
+// One product in the running cart of a scan session. Scanning the same
+// barcode again adds to its quantity.
+export interface ScanSessionEntry {
+  barcode: string;
+  status: ScanSessionEntryStatus;
+  name: string;
+  brand: string | null;
+  category_id: string | null;
+  quantity: number;
+  quantity_type: string;
+  expiry_date: string;
+  // Set once the user picks an expiry so a late lookup doesn't replace it
+  expiry_edited: boolean;
+  amount: number;
+  image_url: string | null;
+  last_scanned_at: number;
+}
+
+export type ScanSessionEntryEdit = Partial<Pick<ScanSessionEntry, 'name' | 'category_id' | 'quantity' | 'quantity_type' | 'expiry_date' | 'amount'>>;
+
+export interface ScanSessionResult {
+  newItems: number;
+  restockedItems: number;
+}
+
+interface Category {
+  id: string;
+  name: string;
+}
+
+const DEFAULT_EXPIRY_DAYS = 7;
+
+export function useScanSession(categories: Category[] = []) {
+  const [entries, setEntries] = useState<ScanSessionEntry[]>([]);
+  const [isCommitting, setIsCommitting] = useState(false);
+  // Barcodes in the cart, known synchronously so a quick second scan is not
+  // looked up twice
+  const barcodesRef = useRef(new Set<string>());
+  const { lookupBarcode } = useBarcodeData();
+
+  const updateEntry = useCallback((barcode: string, edit: ScanSessionEntryEdit) => {
+    setEntries(prev => prev.map(entry => {
+      if (entry.barcode !== barcode) return entry;
+      return { ...entry, ...edit, expiry_edited: entry.expiry_edited || edit.expiry_date !== undefined };
+    }));
+  }, []);
+
+  // Adds one of the scanned product. A new barcode is looked up in the
+  // background and fills in whatever the user has not already typed. GS1
+  // codes count towards their retail barcode and bring the printed expiry.
+  const addScan = useCallback((scanned: string) => {
+    const gs1 = parseGs1(scanned);
+    const barcode = gs1?.gtin ? gtinToRetailBarcode(gs1.gtin) : scanned;
+    const printedExpiry = gs1?.expiry || gs1?.bestBefore || null;
+    const isNew = !barcodesRef.current.has(barcode);
+    barcodesRef.current.add(barcode);
+
+    setEntries(prev => {
+      const existing = prev.find(entry => entry.barcode === barcode);
+      if (existing) {
+        return [
+          { ...existing, quantity: Math.min(9999, existing.quantity + 1), last_scanned_at: Date.now() },
+          ...prev.filter(entry => entry !== existing),
+        ];
+      }
+
+      return [{
+        barcode,
+        status: 'looking_up',
+        name: '',
+        brand: null,
+        category_id: null,
+        quantity: 1,
+        quantity_type: 'pieces',
+        expiry_date: printedExpiry || getLocationExpiryDate(DEFAULT_EXPIRY_DAYS),
+        expiry_edited: false,
+        amount: 0,
+        image_url: null,
+        last_scanned_at: Date.now(),
+      }, ...prev];
+    });
+
+    if (!isNew) return;
+
+    lookupBarcode(barcode).then(product => {
+      setEntries(prev => prev.map(entry => {
+        if (entry.barcode !== barcode) return entry;
+        if (!product) return { ...entry, status: 'not_found' };
+
+        const category = product.category
+          ? categories.find(c => c.name.toLowerCase() === product.category?.toLowerCase())
+          : undefined;
+
+        return {
+          ...entry,
+          status: 'found',
+          name: entry.name || product.product_name || product.name,
+          brand: product.brand,
+          category_id: entry.category_id || category?.id || null,
+          expiry_date: entry.expiry_edited
+            ? entry.expiry_date
+            : printedExpiry || getLocationExpiryDate(product.default_expiry_days || DEFAULT_EXPIRY_DAYS),
+          image_url: product.image_url || null,
+        };
+      }));
+    });
+  }, [lookupBarcode, categories]);
+
+  const removeEntry = useCallback((barcode: string) => {
+    barcodesRef.current.delete(barcode);
+    setEntries(prev => prev.filter(entry => entry.barcode !== barcode));
+  }, []);
+
+  const clearSession = useCallback(() => {
+    barcodesRef.current.clear();
+    setEntries([]);
+  }, []);
+
+  // Adds the whole cart to the pantry in one transaction and empties it
+  const commitSession = async (): Promise<ScanSessionResult> => {
+    setIsCommitting(true);
+
+    try {
+      const { data, error } = await supabase.rpc('add_scanned_items', {
+        _items: entries.map(entry => ({
+          barcode: entry.barcode,
+          name: entry.name,
+          category_id: entry.category_id,
+          quantity: entry.quantity,
+          quantity_type: entry.quantity_type,
+          expiry_date: entry.expiry_date,
+          amount: entry.amount,
+          image_url: entry.image_url,
+        })),
+      });
+
+      if (error) throw error;
+
+      clearSession();
+      return {
+        newItems: data?.[0]?.new_items ?? 0,
+        restockedItems: data?.[0]?.restocked_items ?? 0,
+      };
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  return {
+    entries,
+    isCommitting,
+    addScan,
+    updateEntry,
+    removeEntry,
+    clearSession,
+    commitSession,
+  };
+}
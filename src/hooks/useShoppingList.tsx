@@ -0,0 +1,267 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useHousehold } from '@/hooks/useHousehold';
+import { getLocationExpiryDate } from '@/hooks/useStorageLocations';
+
+export type ShoppingListSource = 'manual' | 'low_stock' | 'forecast' | 'meal_plan';
+export type ShoppingListStatus = 'open' | 'checked' | 'dismissed';
+
+export interface ShoppingListItem {
+  id: string;
+  household_id: string;
+  grocery_item_id: string | null;
+  name: string;
+  barcode: string | null;
+  category_id: string | null;
+  quantity: number;
+  quantity_type: string | null;
+  source: ShoppingListSource;
+  status: ShoppingListStatus;
+  notes: string | null;
+  added_by: string | null;
+  checked_by: string | null;
+  checked_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NewShoppingListItem = Pick<ShoppingListItem, 'name' | 'quantity'> &
+  Partial<Pick<ShoppingListItem, 'quantity_type' | 'barcode' | 'category_id' | 'grocery_item_id' | 'notes'>>;
+
+// What a checked-off entry becomes when it is added to the pantry
+export interface PantryDraft {
+  name: string;
+  category_id: string | null;
+  quantity: number;
+  quantity_type: string;
+  expiry_date: string;
+  image_url: string | null;
+  barcode: string | null;
+}
+
+const DEFAULT_EXPIRY_DAYS = 7;
+
+export function useShoppingList() {
+  const [items, setItems] = useState<ShoppingListItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { household } = useHousehold();
+
+  const fetchItems = useCallback(async () => {
+    if (!household) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data, error } = await supabase
+        .from('shopping_list_items')
+        .select('*')
+        .eq('household_id', household.id)
+        .in('status', ['open', 'checked'])
+        .order('created_at');
+
+      if (error) throw error;
+      setItems((data || []) as ShoppingListItem[]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch shopping list');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [household]);
+
+  // Adds items that are low or forecast to run out. Returns how many were added.
+  const refreshSuggestions = useCallback(async () => {
+    try {
+      const { data, error } = await supabase.rpc('refresh_shopping_list');
+
+      if (error) throw error;
+      await fetchItems();
+      return data || 0;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to refresh shopping list');
+      return 0;
+    }
+  }, [fetchItems]);
+
+  const addItem = async (item: NewShoppingListItem) => {
+    if (!household || !user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('shopping_list_items')
+        .insert({
+          ...item,
+          household_id: household.id,
+          added_by: user.id,
+          source: 'manual',
+        });
+
+      if (error) throw error;
+      await fetchItems();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add shopping list item');
+      return false;
+    }
+  };
+
+  const updateItem = async (itemId: string, updates: Partial<Pick<ShoppingListItem, 'name' | 'quantity' | 'quantity_type' | 'notes'>>) => {
+    try {
+      const { error } = await supabase
+        .from('shopping_list_items')
+        .update(updates)
+        .eq('id', itemId);
+
+      if (error) throw error;
+      await fetchItems();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update shopping list item');
+      return false;
+    }
+  };
+
+  const setChecked = async (itemId: string, checked: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('shopping_list_items')
+        .update({
+          status: checked ? 'checked' : 'open',
+          checked_by: checked ? user?.id : null,
+          checked_at: checked ? new Date().toISOString() : null,
+        })
+        .eq('id', itemId);
+
+      if (error) throw error;
+      await fetchItems();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update shopping list item');
+      return false;
+    }
+  };
+
+  // Automatic suggestions are dismissed rather than deleted so they are not
+  // suggested again until the item is restocked
+  const removeItem = async (item: ShoppingListItem) => {
+    try {
+      const { error } = item.source === 'manual' || item.status === 'checked'
+        ? await supabase.from('shopping_list_items').delete().eq('id', item.id)
+        : await supabase.from('shopping_list_items').update({ status: 'dismissed' }).eq('id', item.id);
+
+      if (error) throw error;
+      await fetchItems();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove shopping list item');
+      return false;
+    }
+  };
+
+  const clearChecked = async () => {
+    if (!household) return false;
+
+    try {
+      const { error } = await supabase
+        .from('shopping_list_items')
+        .delete()
+        .eq('household_id', household.id)
+        .eq('status', 'checked');
+
+      if (error) throw error;
+      await fetchItems();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to clear checked items');
+      return false;
+    }
+  };
+
+  // Pre-fills a new pantry item from the entry and, when it has a barcode,
+  // the product's name, image, category and shelf life from barcode_products
+  const getPantryDraft = async (item: ShoppingListItem): Promise<PantryDraft> => {
+    const draft: PantryDraft = {
+      name: item.name,
+      category_id: item.category_id,
+      quantity: item.quantity,
+      quantity_type: item.quantity_type || 'pieces',
+      expiry_date: getLocationExpiryDate(DEFAULT_EXPIRY_DAYS),
+      image_url: null,
+      barcode: item.barcode,
+    };
+
+    if (!item.barcode) return draft;
+
+    try {
+      const { data: product, error } = await supabase
+        .from('barcode_products')
+        .select('name, product_name, category, image_url, default_expiry_days')
+        .eq('barcode', item.barcode)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!product) return draft;
+
+      draft.name = product.product_name || product.name || draft.name;
+      draft.image_url = product.image_url;
+      draft.expiry_date = getLocationExpiryDate(product.default_expiry_days || DEFAULT_EXPIRY_DAYS);
+
+      if (!draft.category_id && product.category) {
+        const { data: category } = await supabase
+          .from('categories')
+          .select('id')
+          .ilike('name', product.category)
+          .limit(1)
+          .maybeSingle();
+        draft.category_id = category?.id || null;
+      }
+    } catch (err) {
+      console.error('Error fetching barcode product for shopping list item:', err);
+    }
+
+    return draft;
+  };
+
+  useEffect(() => {
+    fetchItems();
+
+    if (!household) return;
+
+    const channel = supabase
+      .channel('shopping_list_changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'shopping_list_items',
+          filter: `household_id=eq.${household.id}`,
+        },
+        () => {
+          fetchItems();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [household, fetchItems]);
+
+  return {
+    items,
+    isLoading,
+    error,
+    addItem,
+    updateItem,
+    setChecked,
+    removeItem,
+    clearChecked,
+    refreshSuggestions,
+    getPantryDraft,
+    fetchItems
+  };
+}
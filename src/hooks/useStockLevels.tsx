@@ -0,0 +1,147 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useHousehold } from '@/hooks/useHousehold';
+
+// Effective levels for one pantry item: its own, or its category's default
+export interface StockLevel {
+  grocery_item_id: string;
+  quantity: number;
+  min_quantity: number | null;
+  target_quantity: number | null;
+  is_low: boolean;
+  reorder_quantity: number;
+}
+
+export interface CategoryStockLevel {
+  id: string;
+  household_id: string;
+  category_id: string;
+  min_quantity: number | null;
+  target_quantity: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type StockLevelValues = Pick<CategoryStockLevel, 'min_quantity' | 'target_quantity'>;
+
+export function useStockLevels() {
+  const [levels, setLevels] = useState<StockLevel[]>([]);
+  const [categoryLevels, setCategoryLevels] = useState<CategoryStockLevel[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { household } = useHousehold();
+
+  const fetchLevels = useCallback(async () => {
+    if (!household) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const [itemResult, categoryResult] = await Promise.all([
+        supabase.rpc('get_stock_levels'),
+        supabase
+          .from('category_stock_levels')
+          .select('*')
+          .eq('household_id', household.id),
+      ]);
+
+      if (itemResult.error) throw itemResult.error;
+      if (categoryResult.error) throw categoryResult.error;
+
+      setLevels((itemResult.data || []) as StockLevel[]);
+      setCategoryLevels(categoryResult.data || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch stock levels');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [household]);
+
+  // Clearing both values removes the category default
+  const setCategoryLevel = async (categoryId: string, values: StockLevelValues) => {
+    if (!household) return false;
+
+    try {
+      const { error } = values.min_quantity === null && values.target_quantity === null
+        ? await supabase
+            .from('category_stock_levels')
+            .delete()
+            .eq('household_id', household.id)
+            .eq('category_id', categoryId)
+        : await supabase
+            .from('category_stock_levels')
+            .upsert(
+              { household_id: household.id, category_id: categoryId, ...values },
+              { onConflict: 'household_id,category_id' }
+            );
+
+      if (error) throw error;
+      await fetchLevels();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save category stock level');
+      return false;
+    }
+  };
+
+  const getLevel = (itemId: string) => {
+    return levels.find(level => level.grocery_item_id === itemId) || null;
+  };
+
+  const getCategoryLevel = (categoryId: string | null | undefined) => {
+    return categoryLevels.find(level => level.category_id === categoryId) || null;
+  };
+
+  const lowStock = levels.filter(level => level.is_low);
+
+  useEffect(() => {
+    fetchLevels();
+
+    if (!household) return;
+
+    const channel = supabase
+      .channel('stock_levels_changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'grocery_items',
+          filter: `household_id=eq.${household.id}`,
+        },
+        () => {
+          fetchLevels();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'category_stock_levels',
+          filter: `household_id=eq.${household.id}`,
+        },
+        () => {
+          fetchLevels();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [household, fetchLevels]);
+
+  return {
+    levels,
+    categoryLevels,
+    lowStock,
+    isLoading,
+    error,
+    setCategoryLevel,
+    getLevel,
+    getCategoryLevel,
+    fetchLevels
+  };
+}
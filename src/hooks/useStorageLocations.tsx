@@ -0,0 +1,190 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useHousehold } from '@/hooks/useHousehold';
+
+export type StorageLocationType = 'fridge' | 'freezer' | 'pantry' | 'shelf';
+
+export interface StorageLocation {
+  id: string;
+  household_id: string;
+  name: string;
+  location_type: StorageLocationType;
+  expiry_offset_days: number;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StorageLocationMove {
+  id: string;
+  grocery_item_id: string;
+  from_location_id: string | null;
+  to_location_id: string | null;
+  previous_expiry_date: string | null;
+  new_expiry_date: string | null;
+  moved_by: string | null;
+  moved_at: string;
+}
+
+export const STORAGE_LOCATION_TYPES: StorageLocationType[] = ['fridge', 'freezer', 'pantry', 'shelf'];
+
+// Default expiry for a product stored at a location: the product's own shelf
+// life (barcode_products.default_expiry_days) plus the location's offset
+export function getLocationExpiryDate(defaultExpiryDays: number, location?: StorageLocation | null): string {
+  const expiryDate = new Date();
+  expiryDate.setDate(expiryDate.getDate() + defaultExpiryDays + (location?.expiry_offset_days || 0));
+  return expiryDate.toISOString().split('T')[0];
+}
+
+export function useStorageLocations() {
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { household } = useHousehold();
+
+  const fetchLocations = useCallback(async () => {
+    if (!household) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data, error } = await supabase
+        .from('storage_locations')
+        .select('*')
+        .eq('household_id', household.id)
+        .order('sort_order')
+        .order('name');
+
+      if (error) throw error;
+      setLocations((data || []) as StorageLocation[]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch storage locations');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [household]);
+
+  const addLocation = async (location: Pick<StorageLocation, 'name' | 'location_type' | 'expiry_offset_days'>) => {
+    if (!household) return false;
+
+    try {
+      const { error } = await supabase
+        .from('storage_locations')
+        .insert({
+          ...location,
+          household_id: household.id,
+          sort_order: locations.length,
+        });
+
+      if (error) throw error;
+      await fetchLocations();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add storage location');
+      return false;
+    }
+  };
+
+  const updateLocation = async (locationId: string, updates: Partial<Pick<StorageLocation, 'name' | 'location_type' | 'expiry_offset_days'>>) => {
+    try {
+      const { error } = await supabase
+        .from('storage_locations')
+        .update(updates)
+        .eq('id', locationId);
+
+      if (error) throw error;
+      await fetchLocations();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update storage location');
+      return false;
+    }
+  };
+
+  const deleteLocation = async (locationId: string) => {
+    try {
+      const { error } = await supabase
+        .from('storage_locations')
+        .delete()
+        .eq('id', locationId);
+
+      if (error) throw error;
+      await fetchLocations();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete storage location');
+      return false;
+    }
+  };
+
+  // Returns the item's recomputed expiry date
+  const moveItem = async (itemId: string, locationId: string): Promise<string | null> => {
+    const { data, error } = await supabase.rpc('move_grocery_item', {
+      _item_id: itemId,
+      _location_id: locationId,
+    });
+
+    if (error) throw error;
+    return data;
+  };
+
+  const getMoveHistory = async (itemId: string): Promise<StorageLocationMove[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('storage_location_moves')
+        .select('*')
+        .eq('grocery_item_id', itemId)
+        .order('moved_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (err) {
+      console.error('Error fetching move history:', err);
+      return [];
+    }
+  };
+
+  const getLocationName = (locationId: string | null | undefined) => {
+    return locations.find(location => location.id === locationId)?.name || null;
+  };
+
+  useEffect(() => {
+    fetchLocations();
+
+    if (!household) return;
+
+    const channel = supabase
+      .channel('storage_locations_changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'storage_locations',
+          filter: `household_id=eq.${household.id}`,
+        },
+        () => {
+          fetchLocations();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [household, fetchLocations]);
+
+  return {
+    locations,
+    isLoading,
+    error,
+    addLocation,
+    updateLocation,
+    deleteLocation,
+    moveItem,
+    getMoveHistory,
+    getLocationName,
+    fetchLocations
+  };
+}
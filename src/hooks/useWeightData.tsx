@@ -11,6 +11,21 @@ interface WeightReading {
   recorded_at: string;
 }
 
+export type WeightEventType = 'item_removed' | 'item_returned' | 'portion_consumed' | 'refilled';
+
+// A settled change in weight on a scale, detected from the filtered readings
+export interface WeightEvent {
+  id: string;
+  device_id: string;
+  barcode: string;
+  event_type: WeightEventType;
+  weight_before: number;
+  weight_after: number;
+  weight_delta: number;
+  unit: string;
+  occurred_at: string;
+}
+
 interface BarcodeProductWithWeight {
   id: string;
   barcode: string;
@@ -59,19 +74,20 @@ export function useWeightData() {
         .eq('barcode', barcode.trim())
         .maybeSingle();
 
-      // Get the latest weight reading for this specific barcode
-      const { data: latestWeight } = await supabase
-        .from('weight_readings')
-        .select('weight, unit, recorded_at')
+      // Get the filtered scale weight for this specific barcode: the settled
+      // level, or the smoothed weight while it is still settling
+      const { data: scaleWeight } = await supabase
+        .from('weight_signal_state')
+        .select('smoothed_weight, stable_weight, last_recorded_at')
         .eq('barcode', barcode.trim())
-        .order('recorded_at', { ascending: false })
+        .order('updated_at', { ascending: false })
         .limit(1)
         .maybeSingle();
 
-      // Use the latest weight reading if available, otherwise fall back to product's current_weight
-      const currentWeight = latestWeight?.weight || productData.current_weight || 0;
-      const weightUnit = latestWeight?.unit || productData.unit || 'g';
-      const lastUpdate = latestWeight?.recorded_at || productData.updated_at;
+      // Use the scale weight if available, otherwise fall back to product's current_weight
+      const currentWeight = scaleWeight?.stable_weight ?? scaleWeight?.smoothed_weight ?? productData.current_weight ?? 0;
+      const weightUnit = scaleWeight ? 'g' : productData.unit || 'g';
+      const lastUpdate = scaleWeight?.last_recorded_at || productData.updated_at;
 
       return {
         ...productData,
@@ -127,6 +143,23 @@ export function useWeightData() {
     }
   };
 
+  const getWeightEvents = async (barcode: string, limit: number = 10): Promise<WeightEvent[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('weight_events')
+        .select('*')
+        .eq('barcode', barcode.trim())
+        .order('occurred_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return (data || []) as WeightEvent[];
+    } catch (err) {
+      console.error('Error fetching weight events:', err);
+      return [];
+    }
+  };
+
   const simulateWeightReading = async (barcode: string, weight: number): Promise<boolean> => {
     try {
       // Validate that the barcode exists in barcode_products
@@ -165,6 +198,7 @@ export function useWeightData() {
     getProductWithWeight,
     saveExpiryDate,
     getWeightHistory,
+    getWeightEvents,
     simulateWeightReading,
     isLoading,
     error
@@ -14,6 +14,167 @@ export type Database = {
   }
   public: {
     Tables: {
+      barcode_contributions: {
+        Row: {
+          barcode: string
+          brand: string | null
+          category: string | null
+          contributed_by: string
+          created_at: string
+          default_expiry_days: number | null
+          id: string
+          image_url: string | null
+          name: string
+          unit: string | null
+          updated_at: string
+        }
+        Insert: {
+          barcode: string
+          brand?: string | null
+          category?: string | null
+          contributed_by: string
+          created_at?: string
+          default_expiry_days?: number | null
+          id?: string
+          image_url?: string | null
+          name: string
+          unit?: string | null
+          updated_at?: string
+        }
+        Update: {
+          barcode?: string
+          brand?: string | null
+          category?: string | null
+          contributed_by?: string
+          created_at?: string
+          default_expiry_days?: number | null
+          id?: string
+          image_url?: string | null
+          name?: string
+          unit?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      barcode_lookup_misses: {
+        Row: {
+          barcode: string
+          checked_at: string
+          providers: string[]
+        }
+        Insert: {
+          barcode: string
+          checked_at?: string
+          providers: string[]
+        }
+        Update: {
+          barcode?: string
+          checked_at?: string
+          providers?: string[]
+        }
+        Relationships: []
+      }
+      barcode_product_revisions: {
+        Row: {
+          barcode_product_id: string
+          changed_by: string | null
+          changes: Json
+          created_at: string
+          id: string
+          previous: Json
+          source: string
+          suggestion_id: string | null
+          version: number
+        }
+        Insert: {
+          barcode_product_id: string
+          changed_by?: string | null
+          changes: Json
+          created_at?: string
+          id?: string
+          previous?: Json
+          source: string
+          suggestion_id?: string | null
+          version: number
+        }
+        Update: {
+          barcode_product_id?: string
+          changed_by?: string | null
+          changes?: Json
+          created_at?: string
+          id?: string
+          previous?: Json
+          source?: string
+          suggestion_id?: string | null
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "barcode_product_revisions_barcode_product_id_fkey"
+            columns: ["barcode_product_id"]
+            isOneToOne: false
+            referencedRelation: "barcode_products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "barcode_product_revisions_suggestion_id_fkey"
+            columns: ["suggestion_id"]
+            isOneToOne: false
+            referencedRelation: "barcode_product_suggestions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      barcode_product_suggestions: {
+        Row: {
+          barcode_product_id: string
+          base_version: number
+          changes: Json
+          comment: string | null
+          created_at: string
+          id: string
+          resolved_at: string | null
+          resolved_by: string | null
+          score: number
+          status: string
+          suggested_by: string
+        }
+        Insert: {
+          barcode_product_id: string
+          base_version: number
+          changes: Json
+          comment?: string | null
+          created_at?: string
+          id?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          score?: number
+          status?: string
+          suggested_by: string
+        }
+        Update: {
+          barcode_product_id?: string
+          base_version?: number
+          changes?: Json
+          comment?: string | null
+          created_at?: string
+          id?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          score?: number
+          status?: string
+          suggested_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "barcode_product_suggestions_barcode_product_id_fkey"
+            columns: ["barcode_product_id"]
+            isOneToOne: false
+            referencedRelation: "barcode_products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       barcode_products: {
         Row: {
           barcode: string
@@ -22,13 +183,17 @@ export type Database = {
           created_at: string
           current_weight: number | null
           default_expiry_days: number | null
+          fetched_at: string | null
+          field_sources: Json
           id: string
           image_url: string | null
           name: string
           nutrition_info: Json | null
           product_name: string | null
+          source: string
           unit: string | null
           updated_at: string
+          version: number
         }
         Insert: {
           barcode: string
@@ -37,13 +202,17 @@ export type Database = {
           created_at?: string
           current_weight?: number | null
           default_expiry_days?: number | null
+          fetched_at?: string | null
+          field_sources?: Json
           id?: string
           image_url?: string | null
           name: string
           nutrition_info?: Json | null
           product_name?: string | null
+          source?: string
           unit?: string | null
           updated_at?: string
+          version?: number
         }
         Update: {
           barcode?: string
@@ -52,13 +221,61 @@ export type Database = {
           created_at?: string
           current_weight?: number | null
           default_expiry_days?: number | null
+          fetched_at?: string | null
+          field_sources?: Json
           id?: string
           image_url?: string | null
           name?: string
           nutrition_info?: Json | null
           product_name?: string | null
+          source?: string
           unit?: string | null
           updated_at?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      barcode_suggestion_votes: {
+        Row: {
+          created_at: string
+          suggestion_id: string
+          user_id: string
+          vote: number
+        }
+        Insert: {
+          created_at?: string
+          suggestion_id: string
+          user_id: string
+          vote: number
+        }
+        Update: {
+          created_at?: string
+          suggestion_id?: string
+          user_id?: string
+          vote?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "barcode_suggestion_votes_suggestion_id_fkey"
+            columns: ["suggestion_id"]
+            isOneToOne: false
+            referencedRelation: "barcode_product_suggestions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      catalog_moderators: {
+        Row: {
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          user_id?: string
         }
         Relationships: []
       }
@@ -86,175 +303,1143 @@ export type Database = {
         }
         Relationships: []
       }
+      category_stock_levels: {
+        Row: {
+          category_id: string
+          created_at: string
+          household_id: string
+          id: string
+          min_quantity: number | null
+          target_quantity: number | null
+          updated_at: string
+        }
+        Insert: {
+          category_id: string
+          created_at?: string
+          household_id: string
+          id?: string
+          min_quantity?: number | null
+          target_quantity?: number | null
+          updated_at?: string
+        }
+        Update: {
+          category_id?: string
+          created_at?: string
+          household_id?: string
+          id?: string
+          min_quantity?: number | null
+          target_quantity?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "category_stock_levels_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "category_stock_levels_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      device_credentials: {
+        Row: {
+          created_at: string
+          device_registry_id: string
+          token_hash: string
+        }
+        Insert: {
+          created_at?: string
+          device_registry_id: string
+          token_hash: string
+        }
+        Update: {
+          created_at?: string
+          device_registry_id?: string
+          token_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "device_credentials_device_registry_id_fkey"
+            columns: ["device_registry_id"]
+            isOneToOne: true
+            referencedRelation: "device_registry"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       device_registry: {
         Row: {
           api_key: string | null
           created_at: string
           device_id: string
           device_name: string | null
-          device_token: string | null
           device_type: string | null
+          household_id: string | null
           id: string
           is_active: boolean | null
           last_seen: string | null
+          token_prefix: string | null
+          token_revoked_at: string | null
+          token_rotated_at: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
           api_key?: string | null
           created_at?: string
-          device_id: string
-          device_name?: string | null
-          device_token?: string | null
-          device_type?: string | null
+          device_id: string
+          device_name?: string | null
+          device_type?: string | null
+          household_id?: string | null
+          id?: string
+          is_active?: boolean | null
+          last_seen?: string | null
+          token_prefix?: string | null
+          token_revoked_at?: string | null
+          token_rotated_at?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          api_key?: string | null
+          created_at?: string
+          device_id?: string
+          device_name?: string | null
+          device_type?: string | null
+          household_id?: string | null
+          id?: string
+          is_active?: boolean | null
+          last_seen?: string | null
+          token_prefix?: string | null
+          token_revoked_at?: string | null
+          token_rotated_at?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "device_registry_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      grocery_item_lots: {
+        Row: {
+          created_at: string
+          expiry_date: string | null
+          grocery_item_id: string
+          household_id: string
+          id: string
+          purchase_date: string
+          quantity: number
+          unit_price: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          expiry_date?: string | null
+          grocery_item_id: string
+          household_id?: string
+          id?: string
+          purchase_date?: string
+          quantity: number
+          unit_price?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          expiry_date?: string | null
+          grocery_item_id?: string
+          household_id?: string
+          id?: string
+          purchase_date?: string
+          quantity?: number
+          unit_price?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "grocery_item_lots_grocery_item_id_fkey"
+            columns: ["grocery_item_id"]
+            isOneToOne: false
+            referencedRelation: "grocery_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "grocery_item_lots_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      grocery_items: {
+        Row: {
+          amount: number | null
+          barcode: string | null
+          category: string | null
+          category_id: string | null
+          created_at: string
+          expiry_date: string | null
+          household_id: string | null
+          id: string
+          image_url: string | null
+          is_expired: boolean | null
+          lot_code: string | null
+          min_quantity: number | null
+          name: string
+          notes: string | null
+          quantity: number | null
+          quantity_type: string | null
+          scale_auto_apply: boolean
+          scale_tare_weight: number
+          scale_unit_weight: number | null
+          storage_location_id: string | null
+          target_quantity: number | null
+          unit: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount?: number | null
+          barcode?: string | null
+          category?: string | null
+          category_id?: string | null
+          created_at?: string
+          expiry_date?: string | null
+          household_id?: string | null
+          id?: string
+          image_url?: string | null
+          is_expired?: boolean | null
+          lot_code?: string | null
+          min_quantity?: number | null
+          name: string
+          notes?: string | null
+          quantity?: number | null
+          quantity_type?: string | null
+          scale_auto_apply?: boolean
+          scale_tare_weight?: number
+          scale_unit_weight?: number | null
+          storage_location_id?: string | null
+          target_quantity?: number | null
+          unit?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number | null
+          barcode?: string | null
+          category?: string | null
+          category_id?: string | null
+          created_at?: string
+          expiry_date?: string | null
+          household_id?: string | null
+          id?: string
+          image_url?: string | null
+          is_expired?: boolean | null
+          lot_code?: string | null
+          min_quantity?: number | null
+          name?: string
+          notes?: string | null
+          quantity?: number | null
+          quantity_type?: string | null
+          scale_auto_apply?: boolean
+          scale_tare_weight?: number
+          scale_unit_weight?: number | null
+          storage_location_id?: string | null
+          target_quantity?: number | null
+          unit?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "grocery_items_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "grocery_items_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "grocery_items_storage_location_id_fkey"
+            columns: ["storage_location_id"]
+            isOneToOne: false
+            referencedRelation: "storage_locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      household_invitations: {
+        Row: {
+          created_at: string
+          email: string
+          expires_at: string
+          household_id: string
+          id: string
+          invited_by: string | null
+          role: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          expires_at?: string
+          household_id: string
+          id?: string
+          invited_by?: string | null
+          role?: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          expires_at?: string
+          household_id?: string
+          id?: string
+          invited_by?: string | null
+          role?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "household_invitations_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      household_members: {
+        Row: {
+          household_id: string
+          id: string
+          joined_at: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          household_id: string
+          id?: string
+          joined_at?: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          household_id?: string
+          id?: string
+          joined_at?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "household_members_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      households: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      inventory_movements: {
+        Row: {
+          category_id: string | null
+          created_at: string
+          created_by: string | null
+          expiry_date: string | null
+          grocery_item_id: string | null
+          household_id: string
+          id: string
+          item_name: string
+          lot_allocations: Json
+          movement_type: string
+          quantity_delta: number
+          reason: string | null
+          reverses_movement_id: string | null
+          unit_price: number | null
+          value_delta: number
+        }
+        Insert: {
+          category_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          expiry_date?: string | null
+          grocery_item_id?: string | null
+          household_id: string
+          id?: string
+          item_name: string
+          lot_allocations?: Json
+          movement_type: string
+          quantity_delta: number
+          reason?: string | null
+          reverses_movement_id?: string | null
+          unit_price?: number | null
+          value_delta?: number
+        }
+        Update: {
+          category_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          expiry_date?: string | null
+          grocery_item_id?: string | null
+          household_id?: string
+          id?: string
+          item_name?: string
+          lot_allocations?: Json
+          movement_type?: string
+          quantity_delta?: number
+          reason?: string | null
+          reverses_movement_id?: string | null
+          unit_price?: number | null
+          value_delta?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_movements_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_movements_grocery_item_id_fkey"
+            columns: ["grocery_item_id"]
+            isOneToOne: false
+            referencedRelation: "grocery_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_movements_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_movements_reverses_movement_id_fkey"
+            columns: ["reverses_movement_id"]
+            isOneToOne: true
+            referencedRelation: "inventory_movements"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      meal_plan_entries: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          household_id: string
+          id: string
+          meal_type: string
+          planned_for: string
+          recipe: Json
+          saved_recipe_id: string | null
+          servings: number
+          status: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          household_id: string
+          id?: string
+          meal_type?: string
+          planned_for: string
+          recipe: Json
+          saved_recipe_id?: string | null
+          servings?: number
+          status?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          household_id?: string
+          id?: string
+          meal_type?: string
+          planned_for?: string
+          recipe?: Json
+          saved_recipe_id?: string | null
+          servings?: number
+          status?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meal_plan_entries_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meal_plan_entries_saved_recipe_id_fkey"
+            columns: ["saved_recipe_id"]
+            isOneToOne: false
+            referencedRelation: "saved_recipes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      meal_plan_reservations: {
+        Row: {
+          created_at: string
+          entry_id: string
+          grocery_item_id: string | null
+          household_id: string
+          id: string
+          name: string
+          quantity_needed: number
+          quantity_reserved: number
+          unit: string | null
+        }
+        Insert: {
+          created_at?: string
+          entry_id: string
+          grocery_item_id?: string | null
+          household_id: string
+          id?: string
+          name: string
+          quantity_needed: number
+          quantity_reserved?: number
+          unit?: string | null
+        }
+        Update: {
+          created_at?: string
+          entry_id?: string
+          grocery_item_id?: string | null
+          household_id?: string
+          id?: string
+          name?: string
+          quantity_needed?: number
+          quantity_reserved?: number
+          unit?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meal_plan_reservations_entry_id_fkey"
+            columns: ["entry_id"]
+            isOneToOne: false
+            referencedRelation: "meal_plan_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meal_plan_reservations_grocery_item_id_fkey"
+            columns: ["grocery_item_id"]
+            isOneToOne: false
+            referencedRelation: "grocery_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meal_plan_reservations_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          created_at: string
+          household_id: string | null
+          id: string
+          is_read: boolean | null
+          item_id: string | null
+          message: string | null
+          title: string
+          type: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          household_id?: string | null
+          id?: string
+          is_read?: boolean | null
+          item_id?: string | null
+          message?: string | null
+          title: string
+          type?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          household_id?: string | null
+          id?: string
+          is_read?: boolean | null
+          item_id?: string | null
+          message?: string | null
+          title?: string
+          type?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      phone_verifications: {
+        Row: {
+          attempts: number
+          code_hash: string
+          created_at: string
+          expires_at: string
+          id: string
+          phone_number: string
+          user_id: string
+          verified_at: string | null
+        }
+        Insert: {
+          attempts?: number
+          code_hash: string
+          created_at?: string
+          expires_at: string
+          id?: string
+          phone_number: string
+          user_id: string
+          verified_at?: string | null
+        }
+        Update: {
+          attempts?: number
+          code_hash?: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          phone_number?: string
+          user_id?: string
+          verified_at?: string | null
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          email: string | null
+          full_name: string | null
+          id: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      recipe_chat_messages: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          mode: string
+          recipes: Json
+          role: string
+          session_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          id?: string
+          mode?: string
+          recipes?: Json
+          role: string
+          session_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          mode?: string
+          recipes?: Json
+          role?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recipe_chat_messages_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "recipe_chat_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recipe_chat_sessions: {
+        Row: {
+          created_at: string
+          id: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      saved_recipes: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          household_id: string
+          id: string
+          markdown: string
+          notes: string | null
+          rating: number | null
+          recipe: Json | null
+          source_session_id: string | null
+          tags: string[]
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          household_id: string
+          id?: string
+          markdown?: string
+          notes?: string | null
+          rating?: number | null
+          recipe?: Json | null
+          source_session_id?: string | null
+          tags?: string[]
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          household_id?: string
+          id?: string
+          markdown?: string
+          notes?: string | null
+          rating?: number | null
+          recipe?: Json | null
+          source_session_id?: string | null
+          tags?: string[]
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_recipes_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "saved_recipes_source_session_id_fkey"
+            columns: ["source_session_id"]
+            isOneToOne: false
+            referencedRelation: "recipe_chat_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scale_adjustments: {
+        Row: {
+          barcode: string
+          created_at: string
+          grocery_item_id: string | null
+          gross_weight: number
+          household_id: string
+          id: string
+          inventory_movement_id: string | null
+          item_name: string
+          net_weight: number
+          quantity_after: number
+          quantity_before: number
+          quantity_type: string
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          tare_weight: number
+          weight_event_id: string | null
+        }
+        Insert: {
+          barcode: string
+          created_at?: string
+          grocery_item_id?: string | null
+          gross_weight: number
+          household_id: string
           id?: string
-          is_active?: boolean | null
-          last_seen?: string | null
-          updated_at?: string
-          user_id: string
+          inventory_movement_id?: string | null
+          item_name: string
+          net_weight: number
+          quantity_after: number
+          quantity_before: number
+          quantity_type: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          tare_weight: number
+          weight_event_id?: string | null
         }
         Update: {
-          api_key?: string | null
+          barcode?: string
           created_at?: string
-          device_id?: string
-          device_name?: string | null
-          device_token?: string | null
-          device_type?: string | null
+          grocery_item_id?: string | null
+          gross_weight?: number
+          household_id?: string
           id?: string
-          is_active?: boolean | null
-          last_seen?: string | null
-          updated_at?: string
-          user_id?: string
+          inventory_movement_id?: string | null
+          item_name?: string
+          net_weight?: number
+          quantity_after?: number
+          quantity_before?: number
+          quantity_type?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          tare_weight?: number
+          weight_event_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "scale_adjustments_grocery_item_id_fkey"
+            columns: ["grocery_item_id"]
+            isOneToOne: false
+            referencedRelation: "grocery_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scale_adjustments_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scale_adjustments_inventory_movement_id_fkey"
+            columns: ["inventory_movement_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_movements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scale_adjustments_weight_event_id_fkey"
+            columns: ["weight_event_id"]
+            isOneToOne: false
+            referencedRelation: "weight_events"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      grocery_items: {
+      shopping_list_items: {
         Row: {
-          amount: number | null
+          added_by: string | null
           barcode: string | null
-          category: string | null
           category_id: string | null
+          checked_at: string | null
+          checked_by: string | null
           created_at: string
-          expiry_date: string | null
+          grocery_item_id: string | null
+          household_id: string
           id: string
-          image_url: string | null
-          is_expired: boolean | null
           name: string
           notes: string | null
-          quantity: number | null
+          quantity: number
           quantity_type: string | null
-          unit: string | null
+          source: string
+          status: string
           updated_at: string
-          user_id: string
         }
         Insert: {
-          amount?: number | null
+          added_by?: string | null
           barcode?: string | null
-          category?: string | null
           category_id?: string | null
+          checked_at?: string | null
+          checked_by?: string | null
           created_at?: string
-          expiry_date?: string | null
+          grocery_item_id?: string | null
+          household_id: string
           id?: string
-          image_url?: string | null
-          is_expired?: boolean | null
           name: string
           notes?: string | null
-          quantity?: number | null
+          quantity?: number
           quantity_type?: string | null
-          unit?: string | null
+          source?: string
+          status?: string
           updated_at?: string
-          user_id: string
         }
         Update: {
-          amount?: number | null
+          added_by?: string | null
           barcode?: string | null
-          category?: string | null
           category_id?: string | null
+          checked_at?: string | null
+          checked_by?: string | null
           created_at?: string
-          expiry_date?: string | null
+          grocery_item_id?: string | null
+          household_id?: string
           id?: string
-          image_url?: string | null
-          is_expired?: boolean | null
           name?: string
           notes?: string | null
-          quantity?: number | null
+          quantity?: number
           quantity_type?: string | null
-          unit?: string | null
+          source?: string
+          status?: string
           updated_at?: string
-          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "grocery_items_category_id_fkey"
+            foreignKeyName: "shopping_list_items_category_id_fkey"
             columns: ["category_id"]
             isOneToOne: false
             referencedRelation: "categories"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "shopping_list_items_grocery_item_id_fkey"
+            columns: ["grocery_item_id"]
+            isOneToOne: false
+            referencedRelation: "grocery_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shopping_list_items_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      notifications: {
+      sms_deliveries: {
         Row: {
           created_at: string
+          error: string | null
           id: string
-          is_read: boolean | null
-          item_id: string | null
-          message: string | null
-          title: string
-          type: string | null
+          notification_id: string | null
+          phone_number: string
+          provider: string
+          provider_message_id: string | null
+          purpose: string
+          status: string
+          updated_at: string
           user_id: string
         }
         Insert: {
           created_at?: string
+          error?: string | null
           id?: string
-          is_read?: boolean | null
-          item_id?: string | null
-          message?: string | null
-          title: string
-          type?: string | null
+          notification_id?: string | null
+          phone_number: string
+          provider: string
+          provider_message_id?: string | null
+          purpose?: string
+          status?: string
+          updated_at?: string
           user_id: string
         }
         Update: {
           created_at?: string
+          error?: string | null
           id?: string
-          is_read?: boolean | null
-          item_id?: string | null
-          message?: string | null
-          title?: string
-          type?: string | null
+          notification_id?: string | null
+          phone_number?: string
+          provider?: string
+          provider_message_id?: string | null
+          purpose?: string
+          status?: string
+          updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "sms_deliveries_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: false
+            referencedRelation: "notifications"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      profiles: {
+      storage_location_moves: {
+        Row: {
+          from_location_id: string | null
+          grocery_item_id: string
+          household_id: string
+          id: string
+          moved_at: string
+          moved_by: string | null
+          new_expiry_date: string | null
+          previous_expiry_date: string | null
+          to_location_id: string | null
+        }
+        Insert: {
+          from_location_id?: string | null
+          grocery_item_id: string
+          household_id: string
+          id?: string
+          moved_at?: string
+          moved_by?: string | null
+          new_expiry_date?: string | null
+          previous_expiry_date?: string | null
+          to_location_id?: string | null
+        }
+        Update: {
+          from_location_id?: string | null
+          grocery_item_id?: string
+          household_id?: string
+          id?: string
+          moved_at?: string
+          moved_by?: string | null
+          new_expiry_date?: string | null
+          previous_expiry_date?: string | null
+          to_location_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "storage_location_moves_from_location_id_fkey"
+            columns: ["from_location_id"]
+            isOneToOne: false
+            referencedRelation: "storage_locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "storage_location_moves_grocery_item_id_fkey"
+            columns: ["grocery_item_id"]
+            isOneToOne: false
+            referencedRelation: "grocery_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "storage_location_moves_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "storage_location_moves_to_location_id_fkey"
+            columns: ["to_location_id"]
+            isOneToOne: false
+            referencedRelation: "storage_locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      storage_locations: {
         Row: {
-          avatar_url: string | null
           created_at: string
-          email: string | null
-          full_name: string | null
+          expiry_offset_days: number
+          household_id: string
           id: string
+          location_type: string
+          name: string
+          sort_order: number
           updated_at: string
-          user_id: string | null
         }
         Insert: {
-          avatar_url?: string | null
           created_at?: string
-          email?: string | null
-          full_name?: string | null
+          expiry_offset_days?: number
+          household_id: string
           id?: string
+          location_type?: string
+          name: string
+          sort_order?: number
           updated_at?: string
-          user_id?: string | null
         }
         Update: {
-          avatar_url?: string | null
           created_at?: string
-          email?: string | null
-          full_name?: string | null
+          expiry_offset_days?: number
+          household_id?: string
           id?: string
+          location_type?: string
+          name?: string
+          sort_order?: number
           updated_at?: string
-          user_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "storage_locations_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       user_expiry_dates: {
         Row: {
@@ -294,6 +1479,7 @@ export type Database = {
           id: string
           phone_notifications: boolean | null
           phone_number: string | null
+          phone_verified_at: string | null
           updated_at: string
           user_id: string
         }
@@ -304,6 +1490,7 @@ export type Database = {
           id?: string
           phone_notifications?: boolean | null
           phone_number?: string | null
+          phone_verified_at?: string | null
           updated_at?: string
           user_id: string
         }
@@ -314,6 +1501,7 @@ export type Database = {
           id?: string
           phone_notifications?: boolean | null
           phone_number?: string | null
+          phone_verified_at?: string | null
           updated_at?: string
           user_id?: string
         }
@@ -322,6 +1510,7 @@ export type Database = {
       waste_items: {
         Row: {
           created_at: string
+          household_id: string | null
           id: string
           item_name: string
           quantity: number | null
@@ -331,6 +1520,7 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          household_id?: string | null
           id?: string
           item_name: string
           quantity?: number | null
@@ -340,6 +1530,7 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          household_id?: string | null
           id?: string
           item_name?: string
           quantity?: number | null
@@ -347,14 +1538,74 @@ export type Database = {
           user_id?: string
           wasted_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "waste_items_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      weight_events: {
+        Row: {
+          barcode: string
+          created_at: string
+          device_id: string
+          event_type: string
+          household_id: string | null
+          id: string
+          occurred_at: string
+          unit: string
+          weight_after: number
+          weight_before: number
+          weight_delta: number
+        }
+        Insert: {
+          barcode: string
+          created_at?: string
+          device_id: string
+          event_type: string
+          household_id?: string | null
+          id?: string
+          occurred_at: string
+          unit?: string
+          weight_after: number
+          weight_before: number
+          weight_delta: number
+        }
+        Update: {
+          barcode?: string
+          created_at?: string
+          device_id?: string
+          event_type?: string
+          household_id?: string | null
+          id?: string
+          occurred_at?: string
+          unit?: string
+          weight_after?: number
+          weight_before?: number
+          weight_delta?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "weight_events_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       weight_readings: {
         Row: {
           barcode: string | null
           device_id: string | null
           id: string
+          received_at: string
           recorded_at: string
+          sequence_number: number | null
           unit: string | null
           weight: number
         }
@@ -362,7 +1613,9 @@ export type Database = {
           barcode?: string | null
           device_id?: string | null
           id?: string
+          received_at?: string
           recorded_at?: string
+          sequence_number?: number | null
           unit?: string | null
           weight: number
         }
@@ -370,18 +1623,277 @@ export type Database = {
           barcode?: string | null
           device_id?: string | null
           id?: string
+          received_at?: string
           recorded_at?: string
+          sequence_number?: number | null
           unit?: string | null
           weight?: number
         }
         Relationships: []
       }
+      weight_signal_state: {
+        Row: {
+          barcode: string
+          candidate_count: number
+          candidate_weight: number | null
+          device_id: string
+          household_id: string | null
+          last_recorded_at: string
+          recent_weights: number[]
+          removed_weight: number | null
+          smoothed_weight: number
+          stable_since: string | null
+          stable_weight: number | null
+          updated_at: string
+        }
+        Insert: {
+          barcode: string
+          candidate_count?: number
+          candidate_weight?: number | null
+          device_id: string
+          household_id?: string | null
+          last_recorded_at: string
+          recent_weights?: number[]
+          removed_weight?: number | null
+          smoothed_weight: number
+          stable_since?: string | null
+          stable_weight?: number | null
+          updated_at?: string
+        }
+        Update: {
+          barcode?: string
+          candidate_count?: number
+          candidate_weight?: number | null
+          device_id?: string
+          household_id?: string | null
+          last_recorded_at?: string
+          recent_weights?: number[]
+          removed_weight?: number | null
+          smoothed_weight?: number
+          stable_since?: string | null
+          stable_weight?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "weight_signal_state_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_household_invitation: {
+        Args: {
+          _invitation_id: string
+        }
+        Returns: string
+      }
+      add_scanned_items: {
+        Args: {
+          _items: Json
+        }
+        Returns: {
+          new_items: number
+          restocked_items: number
+        }[]
+      }
+      approve_scale_adjustment: {
+        Args: {
+          _adjustment_id: string
+        }
+        Returns: undefined
+      }
+      cook_recipe: {
+        Args: {
+          _ingredients: Json
+          _recipe_title: string
+        }
+        Returns: number
+      }
+      current_household_id: {
+        Args: {
+          _user_id?: string
+        }
+        Returns: string
+      }
+      decline_household_invitation: {
+        Args: {
+          _invitation_id: string
+        }
+        Returns: undefined
+      }
+      get_inventory_trends: {
+        Args: {
+          _end_date?: string
+          _granularity?: string
+          _start_date?: string
+        }
+        Returns: {
+          items_purchased: number
+          items_used: number
+          items_wasted: number
+          period_start: string
+          value_purchased: number
+          value_used: number
+          value_wasted: number
+        }[]
+      }
+      get_pantry_summary: {
+        Args: never
+        Returns: Json
+      }
+      get_run_out_forecasts: {
+        Args: never
+        Returns: {
+          daily_rate: number
+          days_until_run_out: number
+          grocery_item_id: string
+          predicted_run_out_date: string
+          rate_unit: string
+          sample_count: number
+          source: string
+        }[]
+      }
+      get_stock_levels: {
+        Args: never
+        Returns: {
+          grocery_item_id: string
+          is_low: boolean
+          min_quantity: number
+          quantity: number
+          reorder_quantity: number
+          target_quantity: number
+        }[]
+      }
+      is_catalog_moderator: {
+        Args: never
+        Returns: boolean
+      }
+      is_household_member: {
+        Args: {
+          _household_id: string
+        }
+        Returns: boolean
+      }
+      is_household_owner: {
+        Args: {
+          _household_id: string
+        }
+        Returns: boolean
+      }
+      leave_household: {
+        Args: never
+        Returns: string
+      }
+      move_grocery_item: {
+        Args: {
+          _item_id: string
+          _location_id: string
+        }
+        Returns: string
+      }
+      reconcile_meal_plan: {
+        Args: never
+        Returns: number
+      }
+      record_inventory_movement: {
+        Args: {
+          _expiry_date?: string
+          _item_id: string
+          _movement_type: string
+          _quantity_delta: number
+          _reason?: string
+          _unit_price?: number
+        }
+        Returns: string
+      }
+      refresh_shopping_list: {
+        Args: never
+        Returns: number
+      }
+      register_device: {
+        Args: {
+          _device_name: string
+        }
+        Returns: {
+          device_id: string
+          device_token: string
+          id: string
+        }[]
+      }
+      reject_scale_adjustment: {
+        Args: {
+          _adjustment_id: string
+        }
+        Returns: undefined
+      }
+      remove_household_member: {
+        Args: {
+          _member_user_id: string
+        }
+        Returns: undefined
+      }
+      review_barcode_suggestion: {
+        Args: {
+          _accept: boolean
+          _suggestion_id: string
+        }
+        Returns: string
+      }
+      revoke_device_token: {
+        Args: {
+          _device_registry_id: string
+        }
+        Returns: undefined
+      }
+      rotate_device_token: {
+        Args: {
+          _device_registry_id: string
+        }
+        Returns: string
+      }
+      suggest_barcode_correction: {
+        Args: {
+          _barcode_product_id: string
+          _changes: Json
+          _comment?: string
+        }
+        Returns: string
+      }
+      undo_inventory_movement: {
+        Args: {
+          _movement_id: string
+        }
+        Returns: string
+      }
+      update_grocery_item: {
+        Args: {
+          _changes: Json
+          _item_id: string
+          _quantity: number
+        }
+        Returns: undefined
+      }
+      vote_on_barcode_suggestion: {
+        Args: {
+          _suggestion_id: string
+          _vote: number
+        }
+        Returns: string
+      }
+      withdraw_barcode_suggestion: {
+        Args: {
+          _suggestion_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -1,6 +1,7 @@
 
 import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
+import { useHousehold } from "@/hooks/useHousehold";
 import { useNotificationSystem } from "@/hooks/useNotificationSystem";
 import { AuthForm } from "@/components/AuthForm";
 import { CollapsibleSidebar } from "@/components/CollapsibleSidebar";
@@ -11,10 +12,12 @@ import { NotificationsView } from "@/components/NotificationsView";
 import { SettingsView } from "@/components/SettingsView";
 import { WeightMonitor } from "@/components/WeightMonitor";
 import { RecipeSuggestions } from "@/components/RecipeSuggestions";
+import { MealPlannerView } from "@/components/MealPlannerView";
 import { NutritionalInfo } from "@/components/NutritionalInfo";
 import { WasteTracking } from "@/components/WasteTracking";
 import { Gamification } from "@/components/Gamification";
 import { OnlineShoppingView } from "@/components/OnlineShoppingView";
+import { ShoppingListView } from "@/components/ShoppingListView";
 import { supabase } from "@/integrations/supabase/client";
 import weightSensingFeature from "@/assets/weight-sensing-feature.jpg";
 import barcodeTrackingFeature from "@/assets/barcode-tracking-feature.jpg";
@@ -23,6 +26,7 @@ import notificationsFeature from "@/assets/notifications-feature.jpg";
 
 function Index() {
   const { user, loading } = useAuth();
+  const { household, loading: householdLoading } = useHousehold();
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [currentView, setCurrentView] = useState("dashboard");
   const [products, setProducts] = useState([]);
@@ -31,7 +35,7 @@ function Index() {
   useNotificationSystem();
 
   useEffect(() => {
-    if (!user) return;
+    if (!user || !household) return;
 
     const fetchProducts = async () => {
       const { data, error } = await supabase
@@ -40,7 +44,7 @@ function Index() {
           *,
           categories (name)
         `)
-        .eq('user_id', user.id);
+        .eq('household_id', household.id);
 
       if (error) {
         console.error('Error fetching products:', error);
@@ -71,7 +75,7 @@ function Index() {
           event: '*',
           schema: 'public',
           table: 'grocery_items',
-          filter: `user_id=eq.${user.id}`,
+          filter: `household_id=eq.${household.id}`,
         },
         () => {
           fetchProducts();
@@ -82,9 +86,9 @@ function Index() {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [user]);
+  }, [user, household]);
 
-  if (loading) {
+  if (loading || (user && householdLoading)) {
     return (
       <div className="min-h-screen pantry-bg flex items-center justify-center">
         <div className="text-lg font-medium">Loading your smart pantry...</div>
@@ -171,12 +175,16 @@ function Index() {
         return <AnalyticsView />;
       case "recipes":
         return <RecipeSuggestions />;
+      case "meal-planner":
+        return <MealPlannerView />;
       case "nutrition":
         return <NutritionalInfo />;
       case "waste":
         return <WasteTracking />;
       case "gamification":
         return <Gamification />;
+      case "shopping-list":
+        return <ShoppingListView />;
       case 'online-shopping':
         return <OnlineShoppingView />;
       case "notifications":
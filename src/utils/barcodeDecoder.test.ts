@@ -0,0 +1,73 @@
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { PNG } from 'pngjs';
+import { describe, expect, it } from 'vitest';
+import { decodePixels, expandUpcE, isValidBarcode, type DecodedBarcode } from './barcodeDecoder';
+
+const loadFixture = (name: string) => {
+  const png = PNG.sync.read(readFileSync(fileURLToPath(new URL(`./__fixtures__/barcodes/${name}`, import.meta.url))));
+  return { data: new Uint8ClampedArray(png.data), width: png.width, height: png.height };
+};
+
+// Each still image and what decodePixels should read from it
+const FIXTURES: [string, DecodedBarcode | null][] = [
+  ['ean-13.png', { rawValue: '4006381333931', format: 'ean_13' }],
+  ['ean-8.png', { rawValue: '96385074', format: 'ean_8' }],
+  ['upc-a.png', { rawValue: '036000291452', format: 'upc_a' }],
+  ['upc-e.png', { rawValue: '01234565', format: 'upc_e' }],
+  ['code-128.png', { rawValue: 'SMART-GROCER-42', format: 'code_128' }],
+  ['qr-code.png', { rawValue: 'https://id.gs1.org/01/04006381333931/10/LOT42', format: 'qr_code' }],
+  ['ean-13-bad-check-digit.png', null],
+  ['blank.png', null],
+];
+
+describe('decodePixels', () => {
+  it.each(FIXTURES)('decodes %s', (name, expected) => {
+    expect(decodePixels(loadFixture(name))).toEqual(expected);
+  });
+
+  it('only reads the given region', () => {
+    expect(decodePixels(loadFixture('ean-13.png'), { x: 0, y: 0, width: 1, height: 0.1 })).toBeNull();
+  });
+});
+
+describe('expandUpcE', () => {
+  it.each([
+    ['01234565', '012345000065'],
+    ['01234505', '012000003455'],
+    ['01234535', '012300000455'],
+    ['01234545', '012340000055'],
+    ['11234565', '112345000065'],
+  ])('expands %s to %s', (upcE, upcA) => {
+    expect(expandUpcE(upcE)).toBe(upcA);
+  });
+
+  it.each(['21234565', '0123456', '012345655', '0123456a'])('rejects %s', value => {
+    expect(expandUpcE(value)).toBeNull();
+  });
+});
+
+describe('isValidBarcode', () => {
+  it('checks retail check digits', () => {
+    expect(isValidBarcode('4006381333931', 'ean_13')).toBe(true);
+    expect(isValidBarcode('4006381333932', 'ean_13')).toBe(false);
+    expect(isValidBarcode('96385074', 'ean_8')).toBe(true);
+    expect(isValidBarcode('96385075', 'ean_8')).toBe(false);
+    expect(isValidBarcode('036000291452', 'upc_a')).toBe(true);
+    expect(isValidBarcode('036000291453', 'upc_a')).toBe(false);
+    expect(isValidBarcode('01234565', 'upc_e')).toBe(true);
+    expect(isValidBarcode('01234564', 'upc_e')).toBe(false);
+  });
+
+  it('checks the length for the format', () => {
+    expect(isValidBarcode('036000291452', 'ean_13')).toBe(false);
+    expect(isValidBarcode('4006381333931', 'upc_a')).toBe(false);
+    expect(isValidBarcode('96385074', 'upc_e')).toBe(false);
+  });
+
+  it('accepts any non-empty value for formats with their own error checking', () => {
+    expect(isValidBarcode('SMART-GROCER-42', 'code_128')).toBe(true);
+    expect(isValidBarcode('https://example.com', 'qr_code')).toBe(true);
+    expect(isValidBarcode('', 'data_matrix')).toBe(false);
+  });
+});
@@ -0,0 +1,335 @@
+import {
+  BarcodeFormat as ZXingBarcodeFormat,
+  BinaryBitmap,
+  BitArray,
+  DecodeHintType,
+  EAN13Reader,
+  HybridBinarizer,
+  MultiFormatReader,
+  NotFoundException,
+  OneDReader,
+  Result,
+  ResultPoint,
+  RGBLuminanceSource,
+} from '@zxing/library';
+import { isValidGtinChecksum } from '../../supabase/functions/_shared/gs1.ts';
+
+// GS1 parsing is shared with the scale's edge function
+export { isValidGtinChecksum };
+export { gtinToRetailBarcode, parseGs1 } from '../../supabase/functions/_shared/gs1.ts';
+export type { Gs1ElementString } from '../../supabase/functions/_shared/gs1.ts';
+
+// Barcode decoding for camera frames and still images. Frames are decoded
+// with the browser's BarcodeDetector where it supports every format below,
+// otherwise with ZXing. Only the scan region of a frame is decoded, and
+// retail codes are only returned when their check digit is valid.
+
+// Named as the BarcodeDetector API names them
+export type BarcodeFormat = 'ean_13' | 'ean_8' | 'upc_a' | 'upc_e' | 'code_128' | 'qr_code' | 'data_matrix';
+
+// Code 128, QR and Data Matrix cover the GS1 variants that carry expiry
+// dates and lot numbers
+export const SUPPORTED_FORMATS: BarcodeFormat[] = ['ean_13', 'ean_8', 'upc_a', 'upc_e', 'code_128', 'qr_code', 'data_matrix'];
+
+export interface DecodedBarcode {
+  rawValue: string;
+  format: BarcodeFormat;
+}
+
+// Part of a frame to decode, as fractions of its width and height
+export interface ScanRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const SCAN_REGION: ScanRegion = { x: 0.1, y: 0.25, width: 0.8, height: 0.5 };
+
+// Pixels as in ImageData, so still images can be decoded without a DOM
+export interface PixelData {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export type FrameSource = HTMLVideoElement | HTMLImageElement | HTMLCanvasElement;
+
+export interface BarcodeDecoder {
+  engine: 'native' | 'zxing';
+  decode: (source: FrameSource, region?: ScanRegion) => Promise<DecodedBarcode | null>;
+}
+
+// The UPC-A code an 8-digit UPC-E code is a zero-suppressed form of, or
+// null when it is not a valid UPC-E code
+export function expandUpcE(value: string): string | null {
+  if (!/^[01]\d{7}$/.test(value)) return null;
+
+  const numberSystem = value[0];
+  const [d1, d2, d3, d4, d5, d6] = value.slice(1, 7);
+  const checkDigit = value[7];
+
+  let body: string;
+  switch (d6) {
+    case '0':
+    case '1':
+    case '2':
+      body = `${d1}${d2}${d6}0000${d3}${d4}${d5}`;
+      break;
+    case '3':
+      body = `${d1}${d2}${d3}00000${d4}${d5}`;
+      break;
+    case '4':
+      body = `${d1}${d2}${d3}${d4}00000${d5}`;
+      break;
+    default:
+      body = `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+  }
+
+  return `${numberSystem}${body}${checkDigit}`;
+}
+
+export function isValidBarcode(value: string, format: BarcodeFormat): boolean {
+  switch (format) {
+    case 'ean_13':
+      return /^\d{13}$/.test(value) && isValidGtinChecksum(value);
+    case 'ean_8':
+      return /^\d{8}$/.test(value) && isValidGtinChecksum(value);
+    case 'upc_a':
+      return /^\d{12}$/.test(value) && isValidGtinChecksum(value);
+    case 'upc_e': {
+      const expanded = expandUpcE(value);
+      return expanded !== null && isValidGtinChecksum(expanded);
+    }
+    // Code 128 carries its own checksum, checked by the decoder, and QR and
+    // Data Matrix codes are error-corrected
+    default:
+      return value.length > 0;
+  }
+}
+
+const FROM_ZXING_FORMAT: Partial<Record<ZXingBarcodeFormat, BarcodeFormat>> = {
+  [ZXingBarcodeFormat.EAN_13]: 'ean_13',
+  [ZXingBarcodeFormat.EAN_8]: 'ean_8',
+  [ZXingBarcodeFormat.UPC_A]: 'upc_a',
+  [ZXingBarcodeFormat.UPC_E]: 'upc_e',
+  [ZXingBarcodeFormat.CODE_128]: 'code_128',
+  [ZXingBarcodeFormat.QR_CODE]: 'qr_code',
+  [ZXingBarcodeFormat.DATA_MATRIX]: 'data_matrix',
+};
+
+// UPC-E end guard and the digit patterns that encode its number system and
+// check digit: bit 5 - i is set when digit i uses its G pattern
+const UPC_E_END_PATTERN = Int32Array.from([1, 1, 1, 1, 1, 1]);
+const UPC_E_PARITY_PATTERNS = [
+  [0x38, 0x34, 0x32, 0x31, 0x2c, 0x26, 0x23, 0x2a, 0x29, 0x25],
+  [0x07, 0x0b, 0x0d, 0x0e, 0x13, 0x19, 0x1c, 0x15, 0x16, 0x1a],
+];
+
+// ZXing's own UPC-E reader never returns a result: its shared UPC/EAN row
+// decoding looks for the EAN end guard and drops the number system and check
+// digit. This reads UPC-E rows with ZXing's UPC/EAN helpers instead.
+class UpcEReader extends OneDReader {
+  private static readonly L_AND_G_PATTERNS = [
+    ...EAN13Reader.L_PATTERNS,
+    ...EAN13Reader.L_PATTERNS.map(pattern => Int32Array.from(pattern).reverse()),
+  ];
+
+  decodeRow(rowNumber: number, row: BitArray): Result {
+    const startRange = EAN13Reader.findStartGuardPattern(row);
+    const counters = new Int32Array(4);
+    let offset = startRange[1];
+    let digits = '';
+    let parity = 0;
+
+    for (let i = 0; i < 6; i++) {
+      const match = EAN13Reader.decodeDigit(row, counters, offset, UpcEReader.L_AND_G_PATTERNS);
+      digits += match % 10;
+      offset += counters.reduce((sum, width) => sum + width, 0);
+      if (match >= 10) parity |= 1 << (5 - i);
+    }
+
+    const endRange = EAN13Reader.findGuardPattern(row, offset, true, UPC_E_END_PATTERN, new Int32Array(UPC_E_END_PATTERN.length));
+    const quietEnd = endRange[1] + (endRange[1] - endRange[0]);
+    if (quietEnd >= row.getSize() || !row.isRange(endRange[1], quietEnd, false)) {
+      throw new NotFoundException();
+    }
+
+    for (let numberSystem = 0; numberSystem < UPC_E_PARITY_PATTERNS.length; numberSystem++) {
+      const checkDigit = UPC_E_PARITY_PATTERNS[numberSystem].indexOf(parity);
+      if (checkDigit !== -1) {
+        const points = [
+          new ResultPoint((startRange[0] + startRange[1]) / 2, rowNumber),
+          new ResultPoint((endRange[0] + endRange[1]) / 2, rowNumber),
+        ];
+        return new Result(`${numberSystem}${digits}${checkDigit}`, null, 0, points, ZXingBarcodeFormat.UPC_E, Date.now());
+      }
+    }
+
+    throw new NotFoundException();
+  }
+}
+
+const ZXING_HINTS = new Map<DecodeHintType, unknown>([
+  [DecodeHintType.POSSIBLE_FORMATS, Object.keys(FROM_ZXING_FORMAT).map(Number).filter(format => format !== ZXingBarcodeFormat.UPC_E)],
+  [DecodeHintType.TRY_HARDER, true],
+]);
+
+let zxingReader: MultiFormatReader | null = null;
+let upcEReader: UpcEReader | null = null;
+
+function getZXingReader(): MultiFormatReader {
+  if (!zxingReader) {
+    zxingReader = new MultiFormatReader();
+    zxingReader.setHints(ZXING_HINTS);
+  }
+  return zxingReader;
+}
+
+function getUpcEReader(): UpcEReader {
+  if (!upcEReader) {
+    upcEReader = new UpcEReader();
+  }
+  return upcEReader;
+}
+
+// ZXing throws when no barcode is found, or one is found but cannot be read
+function tryDecode(decode: () => Result): Result | null {
+  try {
+    return decode();
+  } catch {
+    return null;
+  }
+}
+
+const toPixelRect = (width: number, height: number, region: ScanRegion) => ({
+  left: Math.round(width * region.x),
+  top: Math.round(height * region.y),
+  width: Math.max(1, Math.round(width * region.width)),
+  height: Math.max(1, Math.round(height * region.height)),
+});
+
+const FULL_FRAME: ScanRegion = { x: 0, y: 0, width: 1, height: 1 };
+
+// Decodes a barcode from raw pixels with ZXing. Returns null when nothing
+// readable, or nothing with a valid check digit, is in the region.
+export function decodePixels(image: PixelData, region: ScanRegion = FULL_FRAME): DecodedBarcode | null {
+  const rect = toPixelRect(image.width, image.height, region);
+  const luminances = new Uint8ClampedArray(rect.width * rect.height);
+
+  for (let y = 0; y < rect.height; y++) {
+    for (let x = 0; x < rect.width; x++) {
+      const offset = ((rect.top + y) * image.width + rect.left + x) * 4;
+      const r = image.data[offset];
+      const g = image.data[offset + 1];
+      const b = image.data[offset + 2];
+      luminances[y * rect.width + x] = (r + 2 * g + b) >> 2;
+    }
+  }
+
+  const bitmap = new BinaryBitmap(new HybridBinarizer(new RGBLuminanceSource(luminances, rect.width, rect.height)));
+
+  const result =
+    tryDecode(() => getZXingReader().decodeWithState(bitmap)) ??
+    tryDecode(() => getUpcEReader().decode(bitmap, ZXING_HINTS));
+  getZXingReader().reset();
+  if (!result) return null;
+
+  const format = FROM_ZXING_FORMAT[result.getBarcodeFormat()];
+  const rawValue = result.getText();
+
+  return format && isValidBarcode(rawValue, format) ? { rawValue, format } : null;
+}
+
+// Minimal typing for the Shape Detection API, which TypeScript's DOM types
+// do not include yet
+interface NativeBarcodeDetector {
+  detect: (source: CanvasImageSource) => Promise<{ rawValue: string; format: string }[]>;
+}
+
+interface NativeBarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): NativeBarcodeDetector;
+  getSupportedFormats: () => Promise<string[]>;
+}
+
+const getNativeDetector = () =>
+  (window as unknown as { BarcodeDetector?: NativeBarcodeDetectorConstructor }).BarcodeDetector;
+
+function getSourceSize(source: FrameSource) {
+  if (source instanceof HTMLVideoElement) return { width: source.videoWidth, height: source.videoHeight };
+  if (source instanceof HTMLImageElement) return { width: source.naturalWidth, height: source.naturalHeight };
+  return { width: source.width, height: source.height };
+}
+
+// Copies the scan region of a frame onto a canvas reused between frames
+function createRegionCanvas() {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+
+  return (source: FrameSource, region: ScanRegion) => {
+    const size = getSourceSize(source);
+    if (!context || size.width === 0 || size.height === 0) return null;
+
+    const rect = toPixelRect(size.width, size.height, region);
+    canvas.width = rect.width;
+    canvas.height = rect.height;
+    context.drawImage(source, rect.left, rect.top, rect.width, rect.height, 0, 0, rect.width, rect.height);
+
+    return { canvas, context };
+  };
+}
+
+async function createNativeDecoder(): Promise<BarcodeDecoder | null> {
+  const Detector = getNativeDetector();
+  if (!Detector) return null;
+
+  try {
+    const supported = await Detector.getSupportedFormats();
+    if (!SUPPORTED_FORMATS.every(format => supported.includes(format))) return null;
+
+    const detector = new Detector({ formats: SUPPORTED_FORMATS });
+    const drawRegion = createRegionCanvas();
+
+    return {
+      engine: 'native',
+      decode: async (source, region = SCAN_REGION) => {
+        const frame = drawRegion(source, region);
+        if (!frame) return null;
+
+        const barcodes = await detector.detect(frame.canvas);
+        const match = barcodes.find(barcode =>
+          SUPPORTED_FORMATS.includes(barcode.format as BarcodeFormat) &&
+          isValidBarcode(barcode.rawValue, barcode.format as BarcodeFormat)
+        );
+
+        return match ? { rawValue: match.rawValue, format: match.format as BarcodeFormat } : null;
+      },
+    };
+  } catch (err) {
+    console.error('BarcodeDetector unavailable, using ZXing:', err);
+    return null;
+  }
+}
+
+function createZXingDecoder(): BarcodeDecoder {
+  const drawRegion = createRegionCanvas();
+
+  return {
+    engine: 'zxing',
+    decode: async (source, region = SCAN_REGION) => {
+      const frame = drawRegion(source, region);
+      if (!frame) return null;
+
+      return decodePixels(frame.context.getImageData(0, 0, frame.canvas.width, frame.canvas.height));
+    },
+  };
+}
+
+let decoderPromise: Promise<BarcodeDecoder> | null = null;
+
+export function getBarcodeDecoder(): Promise<BarcodeDecoder> {
+  if (!decoderPromise) {
+    decoderPromise = createNativeDecoder().then(decoder => decoder ?? createZXingDecoder());
+  }
+  return decoderPromise;
+}
@@ -51,6 +51,16 @@ export const validateProductData = (data: any): { isValid: boolean; errors: stri
     }
   }
 
+  // Validate stock levels
+  const minQuantity = data.min_quantity === null || data.min_quantity === undefined || data.min_quantity === '' ? null : Number(data.min_quantity);
+  const targetQuantity = data.target_quantity === null || data.target_quantity === undefined || data.target_quantity === '' ? null : Number(data.target_quantity);
+  if ((minQuantity !== null && (isNaN(minQuantity) || minQuantity < 0 || minQuantity > 9999)) ||
+      (targetQuantity !== null && (isNaN(targetQuantity) || targetQuantity < 0 || targetQuantity > 9999))) {
+    errors.push('Stock levels must be numbers between 0 and 9999');
+  } else if (minQuantity !== null && targetQuantity !== null && targetQuantity < minQuantity) {
+    errors.push('Target stock cannot be lower than the minimum');
+  }
+
   // Validate expiry date
   if (data.expiry_date) {
     const expiryDate = new Date(data.expiry_date);
@@ -0,0 +1,204 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.50.0";
+
+// Device authentication shared by esp32-device-auth and
+// esp32-weight-receiver. A device proves itself once with its long-lived
+// token, which is stored as the hex SHA-256 of the token (see
+// issue_device_token), and gets a short-lived session token signed with
+// DEVICE_SESSION_SECRET. Readings carry only the session token, which is
+// checked from its signature and expiry without a database lookup.
+
+export interface AuthenticatedDevice {
+  id: string;
+  device_id: string;
+  device_name: string | null;
+  user_id: string;
+  household_id: string | null;
+}
+
+export interface DeviceSessionClaims {
+  typ: 'device_session';
+  sub: string;
+  device_id: string;
+  user_id: string;
+  household_id: string | null;
+  iat: number;
+  exp: number;
+}
+
+// Why a device was turned away, so firmware knows whether to refresh its
+// session or authenticate again with its device token
+export type DeviceAuthFailure =
+  | 'invalid_credentials'
+  | 'missing_session'
+  | 'invalid_session'
+  | 'session_expired'
+  | 'session_revoked';
+
+export type DeviceSessionResult =
+  | { claims: DeviceSessionClaims; expired: boolean }
+  | { failure: DeviceAuthFailure };
+
+export const DEVICE_SESSION_TTL_SECONDS = 15 * 60;
+
+// How long after expiry a session can still be exchanged for a new one
+export const DEVICE_SESSION_REFRESH_WINDOW_SECONDS = 24 * 60 * 60;
+
+const DEVICE_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const textEncoder = new TextEncoder();
+
+type RegisteredDevice = AuthenticatedDevice & { is_active: boolean | null };
+
+async function markSeen(supabase: SupabaseClient, device: RegisteredDevice): Promise<AuthenticatedDevice> {
+  await supabase
+    .from('device_registry')
+    .update({ last_seen: new Date().toISOString() })
+    .eq('id', device.id);
+
+  return {
+    id: device.id,
+    device_id: device.device_id,
+    device_name: device.device_name,
+    user_id: device.user_id,
+    household_id: device.household_id,
+  };
+}
+
+export async function hashDeviceToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', textEncoder.encode(token));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// The active device the token was issued to, or null when the pair does not
+// match, the token was revoked or the device is deactivated. Marks the
+// device as seen on success.
+export async function authenticateDevice(
+  supabase: SupabaseClient,
+  deviceId: unknown,
+  deviceToken: unknown,
+): Promise<AuthenticatedDevice | null> {
+  if (typeof deviceId !== 'string' || !DEVICE_ID_PATTERN.test(deviceId)) return null;
+  if (typeof deviceToken !== 'string' || deviceToken.length === 0 || deviceToken.length > 200) return null;
+
+  const { data, error } = await supabase
+    .from('device_credentials')
+    .select('device_registry(id, device_id, device_name, user_id, household_id, is_active)')
+    .eq('token_hash', await hashDeviceToken(deviceToken))
+    .maybeSingle();
+
+  if (error) {
+    console.error('Device lookup failed:', error);
+    return null;
+  }
+
+  const device = data?.device_registry as RegisteredDevice | null | undefined;
+  if (!device || device.device_id !== deviceId || device.is_active === false) return null;
+
+  return markSeen(supabase, device);
+}
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+
+let sessionKey: Promise<CryptoKey> | null = null;
+
+function getSessionKey(): Promise<CryptoKey> {
+  if (!sessionKey) {
+    const secret = Deno.env.get('DEVICE_SESSION_SECRET');
+    if (!secret) throw new Error('DEVICE_SESSION_SECRET is not configured');
+
+    sessionKey = crypto.subtle.importKey(
+      'raw',
+      textEncoder.encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign', 'verify'],
+    );
+  }
+  return sessionKey;
+}
+
+// A signed HS256 JWT naming the device and its owner, valid for
+// DEVICE_SESSION_TTL_SECONDS
+export async function signDeviceSession(device: AuthenticatedDevice): Promise<{ token: string; claims: DeviceSessionClaims }> {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const claims: DeviceSessionClaims = {
+    typ: 'device_session',
+    sub: device.id,
+    device_id: device.device_id,
+    user_id: device.user_id,
+    household_id: device.household_id,
+    iat: issuedAt,
+    exp: issuedAt + DEVICE_SESSION_TTL_SECONDS,
+  };
+
+  const header = toBase64Url(textEncoder.encode(JSON.stringify({ alg: 'HS256', typ: 'JWT' })));
+  const payload = toBase64Url(textEncoder.encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign('HMAC', await getSessionKey(), textEncoder.encode(`${header}.${payload}`));
+
+  return { token: `${header}.${payload}.${toBase64Url(new Uint8Array(signature))}`, claims };
+}
+
+// Checks a session token's signature and expiry. An expired session is
+// returned with expired set while it is still within the refresh window, so
+// esp32-device-auth can exchange it; callers accepting readings must reject
+// it.
+export async function verifyDeviceSession(token: string | null | undefined): Promise<DeviceSessionResult> {
+  if (!token) return { failure: 'missing_session' };
+
+  const parts = token.split('.');
+  if (parts.length !== 3) return { failure: 'invalid_session' };
+
+  const key = await getSessionKey();
+
+  let claims: DeviceSessionClaims;
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      fromBase64Url(parts[2]),
+      textEncoder.encode(`${parts[0]}.${parts[1]}`),
+    );
+    if (!valid) return { failure: 'invalid_session' };
+
+    claims = JSON.parse(new TextDecoder().decode(fromBase64Url(parts[1])));
+  } catch {
+    return { failure: 'invalid_session' };
+  }
+
+  if (claims.typ !== 'device_session' || typeof claims.exp !== 'number' || !claims.sub || !claims.device_id) {
+    return { failure: 'invalid_session' };
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (now >= claims.exp + DEVICE_SESSION_REFRESH_WINDOW_SECONDS) return { failure: 'session_expired' };
+
+  return { claims, expired: now >= claims.exp };
+}
+
+// The device behind a session being refreshed, or null when it has since
+// been deactivated, had its token revoked, or had its token rotated after
+// the session was issued
+export async function refreshDevice(
+  supabase: SupabaseClient,
+  claims: DeviceSessionClaims,
+): Promise<AuthenticatedDevice | null> {
+  const { data, error } = await supabase
+    .from('device_credentials')
+    .select('created_at, device_registry(id, device_id, device_name, user_id, household_id, is_active)')
+    .eq('device_registry_id', claims.sub)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Device lookup failed:', error);
+    return null;
+  }
+
+  const device = data?.device_registry as RegisteredDevice | null | undefined;
+  if (!data || !device || device.is_active === false) return null;
+  if (Math.floor(new Date(data.created_at).getTime() / 1000) > claims.iat) return null;
+
+  return markSeen(supabase, device);
+}
@@ -0,0 +1,206 @@
+// GS1 element strings, as carried by GS1-128, GS1 DataMatrix and GS1 QR
+// codes: a run of application identifiers (AIs) each followed by its data,
+// e.g. (01)09501101530003(17)261231(10)AB12. Shared by the web scanner and
+// esp32-weight-receiver, so it has no imports and no runtime dependencies.
+
+export interface Gs1Element {
+  ai: string;
+  value: string;
+}
+
+export interface Gs1ElementString {
+  elements: Gs1Element[];
+  // AI 01, as 14 digits
+  gtin: string | null;
+  // AI 10
+  lot: string | null;
+  // AI 21
+  serial: string | null;
+  // AI 15 and 17, as YYYY-MM-DD
+  bestBefore: string | null;
+  expiry: string | null;
+  // AI 310n, converted from kilograms
+  netWeightGrams: number | null;
+}
+
+// FNC1 as scanners transmit it between variable-length elements
+const GROUP_SEPARATOR = '\u001d';
+
+// Symbology identifiers some scanners prefix: GS1-128, GS1 DataMatrix,
+// GS1 QR Code and GS1 DataBar
+const SYMBOLOGY_IDENTIFIER = /^\](C1|d2|Q3|e0)/;
+
+// AIs whose data always has this length, keyed by their first two digits.
+// These are the only AIs that need no separator after them.
+const PREDEFINED_LENGTHS: Record<string, number> = {
+  '00': 18, '01': 14, '02': 14, '03': 14, '04': 16,
+  '11': 6, '12': 6, '13': 6, '14': 6, '15': 6, '16': 6, '17': 6, '18': 6, '19': 6,
+  '20': 2,
+  '31': 6, '32': 6, '33': 6, '34': 6, '35': 6, '36': 6,
+  '41': 13,
+};
+
+const MAX_VARIABLE_LENGTH = 90;
+
+// How many digits the AI starting here has, from its first two digits
+function aiLength(prefix: string): number | null {
+  const first = Number(prefix);
+  if (first <= 22 || first === 30 || first === 37 || first >= 90) return 2;
+  if (first >= 31 && first <= 36) return 4;
+  if ((first >= 23 && first <= 29) || (first >= 40 && first <= 49)) return 3;
+  if (first >= 70 && first <= 89) return 4;
+  return null;
+}
+
+// GTIN check digit: digits are weighted 3 and 1 alternately from the right,
+// excluding the check digit itself
+export function isValidGtinChecksum(value: string): boolean {
+  if (!/^\d{8,14}$/.test(value)) return false;
+
+  const digits = value.split('').map(Number);
+  const checkDigit = digits.pop() as number;
+  const sum = digits.reverse().reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0);
+
+  return (10 - (sum % 10)) % 10 === checkDigit;
+}
+
+// The barcode printed on the retail pack for a GTIN-14: EAN-8, UPC-A or
+// EAN-13 with the padding zeros removed. Case and pallet GTINs, whose
+// indicator digit is not 0, are returned whole.
+export function gtinToRetailBarcode(gtin: string): string {
+  if (gtin.startsWith('000000')) return gtin.slice(6);
+  if (gtin.startsWith('00')) return gtin.slice(2);
+  if (gtin.startsWith('0')) return gtin.slice(1);
+  return gtin;
+}
+
+// YYMMDD to YYYY-MM-DD. The century is the one putting the date within 49
+// years before or 50 years after this year, and day 00 means the last day
+// of the month.
+function parseGs1Date(value: string): string | null {
+  if (!/^\d{6}$/.test(value)) return null;
+
+  const yy = Number(value.slice(0, 2));
+  const month = Number(value.slice(2, 4));
+  let day = Number(value.slice(4, 6));
+  if (month < 1 || month > 12) return null;
+
+  const currentYear = new Date().getUTCFullYear();
+  let year = Math.floor(currentYear / 100) * 100 + yy;
+  if (year - currentYear > 50) year -= 100;
+  else if (currentYear - year > 49) year += 100;
+
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day === 0) day = daysInMonth;
+  if (day > daysInMonth) return null;
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// Human-readable form: (01)09501101530003(17)261231
+function splitBracketed(input: string): Gs1Element[] | null {
+  const elements: Gs1Element[] = [];
+  const pattern = /\((\d{2,4})\)([^(]*)/g;
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(input)) !== null) {
+    if (match.index !== consumed) return null;
+    elements.push({ ai: match[1], value: match[2] });
+    consumed = pattern.lastIndex;
+  }
+
+  return consumed === input.length && elements.length > 0 ? elements : null;
+}
+
+// Scanner form: AIs run together, variable-length data ending at a group
+// separator or the end of the string
+function splitRaw(input: string): Gs1Element[] | null {
+  const elements: Gs1Element[] = [];
+  let position = 0;
+
+  while (position < input.length) {
+    if (input[position] === GROUP_SEPARATOR) {
+      position++;
+      continue;
+    }
+
+    const prefix = input.slice(position, position + 2);
+    const length = /^\d{2}$/.test(prefix) ? aiLength(prefix) : null;
+    if (length === null) return null;
+
+    const ai = input.slice(position, position + length);
+    if (!/^\d+$/.test(ai) || ai.length !== length) return null;
+    position += length;
+
+    const fixedLength = PREDEFINED_LENGTHS[prefix];
+    let end: number;
+    if (fixedLength !== undefined) {
+      end = position + fixedLength;
+      if (end > input.length) return null;
+    } else {
+      const separator = input.indexOf(GROUP_SEPARATOR, position);
+      end = separator === -1 ? input.length : separator;
+    }
+
+    elements.push({ ai, value: input.slice(position, end) });
+    position = end;
+  }
+
+  return elements.length > 0 ? elements : null;
+}
+
+function isValidElement({ ai, value }: Gs1Element): boolean {
+  const fixedLength = PREDEFINED_LENGTHS[ai.slice(0, 2)];
+  if (fixedLength !== undefined) {
+    if (value.length !== fixedLength) return false;
+    if (!/^\d+$/.test(value) && ai !== '20') return false;
+  } else if (value.length === 0 || value.length > MAX_VARIABLE_LENGTH) {
+    return false;
+  }
+
+  // GS1 AI encodable character set 82: printable ASCII without space and a few symbols
+  if (!/^[!"%&'()*+,\-./0-9:;<=>?A-Z_a-z]+$/.test(value)) return false;
+
+  if (['01', '02'].includes(ai)) return isValidGtinChecksum(value);
+  if (/^1[1-7]$/.test(ai)) return parseGs1Date(value) !== null;
+  return true;
+}
+
+// Parses a GS1 element string, or returns null when the input is not one.
+// Plain EAN/UPC codes are not element strings; a bare digit string only
+// counts when it starts with a GTIN followed by more data.
+export function parseGs1(input: string): Gs1ElementString | null {
+  if (!input) return null;
+
+  let text = input.trim();
+  const identified = SYMBOLOGY_IDENTIFIER.test(text);
+  text = text.replace(SYMBOLOGY_IDENTIFIER, '');
+  if (text.startsWith(GROUP_SEPARATOR)) text = text.slice(1);
+
+  let elements: Gs1Element[] | null;
+  if (text.startsWith('(')) {
+    elements = splitBracketed(text);
+  } else if (identified || text.includes(GROUP_SEPARATOR) || (text.startsWith('01') && text.length > 16)) {
+    elements = splitRaw(text);
+  } else {
+    return null;
+  }
+
+  if (!elements || !elements.every(isValidElement)) return null;
+
+  const find = (ai: string) => elements.find(element => element.ai === ai)?.value ?? null;
+  const netWeight = elements.find(element => /^310\d$/.test(element.ai));
+
+  return {
+    elements,
+    gtin: find('01'),
+    lot: find('10'),
+    serial: find('21'),
+    bestBefore: find('15') && parseGs1Date(find('15') as string),
+    expiry: find('17') && parseGs1Date(find('17') as string),
+    netWeightGrams: netWeight
+      ? Math.round(Number(netWeight.value) * 10 ** (6 - Number(netWeight.ai[3]))) / 1000
+      : null,
+  };
+}
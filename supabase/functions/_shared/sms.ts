@@ -0,0 +1,213 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.50.0";
+
+// SMS delivery shared by send-notifications and verify-phone. The backend is
+// chosen with SMS_PROVIDER ("twilio" or "mock"); without it Twilio is used
+// when its credentials are configured.
+
+export type SmsStatus = 'queued' | 'sent' | 'delivered' | 'failed' | 'undelivered' | 'rate_limited';
+export type SmsPurpose = 'notification' | 'verification';
+
+export interface SmsMessage {
+  to: string;
+  body: string;
+  statusCallbackUrl?: string;
+}
+
+export interface SmsSendResult {
+  status: SmsStatus;
+  messageId?: string;
+  error?: string;
+}
+
+export interface SmsProvider {
+  name: string;
+  send(message: SmsMessage): Promise<SmsSendResult>;
+}
+
+export interface TrackedSmsResult {
+  sent: boolean;
+  status: SmsStatus;
+  deliveryId?: string;
+  error?: string;
+}
+
+// Texts allowed per user, counting rate-limited attempts as well
+export const SMS_RATE_LIMITS: Record<SmsPurpose, { perHour: number; perDay: number }> = {
+  notification: { perHour: 5, perDay: 20 },
+  verification: { perHour: 3, perDay: 10 },
+};
+
+export const SMS_STATUS_CALLBACK_PATH = '/functions/v1/sms-status';
+
+export class TwilioSmsProvider implements SmsProvider {
+  name = 'twilio';
+
+  constructor(
+    private accountSid: string,
+    private authToken: string,
+    private fromNumber: string
+  ) {}
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    const params = new URLSearchParams({
+      To: message.to,
+      From: this.fromNumber,
+      Body: message.body,
+    });
+    if (message.statusCallbackUrl) {
+      params.set('StatusCallback', message.statusCallbackUrl);
+    }
+
+    try {
+      const response = await fetch(
+        `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`,
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `Basic ${btoa(`${this.accountSid}:${this.authToken}`)}`,
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body: params,
+        }
+      );
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        return { status: 'failed', error: result.message || 'SMS failed' };
+      }
+
+      return { status: toSmsStatus(result.status), messageId: result.sid };
+    } catch (error) {
+      return { status: 'failed', error: error instanceof Error ? error.message : 'SMS failed' };
+    }
+  }
+}
+
+// Local backend for development and tests. Nothing leaves the function;
+// messages are logged and kept in mockOutbox. Numbers listed in
+// SMS_MOCK_FAIL_NUMBERS (comma separated) fail so error paths can be tried.
+export const mockOutbox: (SmsMessage & { messageId: string })[] = [];
+
+export class MockSmsProvider implements SmsProvider {
+  name = 'mock';
+
+  constructor(private failNumbers: string[] = []) {}
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    if (this.failNumbers.includes(message.to)) {
+      return { status: 'failed', error: 'Mock provider configured to fail for this number' };
+    }
+
+    const messageId = `mock-${crypto.randomUUID()}`;
+    mockOutbox.push({ ...message, messageId });
+    console.log(`[mock sms] to ${message.to}: ${message.body}`);
+    return { status: 'delivered', messageId };
+  }
+}
+
+export function getSmsProvider(): SmsProvider | null {
+  const provider = Deno.env.get("SMS_PROVIDER");
+
+  if (provider === 'mock') {
+    const failNumbers = (Deno.env.get("SMS_MOCK_FAIL_NUMBERS") || '')
+      .split(',')
+      .map(number => number.trim())
+      .filter(Boolean);
+    return new MockSmsProvider(failNumbers);
+  }
+
+  if (!provider || provider === 'twilio') {
+    const twilioSid = Deno.env.get("TWILIO_ACCOUNT_SID");
+    const twilioToken = Deno.env.get("TWILIO_AUTH_TOKEN");
+    const twilioPhone = Deno.env.get("TWILIO_PHONE_NUMBER");
+
+    if (twilioSid && twilioToken && twilioPhone) {
+      return new TwilioSmsProvider(twilioSid, twilioToken, twilioPhone);
+    }
+    return null;
+  }
+
+  console.error(`Unknown SMS_PROVIDER: ${provider}`);
+  return null;
+}
+
+// Maps provider statuses (Twilio's names) onto ours
+export function toSmsStatus(providerStatus: string | null | undefined): SmsStatus {
+  switch (providerStatus) {
+    case 'sent':
+      return 'sent';
+    case 'delivered':
+    case 'read':
+      return 'delivered';
+    case 'failed':
+    case 'canceled':
+      return 'failed';
+    case 'undelivered':
+      return 'undelivered';
+    default:
+      return 'queued';
+  }
+}
+
+// Sends a text through the configured provider, recording it in
+// sms_deliveries. Texts over the user's rate limit are recorded but not sent.
+export async function sendTrackedSms(
+  supabase: SupabaseClient,
+  options: { userId: string; to: string; body: string; purpose: SmsPurpose; notificationId?: string | null }
+): Promise<TrackedSmsResult> {
+  const provider = getSmsProvider();
+  if (!provider) {
+    return { sent: false, status: 'failed', error: 'SMS provider not configured' };
+  }
+
+  // The rate limit is checked and the delivery recorded in one call, so
+  // parallel sends cannot all slip under the limit
+  const limits = SMS_RATE_LIMITS[options.purpose];
+  const { data: delivery, error: deliveryError } = await supabase
+    .rpc('record_sms_delivery', {
+      _user_id: options.userId,
+      _purpose: options.purpose,
+      _phone_number: options.to,
+      _provider: provider.name,
+      _notification_id: options.notificationId || null,
+      _per_hour: limits.perHour,
+      _per_day: limits.perDay,
+    })
+    .single();
+
+  if (deliveryError || !delivery) {
+    console.error('Error recording SMS delivery:', deliveryError);
+    return { sent: false, status: 'failed', error: 'Could not record SMS delivery' };
+  }
+
+  if (delivery.status === 'rate_limited') {
+    return { sent: false, status: 'rate_limited', deliveryId: delivery.id, error: 'Too many text messages, try again later' };
+  }
+
+  const result = await provider.send({
+    to: options.to,
+    body: options.body,
+    statusCallbackUrl: `${Deno.env.get("SUPABASE_URL")}${SMS_STATUS_CALLBACK_PATH}`,
+  });
+
+  const { error: updateError } = await supabase
+    .from('sms_deliveries')
+    .update({
+      status: result.status,
+      provider_message_id: result.messageId || null,
+      error: result.error || null,
+    })
+    .eq('id', delivery.id);
+
+  if (updateError) {
+    console.error('Error updating SMS delivery:', updateError);
+  }
+
+  return {
+    sent: result.status !== 'failed' && result.status !== 'undelivered',
+    status: result.status,
+    deliveryId: delivery.id,
+    error: result.error,
+  };
+}
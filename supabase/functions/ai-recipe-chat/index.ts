@@ -1,25 +1,155 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.50.0";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+);
+
+interface PantryItem {
+  id: string;
+  name: string;
+  quantity: number;
+  quantity_type: string | null;
+  expiry_date?: string | null;
+  amount?: number | null;
+  storage?: string | null;
+}
+
+type RecipeMode = 'chat' | 'use_it_up';
+
 interface RecipeRequest {
   ingredients: string[];
+  pantry?: PantryItem[];
+  mode?: RecipeMode;
   userMessage: string;
-  conversationHistory?: { role: string; content: string }[];
+  // Conversation to continue; a new one is started without it
+  sessionId?: string | null;
+  // Reply as server-sent events instead of a single JSON body
+  stream?: boolean;
+}
+
+// Events sent to the client when streaming. "delta" carries the next piece
+// of the reply; the stream ends with exactly one "done" or "error".
+type StreamEvent =
+  | { type: 'delta'; content: string }
+  | ({ type: 'done' } & RecipeReply)
+  | { type: 'error'; status: number; error: string };
+
+interface RecipeReply {
+  response: string;
+  recipe: StructuredRecipe | null;
+  recipes: StructuredRecipe[];
+  sessionId: string | null;
 }
 
+// Machine-readable copy of a recipe in the reply. Quantities of ingredients
+// matched to a pantry item are in that item's unit.
+interface RecipeIngredient {
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+  grocery_item_id: string | null;
+  optional: boolean;
+}
+
+interface StructuredRecipe {
+  title: string;
+  servings: number | null;
+  prep_minutes: number | null;
+  cook_minutes: number | null;
+  difficulty: 'easy' | 'medium' | 'hard' | null;
+  ingredients: RecipeIngredient[];
+  steps: string[];
+  // Value of soon-to-expire stock the recipe uses up
+  at_risk_value: number;
+  at_risk_items: string[];
+}
+
+type RawIngredient = Partial<Record<keyof RecipeIngredient, unknown>>;
+
+const RECIPE_BLOCK = /```recipe-json\s*([\s\S]*?)```/g;
+
+// Stock expiring within this many days counts as at risk
+const AT_RISK_DAYS = 3;
+const USE_IT_UP_RECIPES = 3;
+
+// Earlier messages sent to the model for context
+const HISTORY_MESSAGES = 10;
+
 const handler = async (req: Request): Promise<Response> => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { ingredients, userMessage, conversationHistory = [] }: RecipeRequest = await req.json();
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ 
+        success: false,
+        error: "Unauthorized - missing authorization header" 
+      }), {
+        status: 401,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      });
+    }
+
+    const userClient = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_ANON_KEY")!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await userClient.auth.getUser();
+    if (authError || !user) {
+      return new Response(JSON.stringify({ 
+        success: false,
+        error: "Unauthorized - invalid token" 
+      }), {
+        status: 401,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      });
+    }
+
+    const { ingredients, pantry = [], mode = 'chat', userMessage, sessionId = null, stream = false }: RecipeRequest = await req.json();
     
-    console.log("AI Recipe Chat request:", { ingredients, userMessage });
+    console.log("AI Recipe Chat request:", { ingredients, userMessage, sessionId });
+
+    let history: { role: string; content: string }[] = [];
+    if (sessionId) {
+      const { data: session, error: sessionError } = await supabase
+        .from('recipe_chat_sessions')
+        .select('id')
+        .eq('id', sessionId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (sessionError) throw sessionError;
+      if (!session) {
+        return new Response(JSON.stringify({ 
+          success: false,
+          error: "Conversation not found" 
+        }), {
+          status: 404,
+          headers: { "Content-Type": "application/json", ...corsHeaders },
+        });
+      }
+
+      const { data: previous, error: historyError } = await supabase
+        .from('recipe_chat_messages')
+        .select('role, content')
+        .eq('session_id', sessionId)
+        .order('created_at', { ascending: false })
+        .limit(HISTORY_MESSAGES);
+
+      if (historyError) throw historyError;
+      history = (previous || []).reverse();
+    }
 
     const apiKey = Deno.env.get("LOVABLE_API_KEY");
     if (!apiKey) {
@@ -33,10 +163,38 @@ const handler = async (req: Request): Promise<Response> => {
       });
     }
 
+    const today = new Date().toISOString().split('T')[0];
+
+    // Older clients only send names; ids and amounts let recipes be cooked.
+    // Soonest to expire first so the model sees what needs using.
+    const pantryList = pantry.length
+      ? [...pantry]
+          .sort((a, b) => (a.expiry_date || '9999-12-31').localeCompare(b.expiry_date || '9999-12-31'))
+          .map(item => {
+            const details = [
+              `id: ${item.id}`,
+              `${item.quantity} ${item.quantity_type || 'pieces'}`,
+              item.expiry_date ? `expires ${item.expiry_date}` : null,
+              item.storage ? `stored in ${item.storage}` : null,
+            ].filter(Boolean);
+            return `${item.name} [${details.join(', ')}]`;
+          })
+          .join(", ")
+      : ingredients.join(", ");
+
+    const modeInstructions = mode === 'use_it_up'
+      ? `
+
+USE IT UP MODE: Suggest ${USE_IT_UP_RECIPES} different recipes that use as much as possible of the
+ingredients expiring by ${new Date(Date.now() + AT_RISK_DAYS * 24 * 60 * 60 * 1000).toISOString().split('T')[0]},
+each with its own recipe-json block. Say which soon-to-expire items each one uses.`
+      : '';
+
     const systemPrompt = `You are a creative and helpful chef assistant for Smart Pantry app. 
 Your job is to suggest delicious, practical recipes based on available ingredients.
 
-Available ingredients in the user's pantry: ${ingredients.join(", ")}
+Today is ${today}.
+Available ingredients in the user's pantry: ${pantryList}
 
 Guidelines:
 - Always suggest NEW and UNIQUE recipes - never repeat suggestions
@@ -48,6 +206,7 @@ Guidelines:
 - Be friendly and encouraging
 - Suggest substitutions if some ingredients are missing
 - Include tips for best results
+- Prefer ingredients that expire soonest, and avoid anything already expired
 
 When providing a recipe, use this format:
 ## 🍳 Recipe Name
@@ -61,14 +220,28 @@ When providing a recipe, use this format:
 2. Continue steps...
 
 ### Chef's Tips:
-- Helpful tips for best results`;
+- Helpful tips for best results
+
+After a complete recipe, add exactly one fenced block tagged recipe-json with
+the same recipe as JSON, and nothing after it:
+\`\`\`recipe-json
+{"title": "Recipe Name", "servings": 2, "prep_minutes": 10, "cook_minutes": 20, "difficulty": "easy",
+ "ingredients": [{"name": "Rice", "quantity": 1, "unit": "kg", "grocery_item_id": "<pantry id or null>", "optional": false}],
+ "steps": ["First step", "Second step"]}
+\`\`\`
+For ingredients from the pantry, set grocery_item_id to the item's id and give
+the quantity as a whole number in that item's unit. Use null for anything not
+in the pantry. Leave the block out when you are not giving a full recipe.${modeInstructions}`;
 
     const messages = [
       { role: "system", content: systemPrompt },
-      ...conversationHistory.slice(-10), // Keep last 10 messages for context
+      ...history,
       { role: "user", content: userMessage }
     ];
 
+    // Aborted when a streaming client disconnects so the model stops too
+    const upstreamAbort = new AbortController();
+
     const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
       method: "POST",
       headers: {
@@ -79,8 +252,10 @@ When providing a recipe, use this format:
         model: "google/gemini-3-flash-preview",
         messages: messages,
         temperature: 0.8, // Higher temperature for more creative recipes
-        max_tokens: 2000,
+        max_tokens: mode === 'use_it_up' ? 4000 : 2000,
+        stream,
       }),
+      signal: upstreamAbort.signal,
     });
 
     if (!response.ok) {
@@ -88,21 +263,38 @@ When providing a recipe, use this format:
       console.error("AI Gateway error:", response.status, errorText);
       return new Response(JSON.stringify({ 
         success: false,
-        error: "Failed to get AI response" 
+        error: gatewayErrorMessage(response.status) 
       }), {
-        status: 500,
+        status: isPassedOnStatus(response.status) ? response.status : 500,
         headers: { "Content-Type": "application/json", ...corsHeaders },
       });
     }
 
-    const data = await response.json();
-    const aiResponse = data.choices?.[0]?.message?.content || "I couldn't generate a response. Please try again.";
+    // Parses and stores the finished reply
+    const finishReply = async (content: string): Promise<RecipeReply> => {
+      const { markdown, recipes } = extractRecipes(content || "I couldn't generate a response. Please try again.", pantry, today);
+
+      // In use-it-up mode the recipe saving the most at-risk stock comes first
+      if (mode === 'use_it_up') {
+        recipes.sort((a, b) => b.at_risk_value - a.at_risk_value);
+      }
+
+      console.log(`AI Recipe response generated successfully with ${recipes.length} structured recipe(s)`);
 
-    console.log("AI Recipe response generated successfully");
+      const savedSessionId = await saveExchange(user.id, sessionId, mode, userMessage, markdown, recipes);
+      return { response: markdown, recipe: recipes[0] || null, recipes, sessionId: savedSessionId };
+    };
+
+    if (stream && response.body) {
+      return streamReply(response.body, upstreamAbort, finishReply);
+    }
+
+    const data = await response.json();
+    const reply = await finishReply(data.choices?.[0]?.message?.content || '');
 
     return new Response(JSON.stringify({ 
       success: true,
-      response: aiResponse
+      ...reply
     }), {
       status: 200,
       headers: { "Content-Type": "application/json", ...corsHeaders },
@@ -120,4 +312,238 @@ When providing a recipe, use this format:
   }
 };
 
+// Relays the gateway's OpenAI-style stream as our own events. The exchange
+// is only stored once the reply is complete, so a cancelled or failed reply
+// leaves nothing behind.
+function streamReply(
+  upstream: ReadableStream<Uint8Array>,
+  upstreamAbort: AbortController,
+  finishReply: (content: string) => Promise<RecipeReply>
+): Response {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: StreamEvent) =>
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+
+      const reader = upstream.getReader();
+      let buffer = '';
+      let content = '';
+
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          buffer += decoder.decode(value, { stream: true });
+
+          let newline: number;
+          while ((newline = buffer.indexOf('\n')) !== -1) {
+            const line = buffer.slice(0, newline).replace(/\r$/, '');
+            buffer = buffer.slice(newline + 1);
+
+            if (!line.startsWith('data:')) continue;
+            const data = line.slice(5).trim();
+            if (!data || data === '[DONE]') continue;
+
+            let chunk;
+            try {
+              chunk = JSON.parse(data);
+            } catch {
+              console.error("Skipping unreadable stream chunk:", data);
+              continue;
+            }
+
+            // The gateway reports failures after the headers as an error chunk
+            if (chunk.error) {
+              const status = Number(chunk.error.code) || 500;
+              console.error("AI Gateway stream error:", status, chunk.error.message);
+              send({ type: 'error', status, error: gatewayErrorMessage(status) });
+              controller.close();
+              return;
+            }
+
+            const delta = chunk.choices?.[0]?.delta?.content;
+            if (delta) {
+              content += delta;
+              send({ type: 'delta', content: delta });
+            }
+          }
+        }
+
+        send({ type: 'done', ...(await finishReply(content)) });
+        controller.close();
+      } catch (error) {
+        // Nobody is listening once the client has cancelled
+        if (upstreamAbort.signal.aborted) return;
+
+        console.error("Error streaming AI recipe chat:", error);
+        send({ type: 'error', status: 500, error: "The reply was cut off. Please try again." });
+        controller.close();
+      }
+    },
+    cancel() {
+      upstreamAbort.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
+
+// Rate limits and exhausted credits are passed on so the app can explain them
+function isPassedOnStatus(status: number): boolean {
+  return status === 429 || status === 402;
+}
+
+function gatewayErrorMessage(status: number): string {
+  if (status === 429) return "The AI Chef is busy right now. Please wait a moment and try again.";
+  if (status === 402) return "AI credits have run out. Add credits to your workspace to keep getting recipes.";
+  return "Failed to get AI response";
+}
+
+// Stores the question and reply, starting a new conversation titled after the
+// question when there is none. The reply is still returned if this fails, so
+// null means it was not saved.
+async function saveExchange(
+  userId: string,
+  sessionId: string | null,
+  mode: RecipeMode,
+  userMessage: string,
+  reply: string,
+  recipes: StructuredRecipe[]
+): Promise<string | null> {
+  try {
+    let id = sessionId;
+
+    if (id) {
+      await supabase
+        .from('recipe_chat_sessions')
+        .update({ updated_at: new Date().toISOString() })
+        .eq('id', id);
+    } else {
+      const { data: session, error } = await supabase
+        .from('recipe_chat_sessions')
+        .insert({ user_id: userId, title: toSessionTitle(userMessage) })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+      id = session.id;
+    }
+
+    // Explicit times keep the question ahead of its reply
+    const askedAt = Date.now();
+    const { error } = await supabase
+      .from('recipe_chat_messages')
+      .insert([
+        { session_id: id, role: 'user', content: userMessage, mode, created_at: new Date(askedAt).toISOString() },
+        { session_id: id, role: 'assistant', content: reply, recipes, mode, created_at: new Date(askedAt + 1).toISOString() },
+      ]);
+
+    if (error) throw error;
+    return id;
+  } catch (error) {
+    console.error("Error saving recipe chat:", error);
+    return null;
+  }
+}
+
+function toSessionTitle(message: string): string {
+  const title = message.replace(/\s+/g, ' ').trim();
+  if (!title) return 'Recipe chat';
+  return title.length > 100 ? `${title.slice(0, 97)}...` : title;
+}
+
+// Splits the recipe-json blocks off the reply. Ingredient ids are only kept
+// when they belong to the pantry sent with the request; otherwise the
+// ingredient is matched to a pantry item by name.
+function extractRecipes(content: string, pantry: PantryItem[], today: string): { markdown: string; recipes: StructuredRecipe[] } {
+  const markdown = content.replace(RECIPE_BLOCK, '').trim();
+  const recipes: StructuredRecipe[] = [];
+
+  for (const match of content.matchAll(RECIPE_BLOCK)) {
+    const recipe = parseRecipe(match[1], pantry, today);
+    if (recipe) recipes.push(recipe);
+  }
+
+  return { markdown, recipes };
+}
+
+function parseRecipe(json: string, pantry: PantryItem[], today: string): StructuredRecipe | null {
+  try {
+    const raw = JSON.parse(json);
+    if (!raw?.title || !Array.isArray(raw.ingredients)) return null;
+
+    const findPantryItem = (id: unknown, name: string) =>
+      pantry.find(item => item.id === id) ||
+      pantry.find(item => item.name.toLowerCase() === name.toLowerCase()) ||
+      null;
+
+    const ingredients: RecipeIngredient[] = (raw.ingredients as RawIngredient[])
+      .filter((ingredient): ingredient is RawIngredient & { name: string } =>
+        typeof ingredient?.name === 'string' && ingredient.name.trim() !== '')
+      .map(ingredient => {
+        const pantryItem = findPantryItem(ingredient.grocery_item_id, ingredient.name.trim());
+        const quantity = toNumber(ingredient.quantity);
+        return {
+          name: ingredient.name.trim(),
+          quantity: pantryItem && quantity !== null ? Math.max(1, Math.round(quantity)) : quantity,
+          unit: pantryItem ? pantryItem.quantity_type || 'pieces' : (typeof ingredient.unit === 'string' ? ingredient.unit : null),
+          grocery_item_id: pantryItem?.id || null,
+          optional: ingredient.optional === true,
+        };
+      });
+
+    const difficulty = typeof raw.difficulty === 'string' ? raw.difficulty.toLowerCase() : null;
+    const { value, items } = getAtRiskUsage(ingredients, pantry, today);
+
+    return {
+      title: String(raw.title).trim(),
+      servings: toNumber(raw.servings),
+      prep_minutes: toNumber(raw.prep_minutes),
+      cook_minutes: toNumber(raw.cook_minutes),
+      difficulty: (['easy', 'medium', 'hard'] as const).find(level => level === difficulty) || null,
+      ingredients,
+      steps: Array.isArray(raw.steps) ? raw.steps.filter((step: unknown) => typeof step === 'string' && step.trim()) : [],
+      at_risk_value: value,
+      at_risk_items: items,
+    };
+  } catch (error) {
+    console.error("Could not parse recipe-json block:", error);
+    return null;
+  }
+}
+
+// Value, at each item's average unit price, of the stock a recipe uses from
+// items that are not yet expired but will be within AT_RISK_DAYS
+function getAtRiskUsage(ingredients: RecipeIngredient[], pantry: PantryItem[], today: string): { value: number; items: string[] } {
+  const cutoff = new Date(new Date(today).getTime() + AT_RISK_DAYS * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  let value = 0;
+  const items: string[] = [];
+
+  for (const ingredient of ingredients) {
+    const item = pantry.find(p => p.id === ingredient.grocery_item_id);
+    if (!item?.expiry_date || item.expiry_date < today || item.expiry_date > cutoff || item.quantity <= 0) continue;
+
+    const used = Math.min(ingredient.quantity ?? item.quantity, item.quantity);
+    value += used * ((item.amount || 0) / item.quantity);
+    items.push(item.name);
+  }
+
+  return { value: Math.round(value * 100) / 100, items };
+}
+
+function toNumber(value: unknown): number | null {
+  const number = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(number) && number > 0 ? number : null;
+}
+
 serve(handler);
@@ -0,0 +1,349 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.50.0'
+import { gtinToRetailBarcode, parseGs1 } from '../_shared/gs1.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Products from a provider are asked for again after CACHE_TTL_MS, and a
+// barcode no provider knows is not looked up again for MISS_TTL_MS
+const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000
+const MISS_TTL_MS = 24 * 60 * 60 * 1000
+
+// A provider that has not answered by then counts as failed, so one slow
+// database does not hold up the scan
+const PROVIDER_TIMEOUT_MS = 4000
+
+const USER_AGENT = 'SmartPantry/1.0 (https://smart-grocer-scan-track.lovable.app)'
+
+// What a provider can tell us about a product. Each field is taken from the
+// first provider in the chain that has it.
+interface ProductFields {
+  name: string
+  brand: string | null
+  category: string | null
+  default_expiry_days: number | null
+  unit: string | null
+  nutrition_info: Record<string, number | undefined> | null
+  image_url: string | null
+}
+
+type ProductField = keyof ProductFields
+
+const PRODUCT_FIELDS: ProductField[] = ['name', 'brand', 'category', 'default_expiry_days', 'unit', 'nutrition_info', 'image_url']
+
+// Returns null when the provider does not know the barcode, and throws when
+// it could not be asked
+interface LookupProvider {
+  name: string
+  lookup: (barcode: string, signal: AbortSignal, supabase: SupabaseClient) => Promise<Partial<ProductFields> | null>
+}
+
+type ProviderOutcome =
+  | { provider: string; status: 'found'; fields: Partial<ProductFields> }
+  | { provider: string; status: 'not_found' }
+  | { provider: string; status: 'failed'; error: string }
+
+interface BarcodeProductRow extends ProductFields {
+  id: string
+  barcode: string
+  product_name: string | null
+  current_weight: number | null
+  source: string
+  field_sources: Record<string, string>
+  fetched_at: string | null
+}
+
+// Map Open Food Facts categories to our categories
+function mapCategory(categories: string): string {
+  const lowerCategories = categories.toLowerCase()
+  const matches = (...words: string[]) => words.some(word => lowerCategories.includes(word))
+
+  if (matches('dairy', 'milk', 'cheese', 'yogurt')) return 'Dairy'
+  if (matches('meat', 'poultry', 'chicken', 'beef')) return 'Meat'
+  if (matches('fruit', 'vegetable', 'produce')) return 'Produce'
+  if (matches('bread', 'bakery', 'pastry')) return 'Bakery'
+  if (matches('beverage', 'drink', 'juice', 'soda')) return 'Beverages'
+  if (matches('frozen')) return 'Frozen'
+  if (matches('snack', 'chip', 'candy')) return 'Snacks'
+  if (matches('canned', 'preserved')) return 'Canned Goods'
+  if (matches('grain', 'rice', 'pasta', 'cereal')) return 'Grains'
+  if (matches('condiment', 'sauce', 'spice')) return 'Condiments'
+  return 'Other'
+}
+
+// Estimate expiry days based on category
+const EXPIRY_DAYS: Record<string, number> = {
+  'Dairy': 14,
+  'Meat': 5,
+  'Produce': 7,
+  'Bakery': 5,
+  'Beverages': 180,
+  'Frozen': 180,
+  'Snacks': 90,
+  'Canned Goods': 365,
+  'Grains': 180,
+  'Condiments': 365,
+  'Other': 30,
+}
+
+// Open Food Facts and its sister databases for cosmetics and pet food share
+// one API
+function openFactsProvider(name: string, host: string): LookupProvider {
+  return {
+    name,
+    lookup: async (barcode, signal) => {
+      const response = await fetch(
+        `https://${host}/api/v2/product/${barcode}.json?fields=product_name,brands,categories,image_url,nutriments,quantity`,
+        { headers: { 'User-Agent': USER_AGENT }, signal }
+      )
+
+      // Unknown products are a 404 with a JSON body
+      if (response.status === 404) return null
+      if (!response.ok) throw new Error(`${host} returned ${response.status}`)
+
+      const data = await response.json()
+      if (data.status !== 1 || !data.product) return null
+
+      const product = data.product
+      const nutriments = product.nutriments
+      const category = product.categories ? mapCategory(product.categories) : null
+
+      return {
+        name: product.product_name || undefined,
+        brand: product.brands || null,
+        category,
+        default_expiry_days: category ? EXPIRY_DAYS[category] : null,
+        unit: product.quantity || null,
+        image_url: product.image_url || null,
+        nutrition_info: nutriments ? {
+          energy_kcal: nutriments['energy-kcal_100g'],
+          proteins: nutriments.proteins_100g,
+          carbohydrates: nutriments.carbohydrates_100g,
+          fat: nutriments.fat_100g,
+          fiber: nutriments.fiber_100g,
+          sugars: nutriments.sugars_100g,
+          salt: nutriments.salt_100g,
+        } : null,
+      }
+    },
+  }
+}
+
+// The most recent description a user has given of the barcode
+const communityProvider: LookupProvider = {
+  name: 'community',
+  lookup: async (barcode, signal, supabase) => {
+    const { data, error } = await supabase
+      .from('barcode_contributions')
+      .select('name, brand, category, default_expiry_days, unit, image_url')
+      .eq('barcode', barcode)
+      .order('updated_at', { ascending: false })
+      .limit(1)
+      .abortSignal(signal)
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  },
+}
+
+// Providers in order of preference. All are asked at once and their answers
+// merged in this order.
+const PROVIDERS: LookupProvider[] = [
+  openFactsProvider('openfoodfacts', 'world.openfoodfacts.org'),
+  openFactsProvider('openbeautyfacts', 'world.openbeautyfacts.org'),
+  openFactsProvider('openpetfoodfacts', 'world.openpetfoodfacts.org'),
+  communityProvider,
+]
+
+async function askProvider(provider: LookupProvider, barcode: string, supabase: SupabaseClient): Promise<ProviderOutcome> {
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), PROVIDER_TIMEOUT_MS)
+
+  try {
+    const fields = await provider.lookup(barcode, controller.signal, supabase)
+    return fields ? { provider: provider.name, status: 'found', fields } : { provider: provider.name, status: 'not_found' }
+  } catch (error) {
+    const message = controller.signal.aborted ? 'Timed out' : error instanceof Error ? error.message : String(error)
+    console.error(`Barcode provider ${provider.name} failed:`, message)
+    return { provider: provider.name, status: 'failed', error: message }
+  } finally {
+    clearTimeout(timeout)
+  }
+}
+
+// Takes each field from the first provider that has a value for it
+function mergeOutcomes(outcomes: ProviderOutcome[]) {
+  const fields: Partial<ProductFields> = {}
+  const fieldSources: Record<string, string> = {}
+
+  for (const outcome of outcomes) {
+    if (outcome.status !== 'found') continue
+
+    for (const field of PRODUCT_FIELDS) {
+      const value = outcome.fields[field]
+      if (fields[field] === undefined && value !== undefined && value !== null && value !== '') {
+        (fields as Record<ProductField, unknown>)[field] = value
+        fieldSources[field] = outcome.provider
+      }
+    }
+  }
+
+  return { fields, fieldSources }
+}
+
+// The product as returned to the app, with the provider of every field that
+// has a value. Fields of rows entered directly come from 'local'.
+function toLookupResult(row: BarcodeProductRow, stale: boolean) {
+  const fieldSources: Record<string, string> = {}
+  for (const field of PRODUCT_FIELDS) {
+    if (row[field] !== null && row[field] !== undefined) {
+      fieldSources[field] = row.field_sources?.[field] ?? row.source
+    }
+  }
+
+  return {
+    ...row,
+    product_name: row.product_name || row.name,
+    field_sources: fieldSources,
+    stale,
+  }
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+
+// Looks a barcode up in the cache in barcode_products, then in each
+// provider. A cached product is returned as is until it is CACHE_TTL_MS
+// old; after that the providers are asked again and the stale copy is only
+// returned if none of them can answer.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: 'Unauthorized - missing authorization header' }, 401)
+    }
+
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    )
+
+    const { data: { user }, error: authError } = await userClient.auth.getUser()
+    if (authError || !user) {
+      return jsonResponse({ success: false, error: 'Unauthorized - invalid token' }, 401)
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const { barcode: scanned } = await req.json()
+
+    // GS1 codes are looked up by the retail barcode of their GTIN
+    const gtin = typeof scanned === 'string' ? parseGs1(scanned)?.gtin : null
+    const barcode = gtin ? gtinToRetailBarcode(gtin) : scanned
+
+    if (typeof barcode !== 'string' || !/^[A-Za-z0-9-]{1,50}$/.test(barcode)) {
+      return jsonResponse({ success: false, error: 'Invalid barcode format' }, 400)
+    }
+
+    const now = Date.now()
+
+    const { data: cached, error: cacheError } = await supabaseClient
+      .from('barcode_products')
+      .select('*')
+      .eq('barcode', barcode)
+      .maybeSingle()
+
+    if (cacheError) throw cacheError
+
+    const isFresh = cached && (!cached.fetched_at || now - Date.parse(cached.fetched_at) < CACHE_TTL_MS)
+    if (cached && isFresh) {
+      return jsonResponse({ success: true, product: toLookupResult(cached, false), cached: true })
+    }
+
+    if (!cached) {
+      const { data: miss } = await supabaseClient
+        .from('barcode_lookup_misses')
+        .select('checked_at')
+        .eq('barcode', barcode)
+        .maybeSingle()
+
+      if (miss && now - Date.parse(miss.checked_at) < MISS_TTL_MS) {
+        return jsonResponse({ success: true, product: null, cached: true })
+      }
+    }
+
+    const outcomes = await Promise.all(PROVIDERS.map(provider => askProvider(provider, barcode, supabaseClient)))
+    const failed = outcomes.filter(outcome => outcome.status === 'failed').map(outcome => outcome.provider)
+    const { fields, fieldSources } = mergeOutcomes(outcomes)
+
+    // Fields users have corrected are kept over what providers say
+    for (const field of PRODUCT_FIELDS) {
+      if (cached?.field_sources?.[field] === 'community') {
+        (fields as Record<ProductField, unknown>)[field] = cached[field]
+        fieldSources[field] = 'community'
+      }
+    }
+
+    if (!fields.name) {
+      if (cached) {
+        // Providers no longer know it, or could not be asked: keep serving
+        // the cached copy, and only ask again after another TTL if they
+        // did answer
+        if (failed.length === 0) {
+          await supabaseClient.from('barcode_products').update({ fetched_at: new Date(now).toISOString() }).eq('id', cached.id)
+        }
+        return jsonResponse({ success: true, product: toLookupResult(cached, failed.length > 0), cached: true })
+      }
+
+      // A miss is only remembered when every provider answered
+      if (failed.length === 0) {
+        await supabaseClient
+          .from('barcode_lookup_misses')
+          .upsert({ barcode, providers: PROVIDERS.map(provider => provider.name), checked_at: new Date(now).toISOString() })
+      }
+      return jsonResponse({ success: true, product: null, cached: false, failed_providers: failed })
+    }
+
+    const { data: saved, error: saveError } = await supabaseClient
+      .from('barcode_products')
+      .upsert({
+        barcode,
+        name: fields.name,
+        product_name: fields.name,
+        brand: fields.brand ?? null,
+        category: fields.category ?? null,
+        default_expiry_days: fields.default_expiry_days ?? null,
+        unit: fields.unit ?? null,
+        nutrition_info: fields.nutrition_info ?? null,
+        image_url: fields.image_url ?? null,
+        source: fieldSources.name,
+        field_sources: fieldSources,
+        fetched_at: new Date(now).toISOString(),
+      }, { onConflict: 'barcode' })
+      .select('*')
+      .single()
+
+    if (saveError) throw saveError
+
+    await supabaseClient.from('barcode_lookup_misses').delete().eq('barcode', barcode)
+
+    return jsonResponse({ success: true, product: toLookupResult(saved, false), cached: false, failed_providers: failed })
+
+  } catch (error) {
+    console.error('Error:', error)
+    return jsonResponse({ success: false, error: 'Internal server error' }, 500)
+  }
+})
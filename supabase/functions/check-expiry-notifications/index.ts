@@ -0,0 +1,283 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.50.0";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-cron-secret",
+};
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+);
+
+const DEFAULT_REMINDER_DAYS = 3;
+const PAGE_SIZE = 1000;
+
+type ScheduledNotificationType = 'expiring' | 'expired' | 'running_out' | 'low_stock';
+
+interface GroceryItem {
+  id: string;
+  name: string;
+  category: string | null;
+  quantity: number | null;
+  quantity_type: string | null;
+  amount: number | null;
+  expiry_date: string | null;
+}
+
+interface RunOutForecast {
+  grocery_item_id: string;
+  days_until_run_out: number;
+  predicted_run_out_date: string;
+}
+
+interface StockLevel {
+  grocery_item_id: string;
+  min_quantity: number | null;
+  target_quantity: number | null;
+  is_low: boolean;
+}
+
+interface Member {
+  user_id: string;
+  household_id: string;
+}
+
+interface Preferences {
+  user_id: string;
+  email_notifications: boolean | null;
+  expiry_reminder_days: number | null;
+}
+
+interface PendingNotification {
+  item: GroceryItem;
+  notification_type: ScheduledNotificationType;
+  days_until_expiry?: number;
+  days_until_run_out?: number;
+  predicted_run_out_date?: string;
+  min_quantity?: number;
+  target_quantity?: number;
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Only the scheduler knows the shared secret
+  const cronSecret = Deno.env.get("CRON_SECRET");
+  if (!cronSecret || req.headers.get('x-cron-secret') !== cronSecret) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: "Unauthorized"
+    }), {
+      status: 401,
+      headers: { "Content-Type": "application/json", ...corsHeaders },
+    });
+  }
+
+  try {
+    const today = new Date();
+    const todayString = today.toISOString().split('T')[0];
+
+    const members = await fetchAll<Member>('household_members', 'user_id, household_id');
+    const preferences = await fetchAll<Preferences>('user_notification_preferences', 'user_id, email_notifications, expiry_reminder_days');
+    const preferencesByUser = new Map(preferences.map(prefs => [prefs.user_id, prefs]));
+
+    const membersByHousehold = new Map<string, Member[]>();
+    for (const member of members) {
+      const householdMembers = membersByHousehold.get(member.household_id) || [];
+      householdMembers.push(member);
+      membersByHousehold.set(member.household_id, householdMembers);
+    }
+
+    let sent = 0;
+    let failed = 0;
+
+    for (const [householdId, householdMembers] of membersByHousehold) {
+      // Users without saved preferences get the defaults
+      const recipients = householdMembers
+        .map(member => {
+          const prefs = preferencesByUser.get(member.user_id);
+          return {
+            user_id: member.user_id,
+            enabled: prefs?.email_notifications ?? true,
+            reminder_days: prefs?.expiry_reminder_days || DEFAULT_REMINDER_DAYS,
+          };
+        })
+        .filter(recipient => recipient.enabled);
+
+      if (!recipients.length) continue;
+
+      const pending = await getHouseholdNotifications(householdId, today, todayString);
+      if (!pending.length) continue;
+
+      for (const recipient of recipients) {
+        const { data: existing, error: existingError } = await supabase
+          .from('notifications')
+          .select('item_id, type')
+          .eq('user_id', recipient.user_id)
+          .gte('created_at', todayString);
+
+        if (existingError) {
+          console.error(`Error fetching today's notifications for ${recipient.user_id}:`, existingError);
+          continue;
+        }
+
+        const alreadySent = new Set((existing || []).map(n => `${n.type}:${n.item_id}`));
+
+        for (const notification of pending) {
+          if (alreadySent.has(`${notification.notification_type}:${notification.item.id}`)) continue;
+          if (!isWithinReminderPeriod(notification, recipient.reminder_days)) continue;
+
+          const { item, ...details } = notification;
+          const { data, error } = await supabase.functions.invoke('send-notifications', {
+            body: {
+              user_id: recipient.user_id,
+              product: {
+                id: item.id,
+                name: item.name,
+                category: item.category || 'Uncategorized',
+                quantity: item.quantity || 0,
+                quantity_type: item.quantity_type || 'pieces',
+                amount: item.amount || 0,
+                expiry_date: item.expiry_date
+              },
+              ...details
+            }
+          });
+
+          if (error || !data?.success) {
+            console.error(`Failed to send ${notification.notification_type} notification for ${item.name}:`, error || data?.error);
+            failed++;
+          } else {
+            sent++;
+          }
+        }
+      }
+    }
+
+    console.log(`Scheduled notifications done: ${sent} sent, ${failed} failed`);
+
+    return new Response(JSON.stringify({
+      success: true,
+      sent,
+      failed
+    }), {
+      status: 200,
+      headers: { "Content-Type": "application/json", ...corsHeaders },
+    });
+
+  } catch (error) {
+    console.error("Error in scheduled notification check:", error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error instanceof Error ? error.message : 'Scheduled notification check failed'
+    }), {
+      status: 500,
+      headers: { "Content-Type": "application/json", ...corsHeaders },
+    });
+  }
+};
+
+// Pages are ordered by user_id, which is unique in both tables read this way,
+// so no row is skipped or read twice between pages
+async function fetchAll<T>(table: string, columns: string): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .order('user_id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+// Everything the household could be reminded about today. Expiring and
+// running-out items are narrowed to each user's reminder period afterwards.
+async function getHouseholdNotifications(householdId: string, today: Date, todayString: string): Promise<PendingNotification[]> {
+  const [itemsResult, forecastsResult, levelsResult] = await Promise.all([
+    supabase
+      .from('grocery_items')
+      .select('id, name, category, quantity, quantity_type, amount, expiry_date')
+      .eq('household_id', householdId),
+    supabase.rpc('get_household_run_out_forecasts', { _household_id: householdId }),
+    supabase.rpc('get_household_stock_levels', { _household_id: householdId }),
+  ]);
+
+  if (itemsResult.error) {
+    console.error(`Error fetching items for household ${householdId}:`, itemsResult.error);
+    return [];
+  }
+
+  const items = (itemsResult.data || []) as GroceryItem[];
+  const pending: PendingNotification[] = [];
+
+  for (const item of items) {
+    if (!item.expiry_date) continue;
+
+    if (item.expiry_date < todayString) {
+      pending.push({ item, notification_type: 'expired' });
+    } else {
+      const diffTime = new Date(item.expiry_date).getTime() - today.getTime();
+      pending.push({
+        item,
+        notification_type: 'expiring',
+        days_until_expiry: Math.max(0, Math.ceil(diffTime / (1000 * 60 * 60 * 24))),
+      });
+    }
+  }
+
+  if (forecastsResult.error) {
+    console.error(`Error fetching run-out forecasts for household ${householdId}:`, forecastsResult.error);
+  } else {
+    for (const forecast of (forecastsResult.data || []) as RunOutForecast[]) {
+      const item = items.find(i => i.id === forecast.grocery_item_id);
+      if (!item) continue;
+
+      pending.push({
+        item,
+        notification_type: 'running_out',
+        days_until_run_out: forecast.days_until_run_out,
+        predicted_run_out_date: forecast.predicted_run_out_date,
+      });
+    }
+  }
+
+  if (levelsResult.error) {
+    console.error(`Error fetching stock levels for household ${householdId}:`, levelsResult.error);
+  } else {
+    for (const level of (levelsResult.data || []) as StockLevel[]) {
+      const item = items.find(i => i.id === level.grocery_item_id);
+      if (!item || !level.is_low) continue;
+
+      pending.push({
+        item,
+        notification_type: 'low_stock',
+        min_quantity: level.min_quantity ?? undefined,
+        target_quantity: level.target_quantity ?? undefined,
+      });
+    }
+  }
+
+  return pending;
+}
+
+function isWithinReminderPeriod(notification: PendingNotification, reminderDays: number): boolean {
+  switch (notification.notification_type) {
+    case 'expiring':
+      return notification.days_until_expiry! <= reminderDays;
+    case 'running_out':
+      return notification.days_until_run_out! <= reminderDays;
+    default:
+      return true;
+  }
+}
+
+serve(handler);
@@ -1,5 +1,13 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.50.0";
+import {
+  authenticateDevice,
+  AuthenticatedDevice,
+  DeviceAuthFailure,
+  refreshDevice,
+  signDeviceSession,
+  verifyDeviceSession,
+} from "../_shared/device-auth.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -11,65 +19,87 @@ const supabase = createClient(
   Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
 );
 
+// Either the device's own credentials, or a session token to exchange for a
+// new one before or shortly after it expires
 interface DeviceAuthRequest {
-  device_id: string;
-  device_token: string;
-  user_id: string;
+  device_id?: string;
+  device_token?: string;
+  session_token?: string;
 }
 
+const FAILURE_MESSAGES: Record<DeviceAuthFailure, string> = {
+  invalid_credentials: "Invalid device credentials",
+  missing_session: "Missing session token",
+  invalid_session: "Invalid session token",
+  session_expired: "Session can no longer be refreshed. Authenticate with the device token.",
+  session_revoked: "Device token was rotated or revoked, or the device is deactivated. Authenticate with the device token.",
+};
+
+const unauthorized = (reason: DeviceAuthFailure) =>
+  new Response(JSON.stringify({
+    success: false,
+    error: FAILURE_MESSAGES[reason],
+    reason,
+  }), {
+    status: 401,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
 const handler = async (req: Request): Promise<Response> => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { device_id, device_token, user_id }: DeviceAuthRequest = await req.json();
-
-    // Validate required fields
-    if (!device_id || !device_token || !user_id) {
-      return new Response(JSON.stringify({ 
-        success: false,
-        error: "Missing required fields: device_id, device_token, user_id" 
-      }), {
-        status: 400,
-        headers: { "Content-Type": "application/json", ...corsHeaders },
-      });
-    }
+    const { device_id, device_token, session_token }: DeviceAuthRequest = await req.json();
+
+    let device: AuthenticatedDevice | null;
+
+    if (session_token) {
+      // Refresh: the session's signature is checked first, then the device is
+      // looked up so rotation, revocation and deactivation still apply
+      const session = await verifyDeviceSession(session_token);
+      if ("failure" in session) {
+        return unauthorized(session.failure);
+      }
+
+      device = await refreshDevice(supabase, session.claims);
+      if (!device) {
+        console.error("Device session refresh denied:", session.claims.device_id);
+        return unauthorized("session_revoked");
+      }
+    } else {
+      // Validate required fields
+      if (!device_id || !device_token) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: "Missing required fields: device_id, device_token (or session_token to refresh)"
+        }), {
+          status: 400,
+          headers: { "Content-Type": "application/json", ...corsHeaders },
+        });
+      }
 
-    // Verify device registration and token
-    const { data: device, error: deviceError } = await supabase
-      .from('device_registry')
-      .select('*')
-      .eq('device_id', device_id)
-      .eq('device_token', device_token)
-      .eq('user_id', user_id)
-      .eq('is_active', true)
-      .single();
-
-    if (deviceError || !device) {
-      console.error("Device authentication failed:", deviceError);
-      return new Response(JSON.stringify({ 
-        success: false,
-        error: "Invalid device credentials" 
-      }), {
-        status: 401,
-        headers: { "Content-Type": "application/json", ...corsHeaders },
-      });
+      // Verify device registration and token
+      device = await authenticateDevice(supabase, device_id, device_token);
+      if (!device) {
+        console.error("Device authentication failed:", device_id);
+        return unauthorized("invalid_credentials");
+      }
     }
 
-    // Update last seen timestamp
-    await supabase
-      .from('device_registry')
-      .update({ last_seen: new Date().toISOString() })
-      .eq('id', device.id);
+    const { token, claims } = await signDeviceSession(device);
 
-    console.log(`Device authenticated: ${device_id} for user: ${user_id}`);
+    console.log(`Device session issued: ${device.device_id} for user: ${device.user_id}`);
 
-    return new Response(JSON.stringify({ 
+    return new Response(JSON.stringify({
       success: true,
       device_id: device.device_id,
       device_name: device.device_name,
-      authenticated_at: new Date().toISOString()
+      session_token: token,
+      expires_in: claims.exp - claims.iat,
+      expires_at: new Date(claims.exp * 1000).toISOString(),
+      authenticated_at: new Date(claims.iat * 1000).toISOString()
     }), {
       status: 200,
       headers: { "Content-Type": "application/json", ...corsHeaders },
@@ -77,9 +107,9 @@ const handler = async (req: Request): Promise<Response> => {
 
   } catch (error) {
     console.error("Error in device authentication:", error);
-    return new Response(JSON.stringify({ 
+    return new Response(JSON.stringify({
       success: false,
-      error: error.message 
+      error: error.message
     }), {
       status: 500,
       headers: { "Content-Type": "application/json", ...corsHeaders },
@@ -87,4 +117,4 @@ const handler = async (req: Request): Promise<Response> => {
   }
 };
 
-serve(handler);
\ No newline at end of file
+serve(handler);
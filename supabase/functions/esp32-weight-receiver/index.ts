@@ -1,9 +1,104 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.50.0'
+import { verifyDeviceSession } from '../_shared/device-auth.ts'
+import { gtinToRetailBarcode, parseGs1 } from '../_shared/gs1.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-device-id',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-device-session',
+}
+
+// Readings per batch, and how far a buffered reading's time may be from
+// when it arrives
+const MAX_BATCH_SIZE = 500
+const MAX_READING_AGE_MS = 7 * 24 * 60 * 60 * 1000
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000
+
+// A reading as the device sends it, before validation
+interface IncomingReading {
+  barcode?: unknown
+  weight_value?: unknown
+  sequence?: unknown
+  recorded_at?: unknown
+  age_ms?: unknown
+}
+
+interface WeightReadingRow {
+  barcode: string
+  weight: number
+  unit: string
+  device_id: string
+  sequence_number: number | null
+  recorded_at: string
+}
+
+interface RejectedReading {
+  index: number
+  sequence: number | null
+  error: string
+}
+
+const isSequence = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isSafeInteger(value) && value >= 0
+
+// Validates one reading from the device. When it was taken is either
+// recorded_at, or age_ms before the request arrived for scales without a
+// clock; without either it is the arrival time.
+function toReadingRow(reading: IncomingReading | null, deviceId: string, receivedAt: number): { row: WeightReadingRow } | { error: string } {
+  const { barcode, weight_value, sequence, recorded_at, age_ms } = reading ?? {}
+
+  // Validate required fields
+  if (!barcode || weight_value === undefined || weight_value === null) {
+    return { error: 'Missing required fields: barcode, weight_value' }
+  }
+
+  // A GS1 code (GTIN plus lot, dates and so on) is stored under the retail
+  // barcode of its GTIN, which is what the pantry item was scanned with
+  const gtin = typeof barcode === 'string' ? parseGs1(barcode)?.gtin : null
+  const itemBarcode = gtin ? gtinToRetailBarcode(gtin) : barcode
+
+  // Validate barcode format (alphanumeric, hyphens allowed, max 50 chars)
+  if (typeof itemBarcode !== 'string' || !/^[A-Za-z0-9-]{1,50}$/.test(itemBarcode)) {
+    return { error: 'Invalid barcode format' }
+  }
+
+  // Validate weight_value - must be a valid number within reasonable range
+  const weight = typeof weight_value === 'number' ? weight_value : parseFloat(String(weight_value))
+  if (isNaN(weight) || !isFinite(weight) || weight < 0 || weight > 100000) {
+    return { error: 'Invalid weight value. Must be between 0 and 100000' }
+  }
+
+  if (sequence !== undefined && sequence !== null && !isSequence(sequence)) {
+    return { error: 'Invalid sequence. Must be a non-negative integer' }
+  }
+
+  let takenAt = receivedAt
+  if (recorded_at !== undefined && recorded_at !== null) {
+    takenAt = typeof recorded_at === 'string' ? Date.parse(recorded_at) : NaN
+  } else if (age_ms !== undefined && age_ms !== null) {
+    takenAt = typeof age_ms === 'number' && age_ms >= 0 ? receivedAt - age_ms : NaN
+  }
+
+  if (isNaN(takenAt)) {
+    return { error: 'Invalid recorded_at or age_ms' }
+  }
+  if (takenAt > receivedAt + MAX_CLOCK_SKEW_MS) {
+    return { error: 'Reading is timestamped in the future' }
+  }
+  if (takenAt < receivedAt - MAX_READING_AGE_MS) {
+    return { error: 'Reading is older than 7 days' }
+  }
+
+  return {
+    row: {
+      barcode: itemBarcode,
+      weight,
+      unit: 'g',
+      device_id: deviceId,
+      sequence_number: isSequence(sequence) ? sequence : null,
+      recorded_at: new Date(takenAt).toISOString(),
+    },
+  }
 }
 
 serve(async (req) => {
@@ -18,127 +113,41 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
 
-    const { barcode, weight_value, sensor_id, temperature, battery_level, signal_strength, user_id, device_token } = await req.json()
-    const deviceId = req.headers.get('x-device-id')
+    const body = await req.json()
+    const receivedAt = Date.now()
 
-    // Validate required fields
-    if (!barcode || weight_value === undefined || weight_value === null || !sensor_id || !user_id) {
-      return new Response(
-        JSON.stringify({ error: 'Missing required fields: barcode, weight_value, sensor_id, user_id' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+    // Readings are accepted only with a device session from esp32-device-auth,
+    // checked from its signature alone. The reason tells firmware whether to
+    // refresh the session or authenticate again.
+    const session = await verifyDeviceSession(req.headers.get('x-device-session') ?? body?.session_token)
 
-    // Validate barcode format (alphanumeric, hyphens allowed, max 50 chars)
-    if (typeof barcode !== 'string' || !/^[A-Za-z0-9-]{1,50}$/.test(barcode)) {
+    if ('failure' in session || session.expired) {
+      const reason = 'failure' in session ? session.failure : 'session_expired'
       return new Response(
-        JSON.stringify({ error: 'Invalid barcode format' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: 'Invalid device session', reason }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
 
-    // Validate sensor_id format (alphanumeric, underscores allowed, max 50 chars)
-    if (typeof sensor_id !== 'string' || !/^[A-Za-z0-9_]{1,50}$/.test(sensor_id)) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid sensor_id format' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+    const deviceId = session.claims.device_id
 
-    // Validate user_id is a valid UUID
-    if (typeof user_id !== 'string' || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(user_id)) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid user_id format' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+    if (Array.isArray(body?.readings)) {
+      return await ingestBatch(supabaseClient, body.readings, deviceId, receivedAt)
     }
 
-    // Validate weight_value - must be a valid number within reasonable range
-    const weight = parseFloat(weight_value)
-    if (isNaN(weight) || !isFinite(weight) || weight < 0 || weight > 100000) {
+    const result = toReadingRow(body, deviceId, receivedAt)
+    if ('error' in result) {
       return new Response(
-        JSON.stringify({ error: 'Invalid weight value. Must be between 0 and 100000' }),
+        JSON.stringify({ error: result.error }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
 
-    // Validate optional temperature (-50 to 100 Celsius)
-    let validatedTemperature: number | null = null
-    if (temperature !== undefined && temperature !== null) {
-      const temp = parseFloat(temperature)
-      if (isNaN(temp) || !isFinite(temp) || temp < -50 || temp > 100) {
-        return new Response(
-          JSON.stringify({ error: 'Invalid temperature value. Must be between -50 and 100' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
-      }
-      validatedTemperature = temp
-    }
-
-    // Validate optional battery_level (0 to 100 percent)
-    let validatedBatteryLevel: number | null = null
-    if (battery_level !== undefined && battery_level !== null) {
-      const battery = parseInt(battery_level)
-      if (isNaN(battery) || battery < 0 || battery > 100) {
-        return new Response(
-          JSON.stringify({ error: 'Invalid battery level. Must be between 0 and 100' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
-      }
-      validatedBatteryLevel = battery
-    }
-
-    // Validate optional signal_strength (-120 to 0 dBm)
-    let validatedSignalStrength: number | null = null
-    if (signal_strength !== undefined && signal_strength !== null) {
-      const signal = parseInt(signal_strength)
-      if (isNaN(signal) || signal < -120 || signal > 0) {
-        return new Response(
-          JSON.stringify({ error: 'Invalid signal strength. Must be between -120 and 0' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
-      }
-      validatedSignalStrength = signal
-    }
-
-    // Authenticate device if device_token and device_id are provided
-    if (device_token && deviceId) {
-      const { data: device, error: deviceError } = await supabaseClient
-        .from('device_registry')
-        .select('*')
-        .eq('device_id', deviceId)
-        .eq('device_token', device_token)
-        .eq('user_id', user_id)
-        .eq('is_active', true)
-        .single()
-
-      if (deviceError || !device) {
-        return new Response(
-          JSON.stringify({ error: 'Invalid device credentials' }),
-          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
-      }
-
-      // Update last seen timestamp
-      await supabaseClient
-        .from('device_registry')
-        .update({ last_seen: new Date().toISOString() })
-        .eq('id', device.id)
-    }
-
-    // Insert weight reading with validated data
-    const { data, error } = await supabaseClient
+    // Insert weight reading with validated data. A resent reading with a
+    // sequence number it already sent is ignored.
+    const { error } = await supabaseClient
       .from('weight_readings')
-      .insert({
-        barcode,
-        weight_value: weight,
-        weight_unit: 'grams',
-        sensor_id,
-        temperature: validatedTemperature,
-        battery_level: validatedBatteryLevel,
-        signal_strength: validatedSignalStrength,
-        user_id
-      })
+      .upsert(result.row, { onConflict: 'device_id,sequence_number', ignoreDuplicates: true })
 
     if (error) {
       console.error('Database error:', error)
@@ -160,4 +169,86 @@ serve(async (req) => {
       { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     )
   }
-})
\ No newline at end of file
+})
+
+// Stores a batch of buffered readings, each identified by its sequence
+// number. Batches may arrive out of order or be resent after a lost
+// response: readings already stored are reported as duplicates rather than
+// stored again. Invalid readings are rejected individually without failing
+// the rest, so firmware can drop every reading the response mentions and
+// resend the whole batch only when the request itself fails.
+async function ingestBatch(
+  supabaseClient: SupabaseClient,
+  readings: (IncomingReading | null)[],
+  deviceId: string,
+  receivedAt: number
+): Promise<Response> {
+  if (readings.length === 0 || readings.length > MAX_BATCH_SIZE) {
+    return new Response(
+      JSON.stringify({ error: `A batch must contain between 1 and ${MAX_BATCH_SIZE} readings` }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+
+  const rows: WeightReadingRow[] = []
+  const rejected: RejectedReading[] = []
+  const duplicates: number[] = []
+  const seen = new Set<number>()
+
+  readings.forEach((reading, index) => {
+    const sequence = reading?.sequence
+    if (!isSequence(sequence)) {
+      rejected.push({ index, sequence: null, error: 'Missing or invalid sequence. Must be a non-negative integer' })
+      return
+    }
+
+    if (seen.has(sequence)) {
+      duplicates.push(sequence)
+      return
+    }
+    seen.add(sequence)
+
+    const result = toReadingRow(reading, deviceId, receivedAt)
+    if ('error' in result) {
+      rejected.push({ index, sequence, error: result.error })
+    } else {
+      rows.push(result.row)
+    }
+  })
+
+  const accepted: number[] = []
+
+  if (rows.length > 0) {
+    // Stored in the order they were taken so the weight_readings trigger
+    // filters them in sequence
+    rows.sort((a, b) => a.recorded_at.localeCompare(b.recorded_at))
+
+    const { data, error } = await supabaseClient
+      .from('weight_readings')
+      .upsert(rows, { onConflict: 'device_id,sequence_number', ignoreDuplicates: true })
+      .select('sequence_number')
+
+    if (error) {
+      console.error('Database error:', error)
+      return new Response(
+        JSON.stringify({ error: 'Failed to save weight readings' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const stored = new Set((data ?? []).map(row => Number(row.sequence_number)))
+    for (const row of rows) {
+      const sequence = row.sequence_number as number
+      if (stored.has(sequence)) {
+        accepted.push(sequence)
+      } else {
+        duplicates.push(sequence)
+      }
+    }
+  }
+
+  return new Response(
+    JSON.stringify({ success: true, accepted, duplicates, rejected }),
+    { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.50.0";
 import { Resend } from "npm:resend@2.0.0";
+import { sendTrackedSms, SmsStatus } from "../_shared/sms.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -23,8 +24,12 @@ interface NotificationPayload {
     amount?: number;
     expiry_date?: string;
   };
-  notification_type: 'expiring' | 'expired' | 'product_added' | 'product_removed' | 'product_used';
+  notification_type: 'expiring' | 'expired' | 'product_added' | 'product_removed' | 'product_used' | 'running_out' | 'low_stock';
   days_until_expiry?: number;
+  days_until_run_out?: number;
+  predicted_run_out_date?: string;
+  min_quantity?: number;
+  target_quantity?: number;
 }
 
 const handler = async (req: Request): Promise<Response> => {
@@ -45,23 +50,32 @@ const handler = async (req: Request): Promise<Response> => {
       });
     }
 
-    // Create client with user's token to verify identity
-    const userClient = createClient(
-      Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_ANON_KEY")!,
-      { global: { headers: { Authorization: authHeader } } }
-    );
+    // The scheduled notification job calls in with the service role key and
+    // may notify any user
+    const isServiceCall = authHeader === `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`;
+    let callingUserId: string | null = null;
 
-    const { data: { user: callingUser }, error: authError } = await userClient.auth.getUser();
-    
-    if (authError || !callingUser) {
-      return new Response(JSON.stringify({ 
-        success: false,
-        error: "Unauthorized - invalid token" 
-      }), {
-        status: 401,
-        headers: { "Content-Type": "application/json", ...corsHeaders },
-      });
+    if (!isServiceCall) {
+      // Create client with user's token to verify identity
+      const userClient = createClient(
+        Deno.env.get("SUPABASE_URL")!,
+        Deno.env.get("SUPABASE_ANON_KEY")!,
+        { global: { headers: { Authorization: authHeader } } }
+      );
+
+      const { data: { user: callingUser }, error: authError } = await userClient.auth.getUser();
+      
+      if (authError || !callingUser) {
+        return new Response(JSON.stringify({ 
+          success: false,
+          error: "Unauthorized - invalid token" 
+        }), {
+          status: 401,
+          headers: { "Content-Type": "application/json", ...corsHeaders },
+        });
+      }
+
+      callingUserId = callingUser.id;
     }
 
     const payload: NotificationPayload = await req.json();
@@ -79,7 +93,7 @@ const handler = async (req: Request): Promise<Response> => {
     }
 
     // Verify caller owns the user_id in payload
-    if (payload.user_id !== callingUser.id) {
+    if (!isServiceCall && payload.user_id !== callingUserId) {
       return new Response(JSON.stringify({ 
         success: false,
         error: "Cannot send notifications for other users" 
@@ -133,13 +147,14 @@ const handler = async (req: Request): Promise<Response> => {
     const userPrefs = preferences || { 
       email_notifications: true, 
       phone_notifications: false, 
-      phone_number: null 
+      phone_number: null,
+      phone_verified_at: null
     };
 
     // Create notification record first
     const notification = await createNotificationRecord(payload);
 
-    const results: { email_sent: boolean; sms_sent: boolean; email_error?: string; sms_error?: string } = {
+    const results: { email_sent: boolean; sms_sent: boolean; email_error?: string; sms_error?: string; sms_status?: SmsStatus } = {
       email_sent: false,
       sms_sent: false
     };
@@ -179,48 +194,23 @@ const handler = async (req: Request): Promise<Response> => {
                       payload.days_until_expiry !== undefined && 
                       payload.days_until_expiry <= 1);
 
-    if (userPrefs.phone_notifications && userPrefs.phone_number && isUrgent) {
-      const twilioSid = Deno.env.get("TWILIO_ACCOUNT_SID");
-      const twilioToken = Deno.env.get("TWILIO_AUTH_TOKEN");
-      const twilioPhone = Deno.env.get("TWILIO_PHONE_NUMBER");
+    // Texts only go to numbers verified with a one-time code
+    if (userPrefs.phone_notifications && userPrefs.phone_number && userPrefs.phone_verified_at && isUrgent) {
+      console.log(`Sending SMS to: ${userPrefs.phone_number}`);
 
-      if (twilioSid && twilioToken && twilioPhone) {
-        try {
-          console.log(`Sending SMS to: ${userPrefs.phone_number}`);
-          
-          const smsBody = getSMSBody(payload);
-          
-          const twilioResponse = await fetch(
-            `https://api.twilio.com/2010-04-01/Accounts/${twilioSid}/Messages.json`,
-            {
-              method: 'POST',
-              headers: {
-                'Authorization': `Basic ${btoa(`${twilioSid}:${twilioToken}`)}`,
-                'Content-Type': 'application/x-www-form-urlencoded',
-              },
-              body: new URLSearchParams({
-                To: userPrefs.phone_number,
-                From: twilioPhone,
-                Body: smsBody,
-              }),
-            }
-          );
-
-          const smsResult = await twilioResponse.json();
-
-          if (twilioResponse.ok) {
-            console.log("SMS sent successfully:", smsResult.sid);
-            results.sms_sent = true;
-          } else {
-            console.error("SMS sending failed:", smsResult);
-            results.sms_error = smsResult.message || 'SMS failed';
-          }
-        } catch (smsError: any) {
-          console.error("SMS error:", smsError);
-          results.sms_error = smsError.message;
-        }
-      } else {
-        console.log("Twilio credentials not configured");
+      const smsResult = await sendTrackedSms(supabase, {
+        userId: payload.user_id,
+        to: userPrefs.phone_number,
+        body: getSMSBody(payload),
+        purpose: 'notification',
+        notificationId: notification?.id,
+      });
+
+      results.sms_sent = smsResult.sent;
+      results.sms_status = smsResult.status;
+      if (smsResult.error) {
+        console.error("SMS sending failed:", smsResult.error);
+        results.sms_error = smsResult.error;
       }
     }
 
@@ -290,13 +280,17 @@ function getNotificationTitle(payload: NotificationPayload): string {
       return "🗑️ Product Removed from Pantry";
     case 'product_used':
       return "🍽️ Product Used";
+    case 'running_out':
+      return payload.days_until_run_out === 0 ? "🛒 Product Runs Out Today!" : "🛒 Product Running Low";
+    case 'low_stock':
+      return "📉 Product Below Minimum Stock";
     default:
       return "📦 Pantry Update";
   }
 }
 
 function getNotificationMessage(payload: NotificationPayload): string {
-  const { product, days_until_expiry } = payload;
+  const { product, days_until_expiry, days_until_run_out } = payload;
   
   switch (payload.notification_type) {
     case 'expiring':
@@ -317,6 +311,20 @@ function getNotificationMessage(payload: NotificationPayload): string {
     case 'product_used':
       return `${product.name} has been marked as used`;
     
+    case 'running_out':
+      if (days_until_run_out === 0) {
+        return `At your current rate of use, ${product.name} runs out today. Time to restock!`;
+      } else if (days_until_run_out === 1) {
+        return `At your current rate of use, ${product.name} runs out tomorrow. Time to restock!`;
+      }
+      return `At your current rate of use, ${product.name} runs out in about ${days_until_run_out} days.`;
+    
+    case 'low_stock':
+      if (payload.min_quantity !== undefined) {
+        return `Only ${product.quantity ?? 0} ${product.quantity_type || 'units'} of ${product.name} left, at or below your minimum of ${payload.min_quantity}.`;
+      }
+      return `Only ${product.quantity ?? 0} ${product.quantity_type || 'units'} of ${product.name} left, below your target of ${payload.target_quantity}.`;
+    
     default:
       return `Update for ${product.name}`;
   }
@@ -337,6 +345,12 @@ function getSMSBody(payload: NotificationPayload): string {
     case 'expired':
       return `❌ ${product.name} has EXPIRED and should be discarded. - Smart Pantry`;
     
+    case 'running_out':
+      return `🛒 ${product.name} is running low and should be restocked soon. - Smart Pantry`;
+    
+    case 'low_stock':
+      return `📉 ${product.name} is down to ${product.quantity ?? 0} ${product.quantity_type || 'units'}. Add it to your shopping list. - Smart Pantry`;
+    
     default:
       return `📦 Smart Pantry: Update for ${product.name}`;
   }
@@ -365,6 +379,10 @@ function getEmailHTML(userName: string, payload: NotificationPayload): string {
         return '<span style="background: #ef4444; color: white; padding: 4px 12px; border-radius: 20px; font-size: 12px; font-weight: bold;">REMOVED</span>';
       case 'product_used':
         return '<span style="background: #8b5cf6; color: white; padding: 4px 12px; border-radius: 20px; font-size: 12px; font-weight: bold;">USED</span>';
+      case 'running_out':
+        return '<span style="background: #f59e0b; color: white; padding: 4px 12px; border-radius: 20px; font-size: 12px; font-weight: bold;">RUNNING LOW</span>';
+      case 'low_stock':
+        return '<span style="background: #d97706; color: white; padding: 4px 12px; border-radius: 20px; font-size: 12px; font-weight: bold;">LOW STOCK</span>';
       default:
         return '';
     }
@@ -404,6 +422,7 @@ function getEmailHTML(userName: string, payload: NotificationPayload): string {
                 ${product.quantity ? `<tr><td style="color: #64748b; padding: 5px 0;">Quantity:</td><td style="font-weight: 500;">${product.quantity} ${product.quantity_type || ''}</td></tr>` : ''}
                 ${product.amount ? `<tr><td style="color: #64748b; padding: 5px 0;">Value:</td><td style="font-weight: 500;">₹${product.amount}</td></tr>` : ''}
                 ${product.expiry_date ? `<tr><td style="color: #64748b; padding: 5px 0;">Expiry:</td><td style="font-weight: 500;">${new Date(product.expiry_date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' })}</td></tr>` : ''}
+                ${payload.predicted_run_out_date ? `<tr><td style="color: #64748b; padding: 5px 0;">Runs out:</td><td style="font-weight: 500;">${new Date(payload.predicted_run_out_date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' })}</td></tr>` : ''}
               </table>
             </div>
             ` : ''}
@@ -0,0 +1,73 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.50.0";
+import { SMS_STATUS_CALLBACK_PATH, toSmsStatus } from "../_shared/sms.ts";
+
+// Delivery status callbacks from Twilio. Each callback is checked against
+// the X-Twilio-Signature header before its sms_deliveries row is updated.
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+);
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method !== "POST") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  try {
+    const authToken = Deno.env.get("TWILIO_AUTH_TOKEN");
+    if (!authToken) {
+      console.error("TWILIO_AUTH_TOKEN not configured");
+      return new Response("Not configured", { status: 503 });
+    }
+
+    const params = Object.fromEntries(new URLSearchParams(await req.text()));
+    const callbackUrl = `${Deno.env.get("SUPABASE_URL")}${SMS_STATUS_CALLBACK_PATH}`;
+    const expected = await twilioSignature(authToken, callbackUrl, params);
+
+    if (req.headers.get('X-Twilio-Signature') !== expected) {
+      return new Response("Invalid signature", { status: 403 });
+    }
+
+    const messageId = params.MessageSid;
+    if (!messageId) {
+      return new Response("Missing MessageSid", { status: 400 });
+    }
+
+    const status = toSmsStatus(params.MessageStatus);
+    const { error } = await supabase
+      .from('sms_deliveries')
+      .update({
+        status,
+        error: params.ErrorCode ? `Twilio error ${params.ErrorCode}` : null,
+      })
+      .eq('provider', 'twilio')
+      .eq('provider_message_id', messageId);
+
+    if (error) throw error;
+
+    console.log(`SMS ${messageId} is now ${status}`);
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error("Error handling SMS status callback:", error);
+    return new Response("Error", { status: 500 });
+  }
+};
+
+// HMAC-SHA1 of the URL followed by each parameter name and value, sorted by
+// name, as described in Twilio's webhook security docs
+async function twilioSignature(authToken: string, url: string, params: Record<string, string>): Promise<string> {
+  const data = url + Object.keys(params).sort().map(key => key + params[key]).join('');
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(authToken),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(data));
+  return btoa(String.fromCharCode(...new Uint8Array(signature)));
+}
+
+serve(handler);
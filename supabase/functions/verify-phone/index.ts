@@ -0,0 +1,191 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.50.0";
+import { sendTrackedSms } from "../_shared/sms.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+);
+
+const CODE_TTL_MINUTES = 10;
+const MAX_ATTEMPTS = 5;
+const PHONE_REGEX = /^\+[1-9]\d{6,14}$/;
+
+type VerifyPhoneRequest =
+  | { action: 'send'; phone_number: string }
+  | { action: 'confirm'; code: string };
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: "Unauthorized - missing authorization header" }, 401);
+    }
+
+    const userClient = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_ANON_KEY")!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await userClient.auth.getUser();
+    if (authError || !user) {
+      return jsonResponse({ success: false, error: "Unauthorized - invalid token" }, 401);
+    }
+
+    const request: VerifyPhoneRequest = await req.json();
+
+    if (request.action === 'send') {
+      return await sendCode(user.id, request.phone_number);
+    }
+    if (request.action === 'confirm') {
+      return await confirmCode(user.id, request.code);
+    }
+
+    return jsonResponse({ success: false, error: "Unknown action" }, 400);
+  } catch (error) {
+    console.error("Error in phone verification:", error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Phone verification failed'
+    }, 500);
+  }
+};
+
+async function sendCode(userId: string, phoneNumber: string | undefined): Promise<Response> {
+  const phone = (phoneNumber || '').replace(/\s/g, '');
+  if (!PHONE_REGEX.test(phone)) {
+    return jsonResponse({ success: false, error: "Enter a phone number with country code, e.g. +911234567890" }, 400);
+  }
+
+  const code = generateCode();
+
+  // A new code replaces any earlier one that was not used
+  await supabase
+    .from('phone_verifications')
+    .delete()
+    .eq('user_id', userId)
+    .is('verified_at', null);
+
+  const { error: insertError } = await supabase
+    .from('phone_verifications')
+    .insert({
+      user_id: userId,
+      phone_number: phone,
+      code_hash: await hashCode(userId, code),
+      expires_at: new Date(Date.now() + CODE_TTL_MINUTES * 60 * 1000).toISOString(),
+    });
+
+  if (insertError) {
+    console.error("Error storing verification code:", insertError);
+    return jsonResponse({ success: false, error: "Could not start verification" }, 500);
+  }
+
+  const result = await sendTrackedSms(supabase, {
+    userId,
+    to: phone,
+    body: `Your Smart Pantry verification code is ${code}. It expires in ${CODE_TTL_MINUTES} minutes.`,
+    purpose: 'verification',
+  });
+
+  if (!result.sent) {
+    return jsonResponse({
+      success: false,
+      status: result.status,
+      error: result.error || "Could not send the verification code"
+    }, result.status === 'rate_limited' ? 429 : 502);
+  }
+
+  return jsonResponse({ success: true, status: result.status });
+}
+
+async function confirmCode(userId: string, code: string | undefined): Promise<Response> {
+  const { data: verification, error } = await supabase
+    .from('phone_verifications')
+    .select('*')
+    .eq('user_id', userId)
+    .is('verified_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!verification) {
+    return jsonResponse({ success: false, error: "The code has expired. Request a new one." }, 400);
+  }
+
+  // Every guess is counted before it is checked, in one conditional update,
+  // so parallel requests cannot get more than MAX_ATTEMPTS guesses
+  const { data: claimed, error: claimError } = await supabase
+    .rpc('claim_phone_verification_attempt', { _verification_id: verification.id, _max_attempts: MAX_ATTEMPTS })
+    .maybeSingle();
+
+  if (claimError) throw claimError;
+
+  if (!claimed) {
+    return jsonResponse({ success: false, error: "Too many wrong codes. Request a new one." }, 429);
+  }
+
+  if (!code || await hashCode(userId, code.trim()) !== claimed.code_hash) {
+    return jsonResponse({ success: false, error: "That code is not correct" }, 400);
+  }
+
+  const verifiedAt = new Date().toISOString();
+
+  // Only one request can use the code
+  const { data: used, error: useError } = await supabase
+    .from('phone_verifications')
+    .update({ verified_at: verifiedAt })
+    .eq('id', claimed.id)
+    .is('verified_at', null)
+    .select('id')
+    .maybeSingle();
+
+  if (useError) throw useError;
+
+  if (!used) {
+    return jsonResponse({ success: false, error: "The code has already been used. Request a new one." }, 400);
+  }
+
+  const { error: prefsError } = await supabase
+    .from('user_notification_preferences')
+    .upsert({
+      user_id: userId,
+      phone_number: claimed.phone_number,
+      phone_verified_at: verifiedAt,
+      updated_at: verifiedAt,
+    }, { onConflict: 'user_id' });
+
+  if (prefsError) throw prefsError;
+
+  return jsonResponse({ success: true, phone_number: claimed.phone_number, phone_verified_at: verifiedAt });
+}
+
+function generateCode(): string {
+  const value = crypto.getRandomValues(new Uint32Array(1))[0] % 1_000_000;
+  return value.toString().padStart(6, '0');
+}
+
+async function hashCode(userId: string, code: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${userId}:${code}`));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+serve(handler);
@@ -0,0 +1,400 @@
+-- Households: several users sharing one pantry
+CREATE TABLE public.households (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL DEFAULT 'My Pantry',
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Each user belongs to exactly one household at a time
+CREATE TABLE public.household_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  household_id UUID REFERENCES public.households(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Invitations are addressed by email so they can be sent before the invitee signs up
+CREATE TABLE public.household_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  household_id UUID REFERENCES public.households(id) ON DELETE CASCADE NOT NULL,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'revoked')),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT (now() + INTERVAL '7 days'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_household_members_household_id ON public.household_members(household_id);
+CREATE INDEX idx_household_invitations_email ON public.household_invitations(lower(email));
+CREATE UNIQUE INDEX idx_household_invitations_pending ON public.household_invitations(household_id, lower(email)) WHERE status = 'pending';
+
+CREATE TRIGGER update_households_updated_at BEFORE UPDATE ON public.households FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER update_household_invitations_updated_at BEFORE UPDATE ON public.household_invitations FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Membership helpers (SECURITY DEFINER so policies on household_members do not recurse)
+CREATE OR REPLACE FUNCTION public.current_household_id(_user_id UUID DEFAULT auth.uid())
+RETURNS UUID
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT household_id FROM public.household_members WHERE user_id = _user_id
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_household_member(_household_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.household_members
+    WHERE household_id = _household_id AND user_id = auth.uid()
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_household_owner(_household_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.household_members
+    WHERE household_id = _household_id AND user_id = auth.uid() AND role = 'owner'
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_invited_to_household(_household_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.household_invitations
+    WHERE household_id = _household_id
+      AND status = 'pending'
+      AND lower(email) = lower(auth.jwt() ->> 'email')
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_personal_household(_user_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  new_household_id UUID;
+BEGIN
+  INSERT INTO public.households (name, created_by)
+  VALUES ('My Pantry', _user_id)
+  RETURNING id INTO new_household_id;
+
+  INSERT INTO public.household_members (household_id, user_id, role)
+  VALUES (new_household_id, _user_id, 'owner');
+
+  RETURN new_household_id;
+END;
+$$;
+
+-- Removes a user from their household. When they were the last member the
+-- household's pantry data is handed to _target_household_id (if given) and the
+-- empty household is deleted; otherwise the data stays with the remaining members.
+CREATE OR REPLACE FUNCTION public.detach_household_member(_user_id UUID, _target_household_id UUID DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  old_household_id UUID;
+  remaining_members INTEGER;
+BEGIN
+  old_household_id := public.current_household_id(_user_id);
+  IF old_household_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM public.household_members WHERE user_id = _user_id;
+
+  SELECT count(*) INTO remaining_members FROM public.household_members WHERE household_id = old_household_id;
+
+  IF remaining_members = 0 THEN
+    IF _target_household_id IS NOT NULL THEN
+      UPDATE public.grocery_items SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.waste_items SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.device_registry SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.notifications SET household_id = _target_household_id WHERE household_id = old_household_id;
+    END IF;
+    DELETE FROM public.households WHERE id = old_household_id;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.household_members WHERE household_id = old_household_id AND role = 'owner'
+  ) THEN
+    -- Never leave a shared household without an owner
+    UPDATE public.household_members SET role = 'owner'
+    WHERE id = (
+      SELECT id FROM public.household_members
+      WHERE household_id = old_household_id
+      ORDER BY joined_at
+      LIMIT 1
+    );
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.accept_household_invitation(_invitation_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  invitation RECORD;
+BEGIN
+  SELECT * INTO invitation FROM public.household_invitations
+  WHERE id = _invitation_id
+    AND status = 'pending'
+    AND lower(email) = lower(auth.jwt() ->> 'email');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  IF invitation.expires_at < now() THEN
+    RAISE EXCEPTION 'Invitation has expired';
+  END IF;
+
+  IF public.current_household_id(auth.uid()) = invitation.household_id THEN
+    RAISE EXCEPTION 'You are already a member of this household';
+  END IF;
+
+  PERFORM public.detach_household_member(auth.uid(), invitation.household_id);
+
+  INSERT INTO public.household_members (household_id, user_id, role)
+  VALUES (invitation.household_id, auth.uid(), invitation.role);
+
+  UPDATE public.household_invitations SET status = 'accepted' WHERE id = invitation.id;
+
+  RETURN invitation.household_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.decline_household_invitation(_invitation_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.household_invitations SET status = 'declined'
+  WHERE id = _invitation_id
+    AND status = 'pending'
+    AND lower(email) = lower(auth.jwt() ->> 'email');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.leave_household()
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  old_household_id UUID;
+BEGIN
+  old_household_id := public.current_household_id(auth.uid());
+
+  IF (SELECT count(*) FROM public.household_members WHERE household_id = old_household_id) <= 1 THEN
+    RAISE EXCEPTION 'You are the only member of this household';
+  END IF;
+
+  PERFORM public.detach_household_member(auth.uid());
+  RETURN public.create_personal_household(auth.uid());
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.remove_household_member(_member_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  member_household_id UUID;
+BEGIN
+  member_household_id := public.current_household_id(_member_user_id);
+
+  IF _member_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Use leave_household to leave your own household';
+  END IF;
+
+  IF member_household_id IS NULL OR NOT public.is_household_owner(member_household_id) THEN
+    RAISE EXCEPTION 'Only household owners can remove members';
+  END IF;
+
+  PERFORM public.detach_household_member(_member_user_id);
+  PERFORM public.create_personal_household(_member_user_id);
+END;
+$$;
+
+-- Internal helpers must not be callable through the API
+REVOKE EXECUTE ON FUNCTION public.create_personal_household(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.detach_household_member(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Every new user starts with a personal household
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.profiles (user_id, email, full_name)
+  VALUES (NEW.id, NEW.email, NEW.raw_user_meta_data->>'full_name');
+  PERFORM public.create_personal_household(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Backfill a personal household for existing users
+DO $$
+DECLARE
+  existing_user RECORD;
+BEGIN
+  FOR existing_user IN
+    SELECT id FROM auth.users WHERE id NOT IN (SELECT user_id FROM public.household_members)
+  LOOP
+    PERFORM public.create_personal_household(existing_user.id);
+  END LOOP;
+END $$;
+
+-- Scope pantry data to households
+ALTER TABLE public.grocery_items ADD COLUMN household_id UUID REFERENCES public.households(id) ON DELETE CASCADE;
+ALTER TABLE public.waste_items ADD COLUMN household_id UUID REFERENCES public.households(id) ON DELETE CASCADE;
+ALTER TABLE public.device_registry ADD COLUMN household_id UUID REFERENCES public.households(id) ON DELETE CASCADE;
+ALTER TABLE public.notifications ADD COLUMN household_id UUID REFERENCES public.households(id) ON DELETE CASCADE;
+
+UPDATE public.grocery_items SET household_id = public.current_household_id(user_id) WHERE household_id IS NULL;
+UPDATE public.waste_items SET household_id = public.current_household_id(user_id) WHERE household_id IS NULL;
+UPDATE public.device_registry SET household_id = public.current_household_id(user_id) WHERE household_id IS NULL;
+UPDATE public.notifications SET household_id = public.current_household_id(user_id) WHERE household_id IS NULL;
+
+CREATE INDEX idx_grocery_items_household_id ON public.grocery_items(household_id);
+CREATE INDEX idx_waste_items_household_id ON public.waste_items(household_id);
+CREATE INDEX idx_device_registry_household_id ON public.device_registry(household_id);
+CREATE INDEX idx_notifications_household_id ON public.notifications(household_id);
+
+-- Default household_id from the inserting user's membership so rows written by
+-- edge functions and older clients land in the right household
+CREATE OR REPLACE FUNCTION public.set_household_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.household_id IS NULL THEN
+    NEW.household_id := public.current_household_id(NEW.user_id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER set_grocery_items_household_id BEFORE INSERT ON public.grocery_items FOR EACH ROW EXECUTE FUNCTION public.set_household_id();
+CREATE TRIGGER set_waste_items_household_id BEFORE INSERT ON public.waste_items FOR EACH ROW EXECUTE FUNCTION public.set_household_id();
+CREATE TRIGGER set_device_registry_household_id BEFORE INSERT ON public.device_registry FOR EACH ROW EXECUTE FUNCTION public.set_household_id();
+CREATE TRIGGER set_notifications_household_id BEFORE INSERT ON public.notifications FOR EACH ROW EXECUTE FUNCTION public.set_household_id();
+
+-- Enable RLS on household tables
+ALTER TABLE public.households ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.household_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.household_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Households policies
+CREATE POLICY "Members and invitees can view households" ON public.households FOR SELECT USING (public.is_household_member(id) OR public.is_invited_to_household(id));
+CREATE POLICY "Owners can update households" ON public.households FOR UPDATE USING (public.is_household_owner(id));
+
+-- Household members policies (joining and leaving go through the functions above)
+CREATE POLICY "Members can view household members" ON public.household_members FOR SELECT USING (public.is_household_member(household_id));
+CREATE POLICY "Owners can update household members" ON public.household_members FOR UPDATE USING (public.is_household_owner(household_id));
+
+-- Household invitations policies
+CREATE POLICY "Members and invitees can view invitations" ON public.household_invitations FOR SELECT USING (public.is_household_member(household_id) OR lower(email) = lower(auth.jwt() ->> 'email'));
+CREATE POLICY "Owners can create invitations" ON public.household_invitations FOR INSERT WITH CHECK (public.is_household_owner(household_id) AND invited_by = auth.uid());
+CREATE POLICY "Owners can update invitations" ON public.household_invitations FOR UPDATE USING (public.is_household_owner(household_id));
+CREATE POLICY "Owners can delete invitations" ON public.household_invitations FOR DELETE USING (public.is_household_owner(household_id));
+
+-- Members can see each other's names and emails
+CREATE POLICY "Household members can view each other's profiles" ON public.profiles FOR SELECT USING (user_id IN (SELECT user_id FROM public.household_members WHERE household_id = public.current_household_id()));
+
+-- Grocery items policies
+DROP POLICY IF EXISTS "Users can view own grocery items" ON public.grocery_items;
+DROP POLICY IF EXISTS "Users can insert own grocery items" ON public.grocery_items;
+DROP POLICY IF EXISTS "Users can update own grocery items" ON public.grocery_items;
+DROP POLICY IF EXISTS "Users can delete own grocery items" ON public.grocery_items;
+
+CREATE POLICY "Household members can view grocery items" ON public.grocery_items FOR SELECT USING (public.is_household_member(household_id));
+CREATE POLICY "Household members can insert grocery items" ON public.grocery_items FOR INSERT WITH CHECK (auth.uid() = user_id AND public.is_household_member(household_id));
+CREATE POLICY "Household members can update grocery items" ON public.grocery_items FOR UPDATE USING (public.is_household_member(household_id));
+CREATE POLICY "Household members can delete grocery items" ON public.grocery_items FOR DELETE USING (public.is_household_member(household_id));
+
+-- Waste items policies
+DROP POLICY IF EXISTS "Users can view own waste items" ON public.waste_items;
+DROP POLICY IF EXISTS "Users can insert own waste items" ON public.waste_items;
+DROP POLICY IF EXISTS "Users can update own waste items" ON public.waste_items;
+DROP POLICY IF EXISTS "Users can delete own waste items" ON public.waste_items;
+
+CREATE POLICY "Household members can view waste items" ON public.waste_items FOR SELECT USING (public.is_household_member(household_id));
+CREATE POLICY "Household members can insert waste items" ON public.waste_items FOR INSERT WITH CHECK (auth.uid() = user_id AND public.is_household_member(household_id));
+CREATE POLICY "Household members can update waste items" ON public.waste_items FOR UPDATE USING (public.is_household_member(household_id));
+CREATE POLICY "Household members can delete waste items" ON public.waste_items FOR DELETE USING (public.is_household_member(household_id));
+
+-- Device registry policies (only the device owner or a household owner may remove a device)
+DROP POLICY IF EXISTS "Users can view own devices" ON public.device_registry;
+DROP POLICY IF EXISTS "Users can insert own devices" ON public.device_registry;
+DROP POLICY IF EXISTS "Users can update own devices" ON public.device_registry;
+DROP POLICY IF EXISTS "Users can delete own devices" ON public.device_registry;
+
+CREATE POLICY "Household members can view devices" ON public.device_registry FOR SELECT USING (public.is_household_member(household_id));
+CREATE POLICY "Household members can insert devices" ON public.device_registry FOR INSERT WITH CHECK (auth.uid() = user_id AND public.is_household_member(household_id));
+CREATE POLICY "Household members can update devices" ON public.device_registry FOR UPDATE USING (public.is_household_member(household_id));
+CREATE POLICY "Device or household owners can delete devices" ON public.device_registry FOR DELETE USING (auth.uid() = user_id OR public.is_household_owner(household_id));
+
+-- Notifications policies
+DROP POLICY IF EXISTS "Users can view own notifications" ON public.notifications;
+DROP POLICY IF EXISTS "Users can insert own notifications" ON public.notifications;
+DROP POLICY IF EXISTS "Users can update own notifications" ON public.notifications;
+DROP POLICY IF EXISTS "Users can delete own notifications" ON public.notifications;
+
+CREATE POLICY "Household members can view notifications" ON public.notifications FOR SELECT USING (public.is_household_member(household_id));
+CREATE POLICY "Household members can insert notifications" ON public.notifications FOR INSERT WITH CHECK (auth.uid() = user_id AND public.is_household_member(household_id));
+CREATE POLICY "Household members can update notifications" ON public.notifications FOR UPDATE USING (public.is_household_member(household_id));
+CREATE POLICY "Household members can delete notifications" ON public.notifications FOR DELETE USING (public.is_household_member(household_id));
+
+-- Weight readings follow device visibility
+DROP POLICY IF EXISTS "Users can view weight readings from their devices" ON public.weight_readings;
+DROP POLICY IF EXISTS "Users can update their device readings" ON public.weight_readings;
+DROP POLICY IF EXISTS "Users can delete their device readings" ON public.weight_readings;
+
+CREATE POLICY "Users can view weight readings from their devices"
+ON public.weight_readings FOR SELECT
+USING (
+  device_id IN (
+    SELECT device_id FROM public.device_registry WHERE public.is_household_member(household_id)
+  )
+);
+
+CREATE POLICY "Users can update their device readings"
+ON public.weight_readings FOR UPDATE
+USING (
+  device_id IN (
+    SELECT device_id FROM public.device_registry WHERE public.is_household_member(household_id)
+  )
+);
+
+CREATE POLICY "Users can delete their device readings"
+ON public.weight_readings FOR DELETE
+USING (
+  device_id IN (
+    SELECT device_id FROM public.device_registry WHERE public.is_household_member(household_id)
+  )
+);
+
+-- Broadcast pantry changes to every household member
+ALTER TABLE public.grocery_items REPLICA IDENTITY FULL;
+ALTER TABLE public.waste_items REPLICA IDENTITY FULL;
+ALTER TABLE public.notifications REPLICA IDENTITY FULL;
+ALTER TABLE public.household_members REPLICA IDENTITY FULL;
+DO $$
+DECLARE
+  table_name TEXT;
+BEGIN
+  FOREACH table_name IN ARRAY ARRAY['grocery_items', 'waste_items', 'notifications', 'household_members']
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = table_name
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', table_name);
+    END IF;
+  END LOOP;
+END $$;
@@ -0,0 +1,136 @@
+-- Storage locations: where an item physically lives inside a household
+CREATE TABLE public.storage_locations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  household_id UUID REFERENCES public.households(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  location_type TEXT NOT NULL DEFAULT 'shelf' CHECK (location_type IN ('fridge', 'freezer', 'pantry', 'shelf')),
+  -- Days added to (or taken off) a product's default shelf life when stored here
+  expiry_offset_days INTEGER NOT NULL DEFAULT 0 CHECK (expiry_offset_days BETWEEN -365 AND 730),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (household_id, name)
+);
+
+ALTER TABLE public.grocery_items ADD COLUMN storage_location_id UUID REFERENCES public.storage_locations(id) ON DELETE SET NULL;
+
+-- Append-only history of items moving between locations
+CREATE TABLE public.storage_location_moves (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  grocery_item_id UUID REFERENCES public.grocery_items(id) ON DELETE CASCADE NOT NULL,
+  household_id UUID REFERENCES public.households(id) ON DELETE CASCADE NOT NULL,
+  from_location_id UUID REFERENCES public.storage_locations(id) ON DELETE SET NULL,
+  to_location_id UUID REFERENCES public.storage_locations(id) ON DELETE SET NULL,
+  previous_expiry_date DATE,
+  new_expiry_date DATE,
+  moved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  moved_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_storage_locations_household_id ON public.storage_locations(household_id);
+CREATE INDEX idx_grocery_items_storage_location_id ON public.grocery_items(storage_location_id);
+CREATE INDEX idx_storage_location_moves_item ON public.storage_location_moves(grocery_item_id, moved_at DESC);
+
+CREATE TRIGGER update_storage_locations_updated_at BEFORE UPDATE ON public.storage_locations FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Every household starts with the common locations
+CREATE OR REPLACE FUNCTION public.create_default_storage_locations()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.storage_locations (household_id, name, location_type, expiry_offset_days, sort_order)
+  VALUES
+    (NEW.id, 'Fridge', 'fridge', 0, 0),
+    (NEW.id, 'Freezer', 'freezer', 90, 1),
+    (NEW.id, 'Pantry', 'pantry', 0, 2),
+    (NEW.id, 'Shelf', 'shelf', 0, 3);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER create_household_storage_locations AFTER INSERT ON public.households FOR EACH ROW EXECUTE FUNCTION public.create_default_storage_locations();
+
+INSERT INTO public.storage_locations (household_id, name, location_type, expiry_offset_days, sort_order)
+SELECT h.id, l.name, l.location_type, l.expiry_offset_days, l.sort_order
+FROM public.households h
+CROSS JOIN (VALUES
+  ('Fridge', 'fridge', 0, 0),
+  ('Freezer', 'freezer', 90, 1),
+  ('Pantry', 'pantry', 0, 2),
+  ('Shelf', 'shelf', 0, 3)
+) AS l(name, location_type, expiry_offset_days, sort_order)
+ON CONFLICT (household_id, name) DO NOTHING;
+
+-- Moves an item and shifts its expiry by the difference between the two
+-- locations' offsets. Moving to a location with a shorter shelf life never
+-- pushes the date into the past unless the item had already expired.
+CREATE OR REPLACE FUNCTION public.move_grocery_item(_item_id UUID, _location_id UUID)
+RETURNS DATE
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  item RECORD;
+  from_offset INTEGER := 0;
+  to_location RECORD;
+  new_expiry DATE;
+BEGIN
+  SELECT * INTO item FROM public.grocery_items WHERE id = _item_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.is_household_member(item.household_id) THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  SELECT * INTO to_location FROM public.storage_locations
+  WHERE id = _location_id AND household_id = item.household_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Storage location not found';
+  END IF;
+
+  IF item.storage_location_id IS NOT DISTINCT FROM _location_id THEN
+    RETURN item.expiry_date;
+  END IF;
+
+  IF item.storage_location_id IS NOT NULL THEN
+    SELECT expiry_offset_days INTO from_offset
+    FROM public.storage_locations WHERE id = item.storage_location_id;
+    from_offset := COALESCE(from_offset, 0);
+  END IF;
+
+  new_expiry := item.expiry_date + (to_location.expiry_offset_days - from_offset);
+  IF new_expiry IS NOT NULL AND new_expiry < item.expiry_date THEN
+    new_expiry := GREATEST(new_expiry, LEAST(item.expiry_date, CURRENT_DATE));
+  END IF;
+
+  UPDATE public.grocery_items
+  SET storage_location_id = _location_id, expiry_date = new_expiry, updated_at = now()
+  WHERE id = _item_id;
+
+  INSERT INTO public.storage_location_moves (grocery_item_id, household_id, from_location_id, to_location_id, previous_expiry_date, new_expiry_date, moved_by)
+  VALUES (_item_id, item.household_id, item.storage_location_id, _location_id, item.expiry_date, new_expiry, auth.uid());
+
+  RETURN new_expiry;
+END;
+$$;
+
+-- Row Level Security
+ALTER TABLE public.storage_locations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.storage_location_moves ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Household members can view storage locations" ON public.storage_locations FOR SELECT USING (public.is_household_member(household_id));
+CREATE POLICY "Household members can insert storage locations" ON public.storage_locations FOR INSERT WITH CHECK (public.is_household_member(household_id));
+CREATE POLICY "Household members can update storage locations" ON public.storage_locations FOR UPDATE USING (public.is_household_member(household_id));
+CREATE POLICY "Household members can delete storage locations" ON public.storage_locations FOR DELETE USING (public.is_household_member(household_id));
+
+-- Moves are only written through move_grocery_item
+CREATE POLICY "Household members can view storage moves" ON public.storage_location_moves FOR SELECT USING (public.is_household_member(household_id));
+
+ALTER TABLE public.storage_locations REPLICA IDENTITY FULL;
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'storage_locations'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.storage_locations;
+  END IF;
+END $$;
@@ -0,0 +1,214 @@
+-- Lots: one grocery item can hold several purchases, each with its own
+-- quantity, price and expiry. The item's quantity, amount and expiry_date
+-- are kept in sync as the total, total value and nearest expiry of its lots.
+CREATE TABLE public.grocery_item_lots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  grocery_item_id UUID REFERENCES public.grocery_items(id) ON DELETE CASCADE NOT NULL,
+  household_id UUID REFERENCES public.households(id) ON DELETE CASCADE NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity >= 0),
+  unit_price DECIMAL(12,4) NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+  purchase_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  expiry_date DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_grocery_item_lots_item ON public.grocery_item_lots(grocery_item_id, expiry_date);
+CREATE INDEX idx_grocery_item_lots_household_id ON public.grocery_item_lots(household_id);
+
+CREATE TRIGGER update_grocery_item_lots_updated_at BEFORE UPDATE ON public.grocery_item_lots FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Lots always belong to their item's household
+CREATE OR REPLACE FUNCTION public.set_lot_household_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT household_id INTO NEW.household_id FROM public.grocery_items WHERE id = NEW.grocery_item_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER set_grocery_item_lots_household_id BEFORE INSERT ON public.grocery_item_lots FOR EACH ROW EXECUTE FUNCTION public.set_lot_household_id();
+
+-- Recomputes an item's totals from its lots. The pantry.syncing_lots flag
+-- stops the grocery_items trigger below from treating this write as a user edit.
+CREATE OR REPLACE FUNCTION public.sync_grocery_item_from_lots(_item_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('pantry.syncing_lots', 'on', true);
+
+  UPDATE public.grocery_items g
+  SET quantity = COALESCE(l.total_quantity, 0),
+      amount = COALESCE(l.total_amount, 0),
+      -- Keep the last known expiry once every lot is used up
+      expiry_date = COALESCE(l.nearest_expiry, g.expiry_date)
+  FROM (
+    SELECT SUM(quantity) AS total_quantity,
+           ROUND(SUM(quantity * unit_price), 2) AS total_amount,
+           MIN(expiry_date) AS nearest_expiry
+    FROM public.grocery_item_lots
+    WHERE grocery_item_id = _item_id AND quantity > 0
+  ) l
+  WHERE g.id = _item_id;
+
+  PERFORM set_config('pantry.syncing_lots', 'off', true);
+END;
+$$;
+
+-- Takes _quantity from the item's lots, earliest expiry first. Emptied lots
+-- are removed. Returns how much was actually available to consume.
+CREATE OR REPLACE FUNCTION public.consume_grocery_item_lots(_item_id UUID, _quantity INTEGER)
+RETURNS INTEGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  lot RECORD;
+  remaining INTEGER := _quantity;
+  taken INTEGER;
+BEGIN
+  FOR lot IN
+    SELECT id, quantity FROM public.grocery_item_lots
+    WHERE grocery_item_id = _item_id AND quantity > 0
+    ORDER BY expiry_date NULLS LAST, purchase_date, created_at
+    FOR UPDATE
+  LOOP
+    EXIT WHEN remaining <= 0;
+    taken := LEAST(lot.quantity, remaining);
+
+    IF taken = lot.quantity THEN
+      DELETE FROM public.grocery_item_lots WHERE id = lot.id;
+    ELSE
+      UPDATE public.grocery_item_lots SET quantity = quantity - taken WHERE id = lot.id;
+    END IF;
+
+    remaining := remaining - taken;
+  END LOOP;
+
+  RETURN _quantity - remaining;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_grocery_item_lot_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.sync_grocery_item_from_lots(OLD.grocery_item_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM public.sync_grocery_item_from_lots(NEW.grocery_item_id);
+  IF TG_OP = 'UPDATE' AND OLD.grocery_item_id <> NEW.grocery_item_id THEN
+    PERFORM public.sync_grocery_item_from_lots(OLD.grocery_item_id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_grocery_item_lots AFTER INSERT OR UPDATE OR DELETE ON public.grocery_item_lots FOR EACH ROW EXECUTE FUNCTION public.handle_grocery_item_lot_change();
+
+-- New items start with a single lot holding everything that was added
+CREATE OR REPLACE FUNCTION public.create_initial_grocery_item_lot()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(NEW.quantity, 0) > 0 THEN
+    INSERT INTO public.grocery_item_lots (grocery_item_id, quantity, unit_price, purchase_date, expiry_date)
+    VALUES (NEW.id, NEW.quantity, COALESCE(NEW.amount, 0) / NEW.quantity, NEW.created_at::date, NEW.expiry_date);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER create_grocery_item_initial_lot AFTER INSERT ON public.grocery_items FOR EACH ROW EXECUTE FUNCTION public.create_initial_grocery_item_lot();
+
+-- Direct edits to an item's quantity, expiry or amount are applied to its lots:
+--   * a higher quantity adds a new lot with the edited expiry date
+--   * a lower quantity is consumed FIFO (earliest expiry first)
+--   * a changed expiry shifts every lot by the same number of days
+--   * a changed amount rescales the lots' unit prices to the new total
+CREATE OR REPLACE FUNCTION public.apply_grocery_item_edit_to_lots()
+RETURNS TRIGGER AS $$
+DECLARE
+  delta INTEGER := COALESCE(NEW.quantity, 0) - COALESCE(OLD.quantity, 0);
+  new_unit_price NUMERIC;
+  lots_value NUMERIC;
+  lots_quantity INTEGER;
+BEGIN
+  IF current_setting('pantry.syncing_lots', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.household_id IS DISTINCT FROM OLD.household_id THEN
+    UPDATE public.grocery_item_lots SET household_id = NEW.household_id WHERE grocery_item_id = NEW.id;
+  END IF;
+
+  IF delta > 0 THEN
+    IF NEW.amount IS DISTINCT FROM OLD.amount THEN
+      new_unit_price := GREATEST(COALESCE(NEW.amount, 0) - COALESCE(OLD.amount, 0), 0) / delta;
+    ELSE
+      new_unit_price := COALESCE(OLD.amount / NULLIF(OLD.quantity, 0), 0);
+    END IF;
+
+    INSERT INTO public.grocery_item_lots (grocery_item_id, quantity, unit_price, expiry_date)
+    VALUES (NEW.id, delta, new_unit_price, NEW.expiry_date);
+  ELSE
+    IF delta < 0 THEN
+      PERFORM public.consume_grocery_item_lots(NEW.id, -delta);
+    END IF;
+
+    IF NEW.expiry_date IS NOT NULL AND OLD.expiry_date IS NOT NULL AND NEW.expiry_date <> OLD.expiry_date THEN
+      UPDATE public.grocery_item_lots
+      SET expiry_date = expiry_date + (NEW.expiry_date - OLD.expiry_date)
+      WHERE grocery_item_id = NEW.id AND expiry_date IS NOT NULL;
+    END IF;
+
+    IF NEW.amount IS DISTINCT FROM OLD.amount THEN
+      SELECT SUM(quantity * unit_price), SUM(quantity) INTO lots_value, lots_quantity
+      FROM public.grocery_item_lots WHERE grocery_item_id = NEW.id;
+
+      IF lots_value > 0 THEN
+        UPDATE public.grocery_item_lots
+        SET unit_price = unit_price * (COALESCE(NEW.amount, 0) / lots_value)
+        WHERE grocery_item_id = NEW.id;
+      ELSIF lots_quantity > 0 THEN
+        UPDATE public.grocery_item_lots
+        SET unit_price = COALESCE(NEW.amount, 0) / lots_quantity
+        WHERE grocery_item_id = NEW.id;
+      END IF;
+    END IF;
+  END IF;
+
+  PERFORM public.sync_grocery_item_from_lots(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER apply_grocery_item_edit_to_lots AFTER UPDATE OF quantity, expiry_date, amount, household_id ON public.grocery_items FOR EACH ROW EXECUTE FUNCTION public.apply_grocery_item_edit_to_lots();
+
+REVOKE EXECUTE ON FUNCTION public.sync_grocery_item_from_lots(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.consume_grocery_item_lots(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Existing items become a single lot each
+INSERT INTO public.grocery_item_lots (grocery_item_id, household_id, quantity, unit_price, purchase_date, expiry_date)
+SELECT id, household_id, quantity, COALESCE(amount, 0) / quantity, created_at::date, expiry_date
+FROM public.grocery_items
+WHERE quantity > 0 AND household_id IS NOT NULL;
+
+-- Row Level Security
+ALTER TABLE public.grocery_item_lots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Household members can view lots" ON public.grocery_item_lots FOR SELECT USING (public.is_household_member(household_id));
+CREATE POLICY "Household members can insert lots" ON public.grocery_item_lots FOR INSERT WITH CHECK (public.is_household_member(household_id));
+CREATE POLICY "Household members can update lots" ON public.grocery_item_lots FOR UPDATE USING (public.is_household_member(household_id));
+CREATE POLICY "Household members can delete lots" ON public.grocery_item_lots FOR DELETE USING (public.is_household_member(household_id));
+
+ALTER TABLE public.grocery_item_lots REPLICA IDENTITY FULL;
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'grocery_item_lots'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.grocery_item_lots;
+  END IF;
+END $$;
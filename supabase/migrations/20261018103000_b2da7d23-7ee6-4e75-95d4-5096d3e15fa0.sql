@@ -0,0 +1,342 @@
+-- Inventory ledger: an append-only record of every change to an item's stock.
+-- Movements are applied to the item's lots as they are written, so the
+-- item's quantity always equals the sum of its movements.
+CREATE TABLE public.inventory_movements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  household_id UUID REFERENCES public.households(id) ON DELETE CASCADE NOT NULL,
+  -- Kept after the item is deleted so history and analytics survive
+  grocery_item_id UUID REFERENCES public.grocery_items(id) ON DELETE SET NULL,
+  item_name TEXT NOT NULL,
+  category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  movement_type TEXT NOT NULL CHECK (movement_type IN ('purchased', 'consumed', 'wasted', 'adjusted', 'weight_delta')),
+  quantity_delta INTEGER NOT NULL CHECK (quantity_delta <> 0),
+  value_delta DECIMAL(12,2) NOT NULL DEFAULT 0,
+  unit_price DECIMAL(12,4),
+  expiry_date DATE,
+  -- Which lots the movement added to or took from: [{lot_id, quantity, unit_price, purchase_date, expiry_date}]
+  lot_allocations JSONB NOT NULL DEFAULT '[]'::jsonb,
+  reason TEXT,
+  reverses_movement_id UUID UNIQUE REFERENCES public.inventory_movements(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_inventory_movements_household_created ON public.inventory_movements(household_id, created_at DESC);
+CREATE INDEX idx_inventory_movements_item ON public.inventory_movements(grocery_item_id, created_at DESC);
+
+-- Opening balance for existing stock, taken from its current lots. Written
+-- before the trigger below exists so the lots are not created twice.
+INSERT INTO public.inventory_movements (household_id, grocery_item_id, item_name, category_id, movement_type, quantity_delta, value_delta, lot_allocations, reason, created_by, created_at)
+SELECT g.household_id, g.id, g.name, g.category_id, 'purchased', SUM(l.quantity), ROUND(SUM(l.quantity * l.unit_price), 2),
+       jsonb_agg(jsonb_build_object(
+         'lot_id', l.id,
+         'quantity', l.quantity,
+         'unit_price', l.unit_price,
+         'purchase_date', l.purchase_date,
+         'expiry_date', l.expiry_date
+       )),
+       'Opening balance', g.user_id, g.created_at
+FROM public.grocery_items g
+JOIN public.grocery_item_lots l ON l.grocery_item_id = g.id
+WHERE l.quantity > 0
+GROUP BY g.id;
+
+-- FIFO consumption now reports which lots it took from, and can be pointed at
+-- specific lots first (used when undoing a purchase)
+DROP FUNCTION public.consume_grocery_item_lots(UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.consume_grocery_item_lots(_item_id UUID, _quantity INTEGER, _preferred_lot_ids UUID[] DEFAULT '{}')
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  lot RECORD;
+  remaining INTEGER := _quantity;
+  taken INTEGER;
+  allocations JSONB := '[]'::jsonb;
+BEGIN
+  FOR lot IN
+    SELECT * FROM public.grocery_item_lots
+    WHERE grocery_item_id = _item_id AND quantity > 0
+    ORDER BY (id = ANY(_preferred_lot_ids)) DESC, expiry_date NULLS LAST, purchase_date, created_at
+    FOR UPDATE
+  LOOP
+    EXIT WHEN remaining <= 0;
+    taken := LEAST(lot.quantity, remaining);
+
+    IF taken = lot.quantity THEN
+      DELETE FROM public.grocery_item_lots WHERE id = lot.id;
+    ELSE
+      UPDATE public.grocery_item_lots SET quantity = quantity - taken WHERE id = lot.id;
+    END IF;
+
+    allocations := allocations || jsonb_build_object(
+      'lot_id', lot.id,
+      'quantity', taken,
+      'unit_price', lot.unit_price,
+      'purchase_date', lot.purchase_date,
+      'expiry_date', lot.expiry_date
+    );
+    remaining := remaining - taken;
+  END LOOP;
+
+  RETURN allocations;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_grocery_item_lots(UUID, INTEGER, UUID[]) FROM PUBLIC, anon, authenticated;
+
+-- Applies a new movement to the item's lots and fills in the derived columns
+CREATE OR REPLACE FUNCTION public.apply_inventory_movement()
+RETURNS TRIGGER AS $$
+DECLARE
+  item RECORD;
+  original public.inventory_movements%ROWTYPE;
+  allocation JSONB;
+  new_lot_id UUID;
+  taken INTEGER := 0;
+BEGIN
+  SELECT * INTO item FROM public.grocery_items WHERE id = NEW.grocery_item_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  NEW.household_id := item.household_id;
+  NEW.item_name := item.name;
+  NEW.category_id := item.category_id;
+
+  IF NEW.reverses_movement_id IS NOT NULL THEN
+    SELECT * INTO original FROM public.inventory_movements WHERE id = NEW.reverses_movement_id;
+  ELSIF NEW.movement_type = 'purchased' AND NEW.quantity_delta < 0 THEN
+    RAISE EXCEPTION 'Purchases must add stock';
+  ELSIF NEW.movement_type IN ('consumed', 'wasted') AND NEW.quantity_delta > 0 THEN
+    RAISE EXCEPTION 'Consumption and waste must remove stock';
+  END IF;
+
+  IF NEW.quantity_delta > 0 THEN
+    IF original.id IS NOT NULL AND jsonb_array_length(original.lot_allocations) > 0 THEN
+      -- Undoing a removal puts the same lots back
+      NEW.lot_allocations := '[]'::jsonb;
+      NEW.value_delta := 0;
+      FOR allocation IN SELECT * FROM jsonb_array_elements(original.lot_allocations)
+      LOOP
+        INSERT INTO public.grocery_item_lots (grocery_item_id, quantity, unit_price, purchase_date, expiry_date)
+        VALUES (
+          NEW.grocery_item_id,
+          (allocation ->> 'quantity')::INTEGER,
+          (allocation ->> 'unit_price')::NUMERIC,
+          (allocation ->> 'purchase_date')::DATE,
+          (allocation ->> 'expiry_date')::DATE
+        )
+        RETURNING id INTO new_lot_id;
+
+        NEW.lot_allocations := NEW.lot_allocations || (allocation || jsonb_build_object('lot_id', new_lot_id));
+        NEW.value_delta := NEW.value_delta + (allocation ->> 'quantity')::INTEGER * (allocation ->> 'unit_price')::NUMERIC;
+      END LOOP;
+    ELSE
+      NEW.unit_price := COALESCE(NEW.unit_price, item.amount / NULLIF(item.quantity, 0), 0);
+      NEW.expiry_date := COALESCE(NEW.expiry_date, item.expiry_date);
+
+      INSERT INTO public.grocery_item_lots (grocery_item_id, quantity, unit_price, expiry_date)
+      VALUES (NEW.grocery_item_id, NEW.quantity_delta, NEW.unit_price, NEW.expiry_date)
+      RETURNING id INTO new_lot_id;
+
+      NEW.lot_allocations := jsonb_build_array(jsonb_build_object(
+        'lot_id', new_lot_id,
+        'quantity', NEW.quantity_delta,
+        'unit_price', NEW.unit_price,
+        'purchase_date', CURRENT_DATE,
+        'expiry_date', NEW.expiry_date
+      ));
+      NEW.value_delta := NEW.quantity_delta * NEW.unit_price;
+    END IF;
+  ELSE
+    NEW.lot_allocations := public.consume_grocery_item_lots(
+      NEW.grocery_item_id,
+      -NEW.quantity_delta,
+      -- Undoing a purchase takes back the lot it created where possible
+      CASE WHEN original.id IS NOT NULL
+        THEN ARRAY(SELECT (a ->> 'lot_id')::UUID FROM jsonb_array_elements(original.lot_allocations) a)
+        ELSE '{}'::UUID[]
+      END
+    );
+
+    SELECT COALESCE(SUM((a ->> 'quantity')::INTEGER), 0),
+           COALESCE(SUM((a ->> 'quantity')::INTEGER * (a ->> 'unit_price')::NUMERIC), 0)
+    INTO taken, NEW.value_delta
+    FROM jsonb_array_elements(NEW.lot_allocations) a;
+
+    IF taken = 0 THEN
+      RAISE EXCEPTION 'There is no stock left to remove';
+    END IF;
+
+    -- Only record what was actually there to take
+    NEW.quantity_delta := -taken;
+    NEW.value_delta := -NEW.value_delta;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER apply_inventory_movement BEFORE INSERT ON public.inventory_movements FOR EACH ROW EXECUTE FUNCTION public.apply_inventory_movement();
+
+-- Records a stock change. _quantity_delta is signed: positive adds stock,
+-- negative removes it (earliest-expiring lots first).
+CREATE OR REPLACE FUNCTION public.record_inventory_movement(
+  _item_id UUID,
+  _movement_type TEXT,
+  _quantity_delta INTEGER,
+  _reason TEXT DEFAULT NULL,
+  _unit_price NUMERIC DEFAULT NULL,
+  _expiry_date DATE DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  new_movement_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.grocery_items WHERE id = _item_id AND public.is_household_member(household_id)
+  ) THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  INSERT INTO public.inventory_movements (household_id, grocery_item_id, item_name, movement_type, quantity_delta, unit_price, expiry_date, reason, created_by)
+  VALUES (public.current_household_id(), _item_id, '', _movement_type, _quantity_delta, _unit_price, _expiry_date, _reason, auth.uid())
+  RETURNING id INTO new_movement_id;
+
+  RETURN new_movement_id;
+END;
+$$;
+
+-- Undo writes an opposite movement of the same type, so per-type totals net out
+CREATE OR REPLACE FUNCTION public.undo_inventory_movement(_movement_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  original RECORD;
+  new_movement_id UUID;
+BEGIN
+  SELECT * INTO original FROM public.inventory_movements
+  WHERE id = _movement_id AND public.is_household_member(household_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Movement not found';
+  END IF;
+
+  IF original.reverses_movement_id IS NOT NULL THEN
+    RAISE EXCEPTION 'An undo cannot itself be undone';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.inventory_movements WHERE reverses_movement_id = _movement_id) THEN
+    RAISE EXCEPTION 'This change has already been undone';
+  END IF;
+
+  IF original.grocery_item_id IS NULL THEN
+    RAISE EXCEPTION 'The item no longer exists';
+  END IF;
+
+  INSERT INTO public.inventory_movements (household_id, grocery_item_id, item_name, movement_type, quantity_delta, reason, reverses_movement_id, created_by)
+  VALUES (original.household_id, original.grocery_item_id, original.item_name, original.movement_type, -original.quantity_delta, 'Undo', _movement_id, auth.uid())
+  RETURNING id INTO new_movement_id;
+
+  RETURN new_movement_id;
+END;
+$$;
+
+-- New items are recorded as a purchase instead of creating their lot directly
+CREATE OR REPLACE FUNCTION public.create_initial_grocery_item_lot()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(NEW.quantity, 0) > 0 THEN
+    INSERT INTO public.inventory_movements (household_id, grocery_item_id, item_name, movement_type, quantity_delta, unit_price, expiry_date, created_by)
+    VALUES (NEW.household_id, NEW.id, NEW.name, 'purchased', NEW.quantity, COALESCE(NEW.amount, 0) / NEW.quantity, NEW.expiry_date, auth.uid());
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Direct quantity edits are recorded as adjustments; expiry and price edits
+-- still go straight to the lots since they do not change stock
+CREATE OR REPLACE FUNCTION public.apply_grocery_item_edit_to_lots()
+RETURNS TRIGGER AS $$
+DECLARE
+  delta INTEGER := COALESCE(NEW.quantity, 0) - COALESCE(OLD.quantity, 0);
+  new_unit_price NUMERIC;
+  lots_value NUMERIC;
+  lots_quantity INTEGER;
+BEGIN
+  IF current_setting('pantry.syncing_lots', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.household_id IS DISTINCT FROM OLD.household_id THEN
+    UPDATE public.grocery_item_lots SET household_id = NEW.household_id WHERE grocery_item_id = NEW.id;
+  END IF;
+
+  IF delta > 0 THEN
+    IF NEW.amount IS DISTINCT FROM OLD.amount THEN
+      new_unit_price := GREATEST(COALESCE(NEW.amount, 0) - COALESCE(OLD.amount, 0), 0) / delta;
+    ELSE
+      new_unit_price := COALESCE(OLD.amount / NULLIF(OLD.quantity, 0), 0);
+    END IF;
+
+    INSERT INTO public.inventory_movements (household_id, grocery_item_id, item_name, movement_type, quantity_delta, unit_price, expiry_date, created_by)
+    VALUES (NEW.household_id, NEW.id, NEW.name, 'adjusted', delta, new_unit_price, NEW.expiry_date, auth.uid());
+  ELSE
+    IF delta < 0 THEN
+      INSERT INTO public.inventory_movements (household_id, grocery_item_id, item_name, movement_type, quantity_delta, created_by)
+      VALUES (NEW.household_id, NEW.id, NEW.name, 'adjusted', delta, auth.uid());
+    END IF;
+
+    IF NEW.expiry_date IS NOT NULL AND OLD.expiry_date IS NOT NULL AND NEW.expiry_date <> OLD.expiry_date THEN
+      UPDATE public.grocery_item_lots
+      SET expiry_date = expiry_date + (NEW.expiry_date - OLD.expiry_date)
+      WHERE grocery_item_id = NEW.id AND expiry_date IS NOT NULL;
+    END IF;
+
+    IF NEW.amount IS DISTINCT FROM OLD.amount THEN
+      SELECT SUM(quantity * unit_price), SUM(quantity) INTO lots_value, lots_quantity
+      FROM public.grocery_item_lots WHERE grocery_item_id = NEW.id;
+
+      IF lots_value > 0 THEN
+        UPDATE public.grocery_item_lots
+        SET unit_price = unit_price * (COALESCE(NEW.amount, 0) / lots_value)
+        WHERE grocery_item_id = NEW.id;
+      ELSIF lots_quantity > 0 THEN
+        UPDATE public.grocery_item_lots
+        SET unit_price = COALESCE(NEW.amount, 0) / lots_quantity
+        WHERE grocery_item_id = NEW.id;
+      END IF;
+    END IF;
+  END IF;
+
+  PERFORM public.sync_grocery_item_from_lots(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Lots now change only through the ledger
+DROP POLICY IF EXISTS "Household members can insert lots" ON public.grocery_item_lots;
+DROP POLICY IF EXISTS "Household members can update lots" ON public.grocery_item_lots;
+DROP POLICY IF EXISTS "Household members can delete lots" ON public.grocery_item_lots;
+
+-- Row Level Security: the ledger is read-only to clients and written through
+-- record_inventory_movement / undo_inventory_movement
+ALTER TABLE public.inventory_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Household members can view inventory movements" ON public.inventory_movements FOR SELECT USING (public.is_household_member(household_id));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'inventory_movements'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.inventory_movements;
+  END IF;
+END $$;
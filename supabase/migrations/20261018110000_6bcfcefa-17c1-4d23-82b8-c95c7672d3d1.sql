@@ -0,0 +1,170 @@
+-- Analytics aggregation for EnhancedAnalytics, computed in the database so
+-- the client does not re-derive everything on every realtime event.
+
+CREATE INDEX IF NOT EXISTS idx_waste_items_household_wasted_at ON public.waste_items(household_id, wasted_at);
+
+-- Purchases, usage and waste per period for the caller's household.
+-- Purchases and usage come from the inventory ledger (existing items were
+-- given an opening-balance purchase dated at their created_at, and later
+-- lots are included). Wasted quantities come from waste_items.wasted_at and
+-- their value from the matching ledger entries.
+CREATE OR REPLACE FUNCTION public.get_inventory_trends(
+  _granularity TEXT DEFAULT 'month',
+  _start_date DATE DEFAULT NULL,
+  _end_date DATE DEFAULT NULL
+)
+RETURNS TABLE (
+  period_start DATE,
+  items_purchased INTEGER,
+  value_purchased NUMERIC,
+  items_used INTEGER,
+  value_used NUMERIC,
+  items_wasted INTEGER,
+  value_wasted NUMERIC
+)
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  household UUID := public.current_household_id();
+  step INTERVAL;
+  range_end DATE := COALESCE(_end_date, CURRENT_DATE);
+  range_start DATE;
+BEGIN
+  IF _granularity NOT IN ('week', 'month', 'quarter', 'year') THEN
+    RAISE EXCEPTION 'Unsupported granularity: %', _granularity;
+  END IF;
+
+  step := CASE _granularity
+    WHEN 'week' THEN INTERVAL '1 week'
+    WHEN 'month' THEN INTERVAL '1 month'
+    WHEN 'quarter' THEN INTERVAL '3 months'
+    ELSE INTERVAL '1 year'
+  END;
+
+  -- Default to the last six periods
+  range_start := COALESCE(_start_date, (date_trunc(_granularity, range_end::timestamp) - step * 5)::date);
+
+  IF range_start > range_end THEN
+    RAISE EXCEPTION 'Start date must be on or before end date';
+  END IF;
+
+  IF range_end - range_start > 3660 THEN
+    RAISE EXCEPTION 'Date range cannot be longer than 10 years';
+  END IF;
+
+  RETURN QUERY
+  WITH periods AS (
+    SELECT generate_series(
+      date_trunc(_granularity, range_start::timestamp),
+      date_trunc(_granularity, range_end::timestamp),
+      step
+    )::date AS period_start
+  ),
+  movements AS (
+    SELECT date_trunc(_granularity, m.created_at)::date AS period_start,
+           SUM(m.quantity_delta) FILTER (WHERE m.movement_type = 'purchased') AS items_purchased,
+           SUM(m.value_delta) FILTER (WHERE m.movement_type = 'purchased') AS value_purchased,
+           -SUM(m.quantity_delta) FILTER (WHERE m.movement_type = 'consumed') AS items_used,
+           -SUM(m.value_delta) FILTER (WHERE m.movement_type = 'consumed') AS value_used,
+           -SUM(m.value_delta) FILTER (WHERE m.movement_type = 'wasted') AS value_wasted
+    FROM public.inventory_movements m
+    WHERE m.household_id = household
+      AND m.created_at >= range_start
+      AND m.created_at < range_end + 1
+    GROUP BY 1
+  ),
+  waste AS (
+    SELECT date_trunc(_granularity, w.wasted_at)::date AS period_start,
+           SUM(COALESCE(w.quantity, 1)) AS items_wasted
+    FROM public.waste_items w
+    WHERE w.household_id = household
+      AND w.wasted_at >= range_start
+      AND w.wasted_at < range_end + 1
+    GROUP BY 1
+  )
+  SELECT p.period_start,
+         COALESCE(m.items_purchased, 0)::INTEGER,
+         COALESCE(m.value_purchased, 0)::NUMERIC,
+         COALESCE(m.items_used, 0)::INTEGER,
+         COALESCE(m.value_used, 0)::NUMERIC,
+         COALESCE(w.items_wasted, 0)::INTEGER,
+         COALESCE(m.value_wasted, 0)::NUMERIC
+  FROM periods p
+  LEFT JOIN movements m ON m.period_start = p.period_start
+  LEFT JOIN waste w ON w.period_start = p.period_start
+  ORDER BY p.period_start;
+END;
+$$;
+
+-- Snapshot of what is in the pantry right now: headline stats, per-category
+-- totals, expiry buckets and the most valuable items. Expired items only
+-- count towards the expiry buckets.
+CREATE OR REPLACE FUNCTION public.get_pantry_summary()
+RETURNS JSONB
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  WITH items AS (
+    SELECT g.id, g.name, g.quantity, COALESCE(g.amount, 0) AS amount, g.expiry_date, g.image_url,
+           COALESCE(c.name, 'Uncategorized') AS category,
+           g.expiry_date - CURRENT_DATE AS days_left
+    FROM public.grocery_items g
+    LEFT JOIN public.categories c ON c.id = g.category_id
+    WHERE g.household_id = public.current_household_id()
+  ),
+  active AS (
+    SELECT * FROM items WHERE expiry_date IS NULL OR expiry_date >= CURRENT_DATE
+  ),
+  buckets AS (
+    SELECT * FROM (VALUES
+      (0, 'Expired'), (1, '1-3 Days'), (2, '4-7 Days'), (3, '1-2 Weeks'), (4, '2+ Weeks')
+    ) AS b(position, time_range)
+  )
+  SELECT jsonb_build_object(
+    'total_items', (SELECT COUNT(*) FROM active),
+    'total_value', (SELECT COALESCE(SUM(amount), 0) FROM active),
+    'expiring_soon', (SELECT COUNT(*) FROM active WHERE days_left BETWEEN 0 AND 7),
+    'average_value', (SELECT COALESCE(AVG(amount), 0) FROM active),
+    'total_categories', (SELECT COUNT(DISTINCT category) FROM active),
+    'categories', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('name', category, 'count', count, 'total_value', total_value) ORDER BY category)
+      FROM (SELECT category, COUNT(*) AS count, SUM(amount) AS total_value FROM active GROUP BY category) c
+    ), '[]'::jsonb),
+    'expiry_buckets', (
+      SELECT jsonb_agg(jsonb_build_object('time_range', b.time_range, 'count', COALESCE(e.count, 0), 'value', COALESCE(e.value, 0)) ORDER BY b.position)
+      FROM buckets b
+      LEFT JOIN (
+        SELECT CASE
+                 WHEN days_left < 0 THEN 0
+                 WHEN days_left <= 3 THEN 1
+                 WHEN days_left <= 7 THEN 2
+                 WHEN days_left <= 14 THEN 3
+                 ELSE 4
+               END AS position,
+               COUNT(*) AS count,
+               SUM(amount) AS value
+        FROM items
+        WHERE expiry_date IS NOT NULL
+        GROUP BY 1
+      ) e ON e.position = b.position
+    ),
+    'top_products', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'name', name,
+        'category', category,
+        'quantity', COALESCE(quantity, 0),
+        'amount', amount,
+        'image_url', image_url,
+        -- How many times it has been used or wasted, ignoring undone entries
+        'frequency', (
+          SELECT COUNT(*) FROM public.inventory_movements m
+          WHERE m.grocery_item_id = t.id
+            AND m.movement_type IN ('consumed', 'wasted')
+            AND m.reverses_movement_id IS NULL
+            AND NOT EXISTS (SELECT 1 FROM public.inventory_movements u WHERE u.reverses_movement_id = m.id)
+        )
+      ) ORDER BY amount DESC)
+      FROM (SELECT * FROM active ORDER BY amount DESC LIMIT 10) t
+    ), '[]'::jsonb)
+  )
+$$;
@@ -0,0 +1,249 @@
+-- Household shopping list. Entries are added by hand, or automatically when
+-- an item drops below its par level or is forecast to run out soon.
+
+-- How many of an item the household wants to keep on hand
+ALTER TABLE public.grocery_items ADD COLUMN par_level INTEGER CHECK (par_level BETWEEN 0 AND 9999);
+
+CREATE TABLE public.shopping_list_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  household_id UUID REFERENCES public.households(id) ON DELETE CASCADE NOT NULL,
+  -- Kept as NULL once the pantry item is gone; name and barcode are enough to restock it
+  grocery_item_id UUID REFERENCES public.grocery_items(id) ON DELETE SET NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  barcode TEXT,
+  category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity BETWEEN 1 AND 9999),
+  quantity_type TEXT,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'par_level', 'forecast')),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'checked', 'dismissed')),
+  notes TEXT,
+  added_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  checked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  checked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_shopping_list_items_household_status ON public.shopping_list_items(household_id, status);
+CREATE UNIQUE INDEX idx_shopping_list_items_open_item ON public.shopping_list_items(grocery_item_id) WHERE status = 'open';
+
+CREATE TRIGGER update_shopping_list_items_updated_at BEFORE UPDATE ON public.shopping_list_items FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Adds an automatic entry, or raises the quantity of an open entry for the
+-- same item. Returns true when a new entry was created. A dismissed
+-- suggestion is not re-added until the item has been restocked.
+CREATE OR REPLACE FUNCTION public.queue_shopping_list_item(
+  _household_id UUID,
+  _grocery_item_id UUID,
+  _name TEXT,
+  _barcode TEXT,
+  _category_id UUID,
+  _quantity INTEGER,
+  _quantity_type TEXT,
+  _source TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  existing_id UUID;
+  last_restock TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RETURN false;
+  END IF;
+
+  SELECT id INTO existing_id
+  FROM public.shopping_list_items
+  WHERE household_id = _household_id
+    AND status = 'open'
+    AND (grocery_item_id = _grocery_item_id
+         OR (_barcode IS NOT NULL AND barcode = _barcode)
+         OR lower(name) = lower(_name))
+  LIMIT 1;
+
+  IF existing_id IS NOT NULL THEN
+    -- Never lower what someone already planned to buy
+    UPDATE public.shopping_list_items
+    SET quantity = LEAST(_quantity, 9999)
+    WHERE id = existing_id AND quantity < _quantity;
+    RETURN false;
+  END IF;
+
+  IF _grocery_item_id IS NOT NULL THEN
+    SELECT MAX(created_at) INTO last_restock
+    FROM public.inventory_movements
+    WHERE grocery_item_id = _grocery_item_id AND movement_type = 'purchased' AND quantity_delta > 0;
+
+    IF EXISTS (
+      SELECT 1 FROM public.shopping_list_items
+      WHERE grocery_item_id = _grocery_item_id
+        AND status = 'dismissed'
+        AND updated_at > COALESCE(last_restock, '-infinity')
+    ) THEN
+      RETURN false;
+    END IF;
+  END IF;
+
+  INSERT INTO public.shopping_list_items (household_id, grocery_item_id, name, barcode, category_id, quantity, quantity_type, source, added_by)
+  VALUES (_household_id, _grocery_item_id, _name, _barcode, _category_id, LEAST(_quantity, 9999), _quantity_type, _source, auth.uid());
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.queue_shopping_list_item(UUID, UUID, TEXT, TEXT, UUID, INTEGER, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Stock falling below par (including a par item being used up and removed)
+-- puts the shortfall on the list straight away
+CREATE OR REPLACE FUNCTION public.queue_grocery_item_below_par()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    -- Skip items removed because their household was deleted
+    IF OLD.par_level > 0 AND EXISTS (SELECT 1 FROM public.households WHERE id = OLD.household_id) THEN
+      PERFORM public.queue_shopping_list_item(OLD.household_id, NULL, OLD.name, OLD.barcode, OLD.category_id, OLD.par_level, OLD.quantity_type, 'par_level');
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF NEW.par_level IS NOT NULL AND COALESCE(NEW.quantity, 0) < NEW.par_level THEN
+    PERFORM public.queue_shopping_list_item(NEW.household_id, NEW.id, NEW.name, NEW.barcode, NEW.category_id, NEW.par_level - COALESCE(NEW.quantity, 0), NEW.quantity_type, 'par_level');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER queue_grocery_item_below_par AFTER INSERT OR UPDATE OF quantity, par_level ON public.grocery_items FOR EACH ROW EXECUTE FUNCTION public.queue_grocery_item_below_par();
+CREATE TRIGGER queue_deleted_grocery_item_below_par AFTER DELETE ON public.grocery_items FOR EACH ROW EXECUTE FUNCTION public.queue_grocery_item_below_par();
+
+-- Brings the caller's list up to date: withdraws automatic entries that no
+-- longer apply and adds items below par or forecast to run out within a
+-- week. Forecast entries without a par level ask for a week's worth at the
+-- current rate of use. Returns the number of entries added.
+CREATE OR REPLACE FUNCTION public.refresh_shopping_list()
+RETURNS INTEGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  household UUID := public.current_household_id();
+  soon UUID[];
+  suggestion RECORD;
+  added INTEGER := 0;
+BEGIN
+  IF household IS NULL THEN
+    RAISE EXCEPTION 'You are not a member of a household';
+  END IF;
+
+  SELECT COALESCE(array_agg(f.grocery_item_id), '{}') INTO soon
+  FROM public.get_run_out_forecasts() f
+  WHERE f.days_until_run_out <= 7;
+
+  DELETE FROM public.shopping_list_items s
+  USING public.grocery_items g
+  WHERE s.household_id = household
+    AND s.status = 'open'
+    AND g.id = s.grocery_item_id
+    AND ((s.source = 'par_level' AND (g.par_level IS NULL OR COALESCE(g.quantity, 0) >= g.par_level))
+         OR (s.source = 'forecast' AND g.id <> ALL (soon)));
+
+  FOR suggestion IN
+    SELECT g.id, g.name, g.barcode, g.category_id, g.quantity_type,
+           g.par_level - COALESCE(g.quantity, 0) AS shortfall,
+           'par_level' AS source
+    FROM public.grocery_items g
+    WHERE g.household_id = household
+      AND g.par_level IS NOT NULL
+      AND COALESCE(g.quantity, 0) < g.par_level
+    UNION ALL
+    SELECT g.id, g.name, g.barcode, g.category_id, g.quantity_type,
+           GREATEST(
+             COALESCE(g.par_level, 0) - COALESCE(g.quantity, 0),
+             CASE WHEN f.source = 'ledger' THEN CEIL(f.daily_rate * 7)::INTEGER ELSE 1 END,
+             1
+           ),
+           'forecast'
+    FROM public.get_run_out_forecasts() f
+    JOIN public.grocery_items g ON g.id = f.grocery_item_id
+    WHERE f.days_until_run_out <= 7
+  LOOP
+    IF public.queue_shopping_list_item(household, suggestion.id, suggestion.name, suggestion.barcode, suggestion.category_id,
+                                       suggestion.shortfall, suggestion.quantity_type, suggestion.source) THEN
+      added := added + 1;
+    END IF;
+  END LOOP;
+
+  RETURN added;
+END;
+$$;
+
+-- A member joining another household brings their list and pantry history
+-- along. Locations are merged by name; the rest are removed with the old
+-- household and their items become unassigned.
+CREATE OR REPLACE FUNCTION public.detach_household_member(_user_id UUID, _target_household_id UUID DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  old_household_id UUID;
+  remaining_members INTEGER;
+BEGIN
+  old_household_id := public.current_household_id(_user_id);
+  IF old_household_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM public.household_members WHERE user_id = _user_id;
+
+  SELECT count(*) INTO remaining_members FROM public.household_members WHERE household_id = old_household_id;
+
+  IF remaining_members = 0 THEN
+    IF _target_household_id IS NOT NULL THEN
+      UPDATE public.grocery_items g
+      SET storage_location_id = new_location.id
+      FROM public.storage_locations old_location
+      JOIN public.storage_locations new_location ON new_location.household_id = _target_household_id AND new_location.name = old_location.name
+      WHERE g.storage_location_id = old_location.id AND old_location.household_id = old_household_id;
+
+      UPDATE public.grocery_items SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.waste_items SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.device_registry SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.notifications SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.inventory_movements SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.storage_location_moves SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.shopping_list_items SET household_id = _target_household_id WHERE household_id = old_household_id;
+    END IF;
+    DELETE FROM public.households WHERE id = old_household_id;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.household_members WHERE household_id = old_household_id AND role = 'owner'
+  ) THEN
+    -- Never leave a shared household without an owner
+    UPDATE public.household_members SET role = 'owner'
+    WHERE id = (
+      SELECT id FROM public.household_members
+      WHERE household_id = old_household_id
+      ORDER BY joined_at
+      LIMIT 1
+    );
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.detach_household_member(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+ALTER TABLE public.shopping_list_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Household members can view shopping list" ON public.shopping_list_items FOR SELECT USING (public.is_household_member(household_id));
+CREATE POLICY "Household members can add to shopping list" ON public.shopping_list_items FOR INSERT WITH CHECK (public.is_household_member(household_id));
+CREATE POLICY "Household members can update shopping list" ON public.shopping_list_items FOR UPDATE USING (public.is_household_member(household_id));
+CREATE POLICY "Household members can delete from shopping list" ON public.shopping_list_items FOR DELETE USING (public.is_household_member(household_id));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'shopping_list_items'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.shopping_list_items;
+  END IF;
+END $$;
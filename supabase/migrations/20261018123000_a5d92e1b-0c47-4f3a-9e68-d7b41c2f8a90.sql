@@ -0,0 +1,247 @@
+-- Minimum and target stock levels. Items can set their own and fall back to
+-- a household-wide default for their category. An item is low once it is at
+-- or below its minimum (or below its target when it only has a target), and
+-- a reorder tops it back up to its target.
+
+ALTER TABLE public.grocery_items RENAME COLUMN par_level TO target_quantity;
+ALTER TABLE public.grocery_items RENAME CONSTRAINT grocery_items_par_level_check TO grocery_items_target_quantity_check;
+ALTER TABLE public.grocery_items ADD COLUMN min_quantity INTEGER CHECK (min_quantity BETWEEN 0 AND 9999);
+ALTER TABLE public.grocery_items ADD CONSTRAINT grocery_items_stock_levels_check
+  CHECK (min_quantity IS NULL OR target_quantity IS NULL OR target_quantity >= min_quantity);
+
+CREATE TABLE public.category_stock_levels (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  household_id UUID REFERENCES public.households(id) ON DELETE CASCADE NOT NULL,
+  category_id UUID REFERENCES public.categories(id) ON DELETE CASCADE NOT NULL,
+  min_quantity INTEGER CHECK (min_quantity BETWEEN 0 AND 9999),
+  target_quantity INTEGER CHECK (target_quantity BETWEEN 0 AND 9999),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (household_id, category_id),
+  CHECK (min_quantity IS NULL OR target_quantity IS NULL OR target_quantity >= min_quantity)
+);
+
+CREATE TRIGGER update_category_stock_levels_updated_at BEFORE UPDATE ON public.category_stock_levels FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Automatic shopping list entries are now raised by any low-stock rule
+ALTER TABLE public.shopping_list_items DROP CONSTRAINT shopping_list_items_source_check;
+UPDATE public.shopping_list_items SET source = 'low_stock' WHERE source = 'par_level';
+ALTER TABLE public.shopping_list_items ADD CONSTRAINT shopping_list_items_source_check CHECK (source IN ('manual', 'low_stock', 'forecast'));
+
+-- Effective levels for one item. Takes the row rather than an id so triggers
+-- can resolve the new or deleted version of an item.
+CREATE OR REPLACE FUNCTION public.get_item_stock_level(_item public.grocery_items)
+RETURNS TABLE (
+  min_quantity INTEGER,
+  target_quantity INTEGER,
+  is_low BOOLEAN,
+  reorder_quantity INTEGER
+)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  WITH levels AS (
+    SELECT COALESCE(_item.min_quantity, c.min_quantity) AS min_quantity,
+           COALESCE(_item.target_quantity, c.target_quantity) AS target_quantity,
+           COALESCE(_item.quantity, 0) AS quantity
+    FROM (SELECT 1) AS item
+    LEFT JOIN public.category_stock_levels c
+      ON c.household_id = _item.household_id AND c.category_id = _item.category_id
+  )
+  SELECT l.min_quantity,
+         l.target_quantity,
+         CASE
+           WHEN l.min_quantity IS NOT NULL THEN l.quantity <= l.min_quantity
+           WHEN l.target_quantity IS NOT NULL THEN l.quantity < l.target_quantity
+           ELSE false
+         END,
+         GREATEST(COALESCE(l.target_quantity, 0) - l.quantity, COALESCE(l.min_quantity + 1, 0) - l.quantity, 1)
+  FROM levels l;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_item_stock_level(public.grocery_items) FROM PUBLIC, anon, authenticated;
+
+-- Levels for every item of the caller's household that has any
+CREATE OR REPLACE FUNCTION public.get_stock_levels()
+RETURNS TABLE (
+  grocery_item_id UUID,
+  quantity INTEGER,
+  min_quantity INTEGER,
+  target_quantity INTEGER,
+  is_low BOOLEAN,
+  reorder_quantity INTEGER
+)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT g.id, COALESCE(g.quantity, 0), l.min_quantity, l.target_quantity, l.is_low, l.reorder_quantity
+  FROM public.grocery_items g
+  CROSS JOIN LATERAL public.get_item_stock_level(g) l
+  WHERE g.household_id = public.current_household_id()
+    AND (l.min_quantity IS NOT NULL OR l.target_quantity IS NOT NULL);
+$$;
+
+DROP TRIGGER IF EXISTS queue_grocery_item_below_par ON public.grocery_items;
+DROP TRIGGER IF EXISTS queue_deleted_grocery_item_below_par ON public.grocery_items;
+DROP FUNCTION IF EXISTS public.queue_grocery_item_below_par();
+
+-- Low stock goes on the shopping list straight away. An item with its own
+-- levels that is used up and removed is put back on at its target.
+CREATE OR REPLACE FUNCTION public.queue_low_stock_grocery_item()
+RETURNS TRIGGER AS $$
+DECLARE
+  level RECORD;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    -- Skip items removed because their household was deleted
+    IF (OLD.min_quantity IS NOT NULL OR OLD.target_quantity IS NOT NULL)
+       AND EXISTS (SELECT 1 FROM public.households WHERE id = OLD.household_id) THEN
+      PERFORM public.queue_shopping_list_item(OLD.household_id, NULL, OLD.name, OLD.barcode, OLD.category_id,
+                                              GREATEST(COALESCE(OLD.target_quantity, 0), COALESCE(OLD.min_quantity + 1, 0), 1),
+                                              OLD.quantity_type, 'low_stock');
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  SELECT * INTO level FROM public.get_item_stock_level(NEW);
+  IF level.is_low THEN
+    PERFORM public.queue_shopping_list_item(NEW.household_id, NEW.id, NEW.name, NEW.barcode, NEW.category_id,
+                                            level.reorder_quantity, NEW.quantity_type, 'low_stock');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER queue_low_stock_grocery_item AFTER INSERT OR UPDATE OF quantity, min_quantity, target_quantity, category_id ON public.grocery_items FOR EACH ROW EXECUTE FUNCTION public.queue_low_stock_grocery_item();
+CREATE TRIGGER queue_deleted_low_stock_grocery_item AFTER DELETE ON public.grocery_items FOR EACH ROW EXECUTE FUNCTION public.queue_low_stock_grocery_item();
+
+-- Same as before, with low stock resolved through the item and category levels
+CREATE OR REPLACE FUNCTION public.refresh_shopping_list()
+RETURNS INTEGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  household UUID := public.current_household_id();
+  soon UUID[];
+  suggestion RECORD;
+  added INTEGER := 0;
+BEGIN
+  IF household IS NULL THEN
+    RAISE EXCEPTION 'You are not a member of a household';
+  END IF;
+
+  SELECT COALESCE(array_agg(f.grocery_item_id), '{}') INTO soon
+  FROM public.get_run_out_forecasts() f
+  WHERE f.days_until_run_out <= 7;
+
+  DELETE FROM public.shopping_list_items s
+  USING public.grocery_items g
+  WHERE s.household_id = household
+    AND s.status = 'open'
+    AND g.id = s.grocery_item_id
+    AND ((s.source = 'low_stock' AND NOT (SELECT l.is_low FROM public.get_item_stock_level(g) l))
+         OR (s.source = 'forecast' AND g.id <> ALL (soon)));
+
+  FOR suggestion IN
+    SELECT g.id, g.name, g.barcode, g.category_id, g.quantity_type,
+           l.reorder_quantity AS shortfall,
+           'low_stock' AS source
+    FROM public.grocery_items g
+    CROSS JOIN LATERAL public.get_item_stock_level(g) l
+    WHERE g.household_id = household
+      AND l.is_low
+    UNION ALL
+    SELECT g.id, g.name, g.barcode, g.category_id, g.quantity_type,
+           GREATEST(
+             COALESCE(g.target_quantity, 0) - COALESCE(g.quantity, 0),
+             CASE WHEN f.source = 'ledger' THEN CEIL(f.daily_rate * 7)::INTEGER ELSE 1 END,
+             1
+           ),
+           'forecast'
+    FROM public.get_run_out_forecasts() f
+    JOIN public.grocery_items g ON g.id = f.grocery_item_id
+    WHERE f.days_until_run_out <= 7
+  LOOP
+    IF public.queue_shopping_list_item(household, suggestion.id, suggestion.name, suggestion.barcode, suggestion.category_id,
+                                       suggestion.shortfall, suggestion.quantity_type, suggestion.source) THEN
+      added := added + 1;
+    END IF;
+  END LOOP;
+
+  RETURN added;
+END;
+$$;
+
+-- Category defaults move with the household's items
+CREATE OR REPLACE FUNCTION public.detach_household_member(_user_id UUID, _target_household_id UUID DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  old_household_id UUID;
+  remaining_members INTEGER;
+BEGIN
+  old_household_id := public.current_household_id(_user_id);
+  IF old_household_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM public.household_members WHERE user_id = _user_id;
+
+  SELECT count(*) INTO remaining_members FROM public.household_members WHERE household_id = old_household_id;
+
+  IF remaining_members = 0 THEN
+    IF _target_household_id IS NOT NULL THEN
+      UPDATE public.grocery_items g
+      SET storage_location_id = new_location.id
+      FROM public.storage_locations old_location
+      JOIN public.storage_locations new_location ON new_location.household_id = _target_household_id AND new_location.name = old_location.name
+      WHERE g.storage_location_id = old_location.id AND old_location.household_id = old_household_id;
+
+      UPDATE public.grocery_items SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.waste_items SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.device_registry SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.notifications SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.inventory_movements SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.storage_location_moves SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.shopping_list_items SET household_id = _target_household_id WHERE household_id = old_household_id;
+      -- The target household's own category defaults win over the merged ones
+      UPDATE public.category_stock_levels c SET household_id = _target_household_id
+      WHERE c.household_id = old_household_id
+        AND NOT EXISTS (
+          SELECT 1 FROM public.category_stock_levels t
+          WHERE t.household_id = _target_household_id AND t.category_id = c.category_id
+        );
+    END IF;
+    DELETE FROM public.households WHERE id = old_household_id;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.household_members WHERE household_id = old_household_id AND role = 'owner'
+  ) THEN
+    -- Never leave a shared household without an owner
+    UPDATE public.household_members SET role = 'owner'
+    WHERE id = (
+      SELECT id FROM public.household_members
+      WHERE household_id = old_household_id
+      ORDER BY joined_at
+      LIMIT 1
+    );
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.detach_household_member(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+ALTER TABLE public.category_stock_levels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Household members can view category stock levels" ON public.category_stock_levels FOR SELECT USING (public.is_household_member(household_id));
+CREATE POLICY "Household members can insert category stock levels" ON public.category_stock_levels FOR INSERT WITH CHECK (public.is_household_member(household_id));
+CREATE POLICY "Household members can update category stock levels" ON public.category_stock_levels FOR UPDATE USING (public.is_household_member(household_id));
+CREATE POLICY "Household members can delete category stock levels" ON public.category_stock_levels FOR DELETE USING (public.is_household_member(household_id));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'category_stock_levels'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.category_stock_levels;
+  END IF;
+END $$;
@@ -0,0 +1,171 @@
+-- Scheduled notifications: expiry, run-out and low-stock reminders are sent
+-- by the check-expiry-notifications edge function on a schedule instead of
+-- from open browser tabs.
+
+-- Run-out forecasts for any household, for the scheduled job. The client
+-- function keeps answering for the caller's household only.
+CREATE OR REPLACE FUNCTION public.get_household_run_out_forecasts(_household_id UUID)
+RETURNS TABLE (
+  grocery_item_id UUID,
+  source TEXT,
+  daily_rate NUMERIC,
+  rate_unit TEXT,
+  sample_count INTEGER,
+  days_until_run_out INTEGER,
+  predicted_run_out_date DATE
+)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  WITH items AS (
+    SELECT g.id, g.barcode, g.quantity, COALESCE(g.quantity_type, 'units') AS quantity_type,
+           GREATEST(1, EXTRACT(EPOCH FROM now() - GREATEST(g.created_at, now() - INTERVAL '60 days')) / 86400) AS observed_days
+    FROM public.grocery_items g
+    WHERE g.household_id = _household_id
+      AND COALESCE(g.quantity, 0) > 0
+  ),
+  readings AS (
+    SELECT w.barcode, w.weight, w.unit, w.recorded_at,
+           COALESCE(w.weight > LAG(w.weight) OVER (PARTITION BY w.barcode ORDER BY w.recorded_at) * 1.05, false) AS is_refill
+    FROM public.weight_readings w
+    WHERE w.recorded_at >= now() - INTERVAL '60 days'
+      AND w.barcode IN (SELECT barcode FROM items WHERE barcode IS NOT NULL)
+      AND w.device_id IN (SELECT d.device_id FROM public.device_registry d WHERE d.household_id = _household_id)
+  ),
+  since_refill AS (
+    SELECT r.*,
+           MAX(r.recorded_at) FILTER (WHERE r.is_refill) OVER (PARTITION BY r.barcode) AS refilled_at
+    FROM readings r
+  ),
+  weight_fit AS (
+    SELECT s.barcode,
+           (-regr_slope(s.weight, EXTRACT(EPOCH FROM s.recorded_at) / 86400))::NUMERIC AS daily_rate,
+           (array_agg(s.weight ORDER BY s.recorded_at DESC))[1] AS latest_weight,
+           (array_agg(COALESCE(s.unit, 'g') ORDER BY s.recorded_at DESC))[1] AS unit,
+           MAX(s.recorded_at) AS latest_at,
+           COUNT(*)::INTEGER AS sample_count
+    FROM since_refill s
+    WHERE s.refilled_at IS NULL OR s.recorded_at >= s.refilled_at
+    GROUP BY s.barcode
+    HAVING COUNT(*) >= 3 AND MAX(s.recorded_at) - MIN(s.recorded_at) >= INTERVAL '1 day'
+  ),
+  usage AS (
+    SELECT m.grocery_item_id, -SUM(m.quantity_delta) AS used, COUNT(*)::INTEGER AS sample_count
+    FROM public.inventory_movements m
+    WHERE m.household_id = _household_id
+      AND m.grocery_item_id IN (SELECT id FROM items)
+      AND m.movement_type IN ('consumed', 'wasted', 'adjusted', 'weight_delta')
+      AND m.quantity_delta < 0
+      AND m.created_at >= now() - INTERVAL '60 days'
+      AND m.reverses_movement_id IS NULL
+      AND NOT EXISTS (SELECT 1 FROM public.inventory_movements r WHERE r.reverses_movement_id = m.id)
+    GROUP BY m.grocery_item_id
+  ),
+  forecasts AS (
+    SELECT i.id AS grocery_item_id, 'weight' AS source, wf.daily_rate, wf.unit AS rate_unit, wf.sample_count,
+           wf.latest_at + (wf.latest_weight / wf.daily_rate) * INTERVAL '1 day' AS run_out_at,
+           1 AS priority
+    FROM items i
+    JOIN weight_fit wf ON wf.barcode = i.barcode
+    WHERE wf.daily_rate > 0
+    UNION ALL
+    SELECT i.id, 'ledger', u.used / i.observed_days, i.quantity_type, u.sample_count,
+           now() + (i.quantity / (u.used / i.observed_days)) * INTERVAL '1 day',
+           2
+    FROM items i
+    JOIN usage u ON u.grocery_item_id = i.id
+    WHERE u.sample_count >= 2
+  ),
+  best AS (
+    SELECT DISTINCT ON (f.grocery_item_id) f.*
+    FROM forecasts f
+    ORDER BY f.grocery_item_id, f.priority
+  )
+  SELECT b.grocery_item_id,
+         b.source,
+         ROUND(b.daily_rate, 3),
+         b.rate_unit,
+         b.sample_count,
+         GREATEST(b.run_out_at::date - CURRENT_DATE, 0),
+         GREATEST(b.run_out_at::date, CURRENT_DATE)
+  FROM best b
+  ORDER BY b.run_out_at;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_household_run_out_forecasts(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_run_out_forecasts()
+RETURNS TABLE (
+  grocery_item_id UUID,
+  source TEXT,
+  daily_rate NUMERIC,
+  rate_unit TEXT,
+  sample_count INTEGER,
+  days_until_run_out INTEGER,
+  predicted_run_out_date DATE
+)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT * FROM public.get_household_run_out_forecasts(public.current_household_id());
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_household_stock_levels(_household_id UUID)
+RETURNS TABLE (
+  grocery_item_id UUID,
+  quantity INTEGER,
+  min_quantity INTEGER,
+  target_quantity INTEGER,
+  is_low BOOLEAN,
+  reorder_quantity INTEGER
+)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT g.id, COALESCE(g.quantity, 0), l.min_quantity, l.target_quantity, l.is_low, l.reorder_quantity
+  FROM public.grocery_items g
+  CROSS JOIN LATERAL public.get_item_stock_level(g) l
+  WHERE g.household_id = _household_id
+    AND (l.min_quantity IS NOT NULL OR l.target_quantity IS NOT NULL);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_household_stock_levels(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_stock_levels()
+RETURNS TABLE (
+  grocery_item_id UUID,
+  quantity INTEGER,
+  min_quantity INTEGER,
+  target_quantity INTEGER,
+  is_low BOOLEAN,
+  reorder_quantity INTEGER
+)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT * FROM public.get_household_stock_levels(public.current_household_id());
+$$;
+
+-- The job looks up today's notifications per user before sending
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id_created_at ON public.notifications(user_id, created_at);
+
+-- Earlier clients stored expiry reminders as 'expiry'; send-notifications
+-- has always called them 'expiring'
+UPDATE public.notifications SET type = 'expiring' WHERE type = 'expiry';
+
+-- Run the job hourly. Each reminder is sent at most once a day per user, so
+-- items added during the day are picked up within the hour. The project URL
+-- and the secret shared with the function (its CRON_SECRET) live in Vault.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'check-expiry-notifications',
+  '0 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/check-expiry-notifications',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-cron-secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'notification_cron_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,133 @@
+-- SMS delivery: phone numbers are verified by a one-time code before any
+-- alert is texted to them, and every text sent is tracked with its status.
+
+ALTER TABLE public.user_notification_preferences ADD COLUMN phone_verified_at TIMESTAMPTZ;
+
+-- Only the verify-phone edge function may mark a number as verified. Any
+-- other change to the number drops its verification.
+CREATE OR REPLACE FUNCTION public.protect_phone_verification()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.phone_verified_at := NULL;
+    ELSIF NEW.phone_number IS DISTINCT FROM OLD.phone_number THEN
+      NEW.phone_verified_at := NULL;
+    ELSE
+      NEW.phone_verified_at := OLD.phone_verified_at;
+    END IF;
+  END IF;
+
+  IF NEW.phone_verified_at IS NULL THEN
+    NEW.phone_notifications := false;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER protect_user_notification_preferences_phone
+  BEFORE INSERT OR UPDATE ON public.user_notification_preferences
+  FOR EACH ROW EXECUTE FUNCTION public.protect_phone_verification();
+
+UPDATE public.user_notification_preferences SET phone_notifications = false WHERE phone_verified_at IS NULL;
+
+-- Pending one-time codes. Only edge functions read or write these, so RLS is
+-- enabled without any policies.
+CREATE TABLE public.phone_verifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  phone_number TEXT NOT NULL,
+  code_hash TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMPTZ NOT NULL,
+  verified_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_phone_verifications_user_id_created_at ON public.phone_verifications(user_id, created_at);
+
+ALTER TABLE public.phone_verifications ENABLE ROW LEVEL SECURITY;
+
+-- One row per text sent, or refused by the rate limit. Provider status
+-- callbacks move it from queued to sent, delivered, failed or undelivered.
+CREATE TABLE public.sms_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  notification_id UUID REFERENCES public.notifications(id) ON DELETE SET NULL,
+  purpose TEXT NOT NULL DEFAULT 'notification' CHECK (purpose IN ('notification', 'verification')),
+  phone_number TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  provider_message_id TEXT,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sent', 'delivered', 'failed', 'undelivered', 'rate_limited')),
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_sms_deliveries_user_id_created_at ON public.sms_deliveries(user_id, created_at);
+CREATE UNIQUE INDEX idx_sms_deliveries_provider_message_id ON public.sms_deliveries(provider, provider_message_id) WHERE provider_message_id IS NOT NULL;
+
+CREATE TRIGGER update_sms_deliveries_updated_at
+  BEFORE UPDATE ON public.sms_deliveries
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.sms_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own SMS deliveries" ON public.sms_deliveries FOR SELECT USING (auth.uid() = user_id);
+
+-- Counts a guess at a pending code before it is checked. The increment and
+-- the limit check are one statement, so parallel guesses cannot all read the
+-- same count. Returns nothing once the code is used up, expired or verified.
+CREATE OR REPLACE FUNCTION public.claim_phone_verification_attempt(_verification_id UUID, _max_attempts INTEGER)
+RETURNS SETOF public.phone_verifications
+LANGUAGE sql SECURITY DEFINER SET search_path = public
+AS $$
+  UPDATE public.phone_verifications
+  SET attempts = attempts + 1
+  WHERE id = _verification_id
+    AND attempts < _max_attempts
+    AND verified_at IS NULL
+    AND expires_at > now()
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_phone_verification_attempt(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Records a text about to be sent, or refused when the user is over the
+-- hourly or daily limit for its purpose. Texts for the same user and purpose
+-- are recorded one at a time so parallel sends cannot all pass the limit.
+CREATE OR REPLACE FUNCTION public.record_sms_delivery(
+  _user_id UUID,
+  _purpose TEXT,
+  _phone_number TEXT,
+  _provider TEXT,
+  _notification_id UUID,
+  _per_hour INTEGER,
+  _per_day INTEGER
+)
+RETURNS TABLE (id UUID, status TEXT)
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  sent_last_hour INTEGER;
+  sent_last_day INTEGER;
+  rate_limited BOOLEAN;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('sms_deliveries:' || _user_id || ':' || _purpose));
+
+  SELECT count(*) FILTER (WHERE d.created_at >= now() - INTERVAL '1 hour'), count(*)
+  INTO sent_last_hour, sent_last_day
+  FROM public.sms_deliveries d
+  WHERE d.user_id = _user_id AND d.purpose = _purpose AND d.created_at >= now() - INTERVAL '1 day';
+
+  rate_limited := sent_last_hour >= _per_hour OR sent_last_day >= _per_day;
+
+  RETURN QUERY
+  INSERT INTO public.sms_deliveries AS d (user_id, notification_id, purpose, phone_number, provider, status)
+  VALUES (_user_id, _notification_id, _purpose, _phone_number, _provider, CASE WHEN rate_limited THEN 'rate_limited' ELSE 'queued' END)
+  RETURNING d.id, d.status;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_sms_delivery(UUID, TEXT, TEXT, TEXT, UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
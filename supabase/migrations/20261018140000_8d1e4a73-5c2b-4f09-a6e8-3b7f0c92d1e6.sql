@@ -0,0 +1,48 @@
+-- "Cook this": deduct a recipe's pantry ingredients in one go and record
+-- them as consumption in the ledger.
+
+-- _ingredients is an array of {"grocery_item_id": uuid, "quantity": integer}
+-- in each item's own unit. Either every ingredient is deducted or, if any
+-- is missing or out of stock, none is. Returns the number of movements.
+CREATE OR REPLACE FUNCTION public.cook_recipe(_recipe_title TEXT, _ingredients JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  ingredient JSONB;
+  item RECORD;
+  used INTEGER;
+  movement_count INTEGER := 0;
+BEGIN
+  IF jsonb_typeof(_ingredients) IS DISTINCT FROM 'array' OR jsonb_array_length(_ingredients) = 0 THEN
+    RAISE EXCEPTION 'No ingredients to deduct';
+  END IF;
+
+  FOR ingredient IN SELECT * FROM jsonb_array_elements(_ingredients)
+  LOOP
+    used := (ingredient ->> 'quantity')::INTEGER;
+
+    SELECT id, name, quantity INTO item FROM public.grocery_items
+    WHERE id = (ingredient ->> 'grocery_item_id')::UUID AND public.is_household_member(household_id);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item not found';
+    END IF;
+
+    IF used IS NULL OR used <= 0 THEN
+      RAISE EXCEPTION 'Enter how much % was used', item.name;
+    END IF;
+
+    IF COALESCE(item.quantity, 0) < used THEN
+      RAISE EXCEPTION 'Only % of % left', COALESCE(item.quantity, 0), item.name;
+    END IF;
+
+    INSERT INTO public.inventory_movements (household_id, grocery_item_id, item_name, movement_type, quantity_delta, reason, created_by)
+    VALUES (public.current_household_id(), item.id, '', 'consumed', -used, left('Cooked ' || COALESCE(NULLIF(trim(_recipe_title), ''), 'a recipe'), 200), auth.uid());
+
+    movement_count := movement_count + 1;
+  END LOOP;
+
+  RETURN movement_count;
+END;
+$$;
@@ -0,0 +1,136 @@
+-- Recipe chat conversations are kept per user so they can be resumed and
+-- searched later. Recipes worth keeping are saved to the household's recipe
+-- book. Chat rows are written by ai-recipe-chat only.
+
+CREATE TABLE public.recipe_chat_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 100),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_recipe_chat_sessions_user_updated ON public.recipe_chat_sessions(user_id, updated_at DESC);
+
+CREATE TRIGGER update_recipe_chat_sessions_updated_at BEFORE UPDATE ON public.recipe_chat_sessions FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.recipe_chat_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID REFERENCES public.recipe_chat_sessions(id) ON DELETE CASCADE NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  -- Structured recipes parsed from an assistant reply
+  recipes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  mode TEXT NOT NULL DEFAULT 'chat' CHECK (mode IN ('chat', 'use_it_up')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_recipe_chat_messages_session_created ON public.recipe_chat_messages(session_id, created_at);
+
+CREATE TABLE public.saved_recipes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  household_id UUID REFERENCES public.households(id) ON DELETE CASCADE NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 100),
+  -- Structured copy when the reply had one, so the recipe can still be cooked
+  recipe JSONB,
+  markdown TEXT NOT NULL DEFAULT '',
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  rating SMALLINT CHECK (rating BETWEEN 1 AND 5),
+  notes TEXT,
+  source_session_id UUID REFERENCES public.recipe_chat_sessions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_saved_recipes_household_created ON public.saved_recipes(household_id, created_at DESC);
+CREATE INDEX idx_saved_recipes_tags ON public.saved_recipes USING GIN (tags);
+
+CREATE TRIGGER update_saved_recipes_updated_at BEFORE UPDATE ON public.saved_recipes FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The recipe book moves with the rest of the household's data
+CREATE OR REPLACE FUNCTION public.detach_household_member(_user_id UUID, _target_household_id UUID DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  old_household_id UUID;
+  remaining_members INTEGER;
+BEGIN
+  old_household_id := public.current_household_id(_user_id);
+  IF old_household_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM public.household_members WHERE user_id = _user_id;
+
+  SELECT count(*) INTO remaining_members FROM public.household_members WHERE household_id = old_household_id;
+
+  IF remaining_members = 0 THEN
+    IF _target_household_id IS NOT NULL THEN
+      UPDATE public.grocery_items g
+      SET storage_location_id = new_location.id
+      FROM public.storage_locations old_location
+      JOIN public.storage_locations new_location ON new_location.household_id = _target_household_id AND new_location.name = old_location.name
+      WHERE g.storage_location_id = old_location.id AND old_location.household_id = old_household_id;
+
+      UPDATE public.grocery_items SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.waste_items SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.device_registry SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.notifications SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.inventory_movements SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.storage_location_moves SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.shopping_list_items SET household_id = _target_household_id WHERE household_id = old_household_id;
+      -- The target household's own category defaults win over the merged ones
+      UPDATE public.category_stock_levels c SET household_id = _target_household_id
+      WHERE c.household_id = old_household_id
+        AND NOT EXISTS (
+          SELECT 1 FROM public.category_stock_levels t
+          WHERE t.household_id = _target_household_id AND t.category_id = c.category_id
+        );
+      UPDATE public.saved_recipes SET household_id = _target_household_id WHERE household_id = old_household_id;
+    END IF;
+    DELETE FROM public.households WHERE id = old_household_id;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.household_members WHERE household_id = old_household_id AND role = 'owner'
+  ) THEN
+    -- Never leave a shared household without an owner
+    UPDATE public.household_members SET role = 'owner'
+    WHERE id = (
+      SELECT id FROM public.household_members
+      WHERE household_id = old_household_id
+      ORDER BY joined_at
+      LIMIT 1
+    );
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.detach_household_member(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+ALTER TABLE public.recipe_chat_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recipe_chat_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.saved_recipes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own recipe chats" ON public.recipe_chat_sessions FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can update own recipe chats" ON public.recipe_chat_sessions FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own recipe chats" ON public.recipe_chat_sessions FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own recipe chat messages" ON public.recipe_chat_messages FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.recipe_chat_sessions s WHERE s.id = session_id AND s.user_id = auth.uid())
+);
+
+CREATE POLICY "Household members can view saved recipes" ON public.saved_recipes FOR SELECT USING (public.is_household_member(household_id));
+CREATE POLICY "Household members can save recipes" ON public.saved_recipes FOR INSERT WITH CHECK (public.is_household_member(household_id) AND auth.uid() = created_by);
+CREATE POLICY "Household members can update saved recipes" ON public.saved_recipes FOR UPDATE USING (public.is_household_member(household_id));
+CREATE POLICY "Household members can delete saved recipes" ON public.saved_recipes FOR DELETE USING (public.is_household_member(household_id));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'saved_recipes'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.saved_recipes;
+  END IF;
+END $$;
@@ -0,0 +1,274 @@
+-- Weekly meal plan. Each planned meal keeps a copy of its recipe, so it
+-- survives the saved recipe being edited or removed. Reconciling the plan
+-- reserves pantry stock for upcoming meals in date order and puts whatever
+-- is missing on the shopping list.
+
+CREATE TABLE public.meal_plan_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  household_id UUID REFERENCES public.households(id) ON DELETE CASCADE NOT NULL,
+  planned_for DATE NOT NULL,
+  meal_type TEXT NOT NULL DEFAULT 'dinner' CHECK (meal_type IN ('breakfast', 'lunch', 'snack', 'dinner')),
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 100),
+  recipe JSONB NOT NULL,
+  saved_recipe_id UUID REFERENCES public.saved_recipes(id) ON DELETE SET NULL,
+  servings INTEGER NOT NULL DEFAULT 2 CHECK (servings BETWEEN 1 AND 50),
+  status TEXT NOT NULL DEFAULT 'planned' CHECK (status IN ('planned', 'cooked', 'skipped')),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_meal_plan_entries_household_date ON public.meal_plan_entries(household_id, planned_for);
+
+CREATE TRIGGER update_meal_plan_entries_updated_at BEFORE UPDATE ON public.meal_plan_entries FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- What each upcoming meal needs and how much of it the pantry covers.
+-- Rebuilt on every reconciliation; rows without an item are not in the
+-- pantry at all.
+CREATE TABLE public.meal_plan_reservations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  household_id UUID REFERENCES public.households(id) ON DELETE CASCADE NOT NULL,
+  entry_id UUID REFERENCES public.meal_plan_entries(id) ON DELETE CASCADE NOT NULL,
+  grocery_item_id UUID REFERENCES public.grocery_items(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  unit TEXT,
+  quantity_needed INTEGER NOT NULL CHECK (quantity_needed > 0),
+  quantity_reserved INTEGER NOT NULL DEFAULT 0 CHECK (quantity_reserved BETWEEN 0 AND quantity_needed),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_meal_plan_reservations_household ON public.meal_plan_reservations(household_id);
+CREATE INDEX idx_meal_plan_reservations_entry ON public.meal_plan_reservations(entry_id);
+
+ALTER TABLE public.shopping_list_items DROP CONSTRAINT shopping_list_items_source_check;
+ALTER TABLE public.shopping_list_items ADD CONSTRAINT shopping_list_items_source_check CHECK (source IN ('manual', 'low_stock', 'forecast', 'meal_plan'));
+
+-- Ingredient amounts are scaled from the recipe's servings to the planned
+-- servings and rounded up. Optional ingredients are left out. Returns the
+-- number of shopping list entries added.
+CREATE OR REPLACE FUNCTION public.reconcile_household_meal_plan(_household_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  missing RECORD;
+  added INTEGER := 0;
+BEGIN
+  DELETE FROM public.meal_plan_reservations WHERE household_id = _household_id;
+
+  WITH needs AS (
+    SELECT e.id AS entry_id,
+           e.planned_for,
+           CASE e.meal_type WHEN 'breakfast' THEN 1 WHEN 'lunch' THEN 2 WHEN 'snack' THEN 3 ELSE 4 END AS meal_order,
+           left(trim(ingredient->>'name'), 100) AS name,
+           ingredient->>'unit' AS unit,
+           CASE WHEN ingredient->>'grocery_item_id' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+                THEN (ingredient->>'grocery_item_id')::UUID END AS grocery_item_id,
+           GREATEST(CEIL(
+             CASE WHEN jsonb_typeof(ingredient->'quantity') = 'number' THEN (ingredient->>'quantity')::NUMERIC ELSE 1 END
+             * e.servings
+             / CASE WHEN jsonb_typeof(e.recipe->'servings') = 'number' AND (e.recipe->>'servings')::NUMERIC > 0
+                    THEN (e.recipe->>'servings')::NUMERIC ELSE e.servings END
+           ), 1)::INTEGER AS quantity
+    FROM public.meal_plan_entries e
+    CROSS JOIN LATERAL jsonb_array_elements(
+      CASE WHEN jsonb_typeof(e.recipe->'ingredients') = 'array' THEN e.recipe->'ingredients' ELSE '[]'::jsonb END
+    ) ingredient
+    WHERE e.household_id = _household_id
+      AND e.status = 'planned'
+      AND e.planned_for >= CURRENT_DATE
+      AND COALESCE(ingredient->>'optional', 'false') <> 'true'
+      AND COALESCE(trim(ingredient->>'name'), '') <> ''
+  ),
+  matched AS (
+    SELECT n.*, g.id AS item_id, COALESCE(g.quantity, 0) AS stock
+    FROM needs n
+    LEFT JOIN public.grocery_items g ON g.id = n.grocery_item_id AND g.household_id = _household_id
+  ),
+  allocated AS (
+    -- Earlier meals get first claim on an item's stock
+    SELECT m.*,
+           COALESCE(SUM(m.quantity) OVER (
+             PARTITION BY m.item_id ORDER BY m.planned_for, m.meal_order, m.entry_id
+             ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+           ), 0) AS claimed_before
+    FROM matched m
+  )
+  INSERT INTO public.meal_plan_reservations (household_id, entry_id, grocery_item_id, name, unit, quantity_needed, quantity_reserved)
+  SELECT _household_id, entry_id, item_id, name, unit, quantity,
+         CASE WHEN item_id IS NULL THEN 0 ELSE LEAST(quantity, GREATEST(stock - claimed_before, 0)) END
+  FROM allocated;
+
+  -- Withdraw open entries the plan no longer needs
+  DELETE FROM public.shopping_list_items s
+  WHERE s.household_id = _household_id
+    AND s.status = 'open'
+    AND s.source = 'meal_plan'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.meal_plan_reservations r
+      WHERE r.household_id = _household_id
+        AND r.quantity_reserved < r.quantity_needed
+        AND (r.grocery_item_id = s.grocery_item_id OR lower(r.name) = lower(s.name))
+    );
+
+  FOR missing IN
+    SELECT r.grocery_item_id,
+           COALESCE(MIN(g.name), MIN(r.name)) AS name,
+           MIN(g.barcode) AS barcode,
+           (array_agg(g.category_id))[1] AS category_id,
+           COALESCE(MIN(g.quantity_type), MIN(r.unit)) AS quantity_type,
+           SUM(r.quantity_needed - r.quantity_reserved)::INTEGER AS shortfall
+    FROM public.meal_plan_reservations r
+    LEFT JOIN public.grocery_items g ON g.id = r.grocery_item_id
+    WHERE r.household_id = _household_id
+      AND r.quantity_reserved < r.quantity_needed
+    GROUP BY r.grocery_item_id, CASE WHEN r.grocery_item_id IS NULL THEN lower(r.name) END
+  LOOP
+    IF public.queue_shopping_list_item(_household_id, missing.grocery_item_id, missing.name, missing.barcode, missing.category_id,
+                                       missing.shortfall, missing.quantity_type, 'meal_plan') THEN
+      added := added + 1;
+    END IF;
+  END LOOP;
+
+  RETURN added;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reconcile_household_meal_plan(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Lets the app reconcile on demand, e.g. when the planner is opened
+CREATE OR REPLACE FUNCTION public.reconcile_meal_plan()
+RETURNS INTEGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  household UUID := public.current_household_id();
+BEGIN
+  IF household IS NULL THEN
+    RAISE EXCEPTION 'You are not a member of a household';
+  END IF;
+
+  RETURN public.reconcile_household_meal_plan(household);
+END;
+$$;
+
+-- Changes to the plan, or to the stock of an item it uses, reconcile the
+-- household's plan straight away
+CREATE OR REPLACE FUNCTION public.reconcile_meal_plan_on_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  household UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    household := OLD.household_id;
+  ELSE
+    household := NEW.household_id;
+  END IF;
+
+  -- Skip rows removed because their household was deleted
+  IF NOT EXISTS (SELECT 1 FROM public.households WHERE id = household) THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_TABLE_NAME = 'grocery_items' AND NOT EXISTS (
+    SELECT 1 FROM public.meal_plan_entries
+    WHERE household_id = household AND status = 'planned' AND planned_for >= CURRENT_DATE
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM public.reconcile_household_meal_plan(household);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER reconcile_meal_plan_on_entry_change AFTER INSERT OR UPDATE OR DELETE ON public.meal_plan_entries FOR EACH ROW EXECUTE FUNCTION public.reconcile_meal_plan_on_change();
+CREATE TRIGGER reconcile_meal_plan_on_stock_change AFTER UPDATE OF quantity ON public.grocery_items FOR EACH ROW WHEN (OLD.quantity IS DISTINCT FROM NEW.quantity) EXECUTE FUNCTION public.reconcile_meal_plan_on_change();
+CREATE TRIGGER reconcile_meal_plan_on_stock_removal AFTER DELETE ON public.grocery_items FOR EACH ROW EXECUTE FUNCTION public.reconcile_meal_plan_on_change();
+
+-- The plan moves with the rest of the household's data
+CREATE OR REPLACE FUNCTION public.detach_household_member(_user_id UUID, _target_household_id UUID DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  old_household_id UUID;
+  remaining_members INTEGER;
+BEGIN
+  old_household_id := public.current_household_id(_user_id);
+  IF old_household_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM public.household_members WHERE user_id = _user_id;
+
+  SELECT count(*) INTO remaining_members FROM public.household_members WHERE household_id = old_household_id;
+
+  IF remaining_members = 0 THEN
+    IF _target_household_id IS NOT NULL THEN
+      UPDATE public.grocery_items g
+      SET storage_location_id = new_location.id
+      FROM public.storage_locations old_location
+      JOIN public.storage_locations new_location ON new_location.household_id = _target_household_id AND new_location.name = old_location.name
+      WHERE g.storage_location_id = old_location.id AND old_location.household_id = old_household_id;
+
+      UPDATE public.grocery_items SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.waste_items SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.device_registry SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.notifications SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.inventory_movements SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.storage_location_moves SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.shopping_list_items SET household_id = _target_household_id WHERE household_id = old_household_id;
+      -- The target household's own category defaults win over the merged ones
+      UPDATE public.category_stock_levels c SET household_id = _target_household_id
+      WHERE c.household_id = old_household_id
+        AND NOT EXISTS (
+          SELECT 1 FROM public.category_stock_levels t
+          WHERE t.household_id = _target_household_id AND t.category_id = c.category_id
+        );
+      UPDATE public.saved_recipes SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.meal_plan_entries SET household_id = _target_household_id WHERE household_id = old_household_id;
+    END IF;
+    DELETE FROM public.households WHERE id = old_household_id;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.household_members WHERE household_id = old_household_id AND role = 'owner'
+  ) THEN
+    -- Never leave a shared household without an owner
+    UPDATE public.household_members SET role = 'owner'
+    WHERE id = (
+      SELECT id FROM public.household_members
+      WHERE household_id = old_household_id
+      ORDER BY joined_at
+      LIMIT 1
+    );
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.detach_household_member(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+ALTER TABLE public.meal_plan_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.meal_plan_reservations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Household members can view meal plan" ON public.meal_plan_entries FOR SELECT USING (public.is_household_member(household_id));
+CREATE POLICY "Household members can add to meal plan" ON public.meal_plan_entries FOR INSERT WITH CHECK (public.is_household_member(household_id));
+CREATE POLICY "Household members can update meal plan" ON public.meal_plan_entries FOR UPDATE USING (public.is_household_member(household_id));
+CREATE POLICY "Household members can delete from meal plan" ON public.meal_plan_entries FOR DELETE USING (public.is_household_member(household_id));
+
+CREATE POLICY "Household members can view meal plan reservations" ON public.meal_plan_reservations FOR SELECT USING (public.is_household_member(household_id));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'meal_plan_entries'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.meal_plan_entries;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'meal_plan_reservations'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.meal_plan_reservations;
+  END IF;
+END $$;
@@ -0,0 +1,134 @@
+-- Device credentials: scales authenticate with their own token, which is
+-- stored only as a SHA-256 hash. The owning user and household are taken
+-- from the device's registration, never from what the device sends.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- What the device list shows about a device's token: its first characters
+-- and when it was last issued or revoked
+ALTER TABLE public.device_registry
+  ADD COLUMN token_prefix TEXT,
+  ADD COLUMN token_rotated_at TIMESTAMPTZ,
+  ADD COLUMN token_revoked_at TIMESTAMPTZ;
+
+-- Token hashes. Only the device functions below and the ESP32 edge functions
+-- read or write these, so RLS is enabled without any policies.
+CREATE TABLE public.device_credentials (
+  device_registry_id UUID PRIMARY KEY REFERENCES public.device_registry(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.device_credentials ENABLE ROW LEVEL SECURITY;
+
+-- Existing plaintext tokens keep working until they are rotated
+INSERT INTO public.device_credentials (device_registry_id, token_hash, created_at)
+SELECT id, encode(extensions.digest(device_token, 'sha256'), 'hex'), created_at
+FROM public.device_registry
+WHERE device_token IS NOT NULL AND device_token <> '';
+
+UPDATE public.device_registry
+SET token_prefix = left(device_token, 13), token_rotated_at = created_at
+WHERE device_token IS NOT NULL AND device_token <> '';
+
+ALTER TABLE public.device_registry DROP COLUMN device_token;
+
+-- Stores a fresh token for a device and returns it. The plaintext is not
+-- kept anywhere, so this is the only time it can be shown.
+CREATE OR REPLACE FUNCTION public.issue_device_token(_device_registry_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  new_token TEXT := 'device_' || encode(extensions.gen_random_bytes(32), 'hex');
+BEGIN
+  INSERT INTO public.device_credentials (device_registry_id, token_hash)
+  VALUES (_device_registry_id, encode(extensions.digest(new_token, 'sha256'), 'hex'))
+  ON CONFLICT (device_registry_id) DO UPDATE SET token_hash = EXCLUDED.token_hash, created_at = now();
+
+  UPDATE public.device_registry
+  SET token_prefix = left(new_token, 13), token_rotated_at = now(), token_revoked_at = NULL
+  WHERE id = _device_registry_id;
+
+  RETURN new_token;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_device_token(UUID) FROM PUBLIC, anon, authenticated;
+
+-- A device the caller may manage: one they registered, or any device of a
+-- household they own
+CREATE OR REPLACE FUNCTION public.can_manage_device(_device_registry_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.device_registry d
+    WHERE d.id = _device_registry_id
+      AND (d.user_id = auth.uid() OR public.is_household_owner(d.household_id))
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_manage_device(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Registers a scale to the caller's household and returns its credentials
+CREATE OR REPLACE FUNCTION public.register_device(_device_name TEXT)
+RETURNS TABLE (id UUID, device_id TEXT, device_token TEXT)
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _household_id UUID := public.current_household_id();
+  new_id UUID;
+  new_device_id TEXT := 'scale_' || encode(extensions.gen_random_bytes(16), 'hex');
+BEGIN
+  IF _household_id IS NULL THEN
+    RAISE EXCEPTION 'You are not a member of a household';
+  END IF;
+
+  IF _device_name IS NULL OR length(trim(_device_name)) = 0 THEN
+    RAISE EXCEPTION 'Device name is required';
+  END IF;
+
+  INSERT INTO public.device_registry (device_id, device_name, user_id, household_id, is_active)
+  VALUES (new_device_id, trim(_device_name), auth.uid(), _household_id, true)
+  RETURNING device_registry.id INTO new_id;
+
+  RETURN QUERY SELECT new_id, new_device_id, public.issue_device_token(new_id);
+END;
+$$;
+
+-- Replaces a device's token. The old one stops working immediately.
+CREATE OR REPLACE FUNCTION public.rotate_device_token(_device_registry_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_manage_device(_device_registry_id) THEN
+    RAISE EXCEPTION 'Device not found';
+  END IF;
+
+  RETURN public.issue_device_token(_device_registry_id);
+END;
+$$;
+
+-- Removes a device's token so nothing can send readings as it until a new
+-- token is issued
+CREATE OR REPLACE FUNCTION public.revoke_device_token(_device_registry_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_manage_device(_device_registry_id) THEN
+    RAISE EXCEPTION 'Device not found';
+  END IF;
+
+  DELETE FROM public.device_credentials WHERE device_registry_id = _device_registry_id;
+
+  UPDATE public.device_registry
+  SET token_revoked_at = now()
+  WHERE id = _device_registry_id;
+END;
+$$;
+
+-- Devices are registered through register_device so each gets a token
+DROP POLICY IF EXISTS "Household members can insert devices" ON public.device_registry;
@@ -0,0 +1,35 @@
+-- Batched weight readings: scales buffer readings while offline and send
+-- them in batches. Each reading carries a per-device sequence number so a
+-- batch that is retried after a lost response is not stored twice.
+
+-- recorded_at is when the scale took the reading, which for buffered
+-- readings can be long before received_at
+ALTER TABLE public.weight_readings
+  ADD COLUMN sequence_number BIGINT,
+  ADD COLUMN received_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+UPDATE public.weight_readings SET received_at = recorded_at;
+
+-- Readings without a sequence number (single readings) are never treated as
+-- duplicates, since NULLs are distinct
+ALTER TABLE public.weight_readings
+  ADD CONSTRAINT weight_readings_device_sequence_key UNIQUE (device_id, sequence_number);
+
+-- Buffered batches can arrive after newer readings, so only the latest
+-- reading for a barcode sets its current weight
+CREATE OR REPLACE FUNCTION public.sync_weight_to_product()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.weight_readings
+    WHERE barcode = NEW.barcode AND recorded_at > NEW.recorded_at
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.barcode_products
+  SET current_weight = NEW.weight, updated_at = now()
+  WHERE barcode = NEW.barcode;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,251 @@
+-- Scale signal processing: raw readings are smoothed per device and
+-- barcode, and a change only counts once the weight has settled at a new
+-- level. Settled changes are recorded as events (an item lifted off or put
+-- back, a portion used, a refill) separately from the raw samples.
+
+-- Filter state for each item on each scale. recent_weights holds the last
+-- raw samples for the median; candidate_weight is a level the weight has
+-- held for candidate_count samples without yet settling; removed_weight is
+-- the settled level before the item was lifted off.
+CREATE TABLE public.weight_signal_state (
+  device_id TEXT NOT NULL,
+  barcode TEXT NOT NULL,
+  household_id UUID REFERENCES public.households(id) ON DELETE CASCADE,
+  recent_weights NUMERIC[] NOT NULL DEFAULT '{}',
+  smoothed_weight NUMERIC NOT NULL,
+  stable_weight NUMERIC,
+  stable_since TIMESTAMPTZ,
+  candidate_weight NUMERIC,
+  candidate_count INTEGER NOT NULL DEFAULT 0,
+  removed_weight NUMERIC,
+  last_recorded_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (device_id, barcode)
+);
+
+CREATE INDEX idx_weight_signal_state_household_id ON public.weight_signal_state(household_id);
+CREATE INDEX idx_weight_signal_state_barcode ON public.weight_signal_state(barcode, updated_at DESC);
+
+-- weight_delta is weight_after - weight_before, negative when weight was
+-- taken off the scale
+CREATE TABLE public.weight_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID REFERENCES public.households(id) ON DELETE CASCADE,
+  device_id TEXT NOT NULL,
+  barcode TEXT NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('item_removed', 'item_returned', 'portion_consumed', 'refilled')),
+  weight_before NUMERIC NOT NULL,
+  weight_after NUMERIC NOT NULL,
+  weight_delta NUMERIC NOT NULL,
+  unit TEXT NOT NULL DEFAULT 'g',
+  occurred_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_weight_events_household_occurred_at ON public.weight_events(household_id, occurred_at DESC);
+CREATE INDEX idx_weight_events_barcode_occurred_at ON public.weight_events(barcode, occurred_at DESC);
+
+CREATE OR REPLACE FUNCTION public.record_weight_event(
+  _state public.weight_signal_state,
+  _event_type TEXT,
+  _weight_before NUMERIC,
+  _weight_after NUMERIC,
+  _occurred_at TIMESTAMPTZ
+)
+RETURNS VOID
+LANGUAGE sql SECURITY DEFINER SET search_path = public
+AS $$
+  INSERT INTO public.weight_events (household_id, device_id, barcode, event_type, weight_before, weight_after, weight_delta, occurred_at)
+  VALUES (_state.household_id, _state.device_id, _state.barcode, _event_type, _weight_before, _weight_after, _weight_after - _weight_before, _occurred_at);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_weight_event(public.weight_signal_state, TEXT, NUMERIC, NUMERIC, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- Runs each new reading through the filter for its device and barcode:
+--   * a median over the last 5 samples drops single-sample spikes
+--   * an exponential moving average of the medians gives the displayed weight
+--   * a new level settles once 3 medians in a row stay within 3 g of it
+-- A settled level at least 5 g from the previous one is an event. Falling
+-- to 10 g or less means the item was lifted off; when it is put back, any
+-- difference from before it was lifted is recorded as a portion used or a
+-- refill. Readings older than the last one processed (late batches) are
+-- stored but not filtered.
+CREATE OR REPLACE FUNCTION public.process_weight_reading()
+RETURNS TRIGGER AS $$
+DECLARE
+  median_window CONSTANT INTEGER := 5;
+  ema_alpha CONSTANT NUMERIC := 0.3;
+  settle_samples CONSTANT INTEGER := 3;
+  noise_band CONSTANT NUMERIC := 3;
+  event_threshold CONSTANT NUMERIC := 5;
+  empty_threshold CONSTANT NUMERIC := 10;
+  state public.weight_signal_state;
+  median NUMERIC;
+  settled NUMERIC;
+BEGIN
+  INSERT INTO public.weight_signal_state (device_id, barcode, household_id, smoothed_weight, last_recorded_at)
+  VALUES (
+    NEW.device_id,
+    NEW.barcode,
+    COALESCE((SELECT d.household_id FROM public.device_registry d WHERE d.device_id = NEW.device_id), public.current_household_id()),
+    NEW.weight,
+    NEW.recorded_at
+  )
+  ON CONFLICT (device_id, barcode) DO NOTHING;
+
+  SELECT * INTO state FROM public.weight_signal_state
+  WHERE device_id = NEW.device_id AND barcode = NEW.barcode
+  FOR UPDATE;
+
+  IF cardinality(state.recent_weights) > 0 AND NEW.recorded_at < state.last_recorded_at THEN
+    RETURN NEW;
+  END IF;
+
+  state.recent_weights := (state.recent_weights || NEW.weight)[greatest(1, cardinality(state.recent_weights) + 2 - median_window):];
+  SELECT percentile_cont(0.5) WITHIN GROUP (ORDER BY w) INTO median FROM unnest(state.recent_weights) w;
+
+  state.smoothed_weight := CASE
+    WHEN cardinality(state.recent_weights) = 1 THEN median
+    ELSE round(ema_alpha * median + (1 - ema_alpha) * state.smoothed_weight, 2)
+  END;
+
+  IF state.candidate_weight IS NOT NULL AND abs(median - state.candidate_weight) <= noise_band THEN
+    state.candidate_weight := (state.candidate_weight * state.candidate_count + median) / (state.candidate_count + 1);
+    state.candidate_count := state.candidate_count + 1;
+  ELSE
+    state.candidate_weight := median;
+    state.candidate_count := 1;
+  END IF;
+
+  IF state.candidate_count >= settle_samples THEN
+    settled := round(state.candidate_weight, 1);
+
+    IF state.stable_weight IS NULL THEN
+      state.stable_weight := settled;
+      state.stable_since := NEW.recorded_at;
+    ELSIF abs(settled - state.stable_weight) >= event_threshold THEN
+      IF settled <= empty_threshold AND state.stable_weight > empty_threshold THEN
+        PERFORM public.record_weight_event(state, 'item_removed', state.stable_weight, settled, NEW.recorded_at);
+        state.removed_weight := state.stable_weight;
+      ELSIF state.stable_weight <= empty_threshold AND settled > empty_threshold THEN
+        PERFORM public.record_weight_event(state, 'item_returned', state.stable_weight, settled, NEW.recorded_at);
+        IF state.removed_weight IS NOT NULL AND settled <= state.removed_weight - event_threshold THEN
+          PERFORM public.record_weight_event(state, 'portion_consumed', state.removed_weight, settled, NEW.recorded_at);
+        ELSIF state.removed_weight IS NOT NULL AND settled >= state.removed_weight + event_threshold THEN
+          PERFORM public.record_weight_event(state, 'refilled', state.removed_weight, settled, NEW.recorded_at);
+        END IF;
+        state.removed_weight := NULL;
+      ELSIF settled < state.stable_weight THEN
+        PERFORM public.record_weight_event(state, 'portion_consumed', state.stable_weight, settled, NEW.recorded_at);
+      ELSE
+        PERFORM public.record_weight_event(state, 'refilled', state.stable_weight, settled, NEW.recorded_at);
+      END IF;
+
+      state.stable_weight := settled;
+      state.stable_since := NEW.recorded_at;
+    END IF;
+  END IF;
+
+  UPDATE public.weight_signal_state
+  SET recent_weights = state.recent_weights,
+      smoothed_weight = state.smoothed_weight,
+      stable_weight = state.stable_weight,
+      stable_since = state.stable_since,
+      candidate_weight = state.candidate_weight,
+      candidate_count = state.candidate_count,
+      removed_weight = state.removed_weight,
+      last_recorded_at = NEW.recorded_at,
+      updated_at = now()
+  WHERE device_id = NEW.device_id AND barcode = NEW.barcode;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER process_weight_reading AFTER INSERT ON public.weight_readings FOR EACH ROW WHEN (NEW.device_id IS NOT NULL AND NEW.barcode IS NOT NULL) EXECUTE FUNCTION public.process_weight_reading();
+
+-- Scale weights and events move with the household's devices
+CREATE OR REPLACE FUNCTION public.detach_household_member(_user_id UUID, _target_household_id UUID DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  old_household_id UUID;
+  remaining_members INTEGER;
+BEGIN
+  old_household_id := public.current_household_id(_user_id);
+  IF old_household_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM public.household_members WHERE user_id = _user_id;
+
+  SELECT count(*) INTO remaining_members FROM public.household_members WHERE household_id = old_household_id;
+
+  IF remaining_members = 0 THEN
+    IF _target_household_id IS NOT NULL THEN
+      UPDATE public.grocery_items g
+      SET storage_location_id = new_location.id
+      FROM public.storage_locations old_location
+      JOIN public.storage_locations new_location ON new_location.household_id = _target_household_id AND new_location.name = old_location.name
+      WHERE g.storage_location_id = old_location.id AND old_location.household_id = old_household_id;
+
+      UPDATE public.grocery_items SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.waste_items SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.device_registry SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.notifications SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.inventory_movements SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.storage_location_moves SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.shopping_list_items SET household_id = _target_household_id WHERE household_id = old_household_id;
+      -- The target household's own category defaults win over the merged ones
+      UPDATE public.category_stock_levels c SET household_id = _target_household_id
+      WHERE c.household_id = old_household_id
+        AND NOT EXISTS (
+          SELECT 1 FROM public.category_stock_levels t
+          WHERE t.household_id = _target_household_id AND t.category_id = c.category_id
+        );
+      UPDATE public.saved_recipes SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.meal_plan_entries SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.weight_signal_state SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.weight_events SET household_id = _target_household_id WHERE household_id = old_household_id;
+    END IF;
+    DELETE FROM public.households WHERE id = old_household_id;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.household_members WHERE household_id = old_household_id AND role = 'owner'
+  ) THEN
+    -- Never leave a shared household without an owner
+    UPDATE public.household_members SET role = 'owner'
+    WHERE id = (
+      SELECT id FROM public.household_members
+      WHERE household_id = old_household_id
+      ORDER BY joined_at
+      LIMIT 1
+    );
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.detach_household_member(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+ALTER TABLE public.weight_signal_state ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.weight_events ENABLE ROW LEVEL SECURITY;
+
+-- Both are written only by the trigger above
+CREATE POLICY "Household members can view scale weights" ON public.weight_signal_state FOR SELECT USING (public.is_household_member(household_id));
+CREATE POLICY "Household members can view scale events" ON public.weight_events FOR SELECT USING (public.is_household_member(household_id));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'weight_signal_state'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.weight_signal_state;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'weight_events'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.weight_events;
+  END IF;
+END $$;
@@ -0,0 +1,276 @@
+-- Scale reconciliation: a settled scale weight is converted into the
+-- matching grocery item's quantity. Each conversion is logged as an
+-- adjustment that is either applied straight away or waits for approval.
+
+-- How to read an item's weight on the scale. scale_tare_weight is the
+-- container in grams; scale_unit_weight is grams per piece, packet or box,
+-- or grams per ml for ml and litres (water when unset).
+ALTER TABLE public.grocery_items
+  ADD COLUMN scale_tare_weight NUMERIC NOT NULL DEFAULT 0 CHECK (scale_tare_weight >= 0),
+  ADD COLUMN scale_unit_weight NUMERIC CHECK (scale_unit_weight > 0),
+  ADD COLUMN scale_auto_apply BOOLEAN NOT NULL DEFAULT false;
+
+-- quantity_before is the item's quantity when the adjustment was proposed,
+-- or when it was applied
+CREATE TABLE public.scale_adjustments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID REFERENCES public.households(id) ON DELETE CASCADE NOT NULL,
+  grocery_item_id UUID REFERENCES public.grocery_items(id) ON DELETE SET NULL,
+  item_name TEXT NOT NULL,
+  weight_event_id UUID REFERENCES public.weight_events(id) ON DELETE SET NULL,
+  barcode TEXT NOT NULL,
+  gross_weight NUMERIC NOT NULL,
+  tare_weight NUMERIC NOT NULL,
+  net_weight NUMERIC NOT NULL,
+  quantity_type TEXT NOT NULL,
+  quantity_before INTEGER NOT NULL,
+  quantity_after INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'applied', 'rejected', 'superseded')),
+  inventory_movement_id UUID REFERENCES public.inventory_movements(id) ON DELETE SET NULL,
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_scale_adjustments_household_created ON public.scale_adjustments(household_id, created_at DESC);
+CREATE INDEX idx_scale_adjustments_item_status ON public.scale_adjustments(grocery_item_id, status);
+
+-- Net grams as a whole quantity of the item's unit, or NULL when counted
+-- units have no weight per unit set
+CREATE OR REPLACE FUNCTION public.scale_weight_to_quantity(_net_weight NUMERIC, _quantity_type TEXT, _unit_weight NUMERIC)
+RETURNS INTEGER
+LANGUAGE sql IMMUTABLE SET search_path = public
+AS $$
+  SELECT CASE WHEN quantity IS NOT NULL THEN LEAST(quantity, 9999)::INTEGER END
+  FROM (
+    SELECT round(CASE COALESCE(_quantity_type, 'pieces')
+      WHEN 'grams' THEN _net_weight
+      WHEN 'kg' THEN _net_weight / 1000
+      WHEN 'ml' THEN _net_weight / COALESCE(_unit_weight, 1)
+      WHEN 'litres' THEN _net_weight / (COALESCE(_unit_weight, 1) * 1000)
+      ELSE _net_weight / _unit_weight
+    END) AS quantity
+  ) converted;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.scale_weight_to_quantity(NUMERIC, TEXT, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Brings the item to the adjustment's quantity with a weight_delta
+-- movement. The difference is taken against the item's quantity now, so an
+-- adjustment approved after other changes still lands on the scale reading.
+CREATE OR REPLACE FUNCTION public.apply_scale_adjustment(_adjustment_id UUID, _resolved_by UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  adjustment public.scale_adjustments;
+  current_quantity INTEGER;
+  new_movement_id UUID;
+BEGIN
+  SELECT * INTO adjustment FROM public.scale_adjustments WHERE id = _adjustment_id FOR UPDATE;
+
+  SELECT COALESCE(quantity, 0) INTO current_quantity
+  FROM public.grocery_items WHERE id = adjustment.grocery_item_id;
+
+  IF adjustment.quantity_after <> current_quantity THEN
+    INSERT INTO public.inventory_movements (household_id, grocery_item_id, item_name, movement_type, quantity_delta, reason, created_by)
+    VALUES (adjustment.household_id, adjustment.grocery_item_id, adjustment.item_name, 'weight_delta', adjustment.quantity_after - current_quantity, 'Scale reading', _resolved_by)
+    RETURNING id INTO new_movement_id;
+  END IF;
+
+  UPDATE public.scale_adjustments
+  SET status = 'applied',
+      quantity_before = current_quantity,
+      inventory_movement_id = new_movement_id,
+      resolved_by = _resolved_by,
+      resolved_at = now()
+  WHERE id = _adjustment_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_scale_adjustment(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Converts the weight an item settled at into its quantity. Lifting an item
+-- off the scale says nothing about how much is left, so only weights with
+-- the item on the scale are reconciled. A new reading replaces any
+-- adjustment still waiting for approval.
+CREATE OR REPLACE FUNCTION public.reconcile_weight_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  item RECORD;
+  net NUMERIC;
+  target INTEGER;
+  new_adjustment_id UUID;
+BEGIN
+  SELECT * INTO item FROM public.grocery_items
+  WHERE household_id = NEW.household_id AND barcode = NEW.barcode
+  ORDER BY updated_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  net := GREATEST(NEW.weight_after - item.scale_tare_weight, 0);
+  target := public.scale_weight_to_quantity(net, item.quantity_type, item.scale_unit_weight);
+
+  IF target IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Returning an item and the portion used are recorded together at the same weight
+  IF EXISTS (
+    SELECT 1 FROM public.scale_adjustments
+    WHERE grocery_item_id = item.id AND status = 'pending' AND quantity_after = target
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.scale_adjustments
+  SET status = 'superseded', resolved_at = now()
+  WHERE grocery_item_id = item.id AND status = 'pending';
+
+  IF target = COALESCE(item.quantity, 0) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.scale_adjustments (household_id, grocery_item_id, item_name, weight_event_id, barcode, gross_weight, tare_weight, net_weight, quantity_type, quantity_before, quantity_after)
+  VALUES (item.household_id, item.id, item.name, NEW.id, NEW.barcode, NEW.weight_after, item.scale_tare_weight, net, COALESCE(item.quantity_type, 'pieces'), COALESCE(item.quantity, 0), target)
+  RETURNING id INTO new_adjustment_id;
+
+  -- A failed apply (e.g. lots out of step with the quantity) leaves the
+  -- adjustment for review instead of rejecting the reading that caused it
+  IF item.scale_auto_apply THEN
+    BEGIN
+      PERFORM public.apply_scale_adjustment(new_adjustment_id, NULL);
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Could not auto-apply scale adjustment %: %', new_adjustment_id, SQLERRM;
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER reconcile_weight_event AFTER INSERT ON public.weight_events FOR EACH ROW WHEN (NEW.household_id IS NOT NULL AND NEW.event_type <> 'item_removed') EXECUTE FUNCTION public.reconcile_weight_event();
+
+CREATE OR REPLACE FUNCTION public.approve_scale_adjustment(_adjustment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  adjustment RECORD;
+BEGIN
+  SELECT * INTO adjustment FROM public.scale_adjustments
+  WHERE id = _adjustment_id AND public.is_household_member(household_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Adjustment not found';
+  END IF;
+
+  IF adjustment.status <> 'pending' THEN
+    RAISE EXCEPTION 'This adjustment has already been resolved';
+  END IF;
+
+  IF adjustment.grocery_item_id IS NULL THEN
+    RAISE EXCEPTION 'The item no longer exists';
+  END IF;
+
+  PERFORM public.apply_scale_adjustment(_adjustment_id, auth.uid());
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reject_scale_adjustment(_adjustment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.scale_adjustments
+  SET status = 'rejected', resolved_by = auth.uid(), resolved_at = now()
+  WHERE id = _adjustment_id AND status = 'pending' AND public.is_household_member(household_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Adjustment not found or already resolved';
+  END IF;
+END;
+$$;
+
+-- Scale adjustments move with the household's items
+CREATE OR REPLACE FUNCTION public.detach_household_member(_user_id UUID, _target_household_id UUID DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  old_household_id UUID;
+  remaining_members INTEGER;
+BEGIN
+  old_household_id := public.current_household_id(_user_id);
+  IF old_household_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM public.household_members WHERE user_id = _user_id;
+
+  SELECT count(*) INTO remaining_members FROM public.household_members WHERE household_id = old_household_id;
+
+  IF remaining_members = 0 THEN
+    IF _target_household_id IS NOT NULL THEN
+      UPDATE public.grocery_items g
+      SET storage_location_id = new_location.id
+      FROM public.storage_locations old_location
+      JOIN public.storage_locations new_location ON new_location.household_id = _target_household_id AND new_location.name = old_location.name
+      WHERE g.storage_location_id = old_location.id AND old_location.household_id = old_household_id;
+
+      UPDATE public.grocery_items SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.waste_items SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.device_registry SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.notifications SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.inventory_movements SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.storage_location_moves SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.shopping_list_items SET household_id = _target_household_id WHERE household_id = old_household_id;
+      -- The target household's own category defaults win over the merged ones
+      UPDATE public.category_stock_levels c SET household_id = _target_household_id
+      WHERE c.household_id = old_household_id
+        AND NOT EXISTS (
+          SELECT 1 FROM public.category_stock_levels t
+          WHERE t.household_id = _target_household_id AND t.category_id = c.category_id
+        );
+      UPDATE public.saved_recipes SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.meal_plan_entries SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.weight_signal_state SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.weight_events SET household_id = _target_household_id WHERE household_id = old_household_id;
+      UPDATE public.scale_adjustments SET household_id = _target_household_id WHERE household_id = old_household_id;
+    END IF;
+    DELETE FROM public.households WHERE id = old_household_id;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.household_members WHERE household_id = old_household_id AND role = 'owner'
+  ) THEN
+    -- Never leave a shared household without an owner
+    UPDATE public.household_members SET role = 'owner'
+    WHERE id = (
+      SELECT id FROM public.household_members
+      WHERE household_id = old_household_id
+      ORDER BY joined_at
+      LIMIT 1
+    );
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.detach_household_member(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Row Level Security: adjustments are written by the trigger above and
+-- resolved through approve_scale_adjustment / reject_scale_adjustment
+ALTER TABLE public.scale_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Household members can view scale adjustments" ON public.scale_adjustments FOR SELECT USING (public.is_household_member(household_id));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'scale_adjustments'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.scale_adjustments;
+  END IF;
+END $$;
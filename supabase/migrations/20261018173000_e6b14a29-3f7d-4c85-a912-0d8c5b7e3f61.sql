@@ -0,0 +1,84 @@
+-- Adds the items from a scan session in one transaction, so a reviewed cart
+-- is either stocked in full or not at all. Each entry is
+-- {barcode, name, category_id, quantity, quantity_type, expiry_date, amount, image_url}.
+-- Barcodes already in the pantry get a new lot on the existing item, the
+-- same as adding them one at a time; anything else becomes a new item.
+CREATE OR REPLACE FUNCTION public.add_scanned_items(_items JSONB)
+RETURNS TABLE (new_items INTEGER, restocked_items INTEGER)
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _household_id UUID := public.current_household_id();
+  entry JSONB;
+  entry_name TEXT;
+  entry_barcode TEXT;
+  entry_quantity INTEGER;
+  entry_amount NUMERIC;
+  existing_item_id UUID;
+  added INTEGER := 0;
+  restocked INTEGER := 0;
+BEGIN
+  IF _household_id IS NULL THEN
+    RAISE EXCEPTION 'You are not a member of a household';
+  END IF;
+
+  IF jsonb_typeof(_items) IS DISTINCT FROM 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'There are no scanned items to add';
+  END IF;
+
+  IF jsonb_array_length(_items) > 200 THEN
+    RAISE EXCEPTION 'A scan session can add at most 200 items at once';
+  END IF;
+
+  FOR entry IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    entry_name := left(trim(entry ->> 'name'), 100);
+    entry_barcode := NULLIF(trim(entry ->> 'barcode'), '');
+    entry_quantity := (entry ->> 'quantity')::INTEGER;
+    entry_amount := COALESCE((entry ->> 'amount')::NUMERIC, 0);
+
+    IF entry_name IS NULL OR entry_name = '' THEN
+      RAISE EXCEPTION 'Every scanned item needs a name';
+    END IF;
+
+    IF entry_quantity IS NULL OR entry_quantity < 1 OR entry_quantity > 9999 THEN
+      RAISE EXCEPTION 'Quantity for % must be between 1 and 9999', entry_name;
+    END IF;
+
+    IF entry_amount < 0 OR entry_amount > 999999 THEN
+      RAISE EXCEPTION 'Price for % must be between 0 and 999999', entry_name;
+    END IF;
+
+    existing_item_id := NULL;
+    IF entry_barcode IS NOT NULL THEN
+      SELECT id INTO existing_item_id FROM public.grocery_items
+      WHERE household_id = _household_id AND barcode = entry_barcode
+      ORDER BY created_at
+      LIMIT 1;
+    END IF;
+
+    IF existing_item_id IS NOT NULL THEN
+      INSERT INTO public.inventory_movements (household_id, grocery_item_id, item_name, movement_type, quantity_delta, unit_price, expiry_date, reason, created_by)
+      VALUES (_household_id, existing_item_id, entry_name, 'purchased', entry_quantity, entry_amount / entry_quantity, (entry ->> 'expiry_date')::DATE, 'Scan session', auth.uid());
+      restocked := restocked + 1;
+    ELSE
+      INSERT INTO public.grocery_items (name, category_id, quantity, quantity_type, expiry_date, amount, image_url, barcode, user_id, household_id)
+      VALUES (
+        entry_name,
+        NULLIF(entry ->> 'category_id', '')::UUID,
+        entry_quantity,
+        COALESCE(NULLIF(trim(entry ->> 'quantity_type'), ''), 'pieces'),
+        (entry ->> 'expiry_date')::DATE,
+        entry_amount,
+        NULLIF(entry ->> 'image_url', ''),
+        entry_barcode,
+        auth.uid(),
+        _household_id
+      );
+      added := added + 1;
+    END IF;
+  END LOOP;
+
+  RETURN QUERY SELECT added, restocked;
+END;
+$$;
@@ -0,0 +1,4 @@
+-- Lot or batch number from the pack's GS1 barcode (AI 10, at most 20
+-- characters), kept for the most recently added stock so a recall notice
+-- can be checked against the pantry
+ALTER TABLE public.grocery_items ADD COLUMN lot_code TEXT CHECK (char_length(lot_code) <= 20);
@@ -0,0 +1,63 @@
+-- Barcode lookups go through the barcode-lookup edge function, which caches
+-- what external providers return in barcode_products. source is the
+-- provider the product name came from and field_sources the provider of
+-- each other field. fetched_at is when providers were last asked; rows
+-- entered directly have none and are never refreshed.
+ALTER TABLE public.barcode_products
+  ADD COLUMN source TEXT NOT NULL DEFAULT 'local',
+  ADD COLUMN field_sources JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN fetched_at TIMESTAMPTZ;
+
+-- Barcodes no provider knows, so they are not looked up again on every
+-- scan. Only the edge function reads and writes these.
+CREATE TABLE public.barcode_lookup_misses (
+  barcode TEXT PRIMARY KEY,
+  providers TEXT[] NOT NULL,
+  checked_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.barcode_lookup_misses ENABLE ROW LEVEL SECURITY;
+
+-- Products users have described themselves, one entry per user and barcode.
+-- The last provider in the lookup chain, for barcodes the open databases
+-- do not know.
+CREATE TABLE public.barcode_contributions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  barcode TEXT NOT NULL,
+  contributed_by UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 100),
+  brand TEXT,
+  category TEXT,
+  default_expiry_days INTEGER CHECK (default_expiry_days BETWEEN 1 AND 3650),
+  unit TEXT,
+  image_url TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (barcode, contributed_by)
+);
+
+CREATE INDEX idx_barcode_contributions_barcode ON public.barcode_contributions(barcode, updated_at DESC);
+
+CREATE TRIGGER update_barcode_contributions_updated_at BEFORE UPDATE ON public.barcode_contributions FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A new contribution answers a barcode that was cached as unknown
+CREATE OR REPLACE FUNCTION public.clear_barcode_lookup_miss()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.barcode_lookup_misses WHERE barcode = NEW.barcode;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.clear_barcode_lookup_miss() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER clear_barcode_lookup_miss AFTER INSERT OR UPDATE ON public.barcode_contributions FOR EACH ROW EXECUTE FUNCTION public.clear_barcode_lookup_miss();
+
+ALTER TABLE public.barcode_contributions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view barcode contributions" ON public.barcode_contributions FOR SELECT USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Users can add their own barcode contributions" ON public.barcode_contributions FOR INSERT WITH CHECK (auth.uid() = contributed_by);
+CREATE POLICY "Users can update their own barcode contributions" ON public.barcode_contributions FOR UPDATE USING (auth.uid() = contributed_by);
+CREATE POLICY "Users can delete their own barcode contributions" ON public.barcode_contributions FOR DELETE USING (auth.uid() = contributed_by);
@@ -0,0 +1,452 @@
+-- Community corrections to the shared barcode catalog. Users suggest edits
+-- to a product's name, brand, category, shelf life, unit or image; other
+-- users vote on them, catalog moderators can accept or reject them outright,
+-- and barcode_products only changes once a suggestion is accepted. Every
+-- change to a product, from a provider or a correction, is kept as a
+-- numbered revision.
+
+-- The fields suggestions can change, as compared between versions
+CREATE OR REPLACE FUNCTION public.barcode_catalog_fields(_product public.barcode_products)
+RETURNS JSONB
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT jsonb_build_object(
+    'name', _product.name,
+    'brand', _product.brand,
+    'category', _product.category,
+    'default_expiry_days', _product.default_expiry_days,
+    'unit', _product.unit,
+    'image_url', _product.image_url
+  );
+$$;
+
+ALTER TABLE public.barcode_products ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+
+-- Users who may accept or reject any suggestion, added by an administrator
+CREATE TABLE public.catalog_moderators (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.barcode_product_suggestions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  barcode_product_id UUID NOT NULL REFERENCES public.barcode_products(id) ON DELETE CASCADE,
+  -- The product version the edit was suggested against
+  base_version INTEGER NOT NULL,
+  -- {field: suggested value}, only fields that differ from base_version
+  changes JSONB NOT NULL,
+  comment TEXT CHECK (char_length(comment) <= 500),
+  suggested_by UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected', 'superseded', 'withdrawn')),
+  -- Sum of the votes, +1 or -1 each
+  score INTEGER NOT NULL DEFAULT 0,
+  -- The moderator who decided, or null when the votes did
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_barcode_product_suggestions_product ON public.barcode_product_suggestions(barcode_product_id, created_at DESC);
+CREATE UNIQUE INDEX idx_barcode_product_suggestions_one_pending ON public.barcode_product_suggestions(barcode_product_id, suggested_by) WHERE status = 'pending';
+
+CREATE TABLE public.barcode_suggestion_votes (
+  suggestion_id UUID NOT NULL REFERENCES public.barcode_product_suggestions(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  vote SMALLINT NOT NULL CHECK (vote IN (-1, 1)),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (suggestion_id, user_id)
+);
+
+CREATE TABLE public.barcode_product_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  barcode_product_id UUID NOT NULL REFERENCES public.barcode_products(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  -- provider: refreshed by barcode-lookup; correction: an accepted
+  -- suggestion; manual: anything else, such as the original seed data
+  source TEXT NOT NULL CHECK (source IN ('provider', 'correction', 'manual')),
+  -- {field: value} after and before this revision
+  changes JSONB NOT NULL,
+  previous JSONB NOT NULL DEFAULT '{}'::jsonb,
+  suggestion_id UUID REFERENCES public.barcode_product_suggestions(id) ON DELETE SET NULL,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (barcode_product_id, version)
+);
+
+CREATE OR REPLACE FUNCTION public.is_catalog_moderator()
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.catalog_moderators WHERE user_id = auth.uid());
+$$;
+
+-- Catalog changes bump the version; weight and bookkeeping columns do not
+CREATE OR REPLACE FUNCTION public.version_barcode_product()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.version := 1;
+  ELSIF public.barcode_catalog_fields(NEW) IS DISTINCT FROM public.barcode_catalog_fields(OLD) THEN
+    NEW.version := OLD.version + 1;
+  ELSE
+    NEW.version := OLD.version;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER version_barcode_product BEFORE INSERT OR UPDATE ON public.barcode_products FOR EACH ROW EXECUTE FUNCTION public.version_barcode_product();
+
+-- Records the fields a new version changed. An accepted suggestion sets
+-- catalog.suggestion_id for the update it makes.
+CREATE OR REPLACE FUNCTION public.record_barcode_product_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  new_fields JSONB := public.barcode_catalog_fields(NEW);
+  old_fields JSONB := CASE WHEN TG_OP = 'UPDATE' THEN public.barcode_catalog_fields(OLD) ELSE '{}'::jsonb END;
+  changed JSONB := '{}'::jsonb;
+  previous JSONB := '{}'::jsonb;
+  field TEXT;
+  _suggestion_id UUID := NULLIF(current_setting('catalog.suggestion_id', true), '')::UUID;
+  _changed_by UUID := auth.uid();
+  _source TEXT := 'manual';
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.version = OLD.version THEN
+    RETURN NEW;
+  END IF;
+
+  FOR field IN SELECT jsonb_object_keys(new_fields)
+  LOOP
+    IF TG_OP = 'INSERT' OR new_fields -> field IS DISTINCT FROM old_fields -> field THEN
+      changed := changed || jsonb_build_object(field, new_fields -> field);
+      IF TG_OP = 'UPDATE' THEN
+        previous := previous || jsonb_build_object(field, old_fields -> field);
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF _suggestion_id IS NOT NULL THEN
+    _source := 'correction';
+    SELECT suggested_by INTO _changed_by FROM public.barcode_product_suggestions WHERE id = _suggestion_id;
+  ELSIF NEW.fetched_at IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.fetched_at IS DISTINCT FROM OLD.fetched_at) THEN
+    _source := 'provider';
+  END IF;
+
+  INSERT INTO public.barcode_product_revisions (barcode_product_id, version, source, changes, previous, suggestion_id, changed_by)
+  VALUES (NEW.id, NEW.version, _source, changed, previous, _suggestion_id, _changed_by);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_barcode_product_revision AFTER INSERT OR UPDATE ON public.barcode_products FOR EACH ROW EXECUTE FUNCTION public.record_barcode_product_revision();
+
+-- Makes an accepted suggestion's changes to the product and supersedes the
+-- pending suggestions that wanted something else for the same fields.
+-- Corrected fields are attributed to the community, so provider refreshes
+-- keep them. A suggestion whose fields have changed since the version it
+-- was made against is superseded instead of applied over the newer values.
+-- Returns the suggestion's status afterwards.
+CREATE OR REPLACE FUNCTION public.accept_barcode_suggestion(_suggestion_id UUID, _resolved_by UUID)
+RETURNS TEXT
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  suggestion RECORD;
+BEGIN
+  SELECT * INTO suggestion FROM public.barcode_product_suggestions WHERE id = _suggestion_id FOR UPDATE;
+
+  IF NOT FOUND OR suggestion.status <> 'pending' THEN
+    RAISE EXCEPTION 'This suggestion is no longer open';
+  END IF;
+
+  -- Locked so no other change lands between the check and the update
+  PERFORM 1 FROM public.barcode_products WHERE id = suggestion.barcode_product_id FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.barcode_product_revisions revision, jsonb_object_keys(revision.changes) AS key
+    WHERE revision.barcode_product_id = suggestion.barcode_product_id
+      AND revision.version > suggestion.base_version
+      AND suggestion.changes ? key
+  ) THEN
+    UPDATE public.barcode_product_suggestions
+    SET status = 'superseded', resolved_by = _resolved_by, resolved_at = now()
+    WHERE id = _suggestion_id;
+    RETURN 'superseded';
+  END IF;
+
+  PERFORM set_config('catalog.suggestion_id', _suggestion_id::TEXT, true);
+
+  UPDATE public.barcode_products
+  SET
+    name = CASE WHEN suggestion.changes ? 'name' THEN suggestion.changes ->> 'name' ELSE name END,
+    product_name = CASE WHEN suggestion.changes ? 'name' THEN suggestion.changes ->> 'name' ELSE product_name END,
+    brand = CASE WHEN suggestion.changes ? 'brand' THEN suggestion.changes ->> 'brand' ELSE brand END,
+    category = CASE WHEN suggestion.changes ? 'category' THEN suggestion.changes ->> 'category' ELSE category END,
+    default_expiry_days = CASE WHEN suggestion.changes ? 'default_expiry_days' THEN (suggestion.changes ->> 'default_expiry_days')::INTEGER ELSE default_expiry_days END,
+    unit = CASE WHEN suggestion.changes ? 'unit' THEN suggestion.changes ->> 'unit' ELSE unit END,
+    image_url = CASE WHEN suggestion.changes ? 'image_url' THEN suggestion.changes ->> 'image_url' ELSE image_url END,
+    source = CASE WHEN suggestion.changes ? 'name' THEN 'community' ELSE source END,
+    field_sources = field_sources || (SELECT jsonb_object_agg(key, 'community'::TEXT) FROM jsonb_object_keys(suggestion.changes) AS key)
+  WHERE id = suggestion.barcode_product_id;
+
+  PERFORM set_config('catalog.suggestion_id', '', true);
+
+  UPDATE public.barcode_product_suggestions
+  SET status = 'accepted', resolved_by = _resolved_by, resolved_at = now()
+  WHERE id = _suggestion_id;
+
+  UPDATE public.barcode_product_suggestions other
+  SET status = 'superseded', resolved_at = now()
+  WHERE other.barcode_product_id = suggestion.barcode_product_id
+    AND other.status = 'pending'
+    AND EXISTS (SELECT 1 FROM jsonb_object_keys(other.changes) AS key WHERE suggestion.changes ? key);
+
+  RETURN 'accepted';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.accept_barcode_suggestion(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Suggests new values for some of a product's catalog fields. Values equal
+-- to the current ones are dropped; a user's earlier pending suggestion for
+-- the same product is withdrawn.
+CREATE OR REPLACE FUNCTION public.suggest_barcode_correction(_barcode_product_id UUID, _changes JSONB, _comment TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  product public.barcode_products;
+  current_fields JSONB;
+  changed JSONB := '{}'::jsonb;
+  field TEXT;
+  value JSONB;
+  text_value TEXT;
+  new_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to suggest a correction';
+  END IF;
+
+  SELECT * INTO product FROM public.barcode_products WHERE id = _barcode_product_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  IF jsonb_typeof(_changes) IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'Suggested changes must be an object of fields';
+  END IF;
+
+  current_fields := public.barcode_catalog_fields(product);
+
+  FOR field, value IN SELECT * FROM jsonb_each(_changes)
+  LOOP
+    IF NOT current_fields ? field THEN
+      RAISE EXCEPTION 'The field % cannot be changed', field;
+    END IF;
+
+    -- Blank text clears a field
+    IF jsonb_typeof(value) = 'string' THEN
+      text_value := NULLIF(trim(value #>> '{}'), '');
+      value := COALESCE(to_jsonb(text_value), 'null'::jsonb);
+    END IF;
+
+    IF field = 'name' AND (value = 'null'::jsonb OR char_length(value #>> '{}') > 100) THEN
+      RAISE EXCEPTION 'The name must be between 1 and 100 characters';
+    END IF;
+
+    IF field = 'default_expiry_days' AND value <> 'null'::jsonb THEN
+      IF jsonb_typeof(value) <> 'number' THEN
+        RAISE EXCEPTION 'The shelf life must be a number of days';
+      ELSIF (value #>> '{}')::NUMERIC NOT BETWEEN 1 AND 3650 OR (value #>> '{}')::NUMERIC % 1 <> 0 THEN
+        RAISE EXCEPTION 'The shelf life must be a whole number of days between 1 and 3650';
+      END IF;
+    END IF;
+
+    IF field IN ('brand', 'category', 'unit') AND value <> 'null'::jsonb
+      AND (jsonb_typeof(value) <> 'string' OR char_length(value #>> '{}') > 100) THEN
+      RAISE EXCEPTION 'The % must be at most 100 characters', field;
+    END IF;
+
+    IF field = 'image_url' AND value <> 'null'::jsonb
+      AND (jsonb_typeof(value) <> 'string' OR (value #>> '{}') !~ '^https://' OR char_length(value #>> '{}') > 2048) THEN
+      RAISE EXCEPTION 'The image must be an https:// link';
+    END IF;
+
+    IF value IS DISTINCT FROM current_fields -> field THEN
+      changed := changed || jsonb_build_object(field, value);
+    END IF;
+  END LOOP;
+
+  IF changed = '{}'::jsonb THEN
+    RAISE EXCEPTION 'The suggestion does not change anything';
+  END IF;
+
+  UPDATE public.barcode_product_suggestions
+  SET status = 'withdrawn', resolved_at = now()
+  WHERE barcode_product_id = _barcode_product_id AND suggested_by = auth.uid() AND status = 'pending';
+
+  INSERT INTO public.barcode_product_suggestions (barcode_product_id, base_version, changes, comment, suggested_by)
+  VALUES (_barcode_product_id, product.version, changed, NULLIF(left(trim(_comment), 500), ''), auth.uid())
+  RETURNING id INTO new_id;
+
+  RETURN new_id;
+END;
+$$;
+
+-- Votes for (1) or against (-1) someone else's suggestion, or takes the
+-- vote back (0). The suggestion is accepted or rejected as soon as its
+-- score reaches a threshold. Returns its status afterwards.
+CREATE OR REPLACE FUNCTION public.vote_on_barcode_suggestion(_suggestion_id UUID, _vote INTEGER)
+RETURNS TEXT
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  suggestion RECORD;
+  new_score INTEGER;
+  contested BOOLEAN;
+  -- Score needed to accept a suggestion, higher when another pending
+  -- suggestion wants a different value for one of its fields
+  accept_uncontested CONSTANT INTEGER := 2;
+  accept_contested CONSTANT INTEGER := 4;
+  reject_at CONSTANT INTEGER := -2;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to vote';
+  END IF;
+
+  IF _vote NOT IN (-1, 0, 1) THEN
+    RAISE EXCEPTION 'A vote must be -1, 0 or 1';
+  END IF;
+
+  SELECT * INTO suggestion FROM public.barcode_product_suggestions WHERE id = _suggestion_id FOR UPDATE;
+
+  IF NOT FOUND OR suggestion.status <> 'pending' THEN
+    RAISE EXCEPTION 'This suggestion is no longer open';
+  END IF;
+
+  IF suggestion.suggested_by = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot vote on your own suggestion';
+  END IF;
+
+  IF _vote = 0 THEN
+    DELETE FROM public.barcode_suggestion_votes WHERE suggestion_id = _suggestion_id AND user_id = auth.uid();
+  ELSE
+    INSERT INTO public.barcode_suggestion_votes (suggestion_id, user_id, vote)
+    VALUES (_suggestion_id, auth.uid(), _vote)
+    ON CONFLICT (suggestion_id, user_id) DO UPDATE SET vote = EXCLUDED.vote, created_at = now();
+  END IF;
+
+  SELECT COALESCE(SUM(vote), 0) INTO new_score FROM public.barcode_suggestion_votes WHERE suggestion_id = _suggestion_id;
+  UPDATE public.barcode_product_suggestions SET score = new_score WHERE id = _suggestion_id;
+
+  contested := EXISTS (
+    SELECT 1 FROM public.barcode_product_suggestions other, jsonb_each(other.changes) AS change
+    WHERE other.barcode_product_id = suggestion.barcode_product_id
+      AND other.id <> _suggestion_id
+      AND other.status = 'pending'
+      AND suggestion.changes ? change.key
+      AND suggestion.changes -> change.key IS DISTINCT FROM change.value
+  );
+
+  IF new_score >= CASE WHEN contested THEN accept_contested ELSE accept_uncontested END THEN
+    RETURN public.accept_barcode_suggestion(_suggestion_id, NULL);
+  END IF;
+
+  IF new_score <= reject_at THEN
+    UPDATE public.barcode_product_suggestions SET status = 'rejected', resolved_at = now() WHERE id = _suggestion_id;
+    RETURN 'rejected';
+  END IF;
+
+  RETURN 'pending';
+END;
+$$;
+
+-- Lets a moderator settle a suggestion regardless of its votes. Returns
+-- its status afterwards, which is superseded when accepting it would have
+-- overwritten a newer change.
+CREATE OR REPLACE FUNCTION public.review_barcode_suggestion(_suggestion_id UUID, _accept BOOLEAN)
+RETURNS TEXT
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_catalog_moderator() THEN
+    RAISE EXCEPTION 'Only catalog moderators can review suggestions';
+  END IF;
+
+  IF _accept THEN
+    RETURN public.accept_barcode_suggestion(_suggestion_id, auth.uid());
+  ELSE
+    UPDATE public.barcode_product_suggestions
+    SET status = 'rejected', resolved_by = auth.uid(), resolved_at = now()
+    WHERE id = _suggestion_id AND status = 'pending';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'This suggestion is no longer open';
+    END IF;
+
+    RETURN 'rejected';
+  END IF;
+END;
+$$;
+
+-- Lets the author take back a suggestion that is still open
+CREATE OR REPLACE FUNCTION public.withdraw_barcode_suggestion(_suggestion_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.barcode_product_suggestions
+  SET status = 'withdrawn', resolved_at = now()
+  WHERE id = _suggestion_id AND suggested_by = auth.uid() AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This suggestion is no longer open';
+  END IF;
+END;
+$$;
+
+-- Existing products start their history at version 1
+INSERT INTO public.barcode_product_revisions (barcode_product_id, version, source, changes, created_at)
+SELECT id, version, CASE WHEN fetched_at IS NOT NULL THEN 'provider' ELSE 'manual' END, public.barcode_catalog_fields(barcode_products), created_at
+FROM public.barcode_products;
+
+-- The catalog now only changes through barcode-lookup and accepted
+-- suggestions, so users lose direct write access
+DROP POLICY IF EXISTS "Authenticated users can insert barcode products" ON public.barcode_products;
+DROP POLICY IF EXISTS "Authenticated users can update barcode products" ON public.barcode_products;
+DROP POLICY IF EXISTS "Authenticated users can delete barcode products" ON public.barcode_products;
+
+-- Scale readings from any user still update the product's current weight,
+-- as long as no later reading for the barcode is already stored
+CREATE OR REPLACE FUNCTION public.sync_weight_to_product()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.weight_readings
+    WHERE barcode = NEW.barcode AND recorded_at > NEW.recorded_at
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.barcode_products
+  SET current_weight = NEW.weight, updated_at = now()
+  WHERE barcode = NEW.barcode;
+  RETURN NEW;
+END;
+$$;
+
+ALTER TABLE public.catalog_moderators ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.barcode_product_suggestions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.barcode_suggestion_votes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.barcode_product_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view suggestions" ON public.barcode_product_suggestions FOR SELECT USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Users can view their own votes" ON public.barcode_suggestion_votes FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Authenticated users can view product revisions" ON public.barcode_product_revisions FOR SELECT USING (auth.uid() IS NOT NULL);
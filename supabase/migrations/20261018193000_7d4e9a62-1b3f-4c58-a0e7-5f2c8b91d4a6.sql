@@ -0,0 +1,62 @@
+-- Saves an edit to an item in one transaction. The item is locked while its
+-- quantity change is worked out, so a movement recorded at the same time
+-- cannot skew the adjustment, and the edit is saved only if the adjustment
+-- is. _changes holds the columns to change; anything left out keeps its
+-- value.
+CREATE OR REPLACE FUNCTION public.update_grocery_item(_item_id UUID, _quantity INTEGER, _changes JSONB)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  item public.grocery_items;
+  edited public.grocery_items;
+  delta INTEGER;
+  new_unit_price NUMERIC;
+BEGIN
+  IF _quantity IS NULL OR _quantity < 0 OR _quantity > 9999 THEN
+    RAISE EXCEPTION 'Quantity must be between 0 and 9999';
+  END IF;
+
+  SELECT * INTO item FROM public.grocery_items
+  WHERE id = _item_id AND public.is_household_member(household_id)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  edited := jsonb_populate_record(item, _changes - 'id' - 'household_id' - 'user_id' - 'quantity');
+  delta := _quantity - COALESCE(item.quantity, 0);
+
+  -- Quantity is derived from the ledger, so the change is recorded as an
+  -- adjustment priced from the item as it was before the edit. Added stock
+  -- is priced by how much the edit raised the amount, if it did.
+  IF delta <> 0 THEN
+    IF delta > 0 AND edited.amount IS DISTINCT FROM item.amount THEN
+      new_unit_price := GREATEST(COALESCE(edited.amount, 0) - COALESCE(item.amount, 0), 0) / delta;
+    END IF;
+
+    INSERT INTO public.inventory_movements (household_id, grocery_item_id, item_name, movement_type, quantity_delta, unit_price, expiry_date, created_by)
+    VALUES (item.household_id, item.id, item.name, 'adjusted', delta, new_unit_price, edited.expiry_date, auth.uid());
+  END IF;
+
+  -- The adjustment has already updated the amount and expiry from the lots,
+  -- so they are only written when the user changed them
+  UPDATE public.grocery_items
+  SET name = edited.name,
+      category_id = edited.category_id,
+      quantity_type = edited.quantity_type,
+      expiry_date = CASE WHEN edited.expiry_date IS DISTINCT FROM item.expiry_date THEN edited.expiry_date ELSE expiry_date END,
+      amount = CASE WHEN edited.amount IS DISTINCT FROM item.amount THEN edited.amount ELSE amount END,
+      image_url = edited.image_url,
+      barcode = edited.barcode,
+      lot_code = edited.lot_code,
+      min_quantity = edited.min_quantity,
+      target_quantity = edited.target_quantity,
+      scale_tare_weight = edited.scale_tare_weight,
+      scale_unit_weight = edited.scale_unit_weight,
+      scale_auto_apply = edited.scale_auto_apply,
+      updated_at = now()
+  WHERE id = _item_id;
+END;
+$$;